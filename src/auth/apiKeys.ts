@@ -0,0 +1,62 @@
+// API key verification
+//
+// Keys are configured as SHA-256 hashes so the plaintext never has to be stored
+// on the server. Generate a hash with:
+//   node -e "console.log(require('crypto').createHash('sha256').update(process.argv[1]).digest('hex'))" <key>
+
+import { createHash, timingSafeEqual } from "node:crypto";
+
+export interface ApiKeyEntry {
+  // Human-readable label identifying who the key was issued to
+  name: string;
+  // Lowercase hex SHA-256 digest of the key
+  hash: string;
+  // personal_data.user_id that requests made with this key are scoped to
+  userId?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Parses DATADAM_API_KEYS, a comma-separated list of `name:sha256hex` or
+ * `name:sha256hex:userUuid` entries
+ */
+export function parseApiKeys(value: string | undefined): ApiKeyEntry[] {
+  if (!value || value.trim() === '') {
+    return [];
+  }
+
+  return value.split(',').map((raw) => raw.trim()).filter(Boolean).map((entry) => {
+    const [name, rawHash, userId, ...rest] = entry.split(':').map((part) => part.trim());
+    const hash = (rawHash || '').toLowerCase();
+
+    if (!name || !/^[0-9a-f]{64}$/.test(hash) || rest.length > 0 || (userId !== undefined && !isUuid(userId))) {
+      throw new Error(`Invalid DATADAM_API_KEYS entry "${entry}". Expected "name:<sha256 hex digest>" or "name:<sha256 hex digest>:<user uuid>".`);
+    }
+    return userId ? { name, hash, userId } : { name, hash };
+  });
+}
+
+/**
+ * Returns the entry matching the presented key, comparing digests in constant time
+ */
+export function findApiKey(entries: ApiKeyEntry[], presentedKey: string): ApiKeyEntry | undefined {
+  const presented = Buffer.from(hashApiKey(presentedKey), 'hex');
+  let match: ApiKeyEntry | undefined;
+
+  // Compare against every entry so timing does not reveal which key matched
+  for (const entry of entries) {
+    if (timingSafeEqual(presented, Buffer.from(entry.hash, 'hex')) && !match) {
+      match = entry;
+    }
+  }
+  return match;
+}
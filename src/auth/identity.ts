@@ -0,0 +1,42 @@
+// Session identity derived from the authenticated request
+
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isUuid } from "./apiKeys.js";
+
+export interface SessionIdentity {
+  // Name of the API key (directly or via OAuth) that opened the session
+  principal: string;
+  // personal_data.user_id every store call is scoped to; null means unscoped (single-user deployments)
+  userId: string | null;
+}
+
+export const ANONYMOUS_PRINCIPAL = "anonymous";
+
+// Reads DATADAM_ADMIN_PRINCIPALS, a comma-separated list of API key names
+export function getAdminPrincipals(): string[] {
+  return (process.env.DATADAM_ADMIN_PRINCIPALS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+// Admins may read the audit log and open sessions of every user and manage the shared category registry
+export function isAdminPrincipal(principal: string): boolean {
+  return getAdminPrincipals().includes(principal);
+}
+
+// DATABASE_USER_ID scopes keys configured without an explicit user id
+function defaultUserId(): string | null {
+  const value = process.env.DATABASE_USER_ID;
+  return value && isUuid(value) ? value : null;
+}
+
+export function resolveIdentity(authInfo?: AuthInfo): SessionIdentity {
+  const principal = authInfo?.extra?.principal;
+  const userId = authInfo?.extra?.userId;
+
+  return {
+    principal: typeof principal === 'string' ? principal : ANONYMOUS_PRINCIPAL,
+    userId: typeof userId === 'string' ? userId : defaultUserId()
+  };
+}
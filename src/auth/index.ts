@@ -0,0 +1,50 @@
+// Authentication setup for the HTTP server
+
+import express from "express";
+import { mcpAuthRouter, getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { parseApiKeys, findApiKey } from "./apiKeys.js";
+import { createOAuthProvider, OAUTH_APPROVE_PATH, OAUTH_SCOPE } from "./oauth.js";
+import { createAuthMiddleware } from "./middleware.js";
+
+/**
+ * Reads the auth configuration from the environment, mounts the OAuth
+ * endpoints when DATADAM_OAUTH_ISSUER_URL is set, and returns the middleware
+ * that protects the MCP endpoints.
+ */
+export function setupAuth(app: express.Express): express.RequestHandler {
+  if (process.env.DATADAM_AUTH_DISABLED === 'true') {
+    console.warn("⚠️  Authentication is disabled (DATADAM_AUTH_DISABLED=true). Anyone who can reach this server can read and modify all data.");
+    return (_req, _res, next) => next();
+  }
+
+  const apiKeys = parseApiKeys(process.env.DATADAM_API_KEYS);
+  if (apiKeys.length === 0) {
+    throw new Error("No API keys configured. Set DATADAM_API_KEYS (see .env.example), or DATADAM_AUTH_DISABLED=true for local development only.");
+  }
+
+  const issuer = process.env.DATADAM_OAUTH_ISSUER_URL;
+  if (!issuer) {
+    console.log(`🔐 API key authentication enabled (${apiKeys.length} key(s))`);
+    return createAuthMiddleware({ apiKeys });
+  }
+
+  const issuerUrl = new URL(issuer);
+  const provider = createOAuthProvider((apiKey) => findApiKey(apiKeys, apiKey) ?? null);
+
+  app.use(mcpAuthRouter({
+    provider,
+    issuerUrl,
+    scopesSupported: [OAUTH_SCOPE],
+    resourceName: 'DataDam Personal Data'
+  }));
+  app.post(OAUTH_APPROVE_PATH, express.urlencoded({ extended: false }), (req, res) => {
+    provider.handleApproval(req, res);
+  });
+
+  console.log(`🔐 API key and OAuth authentication enabled (issuer: ${issuerUrl.href})`);
+  return createAuthMiddleware({
+    apiKeys,
+    oauthVerifier: provider,
+    resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(issuerUrl)
+  });
+}
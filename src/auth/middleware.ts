@@ -0,0 +1,93 @@
+// Authentication middleware for the MCP HTTP endpoints
+
+import type express from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+// Brings in the SDK's `req.auth` typing for express requests
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { findApiKey, type ApiKeyEntry } from "./apiKeys.js";
+
+// JSON-RPC error code used for authentication failures (implementation-defined server error range)
+export const UNAUTHORIZED_ERROR_CODE = -32001;
+
+export interface AuthMiddlewareOptions {
+  apiKeys: ApiKeyEntry[];
+  // Verifies OAuth access tokens when the built-in authorization server is enabled
+  oauthVerifier?: OAuthTokenVerifier;
+  // Advertised in WWW-Authenticate so clients can discover the authorization server
+  resourceMetadataUrl?: string;
+}
+
+function extractCredential(req: express.Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (authHeader) {
+    const [type, token] = authHeader.split(' ');
+    if (type?.toLowerCase() === 'bearer' && token) {
+      return token.trim();
+    }
+  }
+
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader.trim() !== '') {
+    return apiKeyHeader.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Requires a valid API key or OAuth access token, supplied either as
+ * `Authorization: Bearer <token>` or `X-API-Key: <key>`. On success the
+ * verified identity is attached as `req.auth`, which the Streamable HTTP
+ * transport forwards to tool handlers as `extra.authInfo`.
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions): express.RequestHandler {
+  const { apiKeys, oauthVerifier, resourceMetadataUrl } = options;
+
+  const reject = (req: express.Request, res: express.Response, description: string) => {
+    const challenge = resourceMetadataUrl
+      ? `Bearer error="invalid_token", error_description="${description}", resource_metadata="${resourceMetadataUrl}"`
+      : `Bearer error="invalid_token", error_description="${description}"`;
+    res.set('WWW-Authenticate', challenge);
+    res.status(401).json({
+      jsonrpc: '2.0',
+      error: {
+        code: UNAUTHORIZED_ERROR_CODE,
+        message: `Unauthorized: ${description}`,
+      },
+      id: req.body?.id ?? null,
+    });
+  };
+
+  return async (req, res, next) => {
+    const credential = extractCredential(req);
+    if (!credential) {
+      reject(req, res, 'Missing credentials. Provide an API key or OAuth access token as a Bearer token.');
+      return;
+    }
+
+    const apiKey = findApiKey(apiKeys, credential);
+    if (apiKey) {
+      const authInfo: AuthInfo = {
+        token: credential,
+        clientId: apiKey.name,
+        scopes: [],
+        extra: { principal: apiKey.name, userId: apiKey.userId, authMethod: 'api_key' }
+      };
+      req.auth = authInfo;
+      next();
+      return;
+    }
+
+    if (oauthVerifier) {
+      try {
+        req.auth = await oauthVerifier.verifyAccessToken(credential);
+        next();
+        return;
+      } catch {
+        // Fall through to the generic rejection below
+      }
+    }
+
+    reject(req, res, 'Invalid or expired credentials.');
+  };
+}
@@ -0,0 +1,347 @@
+// Minimal OAuth 2.1 authorization server for MCP connectors
+//
+// Claude and ChatGPT connectors discover this server through the standard
+// metadata endpoints, register dynamically and run the authorization code
+// flow with PKCE. The user approves a connector by entering one of the
+// configured DataDam API keys, so OAuth tokens resolve to the same principals
+// as API keys. All state is held in memory: restarting the server requires
+// connectors to sign in again. Expired entries are dropped as new ones are
+// added, and every map is capped so unauthenticated registrations and
+// authorization requests cannot grow memory without bound.
+
+import { randomBytes, randomUUID } from "node:crypto";
+import type { Request, Response } from "express";
+import type { OAuthServerProvider, AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthClientInformationFull, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { InvalidGrantError, InvalidTokenError, TooManyRequestsError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { hashApiKey, type ApiKeyEntry } from "./apiKeys.js";
+
+// Resolves a presented API key to the entry it was issued as
+export type ApiKeyResolver = (apiKey: string) => ApiKeyEntry | null;
+
+export const OAUTH_SCOPE = "datadam";
+export const OAUTH_APPROVE_PATH = "/oauth/approve";
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+// Registered clients that never obtained a token are forgotten after this long
+const UNUSED_CLIENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface OAuthLimits {
+  maxClients: number;
+  // Authorization requests waiting for approval
+  maxPending: number;
+  maxCodes: number;
+  // Access and refresh tokens, counted separately
+  maxTokens: number;
+}
+
+export const DEFAULT_OAUTH_LIMITS: OAuthLimits = {
+  maxClients: 1000,
+  maxPending: 1000,
+  maxCodes: 1000,
+  maxTokens: 10000
+};
+
+export interface OAuthProviderOptions {
+  limits?: Partial<OAuthLimits>;
+  // Milliseconds since epoch
+  now?: () => number;
+}
+
+interface RegisteredClient {
+  client: OAuthClientInformationFull;
+  registeredAt: number;
+}
+
+interface PendingAuthorization {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  params: AuthorizationParams;
+  apiKey: ApiKeyEntry;
+  expiresAt: number;
+}
+
+interface IssuedToken {
+  clientId: string;
+  apiKey: ApiKeyEntry;
+  scopes: string[];
+  resource?: URL;
+  // Seconds since epoch
+  expiresAt: number;
+}
+
+// Drops entries that have expired, then the oldest ones, until there is room for one more.
+// Maps iterate in insertion order, so the first entries are the oldest.
+function makeRoom<T>(entries: Map<string, T>, max: number, isExpired: (entry: T) => boolean): void {
+  for (const [key, entry] of entries) {
+    if (isExpired(entry)) {
+      entries.delete(key);
+    }
+  }
+  for (const key of entries.keys()) {
+    if (entries.size < max) {
+      break;
+    }
+    entries.delete(key);
+  }
+}
+
+export interface DataDamOAuthProvider extends OAuthServerProvider {
+  /**
+   * Handles the approval form posted to OAUTH_APPROVE_PATH and redirects back
+   * to the client with an authorization code once the API key checks out
+   */
+  handleApproval(req: Request, res: Response): void;
+}
+
+function newToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+  }[char]!));
+}
+
+function renderApprovalPage(requestId: string, clientName: string, error?: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Authorize ${escapeHtml(clientName)} - Datadam</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 420px; margin: 80px auto; padding: 0 20px; color: #333; }
+    input { width: 100%; padding: 10px; margin: 12px 0; box-sizing: border-box; }
+    button { padding: 10px 20px; background: #667eea; color: white; border: none; border-radius: 6px; cursor: pointer; }
+    .error { color: #c0392b; }
+  </style>
+</head>
+<body>
+  <h2>Connect ${escapeHtml(clientName)} to Datadam</h2>
+  <p>${escapeHtml(clientName)} is requesting access to your personal data. Enter your Datadam API key to approve.</p>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  <form method="post" action="${OAUTH_APPROVE_PATH}">
+    <input type="hidden" name="request_id" value="${escapeHtml(requestId)}">
+    <input type="password" name="api_key" placeholder="API key" autocomplete="off" required>
+    <button type="submit">Approve</button>
+  </form>
+</body>
+</html>`;
+}
+
+export function createOAuthProvider(resolveApiKey: ApiKeyResolver, options: OAuthProviderOptions = {}): DataDamOAuthProvider {
+  const limits = { ...DEFAULT_OAUTH_LIMITS, ...options.limits };
+  const now = options.now || Date.now;
+  const nowSeconds = () => now() / 1000;
+
+  const clients = new Map<string, RegisteredClient>();
+  const pending = new Map<string, PendingAuthorization>();
+  const codes = new Map<string, AuthorizationCode>();
+  // Tokens are keyed by their SHA-256 digest so plaintext tokens are never retained
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedToken>();
+
+  const tokenExpired = (token: IssuedToken) => token.expiresAt < nowSeconds();
+
+  // Clients with an unexpired authorization request, code or token
+  const clientsInUse = (): Set<string> => {
+    const at = now();
+    const inUse = new Set<string>();
+    pending.forEach((request) => {
+      if (request.expiresAt >= at) {
+        inUse.add(request.client.client_id);
+      }
+    });
+    codes.forEach((code) => {
+      if (code.expiresAt >= at) {
+        inUse.add(code.clientId);
+      }
+    });
+    for (const tokens of [accessTokens, refreshTokens]) {
+      tokens.forEach((token) => {
+        if (!tokenExpired(token)) {
+          inUse.add(token.clientId);
+        }
+      });
+    }
+    return inUse;
+  };
+
+  // Forgets clients that have been registered for a day without being in use, then,
+  // at the cap, the oldest unused ones. Refuses the registration when every client is in use.
+  const makeRoomForClient = () => {
+    const at = now();
+    const inUse = clientsInUse();
+    const unused = [...clients].filter(([clientId]) => !inUse.has(clientId));
+    for (const [clientId, entry] of unused) {
+      if (at - entry.registeredAt >= UNUSED_CLIENT_TTL_MS || clients.size >= limits.maxClients) {
+        clients.delete(clientId);
+      }
+    }
+    if (clients.size >= limits.maxClients) {
+      throw new TooManyRequestsError("Too many registered clients. Try again later.");
+    }
+  };
+
+  const clientsStore: OAuthRegisteredClientsStore = {
+    getClient(clientId) {
+      return clients.get(clientId)?.client;
+    },
+    registerClient(client) {
+      const full = client as OAuthClientInformationFull;
+      makeRoomForClient();
+      clients.set(full.client_id, { client: full, registeredAt: now() });
+      return full;
+    }
+  };
+
+  function issueTokens(clientId: string, apiKey: ApiKeyEntry, scopes: string[], resource?: URL): OAuthTokens {
+    const issuedAt = Math.floor(nowSeconds());
+    const accessToken = newToken();
+    const refreshToken = newToken();
+
+    makeRoom(accessTokens, limits.maxTokens, tokenExpired);
+    accessTokens.set(hashApiKey(accessToken), {
+      clientId, apiKey, scopes, resource, expiresAt: issuedAt + ACCESS_TOKEN_TTL_SECONDS
+    });
+    makeRoom(refreshTokens, limits.maxTokens, tokenExpired);
+    refreshTokens.set(hashApiKey(refreshToken), {
+      clientId, apiKey, scopes, resource, expiresAt: issuedAt + REFRESH_TOKEN_TTL_SECONDS
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      scope: scopes.join(' '),
+      refresh_token: refreshToken
+    };
+  }
+
+  return {
+    get clientsStore() {
+      return clientsStore;
+    },
+
+    async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: Response) {
+      const requestId = randomUUID();
+      makeRoom(pending, limits.maxPending, (request) => request.expiresAt < now());
+      pending.set(requestId, { client, params, expiresAt: now() + AUTHORIZATION_TTL_MS });
+      res.setHeader('Content-Type', 'text/html');
+      res.send(renderApprovalPage(requestId, client.client_name || client.client_id));
+    },
+
+    handleApproval(req: Request, res: Response) {
+      res.setHeader('Cache-Control', 'no-store');
+      const requestId = typeof req.body?.request_id === 'string' ? req.body.request_id : '';
+      const apiKey = typeof req.body?.api_key === 'string' ? req.body.api_key : '';
+      const request = pending.get(requestId);
+
+      if (!request || request.expiresAt < now()) {
+        pending.delete(requestId);
+        res.status(400).send('Authorization request expired. Please start the connection again from your AI client.');
+        return;
+      }
+
+      const apiKeyEntry = resolveApiKey(apiKey);
+      if (!apiKeyEntry) {
+        res.status(401).setHeader('Content-Type', 'text/html');
+        res.send(renderApprovalPage(requestId, request.client.client_name || request.client.client_id, 'Invalid API key.'));
+        return;
+      }
+
+      pending.delete(requestId);
+      const code = newToken();
+      makeRoom(codes, limits.maxCodes, (entry) => entry.expiresAt < now());
+      codes.set(code, {
+        clientId: request.client.client_id,
+        params: request.params,
+        apiKey: apiKeyEntry,
+        expiresAt: now() + AUTHORIZATION_TTL_MS
+      });
+
+      const redirect = new URL(request.params.redirectUri);
+      redirect.searchParams.set('code', code);
+      if (request.params.state) {
+        redirect.searchParams.set('state', request.params.state);
+      }
+      res.redirect(302, redirect.href);
+    },
+
+    async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string) {
+      const code = codes.get(authorizationCode);
+      if (!code || code.clientId !== client.client_id) {
+        throw new InvalidGrantError("Invalid authorization code");
+      }
+      return code.params.codeChallenge;
+    },
+
+    async exchangeAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string, _codeVerifier?: string, redirectUri?: string) {
+      const code = codes.get(authorizationCode);
+      codes.delete(authorizationCode);
+
+      if (!code || code.clientId !== client.client_id || code.expiresAt < now()) {
+        throw new InvalidGrantError("Invalid or expired authorization code");
+      }
+      if (redirectUri && redirectUri !== code.params.redirectUri) {
+        throw new InvalidGrantError("redirect_uri does not match the authorization request");
+      }
+
+      const scopes = code.params.scopes && code.params.scopes.length > 0 ? code.params.scopes : [OAUTH_SCOPE];
+      return issueTokens(client.client_id, code.apiKey, scopes, code.params.resource);
+    },
+
+    async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[]) {
+      const key = hashApiKey(refreshToken);
+      const token = refreshTokens.get(key);
+
+      if (!token || token.clientId !== client.client_id || tokenExpired(token)) {
+        throw new InvalidGrantError("Invalid or expired refresh token");
+      }
+      if (scopes && scopes.some((scope) => !token.scopes.includes(scope))) {
+        throw new InvalidGrantError("Requested scopes exceed the original grant");
+      }
+
+      // Rotate refresh tokens on every use
+      refreshTokens.delete(key);
+      return issueTokens(client.client_id, token.apiKey, scopes && scopes.length > 0 ? scopes : token.scopes, token.resource);
+    },
+
+    async verifyAccessToken(accessToken: string): Promise<AuthInfo> {
+      const token = accessTokens.get(hashApiKey(accessToken));
+      if (!token || tokenExpired(token)) {
+        throw new InvalidTokenError("Invalid or expired access token");
+      }
+
+      return {
+        token: accessToken,
+        clientId: token.clientId,
+        scopes: token.scopes,
+        expiresAt: token.expiresAt,
+        resource: token.resource,
+        extra: { principal: token.apiKey.name, userId: token.apiKey.userId, authMethod: 'oauth' }
+      };
+    },
+
+    async revokeToken(client: OAuthClientInformationFull, request) {
+      const key = hashApiKey(request.token);
+      for (const tokens of [accessTokens, refreshTokens]) {
+        const token = tokens.get(key);
+        if (token && token.clientId === client.client_id) {
+          tokens.delete(key);
+        }
+      }
+    }
+  };
+}
@@ -2,3 +2,7 @@
 
 // Character limit for MCP responses to prevent overwhelming clients
 export const CHARACTER_LIMIT = 25000;
+
+// Record classifications from least to most restricted
+export const CLASSIFICATION_LEVELS = ['public', 'personal', 'sensitive', 'confidential'] as const;
+export type Classification = typeof CLASSIFICATION_LEVELS[number];
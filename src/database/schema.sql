@@ -40,6 +40,23 @@ CREATE TABLE IF NOT EXISTS personal_data (
   last_accessed TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Snapshot of a record taken just before each update, for history and revert
+CREATE TABLE IF NOT EXISTS personal_data_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  record_id UUID NOT NULL REFERENCES personal_data(id) ON DELETE CASCADE,
+  user_id UUID,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content JSONB NOT NULL,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  -- Why the record was changed away from this version
+  conversation_context TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (record_id, version)
+);
+
 -- Audit trail for compliance and security
 CREATE TABLE IF NOT EXISTS data_access_log (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -158,6 +175,9 @@ CREATE INDEX IF NOT EXISTS idx_personal_data_content ON personal_data USING GIN(
 CREATE INDEX IF NOT EXISTS idx_personal_data_classification ON personal_data(classification);
 CREATE INDEX IF NOT EXISTS idx_personal_data_deleted_at ON personal_data(deleted_at) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_personal_data_category ON personal_data(category);
+-- Sort order of search/extract pages
+CREATE INDEX IF NOT EXISTS idx_personal_data_page_order ON personal_data(updated_at DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_personal_data_versions_record ON personal_data_versions(record_id, version DESC);
 CREATE INDEX IF NOT EXISTS idx_access_log_user_operation ON data_access_log(user_id, operation);
 CREATE INDEX IF NOT EXISTS idx_access_log_timestamp ON data_access_log(created_at);
 CREATE INDEX IF NOT EXISTS idx_access_log_table_name ON data_access_log(table_name);
@@ -182,6 +202,7 @@ CREATE INDEX IF NOT EXISTS idx_error_recovery_status ON error_recovery_attempts(
 -- Row Level Security Policies
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE personal_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE personal_data_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE data_access_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE category_registry ENABLE ROW LEVEL SECURITY;
 ALTER TABLE error_logs ENABLE ROW LEVEL SECURITY;
@@ -202,6 +223,12 @@ CREATE POLICY "service_role_full_access_personal_data" ON personal_data
   USING (true)
   WITH CHECK (true);
 
+DROP POLICY IF EXISTS "service_role_full_access_personal_data_versions" ON personal_data_versions;
+CREATE POLICY "service_role_full_access_personal_data_versions" ON personal_data_versions
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
 DROP POLICY IF EXISTS "service_role_full_access_audit_log" ON data_access_log;
 CREATE POLICY "service_role_full_access_audit_log" ON data_access_log
   FOR ALL TO service_role
@@ -262,6 +289,11 @@ CREATE POLICY "users_can_crud_own_data" ON personal_data
   FOR ALL TO authenticated
   USING (user_id = auth.uid());
 
+DROP POLICY IF EXISTS "users_can_view_own_versions" ON personal_data_versions;
+CREATE POLICY "users_can_view_own_versions" ON personal_data_versions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
 -- Audit log policies
 DROP POLICY IF EXISTS "users_can_view_own_logs" ON data_access_log;
 CREATE POLICY "users_can_view_own_logs" ON data_access_log
@@ -507,9 +539,17 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 -- Drop existing functions first (drop by name to handle signature changes)
 DROP FUNCTION IF EXISTS search_personal_data CASCADE;
 DROP FUNCTION IF EXISTS extract_personal_data CASCADE;
+DROP FUNCTION IF EXISTS personal_data_matches_filters CASCADE;
+DROP FUNCTION IF EXISTS personal_data_field_matches CASCADE;
 DROP FUNCTION IF EXISTS create_personal_data CASCADE;
 DROP FUNCTION IF EXISTS update_personal_data CASCADE;
 DROP FUNCTION IF EXISTS delete_personal_data CASCADE;
+DROP FUNCTION IF EXISTS list_deleted_personal_data CASCADE;
+DROP FUNCTION IF EXISTS restore_personal_data CASCADE;
+DROP FUNCTION IF EXISTS purge_deleted_personal_data CASCADE;
+DROP FUNCTION IF EXISTS get_personal_data CASCADE;
+DROP FUNCTION IF EXISTS get_record_history CASCADE;
+DROP FUNCTION IF EXISTS revert_personal_data CASCADE;
 
 -- Function to search personal data by text and filters
 CREATE OR REPLACE FUNCTION search_personal_data(
@@ -519,7 +559,10 @@ CREATE OR REPLACE FUNCTION search_personal_data(
   p_tags TEXT[] DEFAULT NULL,
   p_classification TEXT DEFAULT NULL,
   p_limit INTEGER DEFAULT 20,
-  p_offset INTEGER DEFAULT 0
+  p_offset INTEGER DEFAULT 0,
+  p_after_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_classifications TEXT[] DEFAULT NULL
 )
 RETURNS TABLE (
   id UUID,
@@ -579,20 +622,156 @@ BEGIN
     AND (p_categories IS NULL OR pd.category = ANY(p_categories))
     AND (p_tags IS NULL OR pd.tags && p_tags)
     AND (p_classification IS NULL OR pd.classification = p_classification)
-  ORDER BY pd.updated_at DESC
+    -- Classifications the session may see; records without one count as personal
+    AND (p_classifications IS NULL OR COALESCE(pd.classification, 'personal') = ANY(p_classifications))
+    -- Keyset pagination: resume after the last record of the previous page
+    AND (p_after_id IS NULL OR (pd.updated_at, pd.id) < (p_after_updated_at, p_after_id))
+  ORDER BY pd.updated_at DESC, pd.id DESC
   LIMIT p_limit
   OFFSET p_offset;
 END;
 $$;
 
--- Function to extract personal data by category with optional tags
+-- Whether a content value meets one field condition of the extract filters
+-- ({eq, contains, gt, gte, lt, lte, exists}). Text compares case-insensitively
+-- for eq and contains, and list values match when any element does. Ranges
+-- compare numbers with numbers and strings (e.g. ISO dates) with strings.
+CREATE OR REPLACE FUNCTION personal_data_field_matches(p_value JSONB, p_condition JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_elements JSONB;
+  v_op TEXT;
+  v_bound JSONB;
+  v_order INTEGER;
+BEGIN
+  IF p_condition ? 'exists'
+     AND (p_condition->>'exists')::BOOLEAN <> (p_value IS NOT NULL AND p_value <> 'null'::jsonb) THEN
+    RETURN FALSE;
+  END IF;
+
+  v_elements := CASE WHEN jsonb_typeof(p_value) = 'array' THEN p_value ELSE jsonb_build_array(p_value) END;
+
+  IF p_condition ? 'eq' AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_elements) e
+    WHERE CASE
+      WHEN jsonb_typeof(e) = 'string' AND jsonb_typeof(p_condition->'eq') = 'string'
+        THEN lower(e #>> '{}') = lower(p_condition->>'eq')
+      ELSE e = p_condition->'eq'
+    END
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_condition ? 'contains' AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_elements) e
+    WHERE jsonb_typeof(e) = 'string'
+      AND strpos(lower(e #>> '{}'), lower(p_condition->>'contains')) > 0
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  FOREACH v_op IN ARRAY ARRAY['gt', 'gte', 'lt', 'lte'] LOOP
+    CONTINUE WHEN NOT p_condition ? v_op;
+    v_bound := p_condition->v_op;
+    IF p_value IS NULL OR jsonb_typeof(p_value) <> jsonb_typeof(v_bound) THEN
+      RETURN FALSE;
+    END IF;
+
+    IF jsonb_typeof(v_bound) = 'number' THEN
+      v_order := sign((p_value #>> '{}')::NUMERIC - (v_bound #>> '{}')::NUMERIC);
+    ELSIF jsonb_typeof(v_bound) = 'string' THEN
+      -- Byte order, so ISO dates compare chronologically whatever the collation
+      v_order := CASE
+        WHEN (p_value #>> '{}') COLLATE "C" < (v_bound #>> '{}') COLLATE "C" THEN -1
+        WHEN (p_value #>> '{}') COLLATE "C" > (v_bound #>> '{}') COLLATE "C" THEN 1
+        ELSE 0
+      END;
+    ELSE
+      RETURN FALSE;
+    END IF;
+
+    IF NOT CASE v_op
+      WHEN 'gt' THEN v_order > 0
+      WHEN 'gte' THEN v_order >= 0
+      WHEN 'lt' THEN v_order < 0
+      ELSE v_order <= 0
+    END THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Whether a record matches the filters of extract_personal_data:
+-- {content: {field: condition}, created: {from, to}, updated: {from, to},
+--  tags: {any, all, none}}. Time windows include from and exclude to; nested
+-- content fields use dots ("address.city"). NULL filters match everything.
+CREATE OR REPLACE FUNCTION personal_data_matches_filters(
+  p_content JSONB,
+  p_tags TEXT[],
+  p_created_at TIMESTAMPTZ,
+  p_updated_at TIMESTAMPTZ,
+  p_filters JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_field TEXT;
+  v_condition JSONB;
+BEGIN
+  IF p_filters IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_filters #> '{tags,any}', '[]'::jsonb)) > 0
+     AND NOT COALESCE(p_tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_filters #> '{tags,any}')) THEN
+    RETURN FALSE;
+  END IF;
+  IF p_filters #> '{tags,all}' IS NOT NULL
+     AND NOT COALESCE(p_tags, '{}') @> ARRAY(SELECT jsonb_array_elements_text(p_filters #> '{tags,all}')) THEN
+    RETURN FALSE;
+  END IF;
+  IF p_filters #> '{tags,none}' IS NOT NULL
+     AND COALESCE(p_tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_filters #> '{tags,none}')) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF (p_filters #>> '{created,from}' IS NOT NULL AND p_created_at < (p_filters #>> '{created,from}')::TIMESTAMPTZ)
+     OR (p_filters #>> '{created,to}' IS NOT NULL AND p_created_at >= (p_filters #>> '{created,to}')::TIMESTAMPTZ)
+     OR (p_filters #>> '{updated,from}' IS NOT NULL AND p_updated_at < (p_filters #>> '{updated,from}')::TIMESTAMPTZ)
+     OR (p_filters #>> '{updated,to}' IS NOT NULL AND p_updated_at >= (p_filters #>> '{updated,to}')::TIMESTAMPTZ) THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR v_field, v_condition IN SELECT key, value FROM jsonb_each(COALESCE(p_filters->'content', '{}'::jsonb)) LOOP
+    IF NOT personal_data_field_matches(p_content #> string_to_array(v_field, '.'), v_condition) THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Function to extract personal data by category with optional tags, typed
+-- filters (see personal_data_matches_filters) and sort order
 CREATE OR REPLACE FUNCTION extract_personal_data(
   p_category TEXT,
   p_tags TEXT[] DEFAULT NULL,
   p_user_id UUID DEFAULT NULL,
   p_filters JSONB DEFAULT NULL,
   p_limit INTEGER DEFAULT 50,
-  p_offset INTEGER DEFAULT 0
+  p_offset INTEGER DEFAULT 0,
+  p_after_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_classifications TEXT[] DEFAULT NULL
 )
 RETURNS TABLE (
   id UUID,
@@ -608,6 +787,9 @@ RETURNS TABLE (
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
+DECLARE
+  -- filters.sort, e.g. 'title asc'; ties and the default use updated_at, id
+  v_sort TEXT := COALESCE(p_filters #>> '{sort,field}', 'updated_at') || ' ' || COALESCE(p_filters #>> '{sort,direction}', 'desc');
 BEGIN
   -- Log the extract operation
   INSERT INTO data_access_log (
@@ -643,7 +825,18 @@ BEGIN
     AND (p_user_id IS NULL OR pd.user_id = p_user_id)
     AND pd.category = p_category
     AND (p_tags IS NULL OR pd.tags && p_tags)
-  ORDER BY pd.updated_at DESC
+    AND personal_data_matches_filters(pd.content, pd.tags, pd.created_at, pd.updated_at, p_filters)
+    AND (p_classifications IS NULL OR COALESCE(pd.classification, 'personal') = ANY(p_classifications))
+    -- Keyset pagination: resume after the last record of the previous page
+    AND (p_after_id IS NULL OR (pd.updated_at, pd.id) < (p_after_updated_at, p_after_id))
+  ORDER BY
+    CASE WHEN v_sort = 'title asc' THEN pd.title END ASC,
+    CASE WHEN v_sort = 'title desc' THEN pd.title END DESC,
+    CASE WHEN v_sort = 'created_at asc' THEN pd.created_at END ASC,
+    CASE WHEN v_sort = 'created_at desc' THEN pd.created_at END DESC,
+    CASE WHEN v_sort = 'updated_at asc' THEN pd.updated_at END ASC,
+    pd.updated_at DESC,
+    pd.id DESC
   LIMIT p_limit
   OFFSET p_offset;
 END;
@@ -705,7 +898,8 @@ $$;
 CREATE OR REPLACE FUNCTION update_personal_data(
   p_record_id UUID,
   p_updates JSONB,
-  p_conversation_context TEXT DEFAULT NULL
+  p_conversation_context TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
 )
 RETURNS BOOLEAN
 LANGUAGE plpgsql
@@ -720,8 +914,10 @@ DECLARE
   new_classification TEXT;
   new_category TEXT;
 BEGIN
-  -- Get the current record for logging
-  SELECT * INTO old_record FROM personal_data WHERE id = p_record_id AND deleted_at IS NULL;
+  -- Get the current record for logging (scoped to the caller when a user is given)
+  SELECT * INTO old_record FROM personal_data
+  WHERE id = p_record_id AND deleted_at IS NULL
+    AND (p_user_id IS NULL OR user_id = p_user_id);
 
   IF NOT FOUND THEN
     RETURN FALSE;
@@ -755,6 +951,16 @@ BEGIN
     ELSE old_record.category
   END;
 
+  -- Snapshot the current values so the change can be reviewed and reverted
+  INSERT INTO personal_data_versions (
+    record_id, user_id, version, title, content, tags, category, classification, conversation_context
+  ) VALUES (
+    old_record.id, old_record.user_id,
+    COALESCE((SELECT MAX(v.version) FROM personal_data_versions v WHERE v.record_id = old_record.id), 0) + 1,
+    old_record.title, old_record.content, old_record.tags, old_record.category, old_record.classification,
+    p_conversation_context
+  );
+
   -- Perform the update with explicit values
   UPDATE personal_data
   SET
@@ -796,17 +1002,18 @@ BEGIN
 END;
 $$;
 
--- Function to delete personal data records
+-- Function to delete personal data records; returns the ids of the records deleted
 CREATE OR REPLACE FUNCTION delete_personal_data(
   p_record_ids UUID[],
-  p_hard_delete BOOLEAN DEFAULT FALSE
+  p_hard_delete BOOLEAN DEFAULT FALSE,
+  p_user_id UUID DEFAULT NULL
 )
-RETURNS INTEGER
+RETURNS UUID[]
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 DECLARE
-  affected_count INTEGER := 0;
+  affected_ids UUID[] := '{}';
   record_id UUID;
   old_record personal_data%ROWTYPE;
 BEGIN
@@ -814,7 +1021,8 @@ BEGIN
   LOOP
     -- Get the current record for logging
     SELECT * INTO old_record FROM personal_data 
-    WHERE id = record_id AND (p_hard_delete = TRUE OR deleted_at IS NULL);
+    WHERE id = record_id AND (p_hard_delete = TRUE OR deleted_at IS NULL)
+      AND (p_user_id IS NULL OR user_id = p_user_id);
 
     IF FOUND THEN
       IF p_hard_delete THEN
@@ -844,27 +1052,269 @@ BEGIN
         inet_client_addr(), 'delete_personal_data_function'
       );
 
-      affected_count := affected_count + 1;
+      affected_ids := array_append(affected_ids, record_id);
+    END IF;
+  END LOOP;
+
+  RETURN affected_ids;
+END;
+$$;
+
+-- Function to list soft-deleted personal data records, most recently deleted first
+CREATE OR REPLACE FUNCTION list_deleted_personal_data(
+  p_user_id UUID DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0,
+  p_classifications TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.user_id,
+    pd.title,
+    pd.content,
+    pd.tags,
+    pd.category,
+    pd.classification,
+    pd.created_at,
+    pd.updated_at,
+    pd.deleted_at
+  FROM personal_data pd
+  WHERE
+    pd.deleted_at IS NOT NULL
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id)
+    AND (p_categories IS NULL OR pd.category = ANY(p_categories))
+    AND (p_classifications IS NULL OR COALESCE(pd.classification, 'personal') = ANY(p_classifications))
+  ORDER BY pd.deleted_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Function to restore soft-deleted personal data records; returns the ids of the records restored
+CREATE OR REPLACE FUNCTION restore_personal_data(
+  p_record_ids UUID[],
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  affected_ids UUID[] := '{}';
+  record_id UUID;
+  old_record personal_data%ROWTYPE;
+BEGIN
+  FOREACH record_id IN ARRAY p_record_ids
+  LOOP
+    SELECT * INTO old_record FROM personal_data
+    WHERE id = record_id AND deleted_at IS NOT NULL
+      AND (p_user_id IS NULL OR user_id = p_user_id);
+
+    IF FOUND THEN
+      UPDATE personal_data
+      SET deleted_at = NULL, updated_at = NOW()
+      WHERE id = record_id;
+
+      INSERT INTO data_access_log (
+        user_id, operation, table_name, record_id,
+        changes, ip_address, user_agent
+      ) VALUES (
+        old_record.user_id, 'UPDATE', 'personal_data', record_id,
+        jsonb_build_object('restored', TRUE, 'deleted_at', old_record.deleted_at),
+        inet_client_addr(), 'restore_personal_data_function'
+      );
+
+      affected_ids := array_append(affected_ids, record_id);
     END IF;
   END LOOP;
 
-  RETURN affected_count;
+  RETURN affected_ids;
+END;
+$$;
+
+-- Function to permanently remove records soft-deleted more than p_retention_days ago (retention policy)
+CREATE OR REPLACE FUNCTION purge_deleted_personal_data(
+  p_retention_days INTEGER,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  purged_count INTEGER;
+BEGIN
+  DELETE FROM personal_data
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < NOW() - make_interval(days => p_retention_days)
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+  RETURN purged_count;
+END;
+$$;
+
+-- Function to fetch live personal data records by id
+CREATE OR REPLACE FUNCTION get_personal_data(
+  p_record_ids UUID[],
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.user_id,
+    pd.title,
+    pd.content,
+    pd.tags,
+    pd.category,
+    pd.classification,
+    pd.created_at,
+    pd.updated_at
+  FROM personal_data pd
+  WHERE
+    pd.id = ANY(p_record_ids)
+    AND pd.deleted_at IS NULL
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id);
+END;
+$$;
+
+-- Function to list the saved versions of a record, newest first
+CREATE OR REPLACE FUNCTION get_record_history(
+  p_record_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  record_id UUID,
+  version INTEGER,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  conversation_context TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.record_id,
+    v.version,
+    v.title,
+    v.content,
+    v.tags,
+    v.category,
+    v.classification,
+    v.conversation_context,
+    v.created_at
+  FROM personal_data_versions v
+  JOIN personal_data pd ON pd.id = v.record_id
+  WHERE
+    v.record_id = p_record_id
+    AND pd.deleted_at IS NULL
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id)
+  ORDER BY v.version DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Function to restore a record to a saved version. Goes through
+-- update_personal_data so the revert is itself versioned and can be undone.
+CREATE OR REPLACE FUNCTION revert_personal_data(
+  p_record_id UUID,
+  p_version INTEGER,
+  p_conversation_context TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target personal_data_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM personal_data_versions
+  WHERE record_id = p_record_id AND version = p_version;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN update_personal_data(
+    p_record_id,
+    jsonb_build_object(
+      'title', target.title,
+      'content', target.content,
+      'tags', to_jsonb(COALESCE(target.tags, ARRAY[]::TEXT[])),
+      'category', target.category,
+      'classification', target.classification
+    ),
+    COALESCE(p_conversation_context, 'Reverted to version ' || p_version),
+    p_user_id
+  );
 END;
 $$;
 
 -- Grant permissions to service role
-GRANT EXECUTE ON FUNCTION search_personal_data(TEXT, UUID, TEXT[], TEXT[], TEXT, INTEGER, INTEGER) TO service_role;
-GRANT EXECUTE ON FUNCTION extract_personal_data(TEXT, TEXT[], UUID, JSONB, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION search_personal_data(TEXT, UUID, TEXT[], TEXT[], TEXT, INTEGER, INTEGER, TIMESTAMPTZ, UUID, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION extract_personal_data(TEXT, TEXT[], UUID, JSONB, INTEGER, INTEGER, TIMESTAMPTZ, UUID, TEXT[]) TO service_role;
 GRANT EXECUTE ON FUNCTION create_personal_data(TEXT, TEXT, JSONB, UUID, TEXT[], TEXT) TO service_role;
-GRANT EXECUTE ON FUNCTION update_personal_data(UUID, JSONB, TEXT) TO service_role;
-GRANT EXECUTE ON FUNCTION delete_personal_data(UUID[], BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION update_personal_data(UUID, JSONB, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_personal_data(UUID[], BOOLEAN, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION list_deleted_personal_data(UUID, TEXT[], INTEGER, INTEGER, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_personal_data(UUID[], UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_personal_data(UUID[], UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_record_history(UUID, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION revert_personal_data(UUID, INTEGER, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION purge_deleted_personal_data(INTEGER, UUID) TO service_role;
 
 -- Grant permissions to authenticated users
-GRANT EXECUTE ON FUNCTION search_personal_data(TEXT, UUID, TEXT[], TEXT[], TEXT, INTEGER, INTEGER) TO authenticated;
-GRANT EXECUTE ON FUNCTION extract_personal_data(TEXT, TEXT[], UUID, JSONB, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_personal_data(TEXT, UUID, TEXT[], TEXT[], TEXT, INTEGER, INTEGER, TIMESTAMPTZ, UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION extract_personal_data(TEXT, TEXT[], UUID, JSONB, INTEGER, INTEGER, TIMESTAMPTZ, UUID, TEXT[]) TO authenticated;
 GRANT EXECUTE ON FUNCTION create_personal_data(TEXT, TEXT, JSONB, UUID, TEXT[], TEXT) TO authenticated;
-GRANT EXECUTE ON FUNCTION update_personal_data(UUID, JSONB, TEXT) TO authenticated;
-GRANT EXECUTE ON FUNCTION delete_personal_data(UUID[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_personal_data(UUID, JSONB, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_personal_data(UUID[], BOOLEAN, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_deleted_personal_data(UUID, TEXT[], INTEGER, INTEGER, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_personal_data(UUID[], UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_personal_data(UUID[], UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_record_history(UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revert_personal_data(UUID, INTEGER, TEXT, UUID) TO authenticated;
 
 -- <<< END 002_mcp_functions.sql
 
@@ -1211,7 +1661,8 @@ BEGIN
     cr.example_queries,
     cr.last_modified
   FROM category_registry cr
-  WHERE cr.is_active = true
+  -- deactivated_at is added by 011_category_management.sql
+  WHERE cr.is_active = true AND cr.deactivated_at IS NULL
   ORDER BY cr.item_count DESC, cr.display_name;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -1286,6 +1737,7 @@ GRANT EXECUTE ON FUNCTION get_category_stats() TO authenticated;
 -- Drop existing functions first
 DROP FUNCTION IF EXISTS chatgpt_search_data(TEXT, UUID, INTEGER) CASCADE;
 DROP FUNCTION IF EXISTS chatgpt_fetch_data(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS chatgpt_fetch_data(TEXT, UUID) CASCADE;
 
 -- Function to search personal data for ChatGPT with specific output format
 CREATE OR REPLACE FUNCTION chatgpt_search_data(
@@ -1343,7 +1795,8 @@ $$;
 
 -- Function to fetch complete document content by ID for ChatGPT
 CREATE OR REPLACE FUNCTION chatgpt_fetch_data(
-    p_document_id TEXT
+    p_document_id TEXT,
+    p_user_id UUID DEFAULT NULL
 )
 RETURNS TABLE (
     id TEXT,
@@ -1362,7 +1815,8 @@ BEGIN
     SELECT pd.* INTO doc_record
     FROM personal_data pd
     WHERE pd.id::TEXT = p_document_id 
-    AND pd.deleted_at IS NULL;
+    AND pd.deleted_at IS NULL
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id);
     
     -- Return empty if not found
     IF NOT FOUND THEN
@@ -1402,9 +1856,9 @@ $$;
 
 -- Grant execute permissions for authenticated users and anonymous (ChatGPT) access
 GRANT EXECUTE ON FUNCTION chatgpt_search_data(TEXT, UUID, INTEGER) TO authenticated;
-GRANT EXECUTE ON FUNCTION chatgpt_fetch_data(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION chatgpt_fetch_data(TEXT, UUID) TO authenticated;
 GRANT EXECUTE ON FUNCTION chatgpt_search_data(TEXT, UUID, INTEGER) TO anon;
-GRANT EXECUTE ON FUNCTION chatgpt_fetch_data(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION chatgpt_fetch_data(TEXT, UUID) TO anon;
 
 -- Create indexes to optimize ChatGPT search performance
 CREATE INDEX IF NOT EXISTS idx_personal_data_chatgpt_search 
@@ -1441,4 +1895,775 @@ WHERE NOT EXISTS (
   WHERE title = 'MCP (Model Context Protocol)'
   AND category = 'interests'
   AND deleted_at IS NULL
-);
\ No newline at end of file
+);
+-- <<< END 005_chatgpt_functions.sql
+
+-- >>> BEGIN 006_semantic_search.sql
+
+-- Vector embeddings of each record's title and content, for semantic search.
+-- The column has no fixed dimension so any embedding provider can be used;
+-- rows are only compared with query vectors from the same embedding_model.
+-- Sensitive and confidential records are embedded from their title alone;
+-- embedding_title_only records which way a vector was made, so the backfill
+-- can replace vectors made from the content of such records.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE personal_data
+ADD COLUMN IF NOT EXISTS embedding vector,
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_title_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+DROP FUNCTION IF EXISTS set_personal_data_embedding CASCADE;
+DROP FUNCTION IF EXISTS search_personal_data_semantic CASCADE;
+DROP FUNCTION IF EXISTS list_personal_data_without_embedding CASCADE;
+
+-- Function to store a record's embedding. p_embedding is the vector's text form, e.g. '[0.1,0.2]'
+CREATE OR REPLACE FUNCTION set_personal_data_embedding(
+  p_record_id UUID,
+  p_embedding TEXT,
+  p_model TEXT,
+  p_title_only BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE personal_data
+  SET embedding = p_embedding::vector, embedding_model = p_model, embedding_title_only = p_title_only
+  WHERE id = p_record_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Function to rank live records by cosine similarity to a query embedding
+CREATE OR REPLACE FUNCTION search_personal_data_semantic(
+  p_embedding TEXT,
+  p_model TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_classification TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_classifications TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.user_id,
+    pd.title,
+    pd.content,
+    pd.tags,
+    pd.category,
+    pd.classification,
+    pd.created_at,
+    pd.updated_at,
+    1 - (pd.embedding <=> p_embedding::vector) AS similarity
+  FROM personal_data pd
+  WHERE
+    pd.deleted_at IS NULL
+    AND pd.embedding_model = p_model
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id)
+    AND (p_categories IS NULL OR pd.category = ANY(p_categories))
+    AND (p_tags IS NULL OR pd.tags && p_tags)
+    AND (p_classification IS NULL OR pd.classification = p_classification)
+    AND (p_classifications IS NULL OR COALESCE(pd.classification, 'personal') = ANY(p_classifications))
+  ORDER BY pd.embedding <=> p_embedding::vector
+  LIMIT p_limit;
+END;
+$$;
+
+-- Function to find live records that still need an embedding from p_model, or
+-- whose embedding was made from content their classification keeps out of it (backfill)
+CREATE OR REPLACE FUNCTION list_personal_data_without_embedding(
+  p_model TEXT,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.user_id,
+    pd.title,
+    pd.content,
+    pd.tags,
+    pd.category,
+    pd.classification,
+    pd.created_at,
+    pd.updated_at
+  FROM personal_data pd
+  WHERE
+    pd.deleted_at IS NULL
+    AND (
+      pd.embedding_model IS DISTINCT FROM p_model
+      OR pd.embedding_title_only <> (COALESCE(pd.classification, 'personal') IN ('sensitive', 'confidential'))
+    )
+  ORDER BY pd.created_at
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_personal_data_embedding(UUID, TEXT, TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION search_personal_data_semantic(TEXT, TEXT, UUID, TEXT[], TEXT[], TEXT, INTEGER, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION list_personal_data_without_embedding(TEXT, INTEGER) TO service_role;
+
+-- <<< END 006_semantic_search.sql
+
+-- >>> BEGIN 007_content_schemas.sql
+
+-- Optional JSON Schema per category describing the keys of personal_data.content.
+-- The MCP server validates record content against it on create and update.
+ALTER TABLE category_registry
+ADD COLUMN IF NOT EXISTS content_schema JSONB;
+
+UPDATE category_registry
+SET content_schema = '{
+  "type": "object",
+  "properties": {
+    "name": {"type": "string"},
+    "email": {"type": "string", "format": "email"},
+    "phone": {"type": "string"},
+    "relationship": {"type": "string"},
+    "company": {"type": "string"},
+    "birthday": {"type": "string", "format": "date"}
+  }
+}'::jsonb,
+  last_modified = NOW()
+WHERE category_name = 'contacts' AND content_schema IS NULL;
+
+UPDATE category_registry
+SET content_schema = '{
+  "type": "object",
+  "properties": {
+    "author": {"type": "string"},
+    "genre": {"type": "string"},
+    "status": {"type": "string", "enum": ["want_to_read", "reading", "finished", "abandoned"]},
+    "rating": {"type": "number", "description": "1-5"}
+  }
+}'::jsonb,
+  last_modified = NOW()
+WHERE category_name = 'books' AND content_schema IS NULL;
+
+DROP FUNCTION IF EXISTS get_category_schemas CASCADE;
+
+-- Function to list the categories that have a content schema
+CREATE OR REPLACE FUNCTION get_category_schemas()
+RETURNS TABLE (
+  category_name TEXT,
+  content_schema JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT cr.category_name, cr.content_schema
+  FROM category_registry cr
+  WHERE cr.content_schema IS NOT NULL
+  ORDER BY cr.category_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_category_schemas() TO service_role;
+GRANT EXECUTE ON FUNCTION get_category_schemas() TO authenticated;
+
+-- <<< END 007_content_schemas.sql
+
+-- >>> BEGIN 008_data_export.sql
+
+DROP FUNCTION IF EXISTS export_personal_data CASCADE;
+DROP FUNCTION IF EXISTS list_personal_data_summaries CASCADE;
+
+-- Function to export every record of a user (or of all users when p_user_id is NULL),
+-- optionally including soft-deleted records, for data portability requests
+CREATE OR REPLACE FUNCTION export_personal_data(
+  p_user_id UUID DEFAULT NULL,
+  p_include_deleted BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content JSONB,
+  tags TEXT[],
+  category TEXT,
+  classification TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.user_id,
+    pd.title,
+    pd.content,
+    pd.tags,
+    pd.category,
+    pd.classification,
+    pd.created_at,
+    pd.updated_at,
+    pd.deleted_at
+  FROM personal_data pd
+  WHERE
+    (p_user_id IS NULL OR pd.user_id = p_user_id)
+    AND (p_include_deleted OR pd.deleted_at IS NULL)
+  ORDER BY pd.category, pd.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION export_personal_data(UUID, BOOLEAN) TO service_role;
+
+-- Function to list live records without their content, a page at a time and in
+-- export order, for the record resources of resources/list
+CREATE OR REPLACE FUNCTION list_personal_data_summaries(
+  p_user_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0,
+  p_classifications TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  category TEXT,
+  classification TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pd.id,
+    pd.title,
+    pd.category,
+    pd.classification
+  FROM personal_data pd
+  WHERE
+    pd.deleted_at IS NULL
+    AND (p_user_id IS NULL OR pd.user_id = p_user_id)
+    AND (p_classifications IS NULL OR COALESCE(pd.classification, 'personal') = ANY(p_classifications))
+  ORDER BY pd.category, pd.created_at, pd.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_personal_data_summaries(UUID, INTEGER, INTEGER, TEXT[]) TO service_role;
+
+-- <<< END 008_data_export.sql
+
+-- >>> BEGIN 009_content_encryption.sql
+
+DROP FUNCTION IF EXISTS list_stored_content CASCADE;
+DROP FUNCTION IF EXISTS rewrite_stored_content CASCADE;
+
+-- Function to page through the content of every record and saved version, deleted
+-- ones included, so the server can encrypt, decrypt or re-wrap it. version is NULL
+-- for the record itself.
+CREATE OR REPLACE FUNCTION list_stored_content(
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  record_id UUID,
+  version INTEGER,
+  classification TEXT,
+  content JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.record_id, c.version, c.classification, c.content
+  FROM (
+    SELECT pd.id AS record_id, NULL::INTEGER AS version, pd.classification, pd.content
+    FROM personal_data pd
+    UNION ALL
+    SELECT v.record_id, v.version, v.classification, v.content
+    FROM personal_data_versions v
+  ) c
+  ORDER BY c.record_id, c.version NULLS FIRST
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Function to replace stored content without creating a new version
+CREATE OR REPLACE FUNCTION rewrite_stored_content(
+  p_record_id UUID,
+  p_version INTEGER,
+  p_content JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_version IS NULL THEN
+    UPDATE personal_data SET content = p_content WHERE id = p_record_id;
+  ELSE
+    UPDATE personal_data_versions SET content = p_content
+    WHERE record_id = p_record_id AND version = p_version;
+  END IF;
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_stored_content(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION rewrite_stored_content(UUID, INTEGER, JSONB) TO service_role;
+
+-- <<< END 009_content_encryption.sql
+
+-- >>> BEGIN 010_audit_log.sql
+
+-- One row per tool invocation: who called which tool, on which records, with what outcome
+CREATE TABLE IF NOT EXISTS tool_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT,
+  user_id UUID,
+  principal TEXT NOT NULL,
+  endpoint TEXT NOT NULL CHECK (endpoint IN ('mcp', 'chatgpt')),
+  tool TEXT NOT NULL,
+  record_ids UUID[] NOT NULL DEFAULT '{}',
+  classifications TEXT[] NOT NULL DEFAULT '{}',
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error')),
+  error TEXT,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_audit_log_user_created ON tool_audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tool_audit_log_record_ids ON tool_audit_log USING GIN (record_ids);
+
+ALTER TABLE tool_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_full_access_tool_audit_log" ON tool_audit_log;
+CREATE POLICY "service_role_full_access_tool_audit_log" ON tool_audit_log
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "users_can_view_own_tool_audit_log" ON tool_audit_log;
+CREATE POLICY "users_can_view_own_tool_audit_log" ON tool_audit_log
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP FUNCTION IF EXISTS record_audit_event CASCADE;
+DROP FUNCTION IF EXISTS get_audit_log CASCADE;
+
+-- Function to append one tool invocation to the audit log
+CREATE OR REPLACE FUNCTION record_audit_event(
+  p_session_id TEXT,
+  p_user_id UUID,
+  p_principal TEXT,
+  p_endpoint TEXT,
+  p_tool TEXT,
+  p_record_ids UUID[],
+  p_classifications TEXT[],
+  p_outcome TEXT,
+  p_error TEXT,
+  p_duration_ms INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO tool_audit_log (
+    session_id, user_id, principal, endpoint, tool,
+    record_ids, classifications, outcome, error, duration_ms
+  ) VALUES (
+    p_session_id, p_user_id, p_principal, p_endpoint, p_tool,
+    COALESCE(p_record_ids, '{}'), COALESCE(p_classifications, '{}'), p_outcome, p_error, p_duration_ms
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Function to query the audit log, newest first. NULL filters match everything.
+CREATE OR REPLACE FUNCTION get_audit_log(
+  p_user_id UUID DEFAULT NULL,
+  p_principal TEXT DEFAULT NULL,
+  p_tool TEXT DEFAULT NULL,
+  p_record_id UUID DEFAULT NULL,
+  p_classification TEXT DEFAULT NULL,
+  p_since TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF tool_audit_log
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM tool_audit_log al
+  WHERE
+    (p_user_id IS NULL OR al.user_id = p_user_id)
+    AND (p_principal IS NULL OR al.principal = p_principal)
+    AND (p_tool IS NULL OR al.tool = p_tool)
+    AND (p_record_id IS NULL OR p_record_id = ANY(al.record_ids))
+    AND (p_classification IS NULL OR p_classification = ANY(al.classifications))
+    AND (p_since IS NULL OR al.created_at >= p_since)
+  ORDER BY al.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_audit_event(TEXT, UUID, TEXT, TEXT, TEXT, UUID[], TEXT[], TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION get_audit_log(UUID, TEXT, TEXT, UUID, TEXT, TIMESTAMPTZ, INTEGER, INTEGER) TO service_role;
+
+-- <<< END 010_audit_log.sql
+
+-- >>> BEGIN 011_category_management.sql
+
+-- Set while a category is deactivated: it is left out of the category lists
+-- and takes no new records, but keeps the records it has
+ALTER TABLE category_registry
+ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+
+DROP FUNCTION IF EXISTS create_category CASCADE;
+DROP FUNCTION IF EXISTS update_category CASCADE;
+DROP FUNCTION IF EXISTS set_category_active CASCADE;
+DROP FUNCTION IF EXISTS merge_categories CASCADE;
+DROP FUNCTION IF EXISTS move_category_records CASCADE;
+
+-- Function to add a category to the registry. Returns FALSE when the name is taken.
+CREATE OR REPLACE FUNCTION create_category(
+  p_category_name TEXT,
+  p_display_name TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_trigger_words TEXT[] DEFAULT '{}',
+  p_query_hint TEXT DEFAULT NULL,
+  p_example_queries TEXT[] DEFAULT '{}'
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO category_registry (
+    category_name, display_name, description, trigger_words, query_hint, example_queries
+  ) VALUES (
+    p_category_name, p_display_name, p_description,
+    COALESCE(p_trigger_words, '{}'), p_query_hint, COALESCE(p_example_queries, '{}')
+  )
+  ON CONFLICT (category_name) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Moves every record of one category, deleted ones included, and the saved
+-- versions that name it, to another; then recounts both. Returns the number
+-- of records moved.
+CREATE OR REPLACE FUNCTION move_category_records(p_source TEXT, p_target TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  UPDATE personal_data SET category = p_target WHERE category = p_source;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- So reverting to an older version cannot point back at the old category
+  UPDATE personal_data_versions SET category = p_target WHERE category = p_source;
+
+  -- update_category_counts() also counts soft-deleted rows on UPDATE
+  UPDATE category_registry cr
+  SET
+    item_count = (SELECT COUNT(*) FROM personal_data pd WHERE pd.category = cr.category_name AND pd.deleted_at IS NULL),
+    last_modified = NOW()
+  WHERE cr.category_name IN (p_source, p_target);
+  UPDATE category_registry
+  SET is_active = (item_count >= min_items_for_activation)
+  WHERE category_name IN (p_source, p_target);
+
+  RETURN v_moved;
+END;
+$$;
+
+-- Function to change a category's metadata, and optionally rename it. Only
+-- the keys present in p_updates (display_name, description, trigger_words,
+-- query_hint, example_queries) change. Returns FALSE when the category does
+-- not exist.
+CREATE OR REPLACE FUNCTION update_category(
+  p_category_name TEXT,
+  p_updates JSONB DEFAULT '{}',
+  p_new_name TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE category_registry
+  SET
+    display_name = COALESCE(p_updates->>'display_name', display_name),
+    description = CASE WHEN p_updates ? 'description' THEN p_updates->>'description' ELSE description END,
+    trigger_words = CASE
+      WHEN p_updates ? 'trigger_words' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'trigger_words'))
+      ELSE trigger_words
+    END,
+    query_hint = CASE WHEN p_updates ? 'query_hint' THEN p_updates->>'query_hint' ELSE query_hint END,
+    example_queries = CASE
+      WHEN p_updates ? 'example_queries' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'example_queries'))
+      ELSE example_queries
+    END,
+    last_modified = NOW()
+  WHERE category_name = p_category_name;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_new_name IS NOT NULL AND p_new_name <> p_category_name THEN
+    IF EXISTS (SELECT 1 FROM category_registry WHERE category_name = p_new_name) THEN
+      RAISE EXCEPTION 'Category "%" already exists', p_new_name;
+    END IF;
+
+    -- personal_data.category has no ON UPDATE CASCADE, so the renamed
+    -- category is added alongside, takes over the records and replaces the old one
+    INSERT INTO category_registry (
+      category_name, display_name, description, is_active, item_count, first_activation,
+      trigger_words, query_hint, example_queries, min_items_for_activation, metadata,
+      content_schema, deactivated_at, created_at
+    )
+    SELECT
+      p_new_name, display_name, description, FALSE, 0, first_activation,
+      trigger_words, query_hint, example_queries, min_items_for_activation, metadata,
+      content_schema, deactivated_at, created_at
+    FROM category_registry
+    WHERE category_name = p_category_name;
+
+    PERFORM move_category_records(p_category_name, p_new_name);
+    DELETE FROM category_registry WHERE category_name = p_category_name;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Function to deactivate (p_active = FALSE) or reactivate a category.
+-- Returns FALSE when the category does not exist.
+CREATE OR REPLACE FUNCTION set_category_active(p_category_name TEXT, p_active BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE category_registry
+  SET
+    deactivated_at = CASE WHEN p_active THEN NULL ELSE COALESCE(deactivated_at, NOW()) END,
+    last_modified = NOW()
+  WHERE category_name = p_category_name;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Function to move every record of p_source into p_target and remove
+-- p_source from the registry. Returns the number of records moved.
+CREATE OR REPLACE FUNCTION merge_categories(p_source TEXT, p_target TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  IF p_source = p_target THEN
+    RAISE EXCEPTION 'Cannot merge category "%" into itself', p_source;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM category_registry WHERE category_name = p_source) THEN
+    RAISE EXCEPTION 'Category not found: %', p_source;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM category_registry WHERE category_name = p_target) THEN
+    RAISE EXCEPTION 'Category not found: %', p_target;
+  END IF;
+
+  v_moved := move_category_records(p_source, p_target);
+  DELETE FROM category_registry WHERE category_name = p_source;
+
+  RETURN v_moved;
+END;
+$$;
+
+GRANT DELETE ON category_registry TO service_role;
+GRANT EXECUTE ON FUNCTION create_category(TEXT, TEXT, TEXT, TEXT[], TEXT, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION update_category(TEXT, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION set_category_active(TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION merge_categories(TEXT, TEXT) TO service_role;
+
+-- <<< END 011_category_management.sql
+
+-- >>> BEGIN 012_mcp_sessions.sql
+
+-- Streamable HTTP sessions, shared by every server instance so a session
+-- opened on one replica can be served by another. Only metadata lives here;
+-- each instance keeps its own transport for the sessions it serves.
+CREATE TABLE IF NOT EXISTS mcp_sessions (
+  id TEXT PRIMARY KEY,
+  endpoint TEXT NOT NULL,
+  principal TEXT NOT NULL,
+  user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set while the session has confidential records unlocked
+  unlocked_until TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_last_activity ON mcp_sessions(last_activity_at);
+
+ALTER TABLE mcp_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_full_access_mcp_sessions" ON mcp_sessions;
+CREATE POLICY "service_role_full_access_mcp_sessions" ON mcp_sessions
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP FUNCTION IF EXISTS save_mcp_session CASCADE;
+DROP FUNCTION IF EXISTS touch_mcp_session CASCADE;
+DROP FUNCTION IF EXISTS set_mcp_session_unlock CASCADE;
+DROP FUNCTION IF EXISTS delete_mcp_session CASCADE;
+DROP FUNCTION IF EXISTS delete_idle_mcp_sessions CASCADE;
+DROP FUNCTION IF EXISTS list_mcp_sessions CASCADE;
+
+-- Function to record a newly initialized session
+CREATE OR REPLACE FUNCTION save_mcp_session(
+  p_id TEXT,
+  p_endpoint TEXT,
+  p_principal TEXT,
+  p_user_id UUID,
+  p_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO mcp_sessions (id, endpoint, principal, user_id, created_at, last_activity_at)
+  VALUES (p_id, p_endpoint, p_principal, p_user_id, p_at, p_at)
+  ON CONFLICT (id) DO UPDATE SET last_activity_at = EXCLUDED.last_activity_at;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Function to mark activity on a session. Returns the session, or no row
+-- when it was closed or expired.
+CREATE OR REPLACE FUNCTION touch_mcp_session(p_id TEXT, p_at TIMESTAMPTZ)
+RETURNS SETOF mcp_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE mcp_sessions
+  SET last_activity_at = GREATEST(last_activity_at, p_at)
+  WHERE id = p_id
+  RETURNING *;
+END;
+$$;
+
+-- Function to store when a session's confidential unlock ends (NULL when locked)
+CREATE OR REPLACE FUNCTION set_mcp_session_unlock(p_id TEXT, p_unlocked_until TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE mcp_sessions SET unlocked_until = p_unlocked_until WHERE id = p_id;
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_mcp_session(p_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM mcp_sessions WHERE id = p_id;
+  RETURN FOUND;
+END;
+$$;
+
+-- Function to remove sessions without activity since p_before. Returns their ids.
+CREATE OR REPLACE FUNCTION delete_idle_mcp_sessions(p_before TIMESTAMPTZ)
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  DELETE FROM mcp_sessions
+  WHERE last_activity_at < p_before
+  RETURNING id;
+END;
+$$;
+
+-- Function to list open sessions, oldest first
+CREATE OR REPLACE FUNCTION list_mcp_sessions()
+RETURNS SETOF mcp_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM mcp_sessions ORDER BY created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_mcp_session(TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION touch_mcp_session(TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION set_mcp_session_unlock(TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_mcp_session(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_idle_mcp_sessions(TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION list_mcp_sessions() TO service_role;
+
+-- <<< END 012_mcp_sessions.sql
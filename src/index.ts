@@ -2,31 +2,74 @@
 
 import express from "express";
 import cors from "cors";
-import { randomUUID } from "node:crypto";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import * as dotenv from "dotenv";
-import { initializeDatabase } from "./services/supabase.js";
+import { initializeDatabase, startCategoryRefresh, store, embeddingProvider } from "./services/database.js";
+import { backfillEmbeddings } from "./services/embedding-store.js";
+import { getDeletedRetentionDays, startRetentionPurge } from "./services/retention.js";
+import { createSessionManager, getSessionLimits } from "./services/sessions.js";
+import { getDefaultRateLimiter } from "./services/rate-limit.js";
+import { createSessionStoreFromEnv } from "./services/session-store.js";
 import { createMcpServer, createChatGptMcpServer } from "./server.js";
 import { generateUsageGuideHtml } from "./usageGuide.js";
+import { setupAuth } from "./auth/index.js";
+import { registerImportRoute, IMPORT_PATH } from "./routes/import.js";
+import { registerExportRoute, EXPORT_PATH } from "./routes/export.js";
+import { registerAccessLogRoute, ACCESS_LOG_PATH } from "./routes/access-log.js";
+import { registerSessionsRoute, SESSIONS_PATH } from "./routes/sessions.js";
+import { registerMcpRoute, isStatelessMode } from "./routes/mcp.js";
+import { startStdioServer, redirectConsoleToStderr } from "./stdio.js";
+
+// `node dist/index.js --stdio` serves one desktop client over stdin/stdout instead of HTTP
+const stdio = process.argv.includes('--stdio');
+if (stdio) {
+  redirectConsoleToStderr();
+}
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: stdio });
 
 async function main() {
   // Initialize database connection
   await initializeDatabase();
 
+  // Pick up categories added or activated in the registry while running
+  startCategoryRefresh();
+
+  // Permanently remove records that have been soft-deleted past the retention period
+  startRetentionPurge(store, getDeletedRetentionDays());
+
+  // Embed records written before semantic search was enabled, and replace
+  // content vectors of sensitive records, without delaying startup
+  if (embeddingProvider) {
+    backfillEmbeddings(store, embeddingProvider).catch((error) => {
+      console.error("Failed to backfill embeddings:", error);
+    });
+  }
+
+  // Read the rate limits now, so invalid settings stop startup instead of failing every tool call
+  getDefaultRateLimiter();
+
+  if (stdio) {
+    await startStdioServer();
+    return;
+  }
+
   const app = express();
 
   // CORS configuration for browser-based clients
   app.use(cors({
     origin: '*',
-    exposedHeaders: ['Mcp-Session-Id'],
-    allowedHeaders: ['Content-Type', 'mcp-session-id'],
+    exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'],
+    allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization', 'X-API-Key'],
   }));
 
-  app.use(express.json());
+  // The import route reads its own body, which can be a JSON file larger than express.json() allows
+  const parseJson = express.json();
+  app.use((req, res, next) => (req.path === IMPORT_PATH ? next() : parseJson(req, res, next)));
+
+  // Require an API key or OAuth access token on every MCP endpoint
+  const requireAuth = setupAuth(app);
+  app.use(['/mcp', '/chatgpt_mcp'], requireAuth);
 
   // Health check endpoint for Render
   app.get('/health', (req: express.Request, res: express.Response) => {
@@ -37,11 +80,19 @@ async function main() {
     });
   });
 
+  // Bulk import of CSV, JSON and vCard files
+  registerImportRoute(app, requireAuth);
+
+  // Download of all of a user's records for backup and data portability
+  registerExportRoute(app, requireAuth);
+
+  // Audit log of tool calls across all users, for admin keys only
+  registerAccessLogRoute(app, requireAuth);
+
   // Root endpoint - Usage Guide HTML
   app.get('/', async (req: express.Request, res: express.Response) => {
     try {
-      const { supabase } = await import("./services/supabase.js");
-      const html = await generateUsageGuideHtml(supabase);
+      const html = await generateUsageGuideHtml(store);
       res.setHeader('Content-Type', 'text/html');
       res.send(html);
     } catch (error) {
@@ -49,151 +100,31 @@ async function main() {
     }
   });
 
-  // Map to store transports by session ID
-  const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-
-  // Separate transport map for ChatGPT endpoint
-  const chatgptTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-
-  // Handle POST requests for client-to-server communication
-  app.post('/mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    let transport: StreamableHTTPServerTransport;
-
-    if (sessionId && transports[sessionId]) {
-      // Reuse existing transport
-      transport = transports[sessionId];
-    } else if (!sessionId && isInitializeRequest(req.body)) {
-      // New initialization request
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => randomUUID(),
-        onsessioninitialized: (sessionId) => {
-          transports[sessionId] = transport;
-          console.log(`New session initialized: ${sessionId}`);
-        },
-        enableDnsRebindingProtection: false,
-      });
-
-      // Clean up transport when closed
-      transport.onclose = () => {
-        if (transport.sessionId) {
-          console.log(`Session closed: ${transport.sessionId}`);
-          delete transports[transport.sessionId];
-        }
-      };
-
-      const server = createMcpServer();
-      await server.connect(transport);
-    } else {
-      // Invalid request
-      res.status(400).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32000,
-          message: 'Bad Request: No valid session ID provided',
-        },
-        id: null,
-      });
-      return;
-    }
-
-    // Handle the request
-    await transport.handleRequest(req, res, req.body);
+  // Open sessions on both MCP endpoints, closed after DATADAM_SESSION_IDLE_MINUTES without a request.
+  // DATADAM_SESSION_STORE=postgres shares them between instances; stateless mode keeps none.
+  const sessions = isStatelessMode() ? undefined : createSessionManager(getSessionLimits(), { store: createSessionStoreFromEnv() });
+  if (sessions) {
+    sessions.startIdleSweep();
+
+    // Open sessions with their principal and last activity, for admin keys only
+    registerSessionsRoute(app, requireAuth, sessions);
+  }
+
+  // Full MCP server
+  registerMcpRoute(app, {
+    path: '/mcp',
+    policyEndpoint: 'mcp',
+    createServer: (identity, accessPolicy) => createMcpServer({ identity, accessPolicy, stateless: !sessions }),
+    sessions
   });
 
-  // Handle GET requests for server-to-client notifications via SSE
-  app.get('/mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !transports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
-      return;
-    }
-
-    const transport = transports[sessionId];
-    await transport.handleRequest(req, res);
-  });
-
-  // Handle DELETE requests for session termination
-  app.delete('/mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !transports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
-      return;
-    }
-
-    const transport = transports[sessionId];
-    await transport.handleRequest(req, res);
-  });
-
-  // ChatGPT-specific endpoint routes
-  // Handle POST requests for ChatGPT client-to-server communication
-  app.post('/chatgpt_mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    let transport: StreamableHTTPServerTransport;
-
-    if (sessionId && chatgptTransports[sessionId]) {
-      // Reuse existing transport
-      transport = chatgptTransports[sessionId];
-    } else if (!sessionId && isInitializeRequest(req.body)) {
-      // New initialization request
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => randomUUID(),
-        onsessioninitialized: (sessionId) => {
-          chatgptTransports[sessionId] = transport;
-          console.log(`New ChatGPT session initialized: ${sessionId}`);
-        },
-        enableDnsRebindingProtection: false,
-      });
-
-      // Clean up transport when closed
-      transport.onclose = () => {
-        if (transport.sessionId) {
-          console.log(`ChatGPT session closed: ${transport.sessionId}`);
-          delete chatgptTransports[transport.sessionId];
-        }
-      };
-
-      const server = createChatGptMcpServer();
-      await server.connect(transport);
-    } else {
-      // Invalid request
-      res.status(400).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32000,
-          message: 'Bad Request: No valid session ID provided',
-        },
-        id: null,
-      });
-      return;
-    }
-
-    // Handle the request
-    await transport.handleRequest(req, res, req.body);
-  });
-
-  // Handle GET requests for ChatGPT server-to-client notifications via SSE
-  app.get('/chatgpt_mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !chatgptTransports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
-      return;
-    }
-
-    const transport = chatgptTransports[sessionId];
-    await transport.handleRequest(req, res);
-  });
-
-  // Handle DELETE requests for ChatGPT session termination
-  app.delete('/chatgpt_mcp', async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !chatgptTransports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
-      return;
-    }
-
-    const transport = chatgptTransports[sessionId];
-    await transport.handleRequest(req, res);
+  // ChatGPT-specific endpoint with the search and fetch tools
+  registerMcpRoute(app, {
+    path: '/chatgpt_mcp',
+    policyEndpoint: 'chatgpt',
+    label: 'ChatGPT ',
+    createServer: (identity, accessPolicy) => createChatGptMcpServer({ identity, accessPolicy }),
+    sessions
   });
 
   const PORT = process.env.PORT || 3000;
@@ -209,8 +140,19 @@ async function main() {
       console.log(`🌐 Available endpoints:`);
       console.log(`- POST/GET/DELETE http://localhost:${PORT}/mcp (Full MCP server)`);
       console.log(`- POST/GET/DELETE http://localhost:${PORT}/chatgpt_mcp (ChatGPT connector)`);
+      console.log(`- node dist/index.js --stdio (Full MCP server over stdio, for desktop clients)`);
+      console.log(`- POST http://localhost:${PORT}${IMPORT_PATH} (Bulk import of CSV, JSON or vCard files)`);
+      console.log(`- GET http://localhost:${PORT}${EXPORT_PATH} (Export all records as JSON, CSV or Markdown)`);
+      console.log(`- GET http://localhost:${PORT}${ACCESS_LOG_PATH} (Audit log of tool calls, admin keys only)`);
+      if (sessions) {
+        console.log(`- GET http://localhost:${PORT}${SESSIONS_PATH} (Open MCP sessions, admin keys only)`);
+      }
       console.log(`\nResources:`);
       console.log(`- data://categories - List available personal data categories`);
+      console.log(`- data://categories/{category} - Records in one category (subscribable)`);
+      console.log(`- data://records/{id} - A single record (subscribable)`);
+      console.log(`\nPrompts:`);
+      console.log(`- datadam_profile_summary, datadam_meeting_prep, datadam_about_me, datadam_review_stale_records`);
       console.log(`\n🔍 Main Tools:`);
       console.log(`- datadam_search_personal_data - Search through personal data by title and content`);
       console.log(`- datadam_extract_personal_data - Extract data by category with optional tag filtering`);
@@ -220,7 +162,7 @@ async function main() {
       console.log(`\n🤖 ChatGPT Tools:`);
       console.log(`- search - Search for documents (ChatGPT format)`);
       console.log(`- fetch - Fetch complete document content (ChatGPT format)`);
-      console.log(`\n💡 Make sure to configure your .env file with database credentials!`);
+      console.log(`\n💡 Make sure to configure your .env file with database credentials, or set DATADAM_STORAGE=local!`);
     }
   });
 }
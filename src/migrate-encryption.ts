@@ -0,0 +1,44 @@
+// Command that encrypts existing records and re-wraps them after a key rotation
+//
+//   npm run build && npm run migrate:encryption -- [--dry-run]
+//   npm run migrate:encryption -- --generate-key
+//
+// Run it once after first setting DATADAM_ENCRYPTION_KEYS, and again after
+// putting a new key first in the list. Keep old keys in the list until a run
+// reports nothing left to re-wrap.
+
+import * as dotenv from "dotenv";
+import { createBackendStoreFromEnv } from "./services/database.js";
+import { keyringFromEnv, generateMasterKey } from "./services/encryption.js";
+import { encryptStoredContent } from "./services/encrypted-store.js";
+
+dotenv.config();
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--generate-key')) {
+    console.log(`New key (add it first in DATADAM_ENCRYPTION_KEYS as "<id>:<key>"):\n${generateMasterKey()}`);
+    return;
+  }
+
+  const keyring = keyringFromEnv();
+  if (!keyring) {
+    throw new Error("Set DATADAM_ENCRYPTION_KEYS or DATADAM_ENCRYPTION_KEY_FILE first (generate a key with --generate-key)");
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const store = await createBackendStoreFromEnv();
+  console.log(`${dryRun ? 'Checking' : 'Migrating'} stored content with primary key "${keyring.primaryKeyId}"...`);
+
+  const report = await encryptStoredContent(store, keyring, { dryRun });
+  console.log(`Scanned ${report.scanned} record(s) and version(s)`);
+  console.log(`${dryRun ? 'Would encrypt' : 'Encrypted'}: ${report.encrypted}`);
+  console.log(`${dryRun ? 'Would re-wrap' : 'Re-wrapped'} with "${keyring.primaryKeyId}": ${report.rewrapped}`);
+  console.log(`${dryRun ? 'Would decrypt' : 'Decrypted'} (no longer sensitive): ${report.decrypted}`);
+}
+
+main().catch((error) => {
+  console.error("Encryption migration failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
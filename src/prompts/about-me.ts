@@ -0,0 +1,43 @@
+// What Do You Know About Me prompt
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatRecordLines, loadCategory, registerPrompt, throwOnError, userPrompt } from "./context.js";
+
+// Smaller than the profile prompt's limit since every active category is included
+const RECORDS_PER_CATEGORY = 20;
+
+export function registerAboutMePrompt(server: McpServer, store: PersonalDataStore): void {
+  registerPrompt(
+    server,
+    "datadam_about_me",
+    {
+      title: "What Do You Know About Me?",
+      description: "Overview of everything stored about me, category by category"
+    },
+    async () => {
+      const categories = throwOnError(await store.getActiveCategories()) || [];
+
+      if (categories.length === 0) {
+        return userPrompt(
+          "Nothing stored yet",
+          "What do you know about me? DataDam has no personal data stored yet, so say that and suggest a few things I could tell you to get started."
+        );
+      }
+
+      const sections: string[] = [];
+      for (const category of categories) {
+        const records = await loadCategory(store, category.category_name, RECORDS_PER_CATEGORY);
+        const shown = records.length < category.item_count ? ` (showing ${records.length} of ${category.item_count})` : '';
+        sections.push(`## ${category.display_name}${shown}\n\n${formatRecordLines(records)}`);
+      }
+
+      return userPrompt(
+        "Everything stored about me",
+        `What do you know about me? Give me an overview of the personal data below, grouped by category: the highlights of each, and how complete it seems. Mention redacted records only by title. Don't invent anything that isn't stored.
+
+${sections.join('\n\n')}`
+      );
+    }
+  );
+}
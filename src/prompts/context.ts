@@ -0,0 +1,85 @@
+// Shared helpers for building prompts from stored personal data
+
+import type { McpServer, PromptCallback, RegisteredPrompt } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode, type GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { auditRequest } from "../services/audit.js";
+import type { PersonalDataRecord } from "../types.js";
+
+// Records per category included in a prompt; prompts are context, not exports
+export const PROMPT_RECORD_LIMIT = 50;
+
+function formatValue(value: unknown): string {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * One line per record: title, tags and content fields. IDs are included only
+ * when the model is expected to act on the records with other tools.
+ */
+export function formatRecordLines(records: PersonalDataRecord[], options: { showIds?: boolean } = {}): string {
+  return records.map((record) => {
+    const fields = Object.entries(record.content || {})
+      .map(([key, value]) => `${key}: ${formatValue(value)}`)
+      .join('; ');
+    let line = `- **${record.title}**`;
+    if (record.tags && record.tags.length > 0) {
+      line += ` [${record.tags.join(', ')}]`;
+    }
+    if (fields) {
+      line += ` - ${fields}`;
+    }
+    if (record.redacted) {
+      line += ` (${record.classification}, redacted)`;
+    }
+    if (options.showIds) {
+      line += ` (id: ${record.id})`;
+    }
+    return line;
+  }).join('\n');
+}
+
+// Prompts fail as a whole on a database error rather than send the model partial context
+export function throwOnError<T>(result: { data: T | null; error: { message: string } | null }): T | null {
+  if (result.error) {
+    throw new McpError(ErrorCode.InternalError, `Database error: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export async function loadCategory(store: PersonalDataStore, category: string, limit = PROMPT_RECORD_LIMIT): Promise<PersonalDataRecord[]> {
+  return throwOnError(await store.extractPersonalData({ category, limit, offset: 0 })) || [];
+}
+
+export function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{
+      role: "user",
+      content: { type: "text", text }
+    }]
+  };
+}
+
+// The argsSchema of McpServer.registerPrompt(), whose type the SDK does not export
+type PromptArgs = NonNullable<Parameters<McpServer['registerPrompt']>[1]['argsSchema']>;
+
+/**
+ * McpServer.registerPrompt(), with each get of the prompt audited like a tool
+ * call. Prompts show records without their IDs, so every record the prompt
+ * read is logged as returned.
+ */
+export function registerPrompt<Args extends PromptArgs>(
+  server: McpServer,
+  name: string,
+  config: { title?: string; description?: string; argsSchema?: Args },
+  callback: PromptCallback<Args>
+): RegisteredPrompt {
+  // The SDK passes the arguments, when the prompt takes any, then the request's extra
+  const audited = (...params: unknown[]) => auditRequest(
+    server,
+    { name, sessionId: (params[params.length - 1] as { sessionId?: string }).sessionId },
+    () => (callback as (...params: unknown[]) => GetPromptResult | Promise<GetPromptResult>)(...params)
+  );
+  return server.registerPrompt(name, config, audited as PromptCallback<Args>);
+}
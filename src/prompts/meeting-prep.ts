@@ -0,0 +1,58 @@
+// Meeting Preparation prompt
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatRecordLines, loadCategory, registerPrompt, throwOnError, userPrompt } from "./context.js";
+
+// Contact titles look like "John Smith - Work Contact"; complete on the name part
+function contactName(title: string): string {
+  return title.split(' - ')[0].trim();
+}
+
+export function registerMeetingPrepPrompt(server: McpServer, store: PersonalDataStore): void {
+  registerPrompt(
+    server,
+    "datadam_meeting_prep",
+    {
+      title: "Prepare for a Meeting",
+      description: "Brief me before meeting one of my contacts, from everything stored about them",
+      argsSchema: {
+        contact: completable(
+          z.string().min(1).describe("Name of the contact, e.g. 'John Smith'"),
+          async (value) => {
+            const contacts = await loadCategory(store, 'contacts').catch(() => []);
+            const names = [...new Set(contacts.map((record) => contactName(record.title)))];
+            return names.filter((name) => name.toLowerCase().startsWith((value || '').toLowerCase())).slice(0, 20);
+          }
+        )
+      }
+    },
+    async ({ contact }) => {
+      const matches = throwOnError(await store.searchPersonalData({ searchText: contact, limit: 20, offset: 0 })) || [];
+      const contacts = matches.filter((record) => record.category === 'contacts');
+      const related = matches.filter((record) => record.category !== 'contacts');
+
+      if (contacts.length === 0 && related.length === 0) {
+        return userPrompt(
+          `Nothing stored about ${contact}`,
+          `I'm meeting ${contact}, but DataDam has nothing stored about them. Tell me that, ask what I know about them, and offer to save it as a contact with datadam_create_personal_data.`
+        );
+      }
+
+      return userPrompt(
+        `Meeting brief for ${contact}`,
+        `I'm about to meet ${contact}. From the stored data below, brief me: who they are and how I know them, useful details (role, company, contact info, shared interests), anything I should follow up on, and a couple of conversation openers. Say so if the data looks out of date.
+
+## Contact records
+
+${contacts.length > 0 ? formatRecordLines(contacts) : '(no contact record)'}
+
+## Other mentions
+
+${related.length > 0 ? formatRecordLines(related) : '(none)'}`
+      );
+    }
+  );
+}
@@ -0,0 +1,32 @@
+// Profile Summary prompt
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatRecordLines, loadCategory, registerPrompt, userPrompt } from "./context.js";
+
+const PROFILE_CATEGORIES = ['basic_information', 'preferences', 'interests'];
+
+export function registerProfileSummaryPrompt(server: McpServer, store: PersonalDataStore): void {
+  registerPrompt(
+    server,
+    "datadam_profile_summary",
+    {
+      title: "Profile Summary",
+      description: "Summarise who I am from my basic information, preferences and interests"
+    },
+    async () => {
+      const sections: string[] = [];
+      for (const category of PROFILE_CATEGORIES) {
+        const records = await loadCategory(store, category);
+        sections.push(`## ${category}\n\n${records.length > 0 ? formatRecordLines(records) : '(nothing stored)'}`);
+      }
+
+      return userPrompt(
+        "Profile summary from stored personal data",
+        `Write a short profile of me from the personal data below: who I am, what I prefer and what I'm into. Keep it to a few paragraphs, only use what is stored, and point out anything that looks missing or contradictory so I can fix it with the DataDam tools.
+
+${sections.join('\n\n')}`
+      );
+    }
+  );
+}
@@ -0,0 +1,52 @@
+// Review Stale Records prompt
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatTimestamp } from "../utils/formatting.js";
+import { formatRecordLines, PROMPT_RECORD_LIMIT, registerPrompt, throwOnError, userPrompt } from "./context.js";
+
+export const DEFAULT_STALE_DAYS = 180;
+
+export function registerStaleRecordsPrompt(server: McpServer, store: PersonalDataStore): void {
+  registerPrompt(
+    server,
+    "datadam_review_stale_records",
+    {
+      title: "Review Stale Records",
+      description: "Go through records that haven't been updated in a while and decide what to update or delete",
+      argsSchema: {
+        days: z.string().regex(/^\d+$/, "Must be a whole number of days").optional()
+          .describe(`Records not updated for this many days count as stale. Default: ${DEFAULT_STALE_DAYS}`)
+      }
+    },
+    async ({ days }) => {
+      const staleDays = days ? Number(days) : DEFAULT_STALE_DAYS;
+      const cutoff = new Date(Date.now() - staleDays * 24 * 60 * 60 * 1000).toISOString();
+
+      const records = throwOnError(await store.exportPersonalData({ includeDeleted: false })) || [];
+      const stale = records
+        .filter((record) => record.updated_at < cutoff)
+        .sort((a, b) => a.updated_at.localeCompare(b.updated_at));
+
+      if (stale.length === 0) {
+        return userPrompt(
+          "No stale records",
+          `Tell me that none of my ${records.length} stored record(s) are older than ${staleDays} days, so nothing needs reviewing.`
+        );
+      }
+
+      const shown = stale.slice(0, PROMPT_RECORD_LIMIT);
+      const lines = shown.map((record) =>
+        `${formatRecordLines([record], { showIds: true })} - ${record.category}, last updated ${formatTimestamp(record.updated_at)}`
+      );
+
+      return userPrompt(
+        `${stale.length} record(s) not updated in ${staleDays} days`,
+        `Help me review personal data that hasn't been updated in over ${staleDays} days${stale.length > shown.length ? ` (the ${shown.length} oldest of ${stale.length} are listed)` : ''}. Go through them in small batches and ask me whether each is still accurate. Update the ones that changed with datadam_update_personal_data and delete the ones I no longer need with datadam_delete_personal_data. Don't show me the IDs.
+
+${lines.join('\n')}`
+      );
+    }
+  );
+}
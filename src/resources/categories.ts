@@ -1,20 +1,22 @@
 // Categories resource for MCP
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Category } from "../types.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { registerResource } from "./pagination.js";
+import { describeContentSchema } from "../utils/content-schema.js";
 
-export function registerCategoriesResource(server: McpServer, supabase: SupabaseClient): void {
-  server.registerResource(
+export function registerCategoriesResource(server: McpServer, store: PersonalDataStore): void {
+  registerResource(
+    server,
     "data-categories",
     "data://categories",
     {
       title: "Data Categories",
-      description: "List of available personal data categories with item counts"
+      description: "List of available personal data categories with item counts and the content fields each expects"
     },
     async (uri) => {
       try {
-        const { data: categories, error } = await supabase.rpc('get_active_categories');
+        const { data: categories, error } = await store.getActiveCategories();
 
         if (error) {
           return {
@@ -36,14 +38,20 @@ export function registerCategoriesResource(server: McpServer, supabase: Supabase
           };
         }
 
-        const categoriesList = categories.map((cat: Category) =>
-          `${cat.display_name} (${cat.item_count} items)
+        // Schemas only add detail; list the categories even if they fail to load
+        const { data: schemas } = await store.getCategorySchemas();
+
+        const categoriesList = categories.map((cat) => {
+          const schema = schemas?.[cat.category_name];
+          return `${cat.display_name} (${cat.item_count} items)
    Category: ${cat.category_name}
    Description: ${cat.description}
    Keywords: ${cat.trigger_words.join(', ')}
    Query when: ${cat.query_hint}
-   Examples: ${cat.example_queries.join(' | ')}`
-        ).join('\n\n');
+   Examples: ${cat.example_queries.join(' | ')}${schema ? `
+   Content fields: ${describeContentSchema(schema)}
+   Content schema: ${JSON.stringify(schema)}` : ''}`;
+        }).join('\n\n');
 
         return {
           contents: [{
@@ -0,0 +1,162 @@
+// Cursor pagination for resources/list
+//
+// The SDK's own resources/list handler returns every resource in one response,
+// and the list callbacks of resource templates are not given the request's
+// cursor. Resources are therefore registered through registerResource() and
+// registerResourceTemplate() here, which keep track of them and take over
+// resources/list through the server's public setRequestHandler(). Templates
+// over many resources pass a ListResourcesPage callback that fetches only the
+// slice a page needs; the cursor records which source and how far into it the
+// next page starts. Reads of resources registered here are audited like tool
+// calls.
+
+import {
+  McpServer,
+  type ResourceTemplate,
+  type ReadResourceCallback,
+  type ReadResourceTemplateCallback,
+  type RegisteredResource,
+  type RegisteredResourceTemplate,
+  type ResourceMetadata
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  McpError,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  type Resource,
+  type ServerNotification,
+  type ServerRequest
+} from "@modelcontextprotocol/sdk/types.js";
+import { auditRequest } from "../services/audit.js";
+
+type ListExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Resolves to at most limit resources, starting offset resources into the list
+export type ListResourcesPage = (page: { offset: number; limit: number }, extra: ListExtra) => Promise<Resource[]>;
+
+export const RESOURCE_PAGE_SIZE = 100;
+
+// Where a page starts: how far into which of the listed sources
+interface ListPosition {
+  source: number;
+  offset: number;
+}
+
+function encodeCursor(position: ListPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): ListPosition {
+  try {
+    const { source, offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(source) && source >= 0 && Number.isInteger(offset) && offset >= 0) {
+      return { source, offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, "Invalid cursor for resources/list");
+}
+
+interface ListedTemplate {
+  registered: RegisteredResourceTemplate;
+  listPage?: ListResourcesPage;
+}
+
+interface ListedResources {
+  // Fixed resources by URI
+  resources: Map<string, RegisteredResource>;
+  templates: ListedTemplate[];
+}
+
+const serverResources = new WeakMap<McpServer, ListedResources>();
+
+// Templates without a page callback list everything from the SDK's list callback
+function pageOf({ registered, listPage }: ListedTemplate): ListResourcesPage {
+  return async (page, extra) => {
+    const list = registered.resourceTemplate.listCallback;
+    const resources = listPage
+      ? await listPage(page, extra)
+      : list ? (await list(extra)).resources.slice(page.offset, page.offset + page.limit) : [];
+    return resources.map((resource) => ({ ...registered.metadata, ...resource }));
+  };
+}
+
+// Fixed resources first, then each template's resources, as in the SDK. Each
+// source is asked for one more resource than the page has room for, to tell
+// whether another page follows without a separate count.
+function paginateResourceList(server: McpServer, listed: ListedResources): void {
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    const start = request.params?.cursor ? decodeCursor(request.params.cursor) : { source: 0, offset: 0 };
+
+    const fixed: ListResourcesPage = async ({ offset, limit }) => [...listed.resources]
+      .filter(([, resource]) => resource.enabled)
+      .slice(offset, offset + limit)
+      .map(([uri, resource]) => ({ uri, name: resource.name, ...resource.metadata }));
+    const sources = [fixed, ...listed.templates
+      .filter((template) => template.registered.enabled)
+      .map(pageOf)];
+
+    const resources: Resource[] = [];
+    for (let source = start.source; source < sources.length; source++) {
+      const offset = source === start.source ? start.offset : 0;
+      const room = RESOURCE_PAGE_SIZE - resources.length;
+      const found = await sources[source]({ offset, limit: room + 1 }, extra);
+      if (found.length > room) {
+        resources.push(...found.slice(0, room));
+        return { resources, nextCursor: encodeCursor({ source, offset: offset + room }) };
+      }
+      resources.push(...found);
+    }
+    return { resources };
+  });
+}
+
+// The first registration on a server installs the SDK's handler, which is replaced right after it
+function listedResources(server: McpServer): ListedResources {
+  let listed = serverResources.get(server);
+  if (!listed) {
+    listed = { resources: new Map(), templates: [] };
+    serverResources.set(server, listed);
+    paginateResourceList(server, listed);
+  }
+  return listed;
+}
+
+/**
+ * Registers a fixed resource, listed by resources/list at most
+ * RESOURCE_PAGE_SIZE resources per call, with a nextCursor while more remain.
+ */
+export function registerResource(
+  server: McpServer,
+  name: string,
+  uri: string,
+  config: ResourceMetadata,
+  readCallback: ReadResourceCallback
+): RegisteredResource {
+  const registered = server.registerResource(name, uri, config, (uri, extra) =>
+    auditRequest(server, { name, sessionId: extra.sessionId, returned: (result) => result }, () => readCallback(uri, extra))
+  );
+  listedResources(server).resources.set(uri, registered);
+  return registered;
+}
+
+/**
+ * As registerResource(), for a template. listPage, when given, lists the
+ * template's resources a page at a time in place of its list callback.
+ */
+export function registerResourceTemplate(
+  server: McpServer,
+  name: string,
+  template: ResourceTemplate,
+  config: ResourceMetadata,
+  readCallback: ReadResourceTemplateCallback,
+  listPage?: ListResourcesPage
+): RegisteredResourceTemplate {
+  const registered = server.registerResource(name, template, config, (uri, variables, extra) =>
+    auditRequest(server, { name, sessionId: extra.sessionId, returned: (result) => result }, () => readCallback(uri, variables, extra))
+  );
+  listedResources(server).templates.push({ registered, listPage });
+  return registered;
+}
@@ -0,0 +1,149 @@
+// Per-category and per-record resources for MCP
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { registerResourceTemplate } from "./pagination.js";
+import { formatAsMarkdown, formatSingleRecordMarkdown } from "../utils/formatting.js";
+
+export const CATEGORY_URI_PREFIX = "data://categories/";
+export const RECORD_URI_PREFIX = "data://records/";
+
+// Records included when a whole category is read; larger categories are truncated
+const CATEGORY_RESOURCE_LIMIT = 500;
+
+type ResourceFormat = 'markdown' | 'json';
+
+// Both templates take ?format=json; the SDK matches the query into the last
+// variable, so it is read from the URI and stripped from the variable here
+function parseRequest(uri: URL, variable: string | string[]): { value: string; format: ResourceFormat } {
+  const raw = Array.isArray(variable) ? variable[0] : variable;
+  return {
+    value: decodeURIComponent(raw.split('?')[0]),
+    format: uri.searchParams.get('format') === 'json' ? 'json' : 'markdown'
+  };
+}
+
+function textResult(uri: URL, text: string, format: ResourceFormat | 'text' = 'text'): ReadResourceResult {
+  const mimeType = format === 'json' ? 'application/json' : format === 'markdown' ? 'text/markdown' : 'text/plain';
+  return { contents: [{ uri: uri.href, text, mimeType }] };
+}
+
+function errorText(error: unknown): string {
+  return `Database connection error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
+
+export function registerCategoryRecordsResource(server: McpServer, store: PersonalDataStore): void {
+  registerResourceTemplate(
+    server,
+    "data-category-records",
+    new ResourceTemplate(`${CATEGORY_URI_PREFIX}{category}`, {
+      list: async () => {
+        const { data: categories } = await store.getActiveCategories();
+        return {
+          resources: (categories || []).map((cat) => ({
+            uri: `${CATEGORY_URI_PREFIX}${encodeURIComponent(cat.category_name)}`,
+            name: cat.display_name,
+            description: `${cat.item_count} record(s) in ${cat.category_name}`,
+            mimeType: "text/markdown"
+          }))
+        };
+      },
+      complete: {
+        category: async (value) => {
+          const { data: categories } = await store.getActiveCategories();
+          return (categories || [])
+            .map((cat) => cat.category_name)
+            .filter((name) => name.startsWith(value));
+        }
+      }
+    }),
+    {
+      title: "Category Records",
+      description: `Every record in one category, as Markdown or, with ?format=json, as JSON. Returns up to ${CATEGORY_RESOURCE_LIMIT} records.`
+    },
+    async (uri, { category: variable }) => {
+      const { value: category, format } = parseRequest(uri, variable);
+      try {
+        const { data: records, error } = await store.extractPersonalData({
+          category,
+          limit: CATEGORY_RESOURCE_LIMIT,
+          offset: 0
+        });
+
+        if (error) {
+          return textResult(uri, `Error fetching records: ${error.message}`);
+        }
+
+        const results = records || [];
+        const truncated = results.length === CATEGORY_RESOURCE_LIMIT;
+
+        if (format === 'json') {
+          return textResult(uri, JSON.stringify({
+            category,
+            count: results.length,
+            results,
+            truncated
+          }, null, 2), 'json');
+        }
+
+        if (results.length === 0) {
+          return textResult(uri, `No records found in category "${category}".`, 'markdown');
+        }
+
+        const markdown = formatAsMarkdown(results, { showIds: true, maxContentLength: Infinity });
+        return textResult(uri, truncated
+          ? `${markdown}Only the first ${CATEGORY_RESOURCE_LIMIT} records are included. Use datadam_extract_personal_data with an offset for the rest.\n`
+          : markdown, 'markdown');
+      } catch (error) {
+        return textResult(uri, errorText(error));
+      }
+    }
+  );
+}
+
+export function registerRecordResource(server: McpServer, store: PersonalDataStore): void {
+  registerResourceTemplate(
+    server,
+    "data-records",
+    // Listed a page at a time below rather than all at once
+    new ResourceTemplate(`${RECORD_URI_PREFIX}{id}`, { list: undefined }),
+    {
+      title: "Personal Data Record",
+      description: "A single record by ID, as Markdown or, with ?format=json, as JSON"
+    },
+    async (uri, { id: variable }) => {
+      const { value: id, format } = parseRequest(uri, variable);
+      try {
+        const { data: records, error } = await store.getPersonalData({ recordIds: [id] });
+
+        if (error) {
+          return textResult(uri, `Error fetching record: ${error.message}`);
+        }
+
+        const record = records?.[0];
+        if (!record) {
+          return textResult(uri, `Record ${id} not found. It may have been deleted.`);
+        }
+
+        return format === 'json'
+          ? textResult(uri, JSON.stringify(record, null, 2), 'json')
+          : textResult(uri, formatSingleRecordMarkdown(record), 'markdown');
+      } catch (error) {
+        return textResult(uri, errorText(error));
+      }
+    },
+    async ({ offset, limit }) => {
+      const { data: records, error } = await store.listRecordSummaries({ limit, offset });
+      if (error) {
+        throw new Error(`Error listing records: ${error.message}`);
+      }
+      return (records || []).map((record) => ({
+        uri: `${RECORD_URI_PREFIX}${record.id}`,
+        name: record.title,
+        description: `${record.category} record`,
+        mimeType: "text/markdown"
+      }));
+    }
+  );
+}
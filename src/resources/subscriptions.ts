@@ -0,0 +1,76 @@
+// resources/subscribe support for category and record resources
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { onRecordsChanged, type RecordsChangedEvent } from "../services/record-events.js";
+import { CATEGORY_URI_PREFIX, RECORD_URI_PREFIX } from "./records.js";
+
+const CATEGORIES_URI = "data://categories";
+
+// Subscriptions are kept by URI without the query, so ?format=json and the
+// Markdown form of a resource share one subscription
+function baseUri(uri: string): string {
+  return uri.split('?')[0];
+}
+
+function isAffected(uri: string, event: RecordsChangedEvent): boolean {
+  if (uri === CATEGORIES_URI) {
+    return true;
+  }
+  if (uri.startsWith(RECORD_URI_PREFIX)) {
+    return event.recordIds.includes(decodeURIComponent(uri.slice(RECORD_URI_PREFIX.length)));
+  }
+  if (uri.startsWith(CATEGORY_URI_PREFIX)) {
+    return event.categories.includes(decodeURIComponent(uri.slice(CATEGORY_URI_PREFIX.length)));
+  }
+  return false;
+}
+
+/**
+ * Lets the session subscribe to data://categories, data://categories/{category}
+ * and data://records/{id}. When any session changes a matching record of the
+ * same user, notifications/resources/updated is sent for each subscribed URI.
+ * Returns a function that drops the session's subscriptions.
+ */
+export function enableResourceSubscriptions(server: McpServer, userId: string | null = null): () => void {
+  const subscriptions = new Set<string>();
+  let stopListening: (() => void) | null = null;
+
+  const notify = (event: RecordsChangedEvent) => {
+    // A session without a user sees every record, so it hears about every change
+    if (userId && event.userId && event.userId !== userId) {
+      return;
+    }
+    for (const uri of subscriptions) {
+      if (isAffected(uri, event)) {
+        server.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to send resource update for ${uri}:`, error);
+        });
+      }
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(baseUri(request.params.uri));
+    // Only listen while subscribed, so sessions without subscriptions cost nothing per write
+    stopListening ??= onRecordsChanged(notify);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(baseUri(request.params.uri));
+    if (subscriptions.size === 0 && stopListening) {
+      stopListening();
+      stopListening = null;
+    }
+    return {};
+  });
+
+  return () => {
+    subscriptions.clear();
+    stopListening?.();
+    stopListening = null;
+  };
+}
@@ -0,0 +1,75 @@
+// Admin HTTP route for querying the audit log
+
+import express from "express";
+// Declares req.auth
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { store } from "../services/database.js";
+import { resolveIdentity, isAdminPrincipal } from "../auth/identity.js";
+
+export const ACCESS_LOG_PATH = '/admin/access-log';
+
+const MAX_LIMIT = 500;
+
+function queryString(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+/**
+ * Mounts GET /admin/access-log, which returns audit log entries across all
+ * users as JSON, newest first:
+ *
+ *   curl 'http://localhost:3000/admin/access-log?classification=confidential&since=2025-06-01' -H 'X-API-Key: ...'
+ *
+ * Filters: userId, principal, tool, recordId, classification, since, plus limit
+ * (default 100, max 500) and offset. Only the API keys named in
+ * DATADAM_ADMIN_PRINCIPALS may call it.
+ */
+export function registerAccessLogRoute(app: express.Express, requireAuth: express.RequestHandler): void {
+  app.get(ACCESS_LOG_PATH, requireAuth, async (req: express.Request, res: express.Response) => {
+    const { principal } = resolveIdentity(req.auth);
+    if (!isAdminPrincipal(principal)) {
+      res.status(403).json({ error: 'Forbidden: the access log is only available to keys listed in DATADAM_ADMIN_PRINCIPALS' });
+      return;
+    }
+
+    const limit = Number(queryString(req.query.limit) ?? 100);
+    const offset = Number(queryString(req.query.offset) ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      res.status(400).json({ error: `limit must be 1-${MAX_LIMIT} and offset a non-negative integer` });
+      return;
+    }
+
+    const since = queryString(req.query.since);
+    if (since && Number.isNaN(Date.parse(since))) {
+      res.status(400).json({ error: `Invalid since "${since}". Use an ISO 8601 date or time.` });
+      return;
+    }
+
+    try {
+      const { data: entries, error } = await store.getAuditLog({
+        userId: queryString(req.query.userId),
+        principal: queryString(req.query.principal),
+        tool: queryString(req.query.tool),
+        recordId: queryString(req.query.recordId),
+        classification: queryString(req.query.classification),
+        since: since ? new Date(since).toISOString() : null,
+        limit,
+        offset
+      });
+
+      if (error) {
+        res.status(500).json({ error: `Database error: ${error.message}` });
+        return;
+      }
+
+      res.status(200).json({
+        count: entries?.length || 0,
+        results: entries || [],
+        has_more: (entries?.length || 0) === limit,
+        next_offset: offset + (entries?.length || 0)
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to read access log' });
+    }
+  });
+}
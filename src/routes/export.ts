@@ -0,0 +1,62 @@
+// HTTP download route for full data exports
+
+import express from "express";
+// Declares req.auth
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { exportPersonalData, type ExportFormat } from "../services/exporter.js";
+import { resolveIdentity } from "../auth/identity.js";
+import { resolveStore } from "../server.js";
+import { accessPolicyFromEnv, mayExportConfidential } from "../services/access-policy.js";
+import { auditCall } from "../services/audit.js";
+
+export const EXPORT_PATH = '/export';
+
+const FORMATS: ExportFormat[] = ['json', 'csv', 'markdown'];
+
+/**
+ * Mounts GET /export, which downloads all of the authenticated user's records:
+ *
+ *   curl -OJ 'http://localhost:3000/export?format=csv&includeDeleted=true' -H 'X-API-Key: ...'
+ *
+ * format is json (default), csv or markdown, as in datadam_export_personal_data.
+ * Records above the client's maximum classification are redacted or left out,
+ * and so are confidential records, as in a session that has not unlocked them.
+ * includeConfidential=true reveals them to the keys named in
+ * DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS. Each download is audited as
+ * "GET /export", with every record it contains.
+ */
+export function registerExportRoute(app: express.Express, requireAuth: express.RequestHandler): void {
+  app.get(EXPORT_PATH, requireAuth, async (req: express.Request, res: express.Response) => {
+    const format = (typeof req.query.format === 'string' ? req.query.format : 'json') as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      res.status(400).json({ error: `Unknown export format "${format}". Use one of: ${FORMATS.join(', ')}` });
+      return;
+    }
+
+    const identity = resolveIdentity(req.auth);
+    const includeConfidential = req.query.includeConfidential === 'true';
+    if (includeConfidential && !mayExportConfidential(identity.principal)) {
+      res.status(403).json({ error: 'Forbidden: confidential exports are only available to keys listed in DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS' });
+      return;
+    }
+
+    try {
+      // A download has no session to unlock in; the flag stands in for the unlock
+      const accessPolicy = accessPolicyFromEnv('mcp', identity.principal, { unlocked: includeConfidential });
+      const store = resolveStore({ identity, accessPolicy });
+      const file = await auditCall(store, { identity, endpoint: 'mcp' }, { name: `GET ${EXPORT_PATH}` }, () =>
+        exportPersonalData(store, {
+          format,
+          includeDeleted: req.query.includeDeleted === 'true'
+        })
+      );
+
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.setHeader('X-Record-Count', String(file.recordCount));
+      res.status(200).send(file.data);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Export failed' });
+    }
+  });
+}
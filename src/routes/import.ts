@@ -0,0 +1,89 @@
+// HTTP upload route for bulk imports
+
+import express from "express";
+// Declares req.auth
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { availableCategories, allCategories, categorySchemas, refreshCategories } from "../services/database.js";
+import { importPersonalData } from "../services/importer.js";
+import type { ImportFormat } from "../utils/import-formats.js";
+import { auditCall } from "../services/audit.js";
+import { resolveIdentity } from "../auth/identity.js";
+import { resolveStore } from "../server.js";
+
+export const IMPORT_PATH = '/import';
+
+const FORMATS: ImportFormat[] = ['csv', 'json', 'vcard'];
+
+const CONTENT_TYPE_FORMATS: Record<string, ImportFormat> = {
+  'text/csv': 'csv',
+  'application/json': 'json',
+  'text/vcard': 'vcard',
+  'text/x-vcard': 'vcard'
+};
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Mounts POST /import, which takes the raw file as the request body, e.g.
+ *
+ *   curl -X POST 'http://localhost:3000/import?dryRun=true' \
+ *     -H 'Content-Type: text/vcard' -H 'X-API-Key: ...' --data-binary @contacts.vcf
+ *
+ * The format comes from ?format= or the Content-Type. Other query parameters
+ * mirror the datadam_import_personal_data tool: category, titleField, tags
+ * (comma separated), classification, dryRun and allowDuplicates. Records are created for the
+ * authenticated user and the per-row report is returned as JSON. Each upload
+ * is audited as "POST /import", with the records it created.
+ */
+export function registerImportRoute(app: express.Express, requireAuth: express.RequestHandler): void {
+  app.post(
+    IMPORT_PATH,
+    requireAuth,
+    express.text({ type: ['text/*', 'application/*'], limit: '5mb' }),
+    async (req: express.Request, res: express.Response) => {
+      const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      const format = (queryString(req.query.format) || CONTENT_TYPE_FORMATS[contentType]) as ImportFormat | undefined;
+
+      if (!format || !FORMATS.includes(format)) {
+        res.status(400).json({
+          error: `Unknown import format. Pass ?format=${FORMATS.join('|')} or a Content-Type of ${Object.keys(CONTENT_TYPE_FORMATS).join(', ')}`
+        });
+        return;
+      }
+
+      const data = typeof req.body === 'string' ? req.body : '';
+      if (!data.trim()) {
+        res.status(400).json({ error: 'Request body is empty. Send the file content as the body.' });
+        return;
+      }
+
+      try {
+        const identity = resolveIdentity(req.auth);
+        const store = resolveStore({ identity });
+        const tags = queryString(req.query.tags)?.split(',').map((tag) => tag.trim()).filter(Boolean);
+        const report = await auditCall(store, { identity, endpoint: 'mcp' }, { name: `POST ${IMPORT_PATH}`, returned: (report) => report }, () =>
+          importPersonalData(store, {
+            format,
+            data,
+            category: queryString(req.query.category),
+            titleField: queryString(req.query.titleField),
+            tags,
+            classification: queryString(req.query.classification),
+            dryRun: req.query.dryRun === 'true',
+            allowDuplicates: req.query.allowDuplicates === 'true'
+          }, { allCategories, categorySchemas })
+        );
+
+        if (report.categories.some((name) => !availableCategories.includes(name))) {
+          await refreshCategories();
+        }
+
+        res.status(200).json(report);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Import failed' });
+      }
+    }
+  );
+}
@@ -0,0 +1,262 @@
+// Streamable HTTP routes for an MCP endpoint
+
+import express from "express";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+// Declares req.auth
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { resolveIdentity, type SessionIdentity } from "../auth/identity.js";
+import { accessPolicyFromEnv, type AccessPolicy, type PolicyEndpoint } from "../services/access-policy.js";
+import { createSessionEventStore } from "../services/event-store.js";
+import type { SessionRecord } from "../services/session-store.js";
+import type { LocalSession, SessionManager } from "../services/sessions.js";
+
+export interface McpRouteOptions {
+  path: string;
+  // Which classification policy sessions on this endpoint get
+  policyEndpoint: PolicyEndpoint;
+  // Prefix for session log lines, e.g. 'ChatGPT '
+  label?: string;
+  createServer: (identity: SessionIdentity, accessPolicy: AccessPolicy) => McpServer;
+  // Omitted in stateless mode
+  sessions?: SessionManager;
+}
+
+type SessionHandles = Pick<LocalSession, 'transport' | 'accessPolicy'>;
+
+// Reads DATADAM_STATELESS; stateless servers keep no sessions, so any instance can answer any request
+export function isStatelessMode(): boolean {
+  return (process.env.DATADAM_STATELESS || '').toLowerCase() === 'true';
+}
+
+function sendJsonRpcError(res: express.Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+// The session store failed, e.g. the database is unreachable
+function sendSessionStoreError(res: express.Response, error: unknown): void {
+  console.error("Session store error:", error);
+  if (!res.headersSent) {
+    sendJsonRpcError(res, 503, -32000, 'Service Unavailable: sessions cannot be read right now. Try again shortly.');
+  }
+}
+
+// Building the server or handling the request failed
+function sendInternalError(res: express.Response, error: unknown): void {
+  console.error("MCP request error:", error);
+  if (!res.headersSent) {
+    sendJsonRpcError(res, 500, -32603, 'Internal server error');
+  }
+}
+
+// Marks a transport created for an existing session as initialized under its ID.
+// The SDK has no public way to do this; its transport only checks these two
+// fields. package.json pins the SDK version this was checked against, and
+// test/sessions.test.ts fails if an upgrade changes how sessions are validated.
+function restoreSession(transport: StreamableHTTPServerTransport, sessionId: string): void {
+  const state = transport as unknown as { _initialized?: boolean };
+  if (typeof state._initialized !== 'boolean') {
+    throw new Error('Cannot restore MCP sessions with this version of @modelcontextprotocol/sdk');
+  }
+  transport.sessionId = sessionId;
+  state._initialized = true;
+}
+
+/**
+ * Mounts POST, GET and DELETE on `path`. A POST without a session ID must be
+ * an initialize request and opens a session bound to the caller's principal;
+ * every other request must name an open session of that principal on this
+ * endpoint. Sessions that expired or were closed answer 404, which tells
+ * clients to initialize again; expiry ends the session's SSE streams. SSE
+ * streams can be resumed with Last-Event-ID on the instance that sent them.
+ *
+ * A session opened on another instance sharing the session store is adopted
+ * on its first request here, with a new MCP server for the same identity.
+ *
+ * Without a session manager the endpoint is stateless: every POST gets its own
+ * server and transport, and GET and DELETE are not supported.
+ */
+export function registerMcpRoute(app: express.Express, options: McpRouteOptions): void {
+  const { path, policyEndpoint, label = '', createServer, sessions } = options;
+
+  if (!sessions) {
+    registerStatelessMcpRoute(app, options);
+    return;
+  }
+
+  // Builds the transport and server of a new session, or of one opened elsewhere when `adopted` is given
+  const connectSession = async (
+    identity: SessionIdentity,
+    adopted: SessionRecord | null,
+    onInitialized: (sessionId: string, handles: SessionHandles) => Promise<void>
+  ): Promise<SessionHandles> => {
+    let sessionId = adopted?.id;
+    // Unlocks are shared through the session store, so every instance serving the session sees them
+    const accessPolicy = accessPolicyFromEnv(policyEndpoint, identity.principal, {
+      onUnlockChange: (until) => {
+        if (sessionId) {
+          sessions.store.setUnlockedUntil(sessionId, until ? until.toISOString() : null).catch((error) => {
+            console.error(`Failed to share the unlock of session ${sessionId}:`, error);
+          });
+        }
+      }
+    });
+    if (adopted?.unlocked_until) {
+      accessPolicy.setUnlockedUntil(new Date(adopted.unlocked_until));
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: async (id) => {
+        sessionId = id;
+        await onInitialized(id, { transport, accessPolicy });
+      },
+      onsessionclosed: async (id) => {
+        await sessions.end(id);
+      },
+      eventStore: createSessionEventStore(),
+      enableDnsRebindingProtection: false,
+    });
+
+    // Clean up transport when closed
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        console.log(`Closed ${label}session: ${transport.sessionId}`);
+        sessions.release(transport.sessionId);
+      }
+    };
+
+    const server = createServer(identity, accessPolicy);
+    await server.connect(transport);
+    if (adopted) {
+      restoreSession(transport, adopted.id);
+    }
+    return { transport, accessPolicy };
+  };
+
+  // Finds the open session a request names, adopting it if another instance opened it,
+  // or answers the request with an error
+  const findSession = async (req: express.Request, res: express.Response): Promise<LocalSession | undefined> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return undefined;
+    }
+
+    const record = await sessions.resume(sessionId);
+    if (!record || record.endpoint !== path) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found: it expired or was closed. Start a new session.');
+      return undefined;
+    }
+    if (record.principal !== resolveIdentity(req.auth).principal) {
+      sendJsonRpcError(res, 403, -32001, 'Forbidden: Session belongs to a different client');
+      return undefined;
+    }
+
+    if (!sessions.local(sessionId)) {
+      const identity = { principal: record.principal, userId: record.user_id };
+      sessions.adopt(sessionId, await connectSession(identity, record, async () => {}));
+      console.log(`Adopted ${label}session: ${sessionId}`);
+    }
+
+    if (req.method !== 'GET') {
+      sessions.track(sessionId, res);
+    }
+    return sessions.local(sessionId);
+  };
+
+  // Handle POST requests for client-to-server communication
+  app.post(path, async (req: express.Request, res: express.Response) => {
+    try {
+      if (req.headers['mcp-session-id'] || !isInitializeRequest(req.body)) {
+        const session = await findSession(req, res);
+        if (session) {
+          await session.transport.handleRequest(req, res, req.body);
+        }
+        return;
+      }
+
+      if (!(await sessions.hasCapacity())) {
+        sendJsonRpcError(
+          res,
+          503,
+          -32000,
+          `Service Unavailable: Too many active sessions (limit ${sessions.limits.maxSessions}). Close unused sessions or try again later.`
+        );
+        return;
+      }
+
+      // New initialization request, bound to the authenticated identity
+      const identity = resolveIdentity(req.auth);
+      const { transport } = await connectSession(identity, null, async (sessionId, handles) => {
+        await sessions.open({ id: sessionId, endpoint: path, principal: identity.principal, user_id: identity.userId }, handles);
+        sessions.track(sessionId, res);
+        console.log(`New ${label}session initialized: ${sessionId}`);
+      });
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      sendSessionStoreError(res, error);
+    }
+  });
+
+  // Handle GET requests for server-to-client notifications via SSE
+  app.get(path, async (req: express.Request, res: express.Response) => {
+    try {
+      const session = await findSession(req, res);
+      if (session) {
+        await session.transport.handleRequest(req, res);
+      }
+    } catch (error) {
+      sendSessionStoreError(res, error);
+    }
+  });
+
+  // Handle DELETE requests for session termination
+  app.delete(path, async (req: express.Request, res: express.Response) => {
+    try {
+      const session = await findSession(req, res);
+      if (session) {
+        await session.transport.handleRequest(req, res);
+      }
+    } catch (error) {
+      sendSessionStoreError(res, error);
+    }
+  });
+}
+
+function registerStatelessMcpRoute(app: express.Express, options: McpRouteOptions): void {
+  const { path, policyEndpoint, createServer } = options;
+
+  app.post(path, async (req: express.Request, res: express.Response) => {
+    try {
+      const identity = resolveIdentity(req.auth);
+      const server = createServer(identity, accessPolicyFromEnv(policyEndpoint, identity.principal));
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+        enableDnsRebindingProtection: false,
+      });
+      res.on('close', () => {
+        transport.close();
+        server.close();
+      });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      sendInternalError(res, error);
+    }
+  });
+
+  // There is no session to stream notifications on or to end
+  const notSupported = (req: express.Request, res: express.Response) => {
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed: this server runs in stateless mode and keeps no sessions');
+  };
+  app.get(path, notSupported);
+  app.delete(path, notSupported);
+}
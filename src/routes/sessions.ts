@@ -0,0 +1,45 @@
+// Admin HTTP route listing open MCP sessions
+
+import express from "express";
+// Declares req.auth
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { resolveIdentity, isAdminPrincipal } from "../auth/identity.js";
+import type { SessionManager } from "../services/sessions.js";
+
+export const SESSIONS_PATH = '/admin/sessions';
+
+/**
+ * Mounts GET /admin/sessions, which returns the open sessions on every MCP
+ * endpoint and, with a shared session store, every instance, oldest first,
+ * with their principal and last activity:
+ *
+ *   curl 'http://localhost:3000/admin/sessions' -H 'X-API-Key: ...'
+ *
+ * Only the API keys named in DATADAM_ADMIN_PRINCIPALS may call it.
+ */
+export function registerSessionsRoute(
+  app: express.Express,
+  requireAuth: express.RequestHandler,
+  sessions: SessionManager
+): void {
+  app.get(SESSIONS_PATH, requireAuth, async (req: express.Request, res: express.Response) => {
+    const { principal } = resolveIdentity(req.auth);
+    if (!isAdminPrincipal(principal)) {
+      res.status(403).json({ error: 'Forbidden: sessions are only visible to keys listed in DATADAM_ADMIN_PRINCIPALS' });
+      return;
+    }
+
+    try {
+      const results = await sessions.list();
+      res.status(200).json({
+        count: results.length,
+        session_store: sessions.store.kind,
+        max_sessions: sessions.limits.maxSessions || null,
+        idle_timeout_minutes: sessions.limits.idleTimeoutMs / 60000 || null,
+        results
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list sessions' });
+    }
+  });
+}
@@ -1,7 +1,7 @@
 // Zod schemas for all MCP tools
 
 import { z } from "zod";
-import { availableCategories, allCategories } from "../services/supabase.js";
+import { availableCategories, allCategories } from "../services/database.js";
 
 // Helper function to ensure only active categories are accepted (for search/extract tools)
 // Uses z.lazy() to defer evaluation until validation time (after categories are loaded)
@@ -35,15 +35,55 @@ export const getCreateCategorySchema = () => {
   }).describe(`Category from registry. Must match one of the categories in the category_registry table. Available: ${allCategories.join(', ') || 'loading...'}`);
 };
 
+const rangeBound = z.union([z.number(), z.string()]);
+
+const isoTime = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "Must be an ISO 8601 date or time, e.g. '2025-06-01' or '2025-06-01T09:00:00Z'"
+});
+
+const timeWindow = z.object({
+  from: isoTime.optional().describe("Inclusive lower bound"),
+  to: isoTime.optional().describe("Exclusive upper bound")
+}).strict();
+
+const contentFieldFilter = z.object({
+  eq: z.union([z.string(), z.number(), z.boolean()]).optional().describe("Equals this value (strings case-insensitive; array fields match any element)"),
+  contains: z.string().optional().describe("Case-insensitive substring of a text field, or of any element of a list field"),
+  gt: rangeBound.optional().describe("Greater than. Numbers compare with numbers, strings such as ISO dates with strings"),
+  gte: rangeBound.optional().describe("Greater than or equal"),
+  lt: rangeBound.optional().describe("Less than"),
+  lte: rangeBound.optional().describe("Less than or equal"),
+  exists: z.boolean().optional().describe("true: the field is set and not null; false: it is missing or null")
+}).strict().refine((filter) => Object.values(filter).some((value) => value !== undefined), {
+  message: "Give at least one condition: eq, contains, gt, gte, lt, lte or exists"
+});
+
+// Typed filters for extract; see RecordFilters in types.ts for the semantics
+export const ExtractFiltersSchema = z.object({
+  content: z.record(z.string().min(1), contentFieldFilter).optional().describe("Conditions on content fields, all of which must hold. Nested fields use dots. Example: { \"rating\": { \"gte\": 4 }, \"address.city\": { \"eq\": \"Boston\" } }"),
+  created: timeWindow.optional().describe("Only records created in this window"),
+  updated: timeWindow.optional().describe("Only records last updated in this window"),
+  tags: z.object({
+    any: z.array(z.string()).optional().describe("Has at least one of these tags"),
+    all: z.array(z.string()).optional().describe("Has every one of these tags"),
+    none: z.array(z.string()).optional().describe("Has none of these tags")
+  }).strict().optional(),
+  sort: z.object({
+    field: z.enum(['updated_at', 'created_at', 'title']).default('updated_at'),
+    direction: z.enum(['asc', 'desc']).default('desc')
+  }).strict().optional().describe("Result order. Default: most recently updated first")
+}).strict();
+
 // Search Personal Data Input Schema
 export const SearchInputSchema = {
   query: z.string().min(1).describe("Specific search term, name, or datapoint to find. Must be concrete reference. Examples: 'John email', 'passport', 'TypeScript', 'Matt Ridley', 'Boston address'"),
   categories: z.array(getCategorySchema()).optional().describe("Optional: Narrow search to specific active categories. Examples: ['contacts'], ['books', 'documents']. Leave empty to search all."),
   tags: z.array(z.string()).optional().describe("Optional: Filter by tags. Use singular form. Examples: ['family'], ['work', 'urgent']"),
   classification: z.enum(['public', 'personal', 'sensitive', 'confidential']).optional().describe("Optional: Filter by data sensitivity level"),
+  mode: z.enum(['keyword', 'semantic', 'hybrid']).default('keyword').describe("Matching mode: 'keyword' (default, exact terms), 'semantic' (similar meaning) or 'hybrid' (both, blended ranking)"),
   limit: z.number().min(1).max(100).default(20).describe("Max results. Default: 20, Max: 100"),
   offset: z.number().min(0).default(0).describe("Pagination offset"),
-  userId: z.string().optional().describe("Optional: User UUID."),
+  cursor: z.string().optional().describe("Optional: The next_cursor from a previous page. Continues exactly where that page ended even if records changed in between, and takes precedence over offset. Only valid with the same query and filters"),
   response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
 };
 
@@ -53,8 +93,8 @@ export const ExtractInputSchema = {
   tags: z.array(z.string()).optional().describe("Optional: Filter within category by tags. Singular forms only. Examples: ['family'], ['work'], ['sci-fi']"),
   limit: z.number().min(1).max(100).default(50).describe("Results per page. Default: 50, Max: 100"),
   offset: z.number().min(0).default(0).describe("Pagination offset"),
-  userId: z.string().optional().describe("Optional: User UUID."),
-  filters: z.record(z.any()).optional().describe("Optional: Additional field-level filters"),
+  cursor: z.string().optional().describe("Optional: The next_cursor from a previous page. Continues exactly where that page ended even if records changed in between, and takes precedence over offset. Only valid with the same query and filters"),
+  filters: ExtractFiltersSchema.optional().describe("Optional: Filters on content fields, created/updated time, tags and sort order. Example: { \"content\": { \"year\": { \"gte\": 2020 } }, \"sort\": { \"field\": \"title\", \"direction\": \"asc\" } }"),
   response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
 };
 
@@ -65,7 +105,7 @@ export const CreateInputSchema = {
   content: z.record(z.any()).describe("Structured attributes/characteristics as JSON key-value pairs tied to the title. Keep concise - attributes only, NOT explanations or long lists. Examples: {email: 'x@y.com', phone: '555-1234'}, {author: 'Matt Ridley', genre: 'Science'}, {location: 'Boston, MA', state: 'Massachusetts'}"),
   tags: z.array(z.string()).optional().describe("Optional tags. Singular forms: 'family', 'work', 'favorite', 'urgent', 'learning' (NOT plural)"),
   classification: z.enum(['personal', 'sensitive', 'confidential']).default('personal').describe("Sensitivity level. Default: 'personal'. Use 'sensitive' for private info, 'confidential' for highly sensitive"),
-  userId: z.string().optional().describe("Optional: User UUID."),
+  allowDuplicate: z.boolean().default(false).describe("Create even if a similar record exists in the category. Default: false. Set true only after confirming the possible duplicates are different entities"),
   response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
 };
 
@@ -73,7 +113,7 @@ export const CreateInputSchema = {
 export const UpdateInputSchema = {
   recordId: z.string().min(1).describe("UUID of record to update. Obtain from datadam_search_personal_data or datadam_extract_personal_data first. Never show to user."),
   updates: z.record(z.any()).describe("Fields to update. Only include changed fields. Examples: {content: {email: 'new@email.com'}}, {tags: ['family', 'urgent']}"),
-  conversationContext: z.string().optional().describe("Optional: Conversation context for extracting updates"),
+  conversationContext: z.string().optional().describe("Optional: Why the record is changing. Stored with the record history"),
   response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
 };
 
@@ -84,6 +124,125 @@ export const DeleteInputSchema = {
   response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
 };
 
+// Record History Input Schema
+export const HistoryInputSchema = {
+  recordId: z.string().min(1).describe("UUID of the record. Obtain from datadam_search_personal_data or datadam_extract_personal_data first. Never show to user."),
+  limit: z.number().min(1).max(50).default(10).describe("Max versions to return, newest first. Default: 10, Max: 50"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Revert Personal Data Input Schema
+export const RevertInputSchema = {
+  recordId: z.string().min(1).describe("UUID of the record to revert. Never show to user."),
+  version: z.number().int().min(1).describe("Version to restore, as listed by datadam_get_record_history"),
+  conversationContext: z.string().optional().describe("Optional: Why the record is being reverted"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// List Deleted Personal Data Input Schema
+export const ListDeletedInputSchema = {
+  categories: z.array(getCreateCategorySchema()).optional().describe("Optional: Only list deleted records from these categories. Examples: ['contacts'], ['books']"),
+  limit: z.number().min(1).max(100).default(20).describe("Max results. Default: 20, Max: 100"),
+  offset: z.number().min(0).default(0).describe("Pagination offset"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Restore Personal Data Input Schema
+export const RestoreInputSchema = {
+  recordIds: z.array(z.string()).min(1).describe("Array of soft-deleted record UUIDs to restore. Obtain from datadam_list_deleted_personal_data first. Never show to user."),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Merge Personal Data Input Schema
+export const MergeInputSchema = {
+  keepId: z.string().min(1).describe("UUID of the record to keep. Usually the older, more complete record. Never show to user."),
+  mergeId: z.string().min(1).describe("UUID of the duplicate to merge into the kept record. It is soft-deleted afterwards. Never show to user."),
+  preferMerged: z.boolean().default(false).describe("On conflicting content values, take the duplicate's value instead of the kept record's. Default: false"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Import Personal Data Input Schema
+export const ImportInputSchema = {
+  format: z.enum(['csv', 'json', 'vcard']).describe("File format: 'csv' (header row required), 'json' (array of objects) or 'vcard' (.vcf contacts)"),
+  data: z.string().min(1).max(2_000_000).describe("Full file content as text"),
+  category: getCreateCategorySchema().optional().describe("Category for rows without a 'category' column. vCard files default to 'contacts'"),
+  titleField: z.string().optional().describe("Column to use as the record title. Default: 'title', then 'name'"),
+  tags: z.array(z.string()).optional().describe("Tags added to every imported record. Singular forms: 'family', 'work'"),
+  classification: z.enum(['personal', 'sensitive', 'confidential']).optional().describe("Classification for rows without a 'classification' column. Default: 'personal'"),
+  dryRun: z.boolean().default(false).describe("Validate and preview the records without creating them. Default: false"),
+  allowDuplicates: z.boolean().default(false).describe("Import rows that look like an existing record or an earlier row instead of skipping them. Default: false"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Export Personal Data Input Schema
+export const ExportInputSchema = {
+  format: z.enum(['json', 'csv', 'markdown']).default('json').describe("Export format: 'json' (one file, default), 'csv' (zip with one CSV per category) or 'markdown' (zip with one Markdown file per record)"),
+  includeDeleted: z.boolean().default(false).describe("Include soft-deleted records that have not been purged yet. Default: false"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Access Log Input Schema
+export const AccessLogInputSchema = {
+  since: z.string().datetime({ offset: true }).optional().describe("Optional: Only entries at or after this ISO 8601 time. Example: '2025-06-01T00:00:00Z'"),
+  tool: z.string().optional().describe("Optional: Only calls of this tool, resource, prompt or route. Example: 'fetch', 'datadam_search_personal_data', 'data-records', 'GET /export'"),
+  recordId: z.string().optional().describe("Optional: Only calls that touched this record UUID"),
+  classification: z.enum(['public', 'personal', 'sensitive', 'confidential']).optional().describe("Optional: Only calls that returned or wrote records of this classification. Use 'confidential' to see who read confidential data"),
+  limit: z.number().min(1).max(100).default(20).describe("Max entries, newest first. Default: 20, Max: 100"),
+  offset: z.number().min(0).default(0).describe("Pagination offset"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Unlock Confidential Input Schema
+export const UnlockInputSchema = {
+  action: z.enum(['unlock', 'lock']).default('unlock').describe("'unlock' (default) reveals confidential records for a limited time; 'lock' hides them again immediately"),
+  passphrase: z.string().optional().describe("Unlock passphrase. Required when the server sets DATADAM_UNLOCK_PASSPHRASE; ask the user for it, never guess"),
+  confirm: z.boolean().default(false).describe("Set true once the user has explicitly agreed to reveal confidential data in this conversation. Required when no passphrase is configured"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Category identifiers as stored on records
+const categoryName = z.string()
+  .max(50)
+  .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase snake_case starting with a letter, e.g. 'recipes' or 'health_records'");
+
+const categoryMetadata = {
+  description: z.string().max(500).optional().describe("What the category holds. Example: 'Recipes the user cooks or wants to try'"),
+  triggerWords: z.array(z.string().min(1)).max(50).optional().describe("Words in a user's message that should lead an assistant to this category. Examples: ['recipe', 'cook', 'dinner']"),
+  queryHint: z.string().max(500).optional().describe("When an assistant should query this category. Example: 'Query when the user plans meals or asks what to cook'"),
+  exampleQueries: z.array(z.string().min(1)).max(20).optional().describe("Sample requests answered from this category. Examples: ['What should I cook tonight?']")
+};
+
+// Create Category Input Schema
+export const CreateCategoryInputSchema = {
+  name: categoryName.describe("Identifier stored on records: lowercase snake_case, plural. Examples: 'recipes', 'health_records'"),
+  displayName: z.string().min(1).max(100).describe("Human-readable name. Example: 'Recipes & Cooking'"),
+  ...categoryMetadata,
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Update Category Input Schema
+export const UpdateCategoryInputSchema = {
+  category: categoryName.describe("Current name of the category. Example: 'recipes'"),
+  newName: categoryName.optional().describe("Optional: Rename the category. Its records, including deleted ones and saved versions, move to the new name"),
+  displayName: z.string().min(1).max(100).optional().describe("Optional: New human-readable name"),
+  ...categoryMetadata,
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Deactivate Category Input Schema
+export const DeactivateCategoryInputSchema = {
+  category: categoryName.describe("Name of the category. Example: 'recipes'"),
+  action: z.enum(['deactivate', 'reactivate']).default('deactivate').describe("'deactivate' (default) hides the category and stops new records being added to it; 'reactivate' undoes that"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
+// Merge Categories Input Schema
+export const MergeCategoriesInputSchema = {
+  source: categoryName.describe("Category to merge away. Its records move to target and it is removed. Example: 'cooking'"),
+  target: categoryName.describe("Category that receives the records and remains. Example: 'recipes'"),
+  response_format: z.enum(['json', 'markdown']).default('markdown').describe("Response format: 'markdown' (human-readable, default) or 'json' (machine-readable)")
+};
+
 // ChatGPT Search Input Schema
 export const ChatGptSearchInputSchema = {
   query: z.string().min(1).describe("Search query to match against titles, tags, and categories")
@@ -93,3 +252,249 @@ export const ChatGptSearchInputSchema = {
 export const ChatGptFetchInputSchema = {
   id: z.string().min(1).describe("Document ID (UUID) to retrieve. Obtained from search results.")
 };
+
+// Output schemas describe the structuredContent each tool returns next to its
+// text. It is the object the tool's JSON response_format renders, whichever
+// format was requested.
+
+const RecordOutput = z.object({
+  id: z.string(),
+  title: z.string(),
+  category: z.string(),
+  content: z.record(z.any()),
+  tags: z.array(z.string()).optional(),
+  classification: z.string(),
+  created_at: z.string(),
+  updated_at: z.string().optional(),
+  score: z.number().optional().describe("Relevance 0-1, for semantic and hybrid search"),
+  redacted: z.boolean().optional().describe("Content values are masked in this session")
+}).passthrough();
+
+const DeletedRecordOutput = RecordOutput.extend({
+  deleted_at: z.string(),
+  purge_after: z.string().nullable().describe("When the retention policy removes the record; null if never")
+});
+
+const pageOutput = {
+  count: z.number().int().describe("Results in this response"),
+  has_more: z.boolean(),
+  next_offset: z.number().int().describe("Offset for the next page")
+};
+
+const recordListOutput = {
+  total: z.number().int(),
+  ...pageOutput,
+  results: z.array(RecordOutput),
+  next_cursor: z.string().nullable().optional().describe("Pass back as 'cursor' for the next page; null on the last page"),
+  truncated: z.boolean().optional().describe("Results were cut to fit the response size limit"),
+  truncation_message: z.string().optional()
+};
+
+const operationOutput = {
+  success: z.literal(true),
+  operation: z.string(),
+  message: z.string()
+};
+
+// Search Personal Data Output Schema
+export const SearchOutputSchema = recordListOutput;
+
+// Extract Personal Data Output Schema
+export const ExtractOutputSchema = recordListOutput;
+
+// Create Personal Data Output Schema
+export const CreateOutputSchema = {
+  success: z.boolean().describe("false when the record was not created because of possible duplicates"),
+  operation: z.literal('created').optional(),
+  title: z.string().optional(),
+  category: z.string().optional(),
+  possible_duplicate: z.boolean().optional(),
+  candidates: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    reasons: z.array(z.string())
+  })).optional(),
+  message: z.string()
+};
+
+// Update Personal Data Output Schema
+export const UpdateOutputSchema = {
+  ...operationOutput,
+  title: z.string().describe("ID of the updated record")
+};
+
+// Delete Personal Data Output Schema
+export const DeleteOutputSchema = {
+  ...operationOutput,
+  count: z.number().int(),
+  requested_count: z.number().int().optional().describe("Present when fewer records were deleted than requested")
+};
+
+// Record History Output Schema
+export const HistoryOutputSchema = {
+  record_id: z.string(),
+  title: z.string(),
+  current_version: z.number().int(),
+  updated_at: z.string().optional(),
+  versions: z.array(z.object({
+    version: z.number().int(),
+    replaced_at: z.string(),
+    conversation_context: z.string().nullable(),
+    hidden: z.boolean().optional(),
+    snapshot: z.object({
+      title: z.string(),
+      content: z.any(),
+      tags: z.array(z.string()),
+      category: z.string(),
+      classification: z.string()
+    }),
+    changes: z.array(z.object({
+      field: z.string(),
+      change: z.enum(['added', 'removed', 'changed']),
+      before: z.any().optional(),
+      after: z.any().optional()
+    }))
+  }))
+};
+
+// Revert Personal Data Output Schema
+export const RevertOutputSchema = {
+  ...operationOutput,
+  recordId: z.string(),
+  version: z.number().int()
+};
+
+// List Deleted Personal Data Output Schema
+export const ListDeletedOutputSchema = {
+  total: z.number().int(),
+  ...pageOutput,
+  results: z.array(DeletedRecordOutput)
+};
+
+// Restore Personal Data Output Schema
+export const RestoreOutputSchema = DeleteOutputSchema;
+
+// Merge Personal Data Output Schema
+export const MergeOutputSchema = {
+  ...operationOutput,
+  keepId: z.string(),
+  mergeId: z.string(),
+  title: z.string(),
+  conflicts: z.array(z.object({
+    field: z.string(),
+    kept: z.any(),
+    discarded: z.any()
+  }))
+};
+
+// Import Personal Data Output Schema
+export const ImportOutputSchema = {
+  dry_run: z.boolean(),
+  format: z.enum(['csv', 'json', 'vcard']),
+  total: z.number().int(),
+  created: z.number().int(),
+  valid: z.number().int(),
+  skipped: z.number().int(),
+  failed: z.number().int(),
+  categories: z.array(z.string()),
+  results: z.array(z.object({
+    row: z.number().int(),
+    status: z.enum(['created', 'valid', 'skipped', 'failed']),
+    title: z.string().optional(),
+    category: z.string().optional(),
+    id: z.string().optional(),
+    content: z.record(z.any()).optional(),
+    tags: z.array(z.string()).optional(),
+    duplicates: z.array(z.object({
+      id: z.string().optional(),
+      row: z.number().int().optional(),
+      title: z.string(),
+      reasons: z.array(z.string())
+    })).optional(),
+    errors: z.array(z.string()).optional()
+  }))
+};
+
+// Export Personal Data Output Schema
+export const ExportOutputSchema = {
+  ...operationOutput,
+  format: z.enum(['json', 'csv', 'markdown']),
+  record_count: z.number().int(),
+  categories: z.record(z.number().int()).describe("Records per category"),
+  uri: z.string().describe("Resource URI of the export file"),
+  filename: z.string(),
+  mime_type: z.string(),
+  expires_at: z.string()
+};
+
+// Access Log Output Schema
+export const AccessLogOutputSchema = {
+  ...pageOutput,
+  results: z.array(z.object({
+    id: z.string(),
+    created_at: z.string(),
+    session_id: z.string().nullable(),
+    user_id: z.string().nullable(),
+    principal: z.string(),
+    endpoint: z.enum(['mcp', 'chatgpt']),
+    tool: z.string(),
+    record_ids: z.array(z.string()),
+    classifications: z.array(z.string()),
+    outcome: z.enum(['success', 'error']),
+    error: z.string().nullable(),
+    duration_ms: z.number()
+  }))
+};
+
+// Unlock Confidential Output Schema
+export const UnlockOutputSchema = {
+  ...operationOutput,
+  unlocked_until: z.string().nullable()
+};
+
+// Create Category Output Schema
+export const CreateCategoryOutputSchema = {
+  ...operationOutput,
+  category: z.string()
+};
+
+// Update Category Output Schema
+export const UpdateCategoryOutputSchema = {
+  ...operationOutput,
+  category: z.string().describe("Name of the category after the update"),
+  renamed_from: z.string().optional()
+};
+
+// Deactivate Category Output Schema
+export const DeactivateCategoryOutputSchema = {
+  ...operationOutput,
+  category: z.string(),
+  active: z.boolean()
+};
+
+// Merge Categories Output Schema
+export const MergeCategoriesOutputSchema = {
+  ...operationOutput,
+  source: z.string(),
+  target: z.string(),
+  moved_count: z.number().int().describe("Records moved, deleted ones included")
+};
+
+// ChatGPT Search Output Schema
+export const ChatGptSearchOutputSchema = {
+  results: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    url: z.string()
+  })),
+  search_info: z.string().optional()
+};
+
+// ChatGPT Fetch Output Schema
+export const ChatGptFetchOutputSchema = {
+  id: z.string(),
+  title: z.string(),
+  text: z.string(),
+  url: z.string(),
+  metadata: z.record(z.any()).optional()
+};
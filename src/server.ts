@@ -1,45 +1,185 @@
 // MCP Server factory functions
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { supabase, availableCategories, allCategories, fetchAvailableCategories } from "./services/supabase.js";
+import {
+  store as defaultStore,
+  availableCategories,
+  allCategories,
+  categorySchemas,
+  refreshCategories,
+  onCategoriesChanged,
+  embeddingProvider
+} from "./services/database.js";
+import type { PersonalDataStore } from "./services/store.js";
+import { createUserScopedStore } from "./services/scoped-store.js";
+import { createEmbeddingStore } from "./services/embedding-store.js";
+import { createChangeNotifyingStore } from "./services/record-events.js";
+import { createClassifiedStore } from "./services/classified-store.js";
+import { accessPolicyFromEnv, type AccessPolicy } from "./services/access-policy.js";
+import { createAuditedStore, auditToolCalls, auditRequests, type AuditContext } from "./services/audit.js";
+import { getDefaultRateLimiter, rateLimitToolCalls, type RateLimiter } from "./services/rate-limit.js";
+import { useToolCallHooks } from "./services/tool-calls.js";
+import type { EmbeddingProvider } from "./services/embeddings.js";
+import { getDeletedRetentionDays } from "./services/retention.js";
+import { ANONYMOUS_PRINCIPAL, isAdminPrincipal, type SessionIdentity } from "./auth/identity.js";
 import { registerCategoriesResource } from "./resources/categories.js";
-import { registerSearchTool } from "./tools/search.js";
-import { registerExtractTool } from "./tools/extract.js";
-import { registerCreateTool } from "./tools/create.js";
+import { registerCategoryRecordsResource, registerRecordResource } from "./resources/records.js";
+import { enableResourceSubscriptions } from "./resources/subscriptions.js";
+import { registerSearchTool, searchToolDescription } from "./tools/search.js";
+import { registerExtractTool, extractToolDescription } from "./tools/extract.js";
+import { registerCreateTool, createToolDescription } from "./tools/create.js";
 import { registerUpdateTool } from "./tools/update.js";
 import { registerDeleteTool } from "./tools/delete.js";
+import { registerHistoryTool } from "./tools/history.js";
+import { registerRevertTool } from "./tools/revert.js";
+import { registerListDeletedTool } from "./tools/list-deleted.js";
+import { registerRestoreTool } from "./tools/restore.js";
+import { registerMergeTool } from "./tools/merge.js";
+import { registerImportTool } from "./tools/import.js";
+import { registerExportTool } from "./tools/export.js";
+import { registerUnlockTool } from "./tools/unlock.js";
+import { registerAccessLogTool } from "./tools/access-log.js";
+import { registerCreateCategoryTool } from "./tools/create-category.js";
+import { registerUpdateCategoryTool } from "./tools/update-category.js";
+import { registerDeactivateCategoryTool } from "./tools/deactivate-category.js";
+import { registerMergeCategoriesTool } from "./tools/merge-categories.js";
+import { registerProfileSummaryPrompt } from "./prompts/profile-summary.js";
+import { registerMeetingPrepPrompt } from "./prompts/meeting-prep.js";
+import { registerAboutMePrompt } from "./prompts/about-me.js";
+import { registerStaleRecordsPrompt } from "./prompts/stale-records.js";
 import { registerChatGptSearchTool } from "./tools/chatgpt-search.js";
 import { registerChatGptFetchTool } from "./tools/chatgpt-fetch.js";
 
-export function createMcpServer(): McpServer {
+export interface ServerOptions {
+  // Defaults to the store selected at startup by initializeDatabase()
+  store?: PersonalDataStore;
+  // Identity the session was opened with; records are scoped to its user id
+  identity?: SessionIdentity;
+  // Defaults to the provider from DATADAM_EMBEDDING_PROVIDER; null disables semantic search
+  embeddings?: EmbeddingProvider | null;
+  // Which classifications the session may see; defaults to the endpoint's policy from the environment
+  accessPolicy?: AccessPolicy;
+  // Defaults to the limiter shared by every session, from the environment; null disables rate limits
+  rateLimiter?: RateLimiter | null;
+  // The server answers a single request, as in stateless mode, so an unlock could not outlast it
+  stateless?: boolean;
+}
+
+function resolveEmbeddings(options: ServerOptions): EmbeddingProvider | null {
+  return options.embeddings !== undefined ? options.embeddings : embeddingProvider;
+}
+
+// Rate limits come first, so a refused call neither runs nor is audited.
+// Resource reads and prompt gets are audited too, but not rate limited.
+function hookToolCalls(server: McpServer, store: PersonalDataStore, options: ServerOptions, endpoint: AuditContext['endpoint']): void {
+  const limiter = options.rateLimiter !== undefined ? options.rateLimiter : getDefaultRateLimiter();
+  if (limiter) {
+    useToolCallHooks(server, rateLimitToolCalls(limiter, options.identity));
+  }
+  const context: AuditContext = { identity: options.identity, endpoint };
+  useToolCallHooks(server, auditToolCalls(store, context));
+  auditRequests(server, store, context);
+}
+
+// Resolves the store a session should use: embedding records on write when
+// semantic search is enabled, scoped to the session's user when known,
+// announcing writes to resource subscribers, redacting records above the session's classification when given a policy,
+// and attributing the records each call touches to the tool call in progress
+export function resolveStore(options: ServerOptions): PersonalDataStore {
+  const embeddings = resolveEmbeddings(options);
+  let store = options.store || defaultStore;
+  if (embeddings) {
+    store = createEmbeddingStore(store, embeddings);
+  }
+  const userId = options.identity?.userId;
+  if (userId) {
+    store = createUserScopedStore(store, userId);
+  }
+  store = createChangeNotifyingStore(store, userId ?? null);
+  if (options.accessPolicy) {
+    store = createClassifiedStore(store, options.accessPolicy);
+  }
+  return createAuditedStore(store);
+}
+
+export function createMcpServer(options: ServerOptions = {}): McpServer {
+  const accessPolicy = options.accessPolicy || accessPolicyFromEnv('mcp', options.identity?.principal);
+  const store = resolveStore({ ...options, accessPolicy });
+  const retentionDays = getDeletedRetentionDays();
   const server = new McpServer({
     name: "datadam",
     version: "1.0.0",
     description: "Personal knowledge database that automatically retrieves stored personal context when needed for personalized responses. Captures and stores personal information when user shares details. Triggers on: 'my [anything]', personal questions, preference queries, or when personal context would improve responses."
   });
+  hookToolCalls(server, store, options, 'mcp');
 
-  // Register resource
-  registerCategoriesResource(server, supabase);
+  // Register resources
+  registerCategoriesResource(server, store);
+  registerCategoryRecordsResource(server, store);
+  registerRecordResource(server, store);
+  const unsubscribeResources = enableResourceSubscriptions(server, options.identity?.userId ?? null);
 
   // Register all tools
-  registerSearchTool(server, supabase, availableCategories);
-  registerExtractTool(server, supabase, availableCategories, fetchAvailableCategories);
-  registerCreateTool(server, supabase, allCategories);
-  registerUpdateTool(server, supabase);
-  registerDeleteTool(server, supabase);
+  const searchTool = registerSearchTool(server, store, availableCategories, resolveEmbeddings(options));
+  const extractTool = registerExtractTool(server, store, availableCategories, refreshCategories);
+  const createTool = registerCreateTool(server, store, allCategories, availableCategories, categorySchemas, refreshCategories);
+  registerUpdateTool(server, store, categorySchemas);
+  registerHistoryTool(server, store);
+  registerRevertTool(server, store);
+  registerDeleteTool(server, store, retentionDays);
+  registerListDeletedTool(server, store, retentionDays);
+  registerRestoreTool(server, store, refreshCategories);
+  registerMergeTool(server, store);
+  registerImportTool(server, store, allCategories, availableCategories, categorySchemas, refreshCategories);
+  registerExportTool(server, store);
+  if (!options.stateless) {
+    registerUnlockTool(server, accessPolicy);
+  }
+  registerAccessLogTool(server, store);
+
+  // The category registry is shared by every user, and renames and merges move
+  // every user's records, so only admin keys get the tools that change it
+  if (isAdminPrincipal(options.identity?.principal ?? ANONYMOUS_PRINCIPAL)) {
+    registerCreateCategoryTool(server, store, refreshCategories);
+    registerUpdateCategoryTool(server, store, refreshCategories);
+    registerDeactivateCategoryTool(server, store, refreshCategories);
+    registerMergeCategoriesTool(server, store, refreshCategories);
+  }
+
+  // Register prompts for common workflows
+  registerProfileSummaryPrompt(server, store);
+  registerMeetingPrepPrompt(server, store);
+  registerAboutMePrompt(server, store);
+  registerStaleRecordsPrompt(server, store);
+
+  // Category enums and descriptions are built from the live lists. Updating a
+  // tool sends notifications/tools/list_changed, so clients re-fetch the schemas.
+  const unsubscribeCategories = onCategoriesChanged(() => {
+    searchTool.update({ description: searchToolDescription(availableCategories) });
+    extractTool.update({ description: extractToolDescription(availableCategories) });
+    createTool.update({ description: createToolDescription(allCategories, categorySchemas) });
+    server.sendResourceListChanged();
+  });
+  server.server.onclose = () => {
+    unsubscribeCategories();
+    unsubscribeResources();
+  };
 
   return server;
 }
 
-export function createChatGptMcpServer(): McpServer {
+export function createChatGptMcpServer(options: ServerOptions = {}): McpServer {
+  const accessPolicy = options.accessPolicy || accessPolicyFromEnv('chatgpt', options.identity?.principal);
+  const store = resolveStore({ ...options, accessPolicy });
   const server = new McpServer({
     name: "chatgpt-mcp-server",
     version: "1.0.0"
   });
+  hookToolCalls(server, store, options, 'chatgpt');
 
   // Register ChatGPT-specific tools
-  registerChatGptSearchTool(server, supabase);
-  registerChatGptFetchTool(server, supabase);
+  registerChatGptSearchTool(server, store);
+  registerChatGptFetchTool(server, store);
 
   return server;
 }
@@ -0,0 +1,160 @@
+// Classification ceilings per endpoint and client, and the confidential unlock
+//
+// Every session gets a policy with a maximum classification it may ever see.
+// Confidential records additionally stay locked until the session unlocks
+// them, which lasts DATADAM_UNLOCK_TTL_MINUTES. Records above what a session
+// may see are redacted or hidden depending on DATADAM_REDACTION_MODE.
+
+import { CLASSIFICATION_LEVELS, type Classification } from "../constants.js";
+
+export type RedactionMode = 'redact' | 'hide';
+
+// Which MCP endpoint the session was opened on; the ChatGPT connector defaults lower
+export type PolicyEndpoint = 'mcp' | 'chatgpt';
+
+export const DEFAULT_UNLOCK_TTL_MINUTES = 15;
+
+const DEFAULT_MAX_CLASSIFICATION: Record<PolicyEndpoint, Classification> = {
+  mcp: 'confidential',
+  chatgpt: 'personal'
+};
+
+export interface AccessPolicy {
+  // Highest classification this session may ever see
+  readonly maxClassification: Classification;
+  readonly mode: RedactionMode;
+  // Highest classification visible right now
+  visibleClassification(): Classification;
+  canSee(classification: string | null | undefined): boolean;
+  // Returns when the unlock expires; throws if the ceiling is below confidential
+  unlock(): Date;
+  lock(): void;
+  unlockedUntil(): Date | null;
+  // Adopts an unlock made elsewhere, e.g. by another instance serving the same session
+  setUnlockedUntil(until: Date | null): void;
+}
+
+export interface AccessPolicyOptions {
+  maxClassification: Classification;
+  mode?: RedactionMode;
+  unlockTtlMs?: number;
+  // Starts unlocked for good, for requests that have no session to unlock in
+  unlocked?: boolean;
+  // Called when unlock() or lock() change the unlock, so it can be shared
+  onUnlockChange?: (until: Date | null) => void;
+}
+
+function rank(classification: string | null | undefined): number {
+  const index = CLASSIFICATION_LEVELS.indexOf(classification as Classification);
+  // Records without a recognised level are treated as the default, personal
+  return index === -1 ? CLASSIFICATION_LEVELS.indexOf('personal') : index;
+}
+
+export function createAccessPolicy(options: AccessPolicyOptions): AccessPolicy {
+  const { maxClassification, mode = 'redact', unlockTtlMs = DEFAULT_UNLOCK_TTL_MINUTES * 60_000 } = options;
+  let unlockedUntil: number | null = options.unlocked ? Infinity : null;
+
+  const isUnlocked = () => unlockedUntil !== null && unlockedUntil > Date.now();
+
+  const visibleClassification = (): Classification =>
+    maxClassification === 'confidential' && !isUnlocked() ? 'sensitive' : maxClassification;
+
+  return {
+    maxClassification,
+    mode,
+    visibleClassification,
+    canSee: (classification) => rank(classification) <= rank(visibleClassification()),
+    unlock() {
+      if (maxClassification !== 'confidential') {
+        throw new Error(`This client may not access confidential records (maximum classification: ${maxClassification})`);
+      }
+      unlockedUntil = Date.now() + unlockTtlMs;
+      options.onUnlockChange?.(new Date(unlockedUntil));
+      return new Date(unlockedUntil);
+    },
+    lock() {
+      unlockedUntil = null;
+      options.onUnlockChange?.(null);
+    },
+    unlockedUntil: () => (isUnlocked() && unlockedUntil !== Infinity ? new Date(unlockedUntil as number) : null),
+    setUnlockedUntil(until) {
+      if (unlockedUntil !== Infinity) {
+        unlockedUntil = until ? until.getTime() : null;
+      }
+    }
+  };
+}
+
+function parseClassification(value: string, variable: string): Classification {
+  const level = value.trim().toLowerCase() as Classification;
+  if (!CLASSIFICATION_LEVELS.includes(level)) {
+    throw new Error(`Invalid ${variable} "${value}". Expected one of: ${CLASSIFICATION_LEVELS.join(', ')}.`);
+  }
+  return level;
+}
+
+/**
+ * Reads DATADAM_CLIENT_MAX_CLASSIFICATION, a comma-separated list of
+ * `principal:level` entries that lower the ceiling for individual API keys
+ */
+export function parseClientCeilings(value: string | undefined): Record<string, Classification> {
+  const ceilings: Record<string, Classification> = {};
+  for (const entry of (value || '').split(',').map((raw) => raw.trim()).filter(Boolean)) {
+    const [principal, level, ...rest] = entry.split(':').map((part) => part.trim());
+    if (!principal || !level || rest.length > 0) {
+      throw new Error(`Invalid DATADAM_CLIENT_MAX_CLASSIFICATION entry "${entry}". Expected "name:level".`);
+    }
+    ceilings[principal] = parseClassification(level, 'DATADAM_CLIENT_MAX_CLASSIFICATION level');
+  }
+  return ceilings;
+}
+
+/**
+ * Reads DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS, the comma-separated API key
+ * names whose /export downloads may include confidential content when asked to
+ */
+export function mayExportConfidential(principal: string): boolean {
+  return (process.env.DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .includes(principal);
+}
+
+/**
+ * Builds the policy for a session on the given endpoint. The ceiling is the
+ * lower of the endpoint's (DATADAM_MAX_CLASSIFICATION or
+ * DATADAM_CHATGPT_MAX_CLASSIFICATION) and the client's own, if configured.
+ */
+export function accessPolicyFromEnv(
+  endpoint: PolicyEndpoint,
+  principal?: string,
+  options: Pick<AccessPolicyOptions, 'unlocked' | 'onUnlockChange'> = {}
+): AccessPolicy {
+  const variable = endpoint === 'chatgpt' ? 'DATADAM_CHATGPT_MAX_CLASSIFICATION' : 'DATADAM_MAX_CLASSIFICATION';
+  const configured = process.env[variable];
+  let maxClassification = configured ? parseClassification(configured, variable) : DEFAULT_MAX_CLASSIFICATION[endpoint];
+
+  const clientCeiling = principal ? parseClientCeilings(process.env.DATADAM_CLIENT_MAX_CLASSIFICATION)[principal] : undefined;
+  if (clientCeiling && rank(clientCeiling) < rank(maxClassification)) {
+    maxClassification = clientCeiling;
+  }
+
+  const mode = (process.env.DATADAM_REDACTION_MODE || 'redact').toLowerCase();
+  if (mode !== 'redact' && mode !== 'hide') {
+    throw new Error(`Invalid DATADAM_REDACTION_MODE "${mode}". Expected "redact" or "hide".`);
+  }
+
+  const ttl = process.env.DATADAM_UNLOCK_TTL_MINUTES;
+  const ttlMinutes = ttl !== undefined ? Number(ttl) : DEFAULT_UNLOCK_TTL_MINUTES;
+  if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) {
+    throw new Error(`Invalid DATADAM_UNLOCK_TTL_MINUTES "${ttl}". Expected a positive number of minutes.`);
+  }
+
+  return createAccessPolicy({
+    maxClassification,
+    mode,
+    unlockTtlMs: ttlMinutes * 60_000,
+    unlocked: options.unlocked,
+    onUnlockChange: options.onUnlockChange
+  });
+}
@@ -0,0 +1,243 @@
+// Audit trail of tool invocations and the records they touched
+//
+// auditToolCalls() hooks every tool call into an AsyncLocalStorage
+// context; the audited store adds each record a store call reads or writes to
+// the context of the tool call it belongs to. When the tool finishes, one
+// audit event is written with the tool, the records, their classifications and
+// the outcome. Records the tool only read for itself, such as the candidates
+// scanned by the duplicate check, are left out: a read counts only when the
+// record's id is in the result returned to the caller. Concurrent calls in a
+// session each get their own context. Resource reads, prompt gets and the
+// HTTP export and import routes are audited the same way through auditCall().
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { PersonalDataStore, StoreResult } from "./store.js";
+import type { ToolCallHook } from "./tool-calls.js";
+import type { SessionIdentity } from "../auth/identity.js";
+import type { AuditEvent } from "../types.js";
+
+// Record id to the classification revealed for it, null when none was
+interface ToolCallAccess {
+  read: Map<string, string | null>;
+  changed: Map<string, string | null>;
+}
+
+const currentCall = new AsyncLocalStorage<ToolCallAccess>();
+
+// Redacted records count as touched, but their classification was not revealed
+function touch(
+  kind: keyof ToolCallAccess,
+  recordId: string | null | undefined,
+  classification?: string | null,
+  redacted?: boolean
+): void {
+  const access = currentCall.getStore();
+  if (!access || !recordId) {
+    return;
+  }
+  const revealed = classification && !redacted ? classification : null;
+  access[kind].set(recordId, revealed ?? access[kind].get(recordId) ?? null);
+}
+
+function touchAll<T extends { id?: string; record_id?: string; classification?: string; redacted?: boolean }>(
+  result: StoreResult<T[]>
+): StoreResult<T[]> {
+  for (const record of result.data || []) {
+    touch('read', record.id ?? record.record_id, record.classification, record.redacted);
+  }
+  return result;
+}
+
+// The records changed by the call, and those read that reached the caller;
+// every record read did when returned is null
+function accessedRecords(access: ToolCallAccess, returned: string | null): Map<string, string | null> {
+  const accessed = new Map(access.changed);
+  for (const [id, classification] of access.read) {
+    if (returned === null || returned.includes(id)) {
+      accessed.set(id, accessed.get(id) ?? classification);
+    }
+  }
+  return accessed;
+}
+
+/**
+ * Wraps a store so the records each call reads or writes are attributed to the
+ * tool call in progress. Outside a tool call it only passes calls through.
+ */
+export function createAuditedStore(store: PersonalDataStore): PersonalDataStore {
+  return {
+    ...store,
+    searchPersonalData: async (params) => touchAll(await store.searchPersonalData(params)),
+    semanticSearchPersonalData: async (params) => touchAll(await store.semanticSearchPersonalData(params)),
+    extractPersonalData: async (params) => touchAll(await store.extractPersonalData(params)),
+    getPersonalData: async (params) => touchAll(await store.getPersonalData(params)),
+    getRecordHistory: async (params) => touchAll(await store.getRecordHistory(params)),
+    listDeletedPersonalData: async (params) => touchAll(await store.listDeletedPersonalData(params)),
+    exportPersonalData: async (params) => touchAll(await store.exportPersonalData(params)),
+
+    async createPersonalData(params) {
+      const result = await store.createPersonalData(params);
+      if (!result.error) {
+        touch('changed', result.data, params.classification ?? 'personal');
+      }
+      return result;
+    },
+
+    async updatePersonalData(params) {
+      const result = await store.updatePersonalData(params);
+      if (result.data) {
+        touch('changed', params.recordId, params.updates.classification);
+      }
+      return result;
+    },
+
+    // Only the records the store reports as deleted or restored count
+    async deletePersonalData(params) {
+      const result = await store.deletePersonalData(params);
+      if (!result.error) {
+        result.data?.forEach((id) => touch('changed', id));
+      }
+      return result;
+    },
+
+    async restorePersonalData(params) {
+      const result = await store.restorePersonalData(params);
+      if (!result.error) {
+        result.data?.forEach((id) => touch('changed', id));
+      }
+      return result;
+    },
+
+    async revertPersonalData(params) {
+      const result = await store.revertPersonalData(params);
+      if (!result.error && result.data) {
+        touch('changed', params.recordId);
+      }
+      return result;
+    },
+
+    async chatGptSearch(params) {
+      const result = await store.chatGptSearch(params);
+      for (const item of result.data || []) {
+        touch('read', item.id);
+      }
+      return result;
+    },
+
+    async chatGptFetch(documentId, userId) {
+      const result = await store.chatGptFetch(documentId, userId);
+      for (const document of result.data || []) {
+        touch('read', document.id, document.metadata?.classification, document.metadata?.redacted);
+      }
+      return result;
+    }
+  };
+}
+
+export interface AuditContext {
+  identity?: SessionIdentity;
+  endpoint: AuditEvent['endpoint'];
+}
+
+export interface AuditedCall<T> {
+  // Tool, resource or prompt name, or the method and path of an HTTP route
+  name: string;
+  sessionId?: string | null;
+  // What reached the caller, to tell the records returned from those only read
+  // on the way; every record read counts when left out
+  returned?: (result: T) => unknown;
+  // The error a result reports when the call failed without throwing
+  failure?: (result: T) => string | null;
+}
+
+/**
+ * Runs a call in its own audit context and writes one audit event for it to
+ * the store once it settles. Failing to write the event is logged and never
+ * fails the call.
+ */
+export async function auditCall<T>(
+  store: PersonalDataStore,
+  context: AuditContext,
+  call: AuditedCall<T>,
+  run: () => T | Promise<T>
+): Promise<T> {
+  const access: ToolCallAccess = { read: new Map(), changed: new Map() };
+  const started = Date.now();
+  let result: T | undefined;
+  let thrown: unknown;
+
+  try {
+    result = await currentCall.run(access, run);
+  } catch (error) {
+    thrown = error;
+  }
+
+  const settled = thrown === undefined;
+  const returned = !settled ? '' : call.returned ? JSON.stringify(call.returned(result as T)) ?? '' : null;
+  const records = accessedRecords(access, returned);
+  const classifications = new Set([...records.values()].filter((c): c is string => c !== null));
+  const error = !settled
+    ? (thrown instanceof Error ? thrown.message : String(thrown))
+    : call.failure?.(result as T) ?? null;
+  const event: AuditEvent = {
+    session_id: call.sessionId ?? null,
+    user_id: context.identity?.userId ?? null,
+    principal: context.identity?.principal ?? 'anonymous',
+    endpoint: context.endpoint,
+    tool: call.name,
+    record_ids: [...records.keys()],
+    classifications: [...classifications].sort(),
+    outcome: error !== null ? 'error' : 'success',
+    error,
+    duration_ms: Date.now() - started
+  };
+
+  try {
+    const { error: writeError } = await store.recordAuditEvent(event);
+    if (writeError) {
+      console.error(`Error writing audit event for ${call.name}:`, writeError);
+    }
+  } catch (writeError) {
+    console.error(`Failed to write audit event for ${call.name}:`, writeError);
+  }
+
+  if (!settled) {
+    throw thrown;
+  }
+  return result as T;
+}
+
+function errorText(result: CallToolResult): string | null {
+  const block = result.content.find((item) => item.type === 'text');
+  return block?.type === 'text' ? block.text.slice(0, 500) : null;
+}
+
+/**
+ * Hook that writes an audit event to the store for every tool call.
+ */
+export function auditToolCalls(store: PersonalDataStore, context: AuditContext): ToolCallHook {
+  return ({ tool, extra }, next) => auditCall(store, context, {
+    name: tool,
+    sessionId: extra.sessionId,
+    returned: (result) => [result.content, result.structuredContent],
+    failure: (result) => result.isError ? errorText(result) ?? 'Tool call failed' : null
+  }, next);
+}
+
+const serverAudits = new WeakMap<McpServer, { store: PersonalDataStore; context: AuditContext }>();
+
+/**
+ * Audits the server's resource reads and prompt gets, which run through
+ * auditRequest(), as auditToolCalls() does its tool calls.
+ */
+export function auditRequests(server: McpServer, store: PersonalDataStore, context: AuditContext): void {
+  serverAudits.set(server, { store, context });
+}
+
+// Runs a resource read or prompt get, audited when auditRequests() was called for the server
+export async function auditRequest<T>(server: McpServer, call: AuditedCall<T>, run: () => T | Promise<T>): Promise<T> {
+  const audit = serverAudits.get(server);
+  return audit ? auditCall(audit.store, audit.context, call, run) : run();
+}
@@ -0,0 +1,115 @@
+// Classification-based redaction for the personal data store
+
+import type { PersonalDataStore, StoreResult } from "./store.js";
+import type { AccessPolicy } from "./access-policy.js";
+import { redactValue, containsRedactedValue } from "../utils/redaction.js";
+import { CLASSIFICATION_LEVELS } from "../constants.js";
+
+interface Classified {
+  classification: string;
+  content: any;
+}
+
+/**
+ * Wraps a store so reads only reveal what the session's policy allows.
+ * Records above the visible classification are dropped in 'hide' mode, or
+ * returned with every content value masked and `redacted: true` in 'redact'
+ * mode. Paged queries hide them in the query itself, so limits, offsets and
+ * cursors count only the records the session gets back. Updates carrying masked values are refused so redacted content read
+ * back by a model can never overwrite the real values.
+ */
+export function createClassifiedStore(store: PersonalDataStore, policy: AccessPolicy): PersonalDataStore {
+  function apply<T extends Classified>(records: T[]): T[] {
+    if (policy.mode === 'hide') {
+      return records.filter((record) => policy.canSee(record.classification));
+    }
+    return records.map((record) => policy.canSee(record.classification)
+      ? record
+      : { ...record, content: redactValue(record.content), redacted: true });
+  }
+
+  function applyToResult<T extends Classified>(result: StoreResult<T[]>): StoreResult<T[]> {
+    return result.data ? { ...result, data: apply(result.data) } : result;
+  }
+
+  // Evaluated per call: an unlock changes what is visible
+  function hidden<P extends { classifications?: string[] | null }>(params: P): P {
+    if (policy.mode !== 'hide') {
+      return params;
+    }
+    return { ...params, classifications: CLASSIFICATION_LEVELS.filter((level) => policy.canSee(level)) };
+  }
+
+  return {
+    ...store,
+    searchPersonalData: async (params) => applyToResult(await store.searchPersonalData(hidden(params))),
+    semanticSearchPersonalData: async (params) => applyToResult(await store.semanticSearchPersonalData(hidden(params))),
+    extractPersonalData: async (params) => applyToResult(await store.extractPersonalData(hidden(params))),
+    getPersonalData: async (params) => applyToResult(await store.getPersonalData(params)),
+    // Hidden versions stay in the list as placeholders, so neighbours are never diffed as if adjacent
+    async getRecordHistory(params) {
+      const result = await store.getRecordHistory(params);
+      if (policy.mode !== 'hide' || !result.data) {
+        return applyToResult(result);
+      }
+      return {
+        ...result,
+        data: result.data.map((version) => policy.canSee(version.classification)
+          ? version
+          : { ...version, title: '', content: {}, tags: [], category: '', conversation_context: null, hidden: true })
+      };
+    },
+    listDeletedPersonalData: async (params) => applyToResult(await store.listDeletedPersonalData(hidden(params))),
+    exportPersonalData: async (params) => applyToResult(await store.exportPersonalData(params)),
+    // Summaries carry no content to redact
+    listRecordSummaries: (params) => store.listRecordSummaries(hidden(params)),
+
+    async updatePersonalData(params) {
+      if (containsRedactedValue(params.updates.content)) {
+        return {
+          data: null,
+          error: { message: 'Update contains redacted values. Unlock the record\'s classification and read it again before changing its content.' }
+        };
+      }
+      return store.updatePersonalData(params);
+    },
+
+    // Search results carry no classification; look it up only when hiding
+    async chatGptSearch(params) {
+      const result = await store.chatGptSearch(params);
+      if (policy.mode !== 'hide' || !result.data || result.data.length === 0) {
+        return result;
+      }
+      const { data: records, error } = await store.getPersonalData({ recordIds: result.data.map((r) => r.id) });
+      if (error) {
+        return { data: null, error };
+      }
+      const visible = new Set((records || []).filter((r) => policy.canSee(r.classification)).map((r) => r.id));
+      return { data: result.data.filter((r) => visible.has(r.id)), error: null };
+    },
+
+    async chatGptFetch(documentId, userId) {
+      const result = await store.chatGptFetch(documentId, userId);
+      if (!result.data) {
+        return result;
+      }
+      const documents = result.data.flatMap((document) => {
+        const classification = document.metadata?.classification;
+        if (policy.canSee(classification)) {
+          return [document];
+        }
+        if (policy.mode === 'hide') {
+          return [];
+        }
+        let text: string;
+        try {
+          text = JSON.stringify(redactValue(JSON.parse(document.text)));
+        } catch {
+          text = String(redactValue(document.text));
+        }
+        return [{ ...document, text, metadata: { ...document.metadata, redacted: true } }];
+      });
+      return { data: documents, error: null };
+    }
+  };
+}
@@ -0,0 +1,256 @@
+// Storage backend selection and category caching
+
+import type { PersonalDataStore } from "./store.js";
+import { createSupabaseClientFromEnv, createSupabaseStore } from "./supabase.js";
+import { createLocalStore } from "./local-store.js";
+import { createEmbeddingProviderFromEnv, type EmbeddingProvider } from "./embeddings.js";
+import { keyringFromEnv } from "./encryption.js";
+import { createEncryptedStore } from "./encrypted-store.js";
+import type { ContentSchema } from "../types.js";
+
+export type StorageBackend = 'supabase' | 'local';
+
+export let store: PersonalDataStore;
+// Null when semantic search is disabled (DATADAM_EMBEDDING_PROVIDER=none)
+export let embeddingProvider: EmbeddingProvider | null = null;
+// Mutated in place on refresh so tools holding a reference always see the latest list
+export const availableCategories: string[] = [];
+export const allCategories: string[] = [];
+// Content schemas by category name, also updated in place
+export const categorySchemas: Record<string, ContentSchema> = {};
+
+export const DEFAULT_CATEGORY_REFRESH_INTERVAL_MS = 60_000;
+
+type CategoriesListener = () => void;
+const categoriesListeners = new Set<CategoriesListener>();
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Reads DATADAM_STORAGE, defaulting to Supabase for existing deployments
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.DATADAM_STORAGE || 'supabase').toLowerCase();
+  if (backend !== 'supabase' && backend !== 'local') {
+    throw new Error(`Unknown DATADAM_STORAGE "${backend}". Expected "supabase" or "local".`);
+  }
+  return backend;
+}
+
+// The configured backend as is, without content encryption
+export async function createBackendStoreFromEnv(): Promise<PersonalDataStore> {
+  if (getStorageBackend() === 'local') {
+    return createLocalStore(process.env.DATADAM_LOCAL_DATA_FILE || './data/datadam.json');
+  }
+  return createSupabaseStore(createSupabaseClientFromEnv());
+}
+
+// Encrypts sensitive and confidential content when an encryption key is configured
+export async function createStoreFromEnv(): Promise<PersonalDataStore> {
+  const backend = await createBackendStoreFromEnv();
+  const keyring = keyringFromEnv();
+  if (!keyring) {
+    return backend;
+  }
+  console.log(`🔐 Encrypting sensitive and confidential content with key "${keyring.primaryKeyId}"`);
+  return createEncryptedStore(backend, keyring);
+}
+
+export async function fetchAvailableCategories(): Promise<string[]> {
+  try {
+    const { data: categories, error } = await store.getActiveCategories();
+    if (error) {
+      console.error("Error fetching categories:", error);
+      return [];
+    }
+    return categories?.map((cat) => cat.category_name) || [];
+  } catch (error) {
+    console.error("Failed to fetch categories:", error);
+    return [];
+  }
+}
+
+export async function fetchAllCategories(): Promise<string[]> {
+  try {
+    const { data: categories, error } = await store.getAllCategoryNames();
+    if (error) {
+      console.error("Error fetching all categories:", error);
+      return [];
+    }
+    return categories || [];
+  } catch (error) {
+    console.error("Failed to fetch all categories:", error);
+    return [];
+  }
+}
+
+// A failure leaves content unvalidated rather than blocking startup
+export async function fetchCategorySchemas(): Promise<Record<string, ContentSchema>> {
+  try {
+    const { data: schemas, error } = await store.getCategorySchemas();
+    if (error) {
+      console.error("Error fetching category schemas:", error);
+      return {};
+    }
+    return schemas || {};
+  } catch (error) {
+    console.error("Failed to fetch category schemas:", error);
+    return {};
+  }
+}
+
+function replaceSchemas(next: Record<string, ContentSchema>): boolean {
+  if (JSON.stringify(categorySchemas) === JSON.stringify(next)) {
+    return false;
+  }
+  for (const name of Object.keys(categorySchemas)) {
+    delete categorySchemas[name];
+  }
+  Object.assign(categorySchemas, next);
+  return true;
+}
+
+function replaceContents(target: string[], next: string[]): boolean {
+  if (target.length === next.length && target.every((name, i) => name === next[i])) {
+    return false;
+  }
+  target.splice(0, target.length, ...next);
+  return true;
+}
+
+/**
+ * Registers a callback fired whenever a refresh changes a category list or schema.
+ * Returns a function that removes the listener.
+ */
+export function onCategoriesChanged(listener: CategoriesListener): () => void {
+  categoriesListeners.add(listener);
+  return () => {
+    categoriesListeners.delete(listener);
+  };
+}
+
+async function loadCategories(): Promise<boolean> {
+  const [active, registry, schemas] = await Promise.all([
+    store.getActiveCategories(),
+    store.getAllCategoryNames(),
+    store.getCategorySchemas()
+  ]);
+
+  // Keep the previous lists rather than emptying them on a transient failure
+  if (active.error || registry.error) {
+    console.error("Error refreshing categories:", active.error || registry.error);
+    return false;
+  }
+
+  const activeChanged = replaceContents(availableCategories, (active.data || []).map((cat) => cat.category_name));
+  const registryChanged = replaceContents(allCategories, registry.data || []);
+  // Schemas are optional; an error there should not hold back the category lists
+  if (schemas.error) {
+    console.error("Error refreshing category schemas:", schemas.error);
+  }
+  const schemasChanged = !schemas.error && replaceSchemas(schemas.data || {});
+  return activeChanged || registryChanged || schemasChanged;
+}
+
+/**
+ * Re-reads the active and registry category lists and the content schemas.
+ * Resolves to true and notifies listeners when any of them changed. Concurrent calls share one
+ * round trip to the store.
+ */
+export function refreshCategories(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = loadCategories()
+      .catch((error) => {
+        console.error("Failed to refresh categories:", error);
+        return false;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+
+    refreshInFlight.then((changed) => {
+      if (!changed) return;
+      console.log("Categories changed (active):", availableCategories);
+      for (const listener of categoriesListeners) {
+        try {
+          listener();
+        } catch (error) {
+          console.error("Categories listener failed:", error);
+        }
+      }
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Refreshes categories on a timer. Reads DATADAM_CATEGORY_REFRESH_INTERVAL_MS
+ * when no interval is given; 0 disables polling. Returns a function that
+ * stops the timer.
+ */
+export function startCategoryRefresh(intervalMs?: number): () => void {
+  const configured = process.env.DATADAM_CATEGORY_REFRESH_INTERVAL_MS;
+  const interval = intervalMs ?? (configured !== undefined ? Number(configured) : DEFAULT_CATEGORY_REFRESH_INTERVAL_MS);
+
+  if (!Number.isFinite(interval) || interval <= 0) {
+    return () => {};
+  }
+
+  const timer = setInterval(() => {
+    void refreshCategories();
+  }, interval);
+  // Polling alone should not keep the process alive
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * The provider from the environment, once the store is known to have the
+ * semantic search schema (006_semantic_search.sql). Without it every write
+ * would fail to save its embedding, so the default provider is turned off with
+ * a warning, and an explicitly configured one stops startup.
+ */
+async function resolveEmbeddingProvider(store: PersonalDataStore): Promise<EmbeddingProvider | null> {
+  const provider = createEmbeddingProviderFromEnv();
+  if (!provider) {
+    return null;
+  }
+
+  const { error } = await store.listRecordsWithoutEmbedding({ model: provider.model, limit: 1 });
+  if (!error) {
+    return provider;
+  }
+  const configured = process.env.DATADAM_EMBEDDING_PROVIDER;
+  if (configured) {
+    throw new Error(`DATADAM_EMBEDDING_PROVIDER=${configured} needs the semantic search schema (006_semantic_search.sql in src/database/schema.sql), which the database is missing: ${error.message}. Apply it, or set DATADAM_EMBEDDING_PROVIDER=none.`);
+  }
+  console.warn(`⚠️ Semantic search disabled: the database is missing the semantic search schema (${error.message}). Apply 006_semantic_search.sql from src/database/schema.sql to enable it, or set DATADAM_EMBEDDING_PROVIDER=none.`);
+  return null;
+}
+
+// Uses the given store, or builds one from the environment when omitted
+export async function initializeDatabase(customStore?: PersonalDataStore): Promise<void> {
+  try {
+    store = customStore || await createStoreFromEnv();
+    embeddingProvider = await resolveEmbeddingProvider(store);
+
+    // Fetch initial categories
+    replaceContents(availableCategories, await fetchAvailableCategories());
+    replaceContents(allCategories, await fetchAllCategories());
+    replaceSchemas(await fetchCategorySchemas());
+    console.log("Available categories (active):", availableCategories);
+    console.log("All categories (registry):", allCategories);
+    console.log("Categories with content schemas:", Object.keys(categorySchemas));
+
+    // Test the connection by fetching category stats
+    const { data, error } = await store.getCategoryStats();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log(`✅ Connected to ${customStore ? 'custom' : getStorageBackend()} storage successfully`);
+    console.log(`Database stats:`, data || 'No data');
+    console.log(`Semantic search: ${embeddingProvider ? embeddingProvider.model : 'disabled'}`);
+  } catch (error) {
+    console.error("❌ Error connecting to database:", error);
+    throw error;
+  }
+}
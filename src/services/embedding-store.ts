@@ -0,0 +1,119 @@
+// Keeps record embeddings up to date for semantic search
+
+import type { PersonalDataStore } from "./store.js";
+import { embeddingText, embedsTitleOnly, type EmbeddingProvider } from "./embeddings.js";
+
+/**
+ * Wraps a store so records are embedded whenever they are created, updated or
+ * reverted. Embedding failures are logged rather than failing the write; the
+ * record is picked up again by backfillEmbeddings().
+ */
+export function createEmbeddingStore(store: PersonalDataStore, provider: EmbeddingProvider): PersonalDataStore {
+  async function embed(records: { id: string; title: string; content: unknown; classification?: string | null }[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    try {
+      const vectors = await provider.embed(records.map(embeddingText));
+      await Promise.all(records.map(async (record, i) => {
+        const { error } = await store.saveEmbedding({
+          recordId: record.id,
+          embedding: vectors[i],
+          model: provider.model,
+          titleOnly: embedsTitleOnly(record.classification)
+        });
+        if (error) {
+          console.error(`Error saving embedding for ${record.id}:`, error);
+        }
+      }));
+    } catch (error) {
+      console.error("Failed to embed records:", error);
+    }
+  }
+
+  async function embedById(recordId: string, userId?: string | null): Promise<void> {
+    const { data: records, error } = await store.getPersonalData({ recordIds: [recordId], userId });
+    if (error) {
+      console.error(`Error loading ${recordId} for embedding:`, error);
+      return;
+    }
+    await embed(records || []);
+  }
+
+  return {
+    ...store,
+
+    async createPersonalData(params) {
+      const result = await store.createPersonalData(params);
+      if (result.data) {
+        await embed([{ id: result.data, title: params.title, content: params.content, classification: params.classification ?? 'personal' }]);
+      }
+      return result;
+    },
+
+    async updatePersonalData(params) {
+      const result = await store.updatePersonalData(params);
+      if (result.data) {
+        await embedById(params.recordId, params.userId);
+      }
+      return result;
+    },
+
+    async revertPersonalData(params) {
+      const result = await store.revertPersonalData(params);
+      if (result.data) {
+        await embedById(params.recordId, params.userId);
+      }
+      return result;
+    }
+  };
+}
+
+/**
+ * Embeds every live record that has no embedding from the provider's model,
+ * e.g. records created before semantic search was enabled or after switching
+ * providers, and re-embeds sensitive and confidential records whose vector was
+ * made from their content before they were embedded by title alone. Resolves
+ * to the number of records embedded.
+ */
+export async function backfillEmbeddings(
+  store: PersonalDataStore,
+  provider: EmbeddingProvider,
+  batchSize: number = 50
+): Promise<number> {
+  let embedded = 0;
+
+  while (true) {
+    const { data: records, error } = await store.listRecordsWithoutEmbedding({ model: provider.model, limit: batchSize });
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!records || records.length === 0) {
+      break;
+    }
+
+    const vectors = await provider.embed(records.map(embeddingText));
+    const results = await Promise.all(records.map((record, i) =>
+      store.saveEmbedding({
+        recordId: record.id,
+        embedding: vectors[i],
+        model: provider.model,
+        titleOnly: embedsTitleOnly(record.classification)
+      })
+    ));
+
+    const saved = results.filter((result) => result.data).length;
+    embedded += saved;
+
+    // Stop rather than loop forever if the same records keep coming back
+    if (saved < records.length) {
+      const failed = results.find((result) => result.error);
+      throw new Error(`Saved ${saved} of ${records.length} embeddings${failed?.error ? `: ${failed.error.message}` : ''}`);
+    }
+  }
+
+  if (embedded > 0) {
+    console.log(`🧭 Embedded ${embedded} record(s) with ${provider.model}`);
+  }
+  return embedded;
+}
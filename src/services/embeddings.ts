@@ -0,0 +1,179 @@
+// Embedding providers for semantic search
+//
+// A provider turns text into fixed-length vectors. The local provider needs no
+// network or API key and always produces the same vector for the same text, so
+// semantic search works offline and in tests; the OpenAI-compatible provider
+// gives much better semantic matches for production deployments.
+
+import { createHash } from "node:crypto";
+import { shouldEncrypt } from "./encryption.js";
+
+export interface EmbeddingProvider {
+  // Stored with each embedding; vectors from different models are never compared
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'local' | 'openai' | 'none';
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Stable bucket and sign for a feature, derived from its hash
+function hashFeature(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash('sha256').update(feature).digest();
+  return {
+    index: digest.readUInt32BE(0) % dimensions,
+    sign: digest[4] & 1 ? 1 : -1
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Deterministic feature-hashing embeddings: words and character trigrams are
+ * hashed into a fixed number of buckets. Captures lexical overlap, including
+ * partial words ("run" / "running"), rather than true meaning.
+ */
+export function createLocalEmbeddingProvider(dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  function embedOne(text: string): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const word = hashFeature(`w:${token}`, dimensions);
+      vector[word.index] += word.sign * 2;
+
+      const padded = ` ${token} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        const trigram = hashFeature(`t:${padded.slice(i, i + 3)}`, dimensions);
+        vector[trigram.index] += trigram.sign;
+      }
+    }
+    return normalize(vector);
+  }
+
+  return {
+    model: `local-hash-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map(embedOne);
+    }
+  };
+}
+
+export interface OpenAIEmbeddingOptions {
+  apiKey: string;
+  model?: string;
+  // Any OpenAI-compatible embeddings API
+  baseUrl?: string;
+  dimensions?: number;
+}
+
+export function createOpenAIEmbeddingProvider(options: OpenAIEmbeddingOptions): EmbeddingProvider {
+  const model = options.model || 'text-embedding-3-small';
+  const baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const dimensions = options.dimensions || 1536;
+
+  return {
+    model,
+    dimensions,
+    async embed(texts) {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.apiKey}`
+        },
+        body: JSON.stringify({ model, input: texts, dimensions })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json() as { data: { index: number; embedding: number[] }[] };
+      return [...body.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    }
+  };
+}
+
+/**
+ * Builds the provider selected by DATADAM_EMBEDDING_PROVIDER ('local' by
+ * default). Returns null when semantic search is disabled with 'none'.
+ */
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider | null {
+  const name = (process.env.DATADAM_EMBEDDING_PROVIDER || 'local').toLowerCase() as EmbeddingProviderName;
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'local':
+      return createLocalEmbeddingProvider();
+    case 'openai': {
+      const apiKey = process.env.DATADAM_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("DATADAM_EMBEDDING_PROVIDER=openai requires DATADAM_EMBEDDING_API_KEY or OPENAI_API_KEY.");
+      }
+      const dimensions = process.env.DATADAM_EMBEDDING_DIMENSIONS;
+      return createOpenAIEmbeddingProvider({
+        apiKey,
+        model: process.env.DATADAM_EMBEDDING_MODEL,
+        baseUrl: process.env.DATADAM_EMBEDDING_BASE_URL,
+        dimensions: dimensions ? Number(dimensions) : undefined
+      });
+    }
+    default:
+      throw new Error(`Unknown DATADAM_EMBEDDING_PROVIDER "${name}". Expected "local", "openai" or "none".`);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Keys and values of nested content as plain words, without JSON punctuation
+function flattenContent(content: unknown): string[] {
+  if (content === null || content === undefined) return [];
+  if (Array.isArray(content)) return content.flatMap(flattenContent);
+  if (typeof content === 'object') {
+    return Object.entries(content as Record<string, unknown>)
+      .flatMap(([key, value]) => [key.replace(/_/g, ' '), ...flattenContent(value)]);
+  }
+  return [String(content)];
+}
+
+// Sensitive and confidential records, whose content is encrypted at rest
+export function embedsTitleOnly(classification: string | null | undefined): boolean {
+  return shouldEncrypt(classification);
+}
+
+/**
+ * The text embedded for a record: its title followed by its content. Sensitive
+ * and confidential records are embedded by title alone, so content that is
+ * encrypted at rest is never sent to the provider nor kept as a vector.
+ */
+export function embeddingText(record: { title: string; content: unknown; classification?: string | null }): string {
+  if (embedsTitleOnly(record.classification)) {
+    return record.title;
+  }
+  return [record.title, ...flattenContent(record.content)].join('\n');
+}
@@ -0,0 +1,174 @@
+// Application-side encryption of sensitive and confidential content
+
+import type { PersonalDataStore, StoreResult } from "./store.js";
+import {
+  decryptContent,
+  encryptContent,
+  isEncryptedContent,
+  rewrapContent,
+  shouldEncrypt,
+  ENVELOPE_KEY,
+  type Keyring
+} from "./encryption.js";
+
+/**
+ * Wraps a store so content of sensitive and confidential records is encrypted
+ * before it is written and decrypted when read back. Only the encrypted
+ * envelope reaches the database, so keyword search and extract filters cannot
+ * match inside it; titles and tags stay searchable.
+ */
+export function createEncryptedStore(store: PersonalDataStore, keyring: Keyring): PersonalDataStore {
+  function decryptAll<T extends { content: any }>(result: StoreResult<T[]>): StoreResult<T[]> {
+    if (!result.data) {
+      return result;
+    }
+    try {
+      return { data: result.data.map((record) => ({ ...record, content: decryptContent(record.content, keyring) })), error: null };
+    } catch (error) {
+      return { data: null, error: { message: `Could not decrypt content: ${error instanceof Error ? error.message : 'unknown error'}` } };
+    }
+  }
+
+  const getPersonalData: PersonalDataStore['getPersonalData'] = async (params) =>
+    decryptAll(await store.getPersonalData(params));
+
+  const toStored = (content: Record<string, any>, classification: string | null | undefined) =>
+    shouldEncrypt(classification) ? encryptContent(content, keyring) : content;
+
+  return {
+    ...store,
+    searchPersonalData: async (params) => decryptAll(await store.searchPersonalData(params)),
+    semanticSearchPersonalData: async (params) => decryptAll(await store.semanticSearchPersonalData(params)),
+    listRecordsWithoutEmbedding: async (params) => decryptAll(await store.listRecordsWithoutEmbedding(params)),
+    extractPersonalData: async (params) => decryptAll(await store.extractPersonalData(params)),
+    getPersonalData,
+    getRecordHistory: async (params) => decryptAll(await store.getRecordHistory(params)),
+    listDeletedPersonalData: async (params) => decryptAll(await store.listDeletedPersonalData(params)),
+    exportPersonalData: async (params) => decryptAll(await store.exportPersonalData(params)),
+
+    createPersonalData: (params) => store.createPersonalData({
+      ...params,
+      content: toStored(params.content, params.classification ?? 'personal')
+    }),
+
+    // The stored form depends on the resulting classification, so a change to
+    // either the content or the classification may need the other from the record
+    async updatePersonalData(params) {
+      const { updates } = params;
+      const changesContent = 'content' in updates;
+      const changesClassification = 'classification' in updates;
+      if (!changesContent && !changesClassification) {
+        return store.updatePersonalData(params);
+      }
+
+      let current: { content: Record<string, any>; classification: string } | undefined;
+      if (!changesContent || !changesClassification) {
+        const { data: records, error } = await getPersonalData({ recordIds: [params.recordId], userId: params.userId });
+        if (error) {
+          return { data: null, error };
+        }
+        current = records?.[0];
+        if (!current) {
+          return { data: false, error: null };
+        }
+      }
+
+      const classification = changesClassification ? updates.classification : current!.classification;
+      if (!changesContent && shouldEncrypt(classification) === shouldEncrypt(current!.classification)) {
+        return store.updatePersonalData(params);
+      }
+      const content = changesContent ? updates.content : current!.content;
+      return store.updatePersonalData({ ...params, updates: { ...updates, content: toStored(content, classification) } });
+    },
+
+    async chatGptFetch(documentId, userId) {
+      const result = await store.chatGptFetch(documentId, userId);
+      if (!result.data) {
+        return result;
+      }
+      try {
+        const documents = result.data.map((document) => {
+          const content = document.text.includes(ENVELOPE_KEY) ? JSON.parse(document.text) : null;
+          return isEncryptedContent(content)
+            ? { ...document, text: JSON.stringify(decryptContent(content, keyring)) }
+            : document;
+        });
+        return { data: documents, error: null };
+      } catch (error) {
+        return { data: null, error: { message: `Could not decrypt content: ${error instanceof Error ? error.message : 'unknown error'}` } };
+      }
+    }
+  };
+}
+
+export interface EncryptionMigrationReport {
+  scanned: number;
+  encrypted: number;
+  // Re-wrapped with the primary key after a rotation
+  rewrapped: number;
+  // Encrypted content of records no longer sensitive or confidential
+  decrypted: number;
+}
+
+/**
+ * Brings every stored record and saved version in line with the keyring:
+ * encrypts plain sensitive and confidential content, re-wraps content
+ * encrypted with an older key, and decrypts content whose classification no
+ * longer needs encryption. Safe to run repeatedly; a dry run counts without
+ * writing. Takes the unwrapped store.
+ */
+export async function encryptStoredContent(
+  store: PersonalDataStore,
+  keyring: Keyring,
+  options: { batchSize?: number; dryRun?: boolean } = {}
+): Promise<EncryptionMigrationReport> {
+  const { batchSize = 100, dryRun = false } = options;
+  const report: EncryptionMigrationReport = { scanned: 0, encrypted: 0, rewrapped: 0, decrypted: 0 };
+
+  for (let offset = 0; ; offset += batchSize) {
+    const { data: rows, error } = await store.listStoredContent({ limit: batchSize, offset });
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!rows || rows.length === 0) {
+      break;
+    }
+
+    for (const row of rows) {
+      report.scanned++;
+      const stored = row.content;
+      let content: Record<string, any>;
+      let counter: keyof EncryptionMigrationReport;
+
+      if (!isEncryptedContent(stored)) {
+        if (!shouldEncrypt(row.classification)) {
+          continue;
+        }
+        content = encryptContent(stored, keyring);
+        counter = 'encrypted';
+      } else if (!shouldEncrypt(row.classification)) {
+        content = decryptContent(stored, keyring);
+        counter = 'decrypted';
+      } else if (stored[ENVELOPE_KEY].kid !== keyring.primaryKeyId) {
+        content = rewrapContent(stored, keyring);
+        counter = 'rewrapped';
+      } else {
+        continue;
+      }
+
+      if (!dryRun) {
+        const { error: writeError } = await store.rewriteStoredContent({ recordId: row.record_id, version: row.version, content });
+        if (writeError) {
+          throw new Error(`Failed to rewrite ${row.record_id}${row.version !== null ? ` version ${row.version}` : ''}: ${writeError.message}`);
+        }
+      }
+      report[counter]++;
+    }
+
+    if (rows.length < batchSize) {
+      break;
+    }
+  }
+
+  return report;
+}
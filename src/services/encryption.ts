@@ -0,0 +1,176 @@
+// Envelope encryption of record content
+//
+// Each record's content is encrypted with its own random data key (AES-256-GCM)
+// and the data key is encrypted ("wrapped") with a master key from the keyring.
+// Rotating the master key only re-wraps data keys; content is not re-encrypted.
+// The envelope is stored in place of the content, so no schema change is needed.
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// Classifications whose content is encrypted at rest
+export const ENCRYPTED_CLASSIFICATIONS = ['sensitive', 'confidential'];
+
+// Key stored in content in place of the record's fields
+export const ENVELOPE_KEY = '$encrypted';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface Keyring {
+  // New content is always wrapped with this key
+  primaryKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export interface EncryptedEnvelope {
+  v: 1;
+  // Master key that wrapped the data key
+  kid: string;
+  // Wrapped data key: iv, auth tag and ciphertext, base64
+  key: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function shouldEncrypt(classification: string | null | undefined): boolean {
+  return ENCRYPTED_CLASSIFICATIONS.includes(classification as string);
+}
+
+export function isEncryptedContent(content: unknown): content is { [ENVELOPE_KEY]: EncryptedEnvelope } {
+  return !!content && typeof content === 'object' && !Array.isArray(content) &&
+    Object.keys(content).length === 1 && typeof (content as any)[ENVELOPE_KEY]?.kid === 'string';
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+function masterKey(keyring: Keyring, kid: string): Buffer {
+  const key = keyring.keys.get(kid);
+  if (!key) {
+    throw new Error(`Content was encrypted with key "${kid}", which is not in the keyring`);
+  }
+  return key;
+}
+
+function wrapDataKey(keyring: Keyring, dataKey: Buffer): string {
+  const { iv, tag, data } = seal(masterKey(keyring, keyring.primaryKeyId), dataKey);
+  return Buffer.concat([iv, tag, data]).toString('base64');
+}
+
+function unwrapDataKey(keyring: Keyring, envelope: EncryptedEnvelope): Buffer {
+  const wrapped = Buffer.from(envelope.key, 'base64');
+  return open(
+    masterKey(keyring, envelope.kid),
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+    wrapped.subarray(IV_BYTES + 16)
+  );
+}
+
+export function encryptContent(content: Record<string, any>, keyring: Keyring): { [ENVELOPE_KEY]: EncryptedEnvelope } {
+  const dataKey = randomBytes(KEY_BYTES);
+  const { iv, tag, data } = seal(dataKey, Buffer.from(JSON.stringify(content), 'utf8'));
+  return {
+    [ENVELOPE_KEY]: {
+      v: 1,
+      kid: keyring.primaryKeyId,
+      key: wrapDataKey(keyring, dataKey),
+      iv: iv.toString('base64'),
+      tag: tag.toString('base64'),
+      data: data.toString('base64')
+    }
+  };
+}
+
+// Plain content is returned unchanged, so callers need not check first
+export function decryptContent(content: Record<string, any>, keyring: Keyring): Record<string, any> {
+  if (!isEncryptedContent(content)) {
+    return content;
+  }
+  const envelope = content[ENVELOPE_KEY];
+  const plaintext = open(
+    unwrapDataKey(keyring, envelope),
+    Buffer.from(envelope.iv, 'base64'),
+    Buffer.from(envelope.tag, 'base64'),
+    Buffer.from(envelope.data, 'base64')
+  );
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+// Re-wraps the data key with the primary key, leaving the encrypted content as is
+export function rewrapContent(content: { [ENVELOPE_KEY]: EncryptedEnvelope }, keyring: Keyring): { [ENVELOPE_KEY]: EncryptedEnvelope } {
+  const envelope = content[ENVELOPE_KEY];
+  return {
+    [ENVELOPE_KEY]: {
+      ...envelope,
+      kid: keyring.primaryKeyId,
+      key: wrapDataKey(keyring, unwrapDataKey(keyring, envelope))
+    }
+  };
+}
+
+export function generateMasterKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+function decodeKey(kid: string, value: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key "${kid}" must be ${KEY_BYTES} bytes, base64 encoded (got ${key.length} bytes)`);
+  }
+  return key;
+}
+
+/**
+ * Builds a keyring from `id:base64key` entries. The first entry is the primary
+ * key; the others are only used to decrypt content wrapped before a rotation.
+ */
+export function parseKeyring(value: string): Keyring {
+  const keys = new Map<string, Buffer>();
+  for (const entry of value.split(',').map((raw) => raw.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid encryption key entry "${entry.slice(0, 8)}…". Expected "id:base64key".`);
+    }
+    const kid = entry.slice(0, separator).trim();
+    if (keys.has(kid)) {
+      throw new Error(`Duplicate encryption key id "${kid}"`);
+    }
+    keys.set(kid, decodeKey(kid, entry.slice(separator + 1)));
+  }
+  const [primaryKeyId] = keys.keys();
+  if (!primaryKeyId) {
+    throw new Error('No encryption keys configured');
+  }
+  return { primaryKeyId, keys };
+}
+
+/**
+ * Reads DATADAM_ENCRYPTION_KEYS, or the file named by DATADAM_ENCRYPTION_KEY_FILE
+ * holding the same `id:base64key` list (one entry per line is fine). Resolves to
+ * null when neither is set, which leaves content unencrypted.
+ */
+export function keyringFromEnv(): Keyring | null {
+  const inline = process.env.DATADAM_ENCRYPTION_KEYS;
+  if (inline) {
+    return parseKeyring(inline);
+  }
+  const file = process.env.DATADAM_ENCRYPTION_KEY_FILE;
+  if (file) {
+    return parseKeyring(readFileSync(file, 'utf8').replace(/\s*\n\s*/g, ','));
+  }
+  return null;
+}
@@ -0,0 +1,49 @@
+// Per-session event store for resuming Streamable HTTP streams
+
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// Events kept per session; older ones can no longer be replayed
+export const DEFAULT_MAX_STORED_EVENTS = 100;
+
+interface StoredEvent {
+  id: string;
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Keeps the latest messages sent on a session's SSE streams, so a client whose
+ * connection dropped can reconnect with Last-Event-ID and receive the messages
+ * it missed on that stream. Lives and dies with the session's transport.
+ */
+export function createSessionEventStore(maxEvents: number = DEFAULT_MAX_STORED_EVENTS): EventStore {
+  const events: StoredEvent[] = [];
+  let sequence = 0;
+
+  return {
+    async storeEvent(streamId, message) {
+      const id = String(++sequence);
+      events.push({ id, streamId, message });
+      if (events.length > maxEvents) {
+        events.splice(0, events.length - maxEvents);
+      }
+      return id;
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const index = events.findIndex((event) => event.id === lastEventId);
+      if (index === -1) {
+        throw new Error(`Event ${lastEventId} is no longer available for replay`);
+      }
+
+      const { streamId } = events[index];
+      for (const event of events.slice(index + 1)) {
+        if (event.streamId === streamId) {
+          await send(event.id, event.message);
+        }
+      }
+      return streamId;
+    }
+  };
+}
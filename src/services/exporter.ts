@@ -0,0 +1,160 @@
+// Full data export in JSON, per-category CSV and Markdown archive formats
+
+import type { PersonalDataStore } from "./store.js";
+import type { ExportedPersonalDataRecord } from "../types.js";
+import { createZip } from "../utils/zip.js";
+import { formatSingleRecordMarkdown, formatTimestamp } from "../utils/formatting.js";
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeDeleted: boolean;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  recordCount: number;
+  // Record count per category
+  categories: Record<string, number>;
+}
+
+// Columns written before the content keys in each CSV file
+const CSV_COLUMNS = ['id', 'title', 'category', 'tags', 'classification', 'created_at', 'updated_at'] as const;
+
+function countByCategory(records: ExportedPersonalDataRecord[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const record of records) {
+    counts[record.category] = (counts[record.category] || 0) + 1;
+  }
+  return counts;
+}
+
+function groupByCategory(records: ExportedPersonalDataRecord[]): Map<string, ExportedPersonalDataRecord[]> {
+  const groups = new Map<string, ExportedPersonalDataRecord[]>();
+  for (const record of records) {
+    groups.set(record.category, [...(groups.get(record.category) || []), record]);
+  }
+  return groups;
+}
+
+function csvCell(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (Array.isArray(value) && value.every((item) => typeof item !== 'object')) {
+    // Same separator the importer splits list columns on
+    text = value.join('; ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV per category: the record columns, then one column per content key
+ * seen in that category. Content keys that clash with a record column are
+ * prefixed with "content.".
+ */
+function toCsv(records: ExportedPersonalDataRecord[], includeDeleted: boolean): string {
+  const columns: string[] = [...CSV_COLUMNS, ...(includeDeleted ? ['deleted_at'] : [])];
+  const contentKeys: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record.content || {})) {
+      if (!contentKeys.includes(key)) contentKeys.push(key);
+    }
+  }
+  const contentColumn = (key: string) => (columns.includes(key) ? `content.${key}` : key);
+
+  const lines = [[...columns, ...contentKeys.map(contentColumn)].map(csvCell).join(',')];
+  for (const record of records) {
+    const cells = [
+      ...columns.map((column) => column === 'tags' ? record.tags.join(';') : (record as any)[column]),
+      ...contentKeys.map((key) => record.content?.[key])
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'record';
+}
+
+function toMarkdownFiles(records: ExportedPersonalDataRecord[], exportedAt: Date): { name: string; data: string }[] {
+  const files: { name: string; data: string }[] = [];
+  let index = `# DataDam Export\n\nExported ${formatTimestamp(exportedAt.toISOString())}. ${records.length} record(s).\n`;
+
+  for (const [category, group] of groupByCategory(records)) {
+    index += `\n## ${category} (${group.length})\n\n`;
+    for (const record of group) {
+      const name = `${category}/${slugify(record.title)}-${record.id.slice(0, 8)}.md`;
+      let markdown = formatSingleRecordMarkdown(record);
+      markdown += `**Updated**: ${formatTimestamp(record.updated_at)}\n`;
+      if (record.deleted_at) {
+        markdown += `**Deleted**: ${formatTimestamp(record.deleted_at)}\n`;
+      }
+      files.push({ name, data: markdown });
+      index += `- [${record.title}](${name})${record.deleted_at ? ' (deleted)' : ''}\n`;
+    }
+  }
+
+  return [{ name: 'README.md', data: index }, ...files];
+}
+
+/**
+ * Builds a complete export of every record the store returns (the store is
+ * expected to be scoped to the requesting user). Throws on database errors.
+ */
+export async function exportPersonalData(store: PersonalDataStore, options: ExportOptions): Promise<ExportFile> {
+  const { data, error } = await store.exportPersonalData({ includeDeleted: options.includeDeleted });
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const records = data || [];
+  const exportedAt = new Date();
+  const stamp = exportedAt.toISOString().slice(0, 10);
+  const categories = countByCategory(records);
+  const base = { recordCount: records.length, categories };
+
+  switch (options.format) {
+    case 'json':
+      return {
+        ...base,
+        filename: `datadam-export-${stamp}.json`,
+        mimeType: 'application/json',
+        data: Buffer.from(JSON.stringify({
+          exported_at: exportedAt.toISOString(),
+          include_deleted: options.includeDeleted,
+          record_count: records.length,
+          categories,
+          records
+        }, null, 2), 'utf8')
+      };
+    case 'csv':
+      return {
+        ...base,
+        filename: `datadam-export-${stamp}-csv.zip`,
+        mimeType: 'application/zip',
+        data: createZip(
+          [...groupByCategory(records)].map(([category, group]) => ({
+            name: `${category}.csv`,
+            data: toCsv(group, options.includeDeleted)
+          })),
+          exportedAt
+        )
+      };
+    case 'markdown':
+      return {
+        ...base,
+        filename: `datadam-export-${stamp}-markdown.zip`,
+        mimeType: 'application/zip',
+        data: createZip(toMarkdownFiles(records, exportedAt), exportedAt)
+      };
+  }
+}
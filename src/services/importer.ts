@@ -0,0 +1,282 @@
+// Bulk import of personal data records from CSV, JSON and vCard files
+
+import type { PersonalDataStore } from "./store.js";
+import type { ContentSchema, PersonalDataRecord } from "../types.js";
+import { parseImportFile, type ImportFormat, type ImportRow } from "../utils/import-formats.js";
+import { validateContent } from "../utils/content-schema.js";
+import { findDuplicateCandidates, DUPLICATE_SCAN_LIMIT } from "../utils/duplicates.js";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const CLASSIFICATIONS = ['personal', 'sensitive', 'confidential'];
+
+export interface ImportOptions {
+  format: ImportFormat;
+  data: string;
+  // Category for rows without a category column; vCard files default to contacts
+  category?: string;
+  // Column holding the title; defaults to "title", then "name"
+  titleField?: string;
+  // Added to every row's own tags
+  tags?: string[];
+  // Used for rows without a classification column
+  classification?: string;
+  // Validate and preview without writing anything
+  dryRun: boolean;
+  // Import rows that look like an existing record or an earlier row instead of skipping them
+  allowDuplicates?: boolean;
+}
+
+export interface ImportRegistry {
+  allCategories: string[];
+  categorySchemas: Record<string, ContentSchema>;
+}
+
+// A stored record, or an earlier row of the same file, that a row looks like
+export interface ImportDuplicate {
+  id?: string;
+  row?: number;
+  title: string;
+  reasons: string[];
+}
+
+export interface ImportRowResult {
+  // 1-based position among the parsed records (CSV header not counted)
+  row: number;
+  // 'valid' means the row would be created; only reported on dry runs.
+  // 'skipped' rows look like a record in duplicates and were not created
+  status: 'created' | 'valid' | 'skipped' | 'failed';
+  title?: string;
+  category?: string;
+  id?: string;
+  content?: Record<string, any>;
+  tags?: string[];
+  duplicates?: ImportDuplicate[];
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  format: ImportFormat;
+  total: number;
+  created: number;
+  valid: number;
+  skipped: number;
+  failed: number;
+  // Categories that received records, for refreshing the active list
+  categories: string[];
+  results: ImportRowResult[];
+}
+
+interface MappedRow {
+  title: string;
+  category: string;
+  content: Record<string, any>;
+  tags: string[];
+  classification: string;
+}
+
+// Case-insensitive lookup that also returns the key as written in the row
+function findKey(row: ImportRow, name: string): string | undefined {
+  const lowered = name.toLowerCase();
+  return Object.keys(row).find((key) => key.toLowerCase() === lowered);
+}
+
+function toTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String).map((tag) => tag.trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[;,]/).map((tag) => tag.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// CSV cells are all strings; convert those the schema declares as another type
+function coerceToSchema(content: Record<string, any>, schema: ContentSchema | undefined): Record<string, any> {
+  if (!schema) return content;
+  const coerced = { ...content };
+  for (const [key, field] of Object.entries(schema.properties || {})) {
+    const value = coerced[key];
+    if (typeof value !== 'string') continue;
+    if ((field.type === 'number' || field.type === 'integer') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      coerced[key] = Number(value);
+    } else if (field.type === 'boolean' && /^(true|false)$/i.test(value)) {
+      coerced[key] = value.toLowerCase() === 'true';
+    } else if (field.type === 'array') {
+      coerced[key] = value.split(';').map((item) => item.trim()).filter(Boolean);
+    }
+  }
+  return coerced;
+}
+
+function mapRow(row: ImportRow, options: ImportOptions, registry: ImportRegistry): { mapped?: MappedRow; errors: string[] } {
+  const errors: string[] = [];
+  const reserved = new Set<string>();
+  const take = (name: string): any => {
+    const key = findKey(row, name);
+    if (key === undefined) return undefined;
+    reserved.add(key);
+    return row[key];
+  };
+
+  const titleKey = options.titleField
+    ? findKey(row, options.titleField)
+    : findKey(row, 'title') ?? findKey(row, 'name');
+  const title = titleKey !== undefined ? String(row[titleKey] ?? '').trim() : '';
+  // A "title" column is metadata; any other title column (e.g. name) is also content
+  if (titleKey !== undefined && titleKey.toLowerCase() === 'title') {
+    reserved.add(titleKey);
+  }
+
+  const category = String(take('category') || options.category || (options.format === 'vcard' ? 'contacts' : '')).trim();
+  const classification = String(take('classification') || options.classification || 'personal').trim();
+  const tags = [...new Set([...toTags(take('tags')), ...(options.tags || [])])];
+  const nested = take('content');
+
+  let content: Record<string, any>;
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    content = { ...nested };
+  } else {
+    content = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (!reserved.has(key) && !isEmpty(value)) {
+        content[key] = value;
+      }
+    }
+  }
+  content = coerceToSchema(content, registry.categorySchemas[category]);
+
+  if (!title) {
+    errors.push(options.titleField ? `Missing title in column "${options.titleField}"` : 'Missing title (add a "title" or "name" column, or set titleField)');
+  }
+  if (!category) {
+    errors.push('Missing category (add a "category" column or set a default category)');
+  } else if (!registry.allCategories.includes(category)) {
+    errors.push(`Unknown category "${category}". Available: ${registry.allCategories.join(', ')}`);
+  }
+  if (!CLASSIFICATIONS.includes(classification)) {
+    errors.push(`Invalid classification "${classification}". Use one of: ${CLASSIFICATIONS.join(', ')}`);
+  }
+  if (Object.keys(content).length === 0) {
+    errors.push('Row has no content');
+  }
+
+  const schema = registry.categorySchemas[category];
+  if (schema) {
+    errors.push(...validateContent(content, schema));
+  }
+
+  return {
+    mapped: errors.length === 0 ? { title, category, content, tags, classification } : undefined,
+    errors
+  };
+}
+
+/**
+ * Parses the file, maps each record to a title, category, content and tags,
+ * validates it against the registry, and creates the valid ones unless this is
+ * a dry run. Rows that look like a record already in their category, or like
+ * an earlier row of the file, are skipped with the duplicate check of
+ * datadam_create_personal_data unless allowDuplicates is set. A row failing
+ * does not stop the others; an unreadable file or one over MAX_IMPORT_ROWS
+ * throws before anything is written.
+ */
+export async function importPersonalData(
+  store: PersonalDataStore,
+  options: ImportOptions,
+  registry: ImportRegistry
+): Promise<ImportReport> {
+  const rows = parseImportFile(options.format, options.data);
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`File has ${rows.length} records; at most ${MAX_IMPORT_ROWS} can be imported at once`);
+  }
+
+  const results: ImportRowResult[] = [];
+  const categories = new Set<string>();
+
+  // Records of each category compared against, growing with the rows imported
+  // into it; rows of the file are keyed by their new id, or their row number
+  // on dry runs
+  const known = new Map<string, PersonalDataRecord[]>();
+  const fileRows = new Map<string, { id?: string; row: number }>();
+  const knownRecords = async (category: string): Promise<PersonalDataRecord[]> => {
+    let records = known.get(category);
+    if (!records) {
+      const { data, error } = await store.extractPersonalData({ category, limit: DUPLICATE_SCAN_LIMIT, offset: 0 });
+      if (error) {
+        console.error('Duplicate check failed:', error.message);
+      }
+      records = data || [];
+      known.set(category, records);
+    }
+    return records;
+  };
+  const remember = (mapped: MappedRow, row: number, id?: string) => {
+    const key = id ?? `row ${row}`;
+    fileRows.set(key, { id, row });
+    known.get(mapped.category)?.push({ id: key, title: mapped.title, content: mapped.content } as PersonalDataRecord);
+  };
+
+  for (const [index, row] of rows.entries()) {
+    const { mapped, errors } = mapRow(row, options, registry);
+    const base = { row: index + 1 };
+
+    if (!mapped) {
+      results.push({ ...base, status: 'failed', errors });
+      continue;
+    }
+
+    if (!options.allowDuplicates) {
+      const candidates = findDuplicateCandidates(mapped, await knownRecords(mapped.category));
+      if (candidates.length > 0) {
+        results.push({
+          ...base,
+          status: 'skipped',
+          title: mapped.title,
+          category: mapped.category,
+          duplicates: candidates.map(({ id, title, reasons }) => ({ ...(fileRows.get(id) ?? { id }), title, reasons }))
+        });
+        continue;
+      }
+    }
+
+    if (options.dryRun) {
+      results.push({
+        ...base,
+        status: 'valid',
+        title: mapped.title,
+        category: mapped.category,
+        content: mapped.content,
+        tags: mapped.tags
+      });
+      remember(mapped, base.row);
+      continue;
+    }
+
+    const { data: id, error } = await store.createPersonalData(mapped);
+    if (error || !id) {
+      results.push({ ...base, status: 'failed', title: mapped.title, category: mapped.category, errors: [`Database error: ${error?.message || 'no id returned'}`] });
+      continue;
+    }
+    categories.add(mapped.category);
+    remember(mapped, base.row, id);
+    results.push({ ...base, status: 'created', title: mapped.title, category: mapped.category, id });
+  }
+
+  return {
+    dry_run: options.dryRun,
+    format: options.format,
+    total: rows.length,
+    created: results.filter((r) => r.status === 'created').length,
+    valid: results.filter((r) => r.status === 'valid').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    categories: [...categories],
+    results
+  };
+}
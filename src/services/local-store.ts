@@ -0,0 +1,880 @@
+// Local, file-backed implementation of the personal data store
+//
+// Keeps all records in memory and persists them as a JSON file, reproducing the
+// semantics of the Supabase RPC functions in src/database/schema.sql. Audit
+// events are appended to a JSON Lines file beside it rather than rewriting the
+// data file on every tool call. Intended for laptops, CI and offline testing;
+// not for concurrent multi-process use.
+
+import { randomUUID } from "node:crypto";
+import { readFile, writeFile, appendFile, rename, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { PersonalDataStore, PageKey } from "./store.js";
+import { cosineSimilarity, embedsTitleOnly } from "./embeddings.js";
+import { matchesFilters, compareRecords } from "../utils/record-filters.js";
+import type {
+  PersonalDataRecord,
+  DeletedPersonalDataRecord,
+  ExportedPersonalDataRecord,
+  StoredContent,
+  AuditEntry,
+  RecordVersion,
+  Category,
+  ContentSchema
+} from "../types.js";
+
+// Path value that disables persistence entirely
+export const IN_MEMORY_PATH = ":memory:";
+
+export interface LocalCategory {
+  category_name: string;
+  display_name: string;
+  description: string;
+  trigger_words: string[];
+  query_hint: string;
+  example_queries: string[];
+  min_items_for_activation: number;
+  content_schema?: ContentSchema | null;
+  // Set while the category is deactivated
+  deactivated_at?: string | null;
+  last_modified: string;
+}
+
+export interface LocalRecord extends PersonalDataRecord {
+  deleted_at: string | null;
+  embedding?: number[];
+  embedding_model?: string;
+  embedding_title_only?: boolean;
+}
+
+export interface LocalVersion extends RecordVersion {
+  user_id: string | null;
+}
+
+interface LocalState {
+  records: LocalRecord[];
+  categories: LocalCategory[];
+  // Absent in data files written before version history existed
+  versions?: LocalVersion[];
+  // Only in data files written before the audit log moved to its own file
+  audit_log?: AuditEntry[];
+}
+
+// Same predefined categories as the category_registry seed in schema.sql
+export const DEFAULT_CATEGORIES: Omit<LocalCategory, 'last_modified'>[] = [
+  {
+    category_name: 'basic_information',
+    display_name: 'Basic Information',
+    description: 'Personal details like name, email, phone, address',
+    trigger_words: ['personal info', 'contact details', 'basic info', 'profile', 'name', 'email', 'phone', 'address'],
+    query_hint: 'Query when user asks about their personal details, contact information, or profile data',
+    example_queries: ["What's my email address?", 'Show my contact information', 'What personal details do I have stored?'],
+    min_items_for_activation: 1
+  },
+  {
+    category_name: 'books',
+    display_name: 'Books & Reading',
+    description: 'Book collection, reading list, favorite books, book reviews',
+    trigger_words: ['books', 'reading', 'favorite books', "books I've read", 'book collection', 'library', 'reading list', 'literature', 'novels', 'authors'],
+    query_hint: 'Query when user mentions books, reading preferences, asks for book recommendations, or discusses literary interests',
+    example_queries: ['What books have I read?', 'Show my favorite books', "What's in my reading list?", 'Books by my favorite authors'],
+    min_items_for_activation: 1,
+    content_schema: {
+      type: 'object',
+      properties: {
+        author: { type: 'string' },
+        genre: { type: 'string' },
+        status: { type: 'string', enum: ['want_to_read', 'reading', 'finished', 'abandoned'] },
+        rating: { type: 'number', description: '1-5' }
+      }
+    }
+  },
+  {
+    category_name: 'favorite_authors',
+    display_name: 'Favorite Authors',
+    description: 'Authors you follow, enjoy, and want to track',
+    trigger_words: ['authors', 'writers', 'favorite authors', 'authors I like', 'novelists', 'poets', 'literary authors'],
+    query_hint: 'Query when user asks about authors they like, discusses writing styles, or wants author recommendations',
+    example_queries: ['Who are my favorite authors?', 'Show me authors I follow', 'What authors do I enjoy reading?'],
+    min_items_for_activation: 1
+  },
+  {
+    category_name: 'interests',
+    display_name: 'Interests & Hobbies',
+    description: 'Personal interests, hobbies, activities you enjoy',
+    trigger_words: ['interests', 'hobbies', 'likes', 'preferences', 'activities', 'favorite things', 'what I enjoy', 'passions'],
+    query_hint: 'Query when discussing personal preferences, hobby recommendations, or planning activities',
+    example_queries: ['What are my interests?', 'Show my hobbies', 'What do I like to do?', 'What are my preferences?'],
+    min_items_for_activation: 1
+  },
+  {
+    category_name: 'digital_products',
+    display_name: 'Digital Products & Tools',
+    description: 'Software, apps, services, and digital tools you use',
+    trigger_words: ['software', 'apps', 'tools', 'services', 'applications', 'programs', 'digital tools', 'subscriptions', 'platforms'],
+    query_hint: 'Query when discussing technology preferences, software recommendations, or digital tool usage',
+    example_queries: ['What software do I use?', 'Show my digital tools', 'What apps do I have?', 'My technology stack'],
+    min_items_for_activation: 1
+  },
+  {
+    category_name: 'contacts',
+    display_name: 'Contacts & Relationships',
+    description: 'Friends, family, colleagues, and professional contacts',
+    trigger_words: ['contacts', 'friends', 'family', 'colleagues', 'people', 'relationships', 'connections', 'network'],
+    query_hint: 'Query when user needs contact information, asks about relationships, or discusses people in their network',
+    example_queries: ['Show my contacts', 'Who do I know?', 'Find contact information', 'My professional network'],
+    min_items_for_activation: 1,
+    content_schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string', format: 'email' },
+        phone: { type: 'string' },
+        relationship: { type: 'string' },
+        company: { type: 'string' },
+        birthday: { type: 'string', format: 'date' }
+      }
+    }
+  },
+  {
+    category_name: 'documents',
+    display_name: 'Documents & Files',
+    description: 'Files, papers, records, notes, reports, written materials',
+    trigger_words: ['documents', 'files', 'papers', 'records', 'notes', 'reports', 'written materials', 'docs', 'pdfs'],
+    query_hint: 'Query when user mentions files, documents, papers, or written records they have',
+    example_queries: ['Show my documents', 'Find my files', 'What documents do I have?', 'My saved papers'],
+    min_items_for_activation: 1
+  },
+  {
+    category_name: 'preferences',
+    display_name: 'Preferences & Settings',
+    description: 'Personal preferences, settings, choices, configurations',
+    trigger_words: ['preferences', 'settings', 'choices', 'options', 'configurations', 'likes', 'dislikes', 'preferred'],
+    query_hint: 'Query when user asks about their preferences, settings, or personal choices',
+    example_queries: ['What are my preferences?', 'My settings', 'What do I prefer?', 'My choices'],
+    min_items_for_activation: 1
+  }
+];
+
+function initialState(): LocalState {
+  const now = new Date().toISOString();
+  return {
+    records: [],
+    versions: [],
+    categories: DEFAULT_CATEGORIES.map((cat) => ({ ...cat, last_modified: now }))
+  };
+}
+
+// Case-insensitive substring match, equivalent to ILIKE '%' || needle || '%'
+function ilike(haystack: string | null | undefined, needle: string): boolean {
+  return (haystack || '').toLowerCase().includes(needle.toLowerCase());
+}
+
+// Ties on updated_at are broken by id, so pages never overlap
+function byUpdatedAtDesc(a: LocalRecord, b: LocalRecord): number {
+  return b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id);
+}
+
+function sortsAfter(record: LocalRecord, after: PageKey | null | undefined): boolean {
+  if (!after) {
+    return true;
+  }
+  return record.updated_at < after.updated_at || (record.updated_at === after.updated_at && record.id < after.id);
+}
+
+// Records without a classification count as personal, as in the SQL functions
+function hasClassification(record: LocalRecord, classifications: string[] | null | undefined): boolean {
+  return !classifications || classifications.includes(record.classification || 'personal');
+}
+
+function toPublicRecord(record: LocalRecord): PersonalDataRecord {
+  const { deleted_at, embedding, embedding_model, embedding_title_only, ...rest } = record;
+  return { ...rest, content: structuredClone(rest.content), tags: [...rest.tags] };
+}
+
+function toDeletedRecord(record: LocalRecord): DeletedPersonalDataRecord {
+  return { ...toPublicRecord(record), deleted_at: record.deleted_at as string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function documentUrl(record: LocalRecord): string {
+  switch (record.category) {
+    case 'documents':
+      return `https://datadam.example.com/document/${record.id}`;
+    case 'contacts':
+      return `https://datadam.example.com/contact/${record.id}`;
+    case 'books':
+      return `https://datadam.example.com/book/${record.id}`;
+    default:
+      return `https://datadam.example.com/item/${record.id}`;
+  }
+}
+
+// Monotonic timestamps so records created in the same millisecond still sort
+// deterministically by updated_at
+let lastTimestamp = 0;
+function nextTimestamp(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
+
+// The audit log of a data file, e.g. ./data/datadam.audit.jsonl for ./data/datadam.json
+export function auditLogPath(filePath: string): string {
+  return `${filePath.replace(/\.json$/, '')}.audit.jsonl`;
+}
+
+// Resolves to undefined when the file does not exist yet
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Unable to read local data file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// A temporary file replaces the target, so a crash mid-write leaves the previous contents
+async function writeAtomically(path: string, contents: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, contents, 'utf8');
+  await rename(temporary, path);
+}
+
+// One entry per line; a line cut short by a crash is skipped
+function parseAuditLog(contents: string | undefined): AuditEntry[] {
+  return (contents || '').split('\n').flatMap((line) => {
+    try {
+      return line.trim() ? [JSON.parse(line) as AuditEntry] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export async function createLocalStore(filePath: string = IN_MEMORY_PATH): Promise<PersonalDataStore> {
+  const persistent = filePath !== IN_MEMORY_PATH;
+  const auditPath = auditLogPath(filePath);
+  let state = initialState();
+  let auditLog: AuditEntry[] = [];
+
+  if (persistent) {
+    const saved = await readOptional(filePath);
+    if (saved !== undefined) {
+      try {
+        state = JSON.parse(saved) as LocalState;
+      } catch (error) {
+        throw new Error(`Unable to read local data file ${filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const savedAudit = await readOptional(auditPath);
+    auditLog = parseAuditLog(savedAudit);
+    // Start on a fresh line after one cut short
+    if (savedAudit && !savedAudit.endsWith('\n')) {
+      await appendFile(auditPath, '\n', 'utf8');
+    }
+
+    // Older data files kept the audit log inline; move it out once
+    if (state.audit_log) {
+      const moved = new Set(auditLog.map((entry) => entry.id));
+      auditLog = [...state.audit_log.filter((entry) => !moved.has(entry.id)), ...auditLog];
+      await writeAtomically(auditPath, auditLog.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+      delete state.audit_log;
+      await writeAtomically(filePath, JSON.stringify(state, null, 2));
+    }
+  }
+
+  const versions = (state.versions ??= []);
+
+  // Data files written before content schemas existed pick up the defaults
+  for (const cat of state.categories) {
+    if (cat.content_schema === undefined) {
+      const defaults = DEFAULT_CATEGORIES.find((d) => d.category_name === cat.category_name);
+      cat.content_schema = defaults?.content_schema ?? null;
+    }
+  }
+
+  // Writes are queued so an older snapshot never replaces a newer one
+  let lastWrite: Promise<void> = Promise.resolve();
+
+  function persist(): Promise<void> {
+    if (!persistent) {
+      return Promise.resolve();
+    }
+    const contents = JSON.stringify(state, null, 2);
+    lastWrite = lastWrite.catch(() => {}).then(() => writeAtomically(filePath, contents));
+    return lastWrite;
+  }
+
+  function liveRecords(userId?: string | null): LocalRecord[] {
+    return state.records.filter((record) =>
+      record.deleted_at === null && ownedBy(record, userId)
+    );
+  }
+
+  function itemCount(categoryName: string): number {
+    return state.records.filter((record) =>
+      record.deleted_at === null && record.category === categoryName
+    ).length;
+  }
+
+  function toCategory(cat: LocalCategory): Category {
+    return {
+      category_name: cat.category_name,
+      display_name: cat.display_name,
+      description: cat.description,
+      item_count: itemCount(cat.category_name),
+      trigger_words: [...cat.trigger_words],
+      query_hint: cat.query_hint,
+      example_queries: [...cat.example_queries],
+      last_modified: cat.last_modified
+    };
+  }
+
+  function ownedBy(record: LocalRecord, userId?: string | null): boolean {
+    return !userId || record.user_id === userId;
+  }
+
+  function isActive(cat: LocalCategory): boolean {
+    return itemCount(cat.category_name) >= cat.min_items_for_activation;
+  }
+
+  function findCategory(name: string): LocalCategory | undefined {
+    return state.categories.find((cat) => cat.category_name === name);
+  }
+
+  // Moves records, deleted ones included, and saved versions between categories
+  function moveCategoryRecords(source: string, target: string): number {
+    const moved = state.records.filter((record) => record.category === source);
+    const now = nextTimestamp();
+    for (const record of moved) {
+      record.category = target;
+      record.updated_at = now;
+    }
+    for (const version of versions) {
+      if (version.category === source) {
+        version.category = target;
+      }
+    }
+    touchCategory(source);
+    touchCategory(target);
+    return moved.length;
+  }
+
+  function touchCategory(categoryName: string): void {
+    const cat = state.categories.find((c) => c.category_name === categoryName);
+    if (cat) {
+      cat.last_modified = nextTimestamp();
+    }
+  }
+
+  // Snapshots the record into the version history, then applies the updates
+  function applyUpdate(
+    record: LocalRecord,
+    updates: Record<string, any>,
+    conversationContext?: string | null
+  ): { data: boolean | null; error: { message: string } | null } {
+    if ('category' in updates && !state.categories.some((cat) => cat.category_name === updates.category)) {
+      return {
+        data: null,
+        error: { message: `insert or update on table "personal_data" violates foreign key constraint: unknown category "${updates.category}"` }
+      };
+    }
+
+    const previous = versions.filter((v) => v.record_id === record.id);
+    versions.push({
+      record_id: record.id,
+      user_id: record.user_id,
+      version: previous.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+      title: record.title,
+      content: structuredClone(record.content),
+      tags: [...record.tags],
+      category: record.category,
+      classification: record.classification,
+      conversation_context: conversationContext || null,
+      created_at: nextTimestamp()
+    });
+
+    if ('title' in updates) record.title = updates.title;
+    if ('content' in updates) record.content = structuredClone(updates.content);
+    if ('tags' in updates && updates.tags !== null) record.tags = [...updates.tags];
+    if ('classification' in updates) record.classification = updates.classification;
+    if ('category' in updates) {
+      touchCategory(record.category);
+      record.category = updates.category;
+      touchCategory(record.category);
+    }
+    record.updated_at = nextTimestamp();
+    return { data: true, error: null };
+  }
+
+  // Versions cascade with their record, as the foreign key does in Postgres
+  function dropVersions(removedIds: Set<string>): void {
+    const kept = versions.filter((v) => !removedIds.has(v.record_id));
+    versions.splice(0, versions.length, ...kept);
+  }
+
+  return {
+    async searchPersonalData({ searchText, userId, categories, tags, classification, limit, offset, after, classifications }) {
+      const results = liveRecords(userId)
+        .filter((record) =>
+          !searchText ||
+          ilike(record.title, searchText) ||
+          ilike(JSON.stringify(record.content), searchText)
+        )
+        .filter((record) => !categories || categories.includes(record.category))
+        .filter((record) => !tags || record.tags.some((tag) => tags.includes(tag)))
+        .filter((record) => !classification || record.classification === classification)
+        .filter((record) => hasClassification(record, classifications))
+        .filter((record) => sortsAfter(record, after))
+        .sort(byUpdatedAtDesc)
+        .slice(offset, offset + limit);
+
+      return { data: results.map(toPublicRecord), error: null };
+    },
+
+    async semanticSearchPersonalData({ embedding, model, userId, categories, tags, classification, limit, classifications }) {
+      const results = liveRecords(userId)
+        .filter((record) => record.embedding_model === model && record.embedding)
+        .filter((record) => !categories || categories.includes(record.category))
+        .filter((record) => !tags || record.tags.some((tag) => tags.includes(tag)))
+        .filter((record) => !classification || record.classification === classification)
+        .filter((record) => hasClassification(record, classifications))
+        .map((record) => ({ ...toPublicRecord(record), similarity: cosineSimilarity(record.embedding!, embedding) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+
+      return { data: results, error: null };
+    },
+
+    async saveEmbedding({ recordId, embedding, model, titleOnly }) {
+      const record = state.records.find((r) => r.id === recordId);
+      if (!record) {
+        return { data: false, error: null };
+      }
+      record.embedding = [...embedding];
+      record.embedding_model = model;
+      record.embedding_title_only = titleOnly ?? false;
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async listRecordsWithoutEmbedding({ model, limit }) {
+      const results = liveRecords()
+        .filter((record) =>
+          record.embedding_model !== model || (record.embedding_title_only ?? false) !== embedsTitleOnly(record.classification)
+        )
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .slice(0, limit);
+
+      return { data: results.map(toPublicRecord), error: null };
+    },
+
+    async extractPersonalData({ category, tags, userId, filters, limit, offset, after, classifications }) {
+      const results = liveRecords(userId)
+        .filter((record) => record.category === category)
+        .filter((record) => !tags || record.tags.some((tag) => tags.includes(tag)))
+        .filter((record) => matchesFilters(record, filters))
+        .filter((record) => hasClassification(record, classifications))
+        .filter((record) => sortsAfter(record, after))
+        .sort(compareRecords(filters))
+        .slice(offset, offset + limit);
+
+      return { data: results.map(toPublicRecord), error: null };
+    },
+
+    async createPersonalData({ category, title, content, tags, classification, userId }) {
+      if (!state.categories.some((cat) => cat.category_name === category)) {
+        return {
+          data: null,
+          error: { message: `insert or update on table "personal_data" violates foreign key constraint: unknown category "${category}"` }
+        };
+      }
+
+      const now = nextTimestamp();
+      const record: LocalRecord = {
+        id: randomUUID(),
+        user_id: userId || null,
+        title,
+        content: structuredClone(content),
+        tags: tags || [],
+        category,
+        classification: classification || 'personal',
+        created_at: now,
+        updated_at: now,
+        deleted_at: null
+      };
+
+      state.records.push(record);
+      touchCategory(category);
+      await persist();
+      return { data: record.id, error: null };
+    },
+
+    async updatePersonalData({ recordId, updates, conversationContext, userId }) {
+      const record = state.records.find((r) =>
+        r.id === recordId && r.deleted_at === null && ownedBy(r, userId)
+      );
+      if (!record) {
+        return { data: false, error: null };
+      }
+
+      const result = applyUpdate(record, updates, conversationContext);
+      if (result.error) {
+        return result;
+      }
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async getPersonalData({ recordIds, userId }) {
+      const results = liveRecords(userId).filter((record) => recordIds.includes(record.id));
+      return { data: results.map(toPublicRecord), error: null };
+    },
+
+    async getRecordHistory({ recordId, userId, limit }) {
+      if (!liveRecords(userId).some((record) => record.id === recordId)) {
+        return { data: [], error: null };
+      }
+
+      const history = versions
+        .filter((v) => v.record_id === recordId)
+        .sort((a, b) => b.version - a.version)
+        .slice(0, limit)
+        .map(({ user_id, ...version }) => structuredClone(version));
+
+      return { data: history, error: null };
+    },
+
+    async revertPersonalData({ recordId, version, conversationContext, userId }) {
+      const record = state.records.find((r) =>
+        r.id === recordId && r.deleted_at === null && ownedBy(r, userId)
+      );
+      const target = versions.find((v) => v.record_id === recordId && v.version === version);
+      if (!record || !target) {
+        return { data: false, error: null };
+      }
+
+      const result = applyUpdate(record, {
+        title: target.title,
+        content: target.content,
+        tags: target.tags,
+        category: target.category,
+        classification: target.classification
+      }, conversationContext || `Reverted to version ${version}`);
+      if (result.error) {
+        return result;
+      }
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async deletePersonalData({ recordIds, hardDelete, userId }) {
+      const affected: string[] = [];
+
+      for (const recordId of recordIds) {
+        const index = state.records.findIndex((r) =>
+          r.id === recordId && (hardDelete || r.deleted_at === null) && ownedBy(r, userId)
+        );
+        if (index === -1) {
+          continue;
+        }
+
+        if (hardDelete) {
+          const [removed] = state.records.splice(index, 1);
+          dropVersions(new Set([removed.id]));
+        } else {
+          state.records[index].deleted_at = nextTimestamp();
+        }
+        affected.push(recordId);
+      }
+
+      if (affected.length > 0) {
+        await persist();
+      }
+      return { data: affected, error: null };
+    },
+
+    async listDeletedPersonalData({ userId, categories, limit, offset, classifications }) {
+      const results = state.records
+        .filter((record) => record.deleted_at !== null && ownedBy(record, userId))
+        .filter((record) => !categories || categories.includes(record.category))
+        .filter((record) => hasClassification(record, classifications))
+        .sort((a, b) => (b.deleted_at as string).localeCompare(a.deleted_at as string))
+        .slice(offset, offset + limit);
+
+      return { data: results.map(toDeletedRecord), error: null };
+    },
+
+    async restorePersonalData({ recordIds, userId }) {
+      const affected: string[] = [];
+
+      for (const recordId of recordIds) {
+        const record = state.records.find((r) =>
+          r.id === recordId && r.deleted_at !== null && ownedBy(r, userId)
+        );
+        if (!record) {
+          continue;
+        }
+
+        record.deleted_at = null;
+        record.updated_at = nextTimestamp();
+        affected.push(recordId);
+      }
+
+      if (affected.length > 0) {
+        await persist();
+      }
+      return { data: affected, error: null };
+    },
+
+    async purgeDeletedPersonalData({ retentionDays, userId }) {
+      const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+      const expired = new Set(state.records
+        .filter((record) => record.deleted_at !== null && record.deleted_at < cutoff && ownedBy(record, userId))
+        .map((record) => record.id));
+
+      state.records = state.records.filter((record) => !expired.has(record.id));
+      dropVersions(expired);
+
+      const purged = expired.size;
+      if (purged > 0) {
+        await persist();
+      }
+      return { data: purged, error: null };
+    },
+
+    async exportPersonalData({ userId, includeDeleted }) {
+      const results: ExportedPersonalDataRecord[] = state.records
+        .filter((record) => ownedBy(record, userId) && (includeDeleted || record.deleted_at === null))
+        .sort((a, b) => a.category.localeCompare(b.category) || a.created_at.localeCompare(b.created_at))
+        .map((record) => ({ ...toPublicRecord(record), deleted_at: record.deleted_at }));
+
+      return { data: results, error: null };
+    },
+
+    async listRecordSummaries({ userId, limit, offset, classifications }) {
+      const results = liveRecords(userId)
+        .filter((record) => hasClassification(record, classifications))
+        .sort((a, b) => a.category.localeCompare(b.category) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+        .slice(offset, offset + limit)
+        .map(({ id, title, category, classification }) => ({ id, title, category, classification }));
+
+      return { data: results, error: null };
+    },
+
+    async listStoredContent({ limit, offset }) {
+      const rows: StoredContent[] = [...state.records]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .flatMap((record) => [
+          { record_id: record.id, version: null, classification: record.classification, content: record.content },
+          ...versions
+            .filter((v) => v.record_id === record.id)
+            .sort((a, b) => a.version - b.version)
+            .map((v) => ({ record_id: v.record_id, version: v.version, classification: v.classification, content: v.content }))
+        ]);
+
+      return { data: structuredClone(rows.slice(offset, offset + limit)), error: null };
+    },
+
+    async rewriteStoredContent({ recordId, version, content }) {
+      const target = version == null
+        ? state.records.find((r) => r.id === recordId)
+        : versions.find((v) => v.record_id === recordId && v.version === version);
+      if (!target) {
+        return { data: false, error: null };
+      }
+      target.content = structuredClone(content);
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async recordAuditEvent(event) {
+      const entry: AuditEntry = { ...structuredClone(event), id: randomUUID(), created_at: nextTimestamp() };
+      auditLog.push(entry);
+      if (persistent) {
+        await mkdir(dirname(auditPath), { recursive: true });
+        await appendFile(auditPath, `${JSON.stringify(entry)}\n`, 'utf8');
+      }
+      return { data: true, error: null };
+    },
+
+    async getAuditLog({ userId, principal, tool, recordId, classification, since, limit, offset }) {
+      const results = auditLog
+        .filter((entry) => !userId || entry.user_id === userId)
+        .filter((entry) => !principal || entry.principal === principal)
+        .filter((entry) => !tool || entry.tool === tool)
+        .filter((entry) => !recordId || entry.record_ids.includes(recordId))
+        .filter((entry) => !classification || entry.classifications.includes(classification))
+        .filter((entry) => !since || entry.created_at >= since)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(offset, offset + limit);
+
+      return { data: structuredClone(results), error: null };
+    },
+
+    async getActiveCategories() {
+      const active = state.categories
+        .filter((cat) => isActive(cat) && !cat.deactivated_at)
+        .map(toCategory)
+        .sort((a, b) => b.item_count - a.item_count || a.display_name.localeCompare(b.display_name));
+
+      return { data: active, error: null };
+    },
+
+    async getAllCategoryNames() {
+      const names = state.categories
+        .filter((cat) => !cat.deactivated_at)
+        .sort((a, b) => a.display_name.localeCompare(b.display_name))
+        .map((cat) => cat.category_name);
+
+      return { data: names, error: null };
+    },
+
+    async getCategorySchemas() {
+      const schemas: Record<string, ContentSchema> = {};
+      for (const cat of state.categories) {
+        if (cat.content_schema) {
+          schemas[cat.category_name] = structuredClone(cat.content_schema);
+        }
+      }
+      return { data: schemas, error: null };
+    },
+
+    async getCategoryStats() {
+      return {
+        data: {
+          total_categories: state.categories.length,
+          active_categories: state.categories.filter(isActive).length,
+          total_items: state.categories.reduce((sum, cat) => sum + itemCount(cat.category_name), 0)
+        },
+        error: null
+      };
+    },
+
+    async createCategory({ name, displayName, description, triggerWords, queryHint, exampleQueries }) {
+      if (findCategory(name)) {
+        return { data: false, error: null };
+      }
+      state.categories.push({
+        category_name: name,
+        display_name: displayName,
+        description: description || '',
+        trigger_words: triggerWords || [],
+        query_hint: queryHint || '',
+        example_queries: exampleQueries || [],
+        min_items_for_activation: 1,
+        content_schema: null,
+        deactivated_at: null,
+        last_modified: nextTimestamp()
+      });
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async updateCategory({ name, updates, newName }) {
+      const cat = findCategory(name);
+      if (!cat) {
+        return { data: false, error: null };
+      }
+      if (newName && newName !== name && findCategory(newName)) {
+        return { data: null, error: { message: `Category "${newName}" already exists` } };
+      }
+
+      if (updates.display_name !== undefined) cat.display_name = updates.display_name;
+      if (updates.description !== undefined) cat.description = updates.description;
+      if (updates.trigger_words !== undefined) cat.trigger_words = [...updates.trigger_words];
+      if (updates.query_hint !== undefined) cat.query_hint = updates.query_hint;
+      if (updates.example_queries !== undefined) cat.example_queries = [...updates.example_queries];
+      cat.last_modified = nextTimestamp();
+
+      if (newName && newName !== name) {
+        cat.category_name = newName;
+        moveCategoryRecords(name, newName);
+      }
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async setCategoryActive({ name, active }) {
+      const cat = findCategory(name);
+      if (!cat) {
+        return { data: false, error: null };
+      }
+      cat.deactivated_at = active ? null : (cat.deactivated_at || nextTimestamp());
+      cat.last_modified = nextTimestamp();
+      await persist();
+      return { data: true, error: null };
+    },
+
+    async mergeCategories({ source, target }) {
+      if (source === target) {
+        return { data: null, error: { message: `Cannot merge category "${source}" into itself` } };
+      }
+      const missing = [source, target].find((name) => !findCategory(name));
+      if (missing) {
+        return { data: null, error: { message: `Category not found: ${missing}` } };
+      }
+
+      const moved = moveCategoryRecords(source, target);
+      state.categories = state.categories.filter((cat) => cat.category_name !== source);
+      await persist();
+      return { data: moved, error: null };
+    },
+
+    async chatGptSearch({ query, userId, limit }) {
+      const lowered = query.toLowerCase();
+      const rank = (record: LocalRecord): number => {
+        if (record.category === lowered) return 1;
+        if (record.tags.includes(lowered)) return 2;
+        if (record.title.toLowerCase() === lowered) return 3;
+        return 4;
+      };
+
+      const results = liveRecords(userId)
+        .filter((record) =>
+          ilike(record.title, query) ||
+          ilike(record.category, query) ||
+          record.tags.some((tag) => ilike(tag, query))
+        )
+        .sort((a, b) => rank(a) - rank(b) || byUpdatedAtDesc(a, b))
+        .slice(0, limit)
+        .map((record) => ({ id: record.id, title: record.title, url: documentUrl(record) }));
+
+      return { data: results, error: null };
+    },
+
+    async chatGptFetch(documentId, userId) {
+      const record = state.records.find((r) =>
+        r.id === documentId && r.deleted_at === null && ownedBy(r, userId)
+      );
+      if (!record) {
+        return { data: [], error: null };
+      }
+
+      return {
+        data: [{
+          id: record.id,
+          title: record.title,
+          text: record.content !== null && record.content !== undefined
+            ? JSON.stringify(record.content)
+            : 'No content available',
+          url: documentUrl(record),
+          metadata: {
+            category: record.category || 'uncategorized',
+            classification: record.classification,
+            tags: record.tags || [],
+            user_id: record.user_id,
+            created_at: record.created_at,
+            updated_at: record.updated_at
+          }
+        }],
+        error: null
+      };
+    }
+  };
+}
@@ -0,0 +1,276 @@
+// Token-bucket rate limits on tool calls, per session, per API key and per tool
+//
+// Each limit is a bucket holding up to `capacity` tokens that refills at
+// capacity / period. A tool call takes one token from its session's bucket,
+// its API key's bucket and, when configured, its tool's bucket for that key;
+// permanent deletes also take one token per record from the key's hard delete
+// bucket. A call is only allowed when every bucket it needs has enough tokens,
+// so a refused call costs nothing. Buckets live in this process and are not
+// shared: with N instances behind a load balancer, a client may make up to N
+// times the configured rate.
+
+import { ANONYMOUS_PRINCIPAL, type SessionIdentity } from "../auth/identity.js";
+import type { ToolCallHook } from "./tool-calls.js";
+
+export const DEFAULT_SESSION_RATE_LIMIT = '120/minute';
+export const DEFAULT_API_KEY_RATE_LIMIT = '600/minute';
+export const DEFAULT_TOOL_RATE_LIMITS = 'datadam_delete_personal_data:30/minute';
+export const DEFAULT_HARD_DELETE_RATE_LIMIT = '20/hour';
+
+// Full buckets are forgotten once this many are held, since a full bucket is the same as a new one
+const MAX_BUCKETS = 10_000;
+
+const PERIODS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+const PERIOD_ALIASES: Record<string, string> = { s: 'second', sec: 'second', m: 'minute', min: 'minute', h: 'hour', d: 'day' };
+
+export interface RateLimit {
+  // Calls allowed in a burst, and per period on average
+  capacity: number;
+  periodMs: number;
+  // As configured, e.g. '60/minute'
+  label: string;
+}
+
+export interface RateLimitConfig {
+  session: RateLimit | null;
+  apiKey: RateLimit | null;
+  // Per API key, by tool name
+  tools: Record<string, RateLimit>;
+  // Records permanently deleted by datadam_delete_personal_data with hardDelete, per API key
+  hardDelete: RateLimit | null;
+}
+
+export type RateLimitScope = 'session' | 'api_key' | 'tool' | 'hard_delete';
+
+export interface ToolCall {
+  sessionKey: string;
+  principal: string;
+  tool: string;
+  arguments?: Record<string, unknown>;
+}
+
+export interface RateLimitRejection {
+  scope: RateLimitScope;
+  limit: RateLimit;
+  // null when the call can never fit, e.g. more records than the hard delete limit allows at once
+  retryAfterMs: number | null;
+}
+
+export interface RateLimiter {
+  readonly config: RateLimitConfig;
+  // Takes the call's tokens and returns null, or returns why it must wait and takes nothing
+  take(call: ToolCall): RateLimitRejection | null;
+}
+
+/**
+ * Parses 'N/period' (period: second, minute, hour or day, also s, min, h, d),
+ * e.g. '60/minute'. '0' and 'off' turn the limit off.
+ */
+export function parseRateLimit(value: string, name: string): RateLimit | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === '0' || trimmed === 'off') {
+    return null;
+  }
+
+  const match = /^(\d+)\s*\/\s*([a-z]+)$/.exec(trimmed);
+  const unit = match ? match[2] : '';
+  const period = [unit, unit.replace(/s$/, '')].find((name) => PERIODS[name]) || PERIOD_ALIASES[unit];
+  const capacity = match ? Number(match[1]) : 0;
+  if (!period || capacity < 1) {
+    throw new Error(`Invalid ${name} "${value}". Expected "N/period", e.g. 60/minute, or 0 to turn it off.`);
+  }
+  return { capacity, periodMs: PERIODS[period], label: `${capacity}/${period}` };
+}
+
+// Parses comma-separated tool:N/period entries
+export function parseToolRateLimits(value: string, name = 'DATADAM_TOOL_RATE_LIMITS'): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {};
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid ${name} entry "${entry}". Expected "tool:N/period", e.g. datadam_search_personal_data:30/minute.`);
+    }
+    const limit = parseRateLimit(entry.slice(separator + 1), `${name} entry`);
+    if (limit) {
+      limits[entry.slice(0, separator).trim()] = limit;
+    }
+  }
+  return limits;
+}
+
+function envValue(name: string, fallback: string): string {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : value;
+}
+
+/**
+ * Reads DATADAM_SESSION_RATE_LIMIT, DATADAM_API_KEY_RATE_LIMIT,
+ * DATADAM_TOOL_RATE_LIMITS and DATADAM_HARD_DELETE_RATE_LIMIT. Tool limits
+ * given in the environment replace the defaults for those tools only.
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    session: parseRateLimit(envValue('DATADAM_SESSION_RATE_LIMIT', DEFAULT_SESSION_RATE_LIMIT), 'DATADAM_SESSION_RATE_LIMIT'),
+    apiKey: parseRateLimit(envValue('DATADAM_API_KEY_RATE_LIMIT', DEFAULT_API_KEY_RATE_LIMIT), 'DATADAM_API_KEY_RATE_LIMIT'),
+    tools: {
+      ...parseToolRateLimits(DEFAULT_TOOL_RATE_LIMITS),
+      ...parseToolRateLimits(process.env.DATADAM_TOOL_RATE_LIMITS || '')
+    },
+    hardDelete: parseRateLimit(envValue('DATADAM_HARD_DELETE_RATE_LIMIT', DEFAULT_HARD_DELETE_RATE_LIMIT), 'DATADAM_HARD_DELETE_RATE_LIMIT')
+  };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketRequest {
+  key: string;
+  scope: RateLimitScope;
+  limit: RateLimit;
+  cost: number;
+}
+
+export function createRateLimiter(config: RateLimitConfig, options: { now?: () => number } = {}): RateLimiter {
+  const now = options.now || Date.now;
+  const buckets = new Map<string, Bucket>();
+
+  // Tokens the bucket holds at `at`, refilled since it was last used
+  const level = (request: BucketRequest, at: number): number => {
+    const bucket = buckets.get(request.key);
+    if (!bucket) {
+      return request.limit.capacity;
+    }
+    const refilled = ((at - bucket.updatedAt) / request.limit.periodMs) * request.limit.capacity;
+    return Math.min(request.limit.capacity, bucket.tokens + refilled);
+  };
+
+  const forgetFullBuckets = (at: number) => {
+    for (const [key, bucket] of buckets) {
+      // No limit has a period longer than a day, so any bucket unused for a day is full
+      if (at - bucket.updatedAt >= PERIODS.day) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  const requestsFor = (call: ToolCall): BucketRequest[] => {
+    const requests: BucketRequest[] = [];
+    if (config.session) {
+      requests.push({ key: `session:${call.sessionKey}`, scope: 'session', limit: config.session, cost: 1 });
+    }
+    if (config.apiKey) {
+      requests.push({ key: `key:${call.principal}`, scope: 'api_key', limit: config.apiKey, cost: 1 });
+    }
+    const toolLimit = config.tools[call.tool];
+    if (toolLimit) {
+      requests.push({ key: `tool:${call.principal}:${call.tool}`, scope: 'tool', limit: toolLimit, cost: 1 });
+    }
+    const recordIds = call.arguments?.recordIds;
+    if (config.hardDelete && call.tool === 'datadam_delete_personal_data' && call.arguments?.hardDelete === true && Array.isArray(recordIds)) {
+      requests.push({ key: `hard_delete:${call.principal}`, scope: 'hard_delete', limit: config.hardDelete, cost: recordIds.length });
+    }
+    return requests;
+  };
+
+  return {
+    config,
+
+    take(call) {
+      const at = now();
+      const requests = requestsFor(call);
+
+      // The longest wait among the buckets that are short, so a retry after it succeeds
+      let rejection: RateLimitRejection | null = null;
+      for (const request of requests) {
+        const tokens = level(request, at);
+        if (tokens >= request.cost) {
+          continue;
+        }
+        const retryAfterMs = request.cost > request.limit.capacity
+          ? null
+          : Math.ceil(((request.cost - tokens) / request.limit.capacity) * request.limit.periodMs);
+        if (!rejection || retryAfterMs === null || (rejection.retryAfterMs !== null && retryAfterMs > rejection.retryAfterMs)) {
+          rejection = { scope: request.scope, limit: request.limit, retryAfterMs };
+        }
+      }
+      if (rejection) {
+        return rejection;
+      }
+
+      for (const request of requests) {
+        buckets.set(request.key, { tokens: level(request, at) - request.cost, updatedAt: at });
+      }
+      if (buckets.size > MAX_BUCKETS) {
+        forgetFullBuckets(at);
+      }
+      return null;
+    }
+  };
+}
+
+let defaultLimiter: RateLimiter | undefined;
+
+// The limiter shared by every server in this process, configured from the environment on first use
+export function getDefaultRateLimiter(): RateLimiter {
+  if (!defaultLimiter) {
+    defaultLimiter = createRateLimiter(getRateLimitConfig());
+  }
+  return defaultLimiter;
+}
+
+const SCOPE_NAMES: Record<RateLimitScope, string> = {
+  session: 'tool calls per session',
+  api_key: 'tool calls per API key',
+  tool: 'calls to this tool per API key',
+  hard_delete: 'permanently deleted records per API key'
+};
+
+// Whole seconds to wait before retrying, or null when the call can never be allowed
+export function retryAfterSeconds(rejection: RateLimitRejection): number | null {
+  return rejection.retryAfterMs === null ? null : Math.max(1, Math.ceil(rejection.retryAfterMs / 1000));
+}
+
+// Tells the model whether and when it may retry
+export function rateLimitMessage(tool: string, rejection: RateLimitRejection): string {
+  const { scope, limit } = rejection;
+  const [count, period] = limit.label.split('/');
+  const allowed = `Rate limit exceeded for ${tool}: at most ${count} ${SCOPE_NAMES[scope]} per ${period}.`;
+  const retryAfter = retryAfterSeconds(rejection);
+  if (retryAfter === null) {
+    return `${allowed} This call is too large to ever be allowed; do not retry it, split it into smaller calls.`;
+  }
+  return `${allowed} Do not retry immediately. Retry after ${retryAfter} seconds.`;
+}
+
+/**
+ * Hook that refuses tool calls over the limits before the tool runs, with a
+ * tool error saying when to retry. The wait is also given to clients in the
+ * result's _meta as retry_after_seconds, null when the call can never be
+ * allowed. Calls without a session ID, over stdio or in stateless mode, share
+ * one session bucket per API key.
+ */
+export function rateLimitToolCalls(limiter: RateLimiter, identity?: SessionIdentity): ToolCallHook {
+  const principal = identity?.principal ?? ANONYMOUS_PRINCIPAL;
+  // Session IDs are UUIDs, so this cannot collide with one
+  const principalKey = `principal:${principal}`;
+
+  return async ({ tool, args, extra }, next) => {
+    const rejection = limiter.take({ sessionKey: extra.sessionId ?? principalKey, principal, tool, arguments: args });
+    if (rejection) {
+      return {
+        content: [{ type: "text", text: rateLimitMessage(tool, rejection) }],
+        isError: true,
+        _meta: { retry_after_seconds: retryAfterSeconds(rejection), rate_limit_scope: rejection.scope }
+      };
+    }
+    return next();
+  };
+}
@@ -0,0 +1,109 @@
+// In-process notifications of record changes, for resource subscriptions
+
+import type { PersonalDataStore } from "./store.js";
+
+export interface RecordsChangedEvent {
+  // Owner of the records; null when the server is not scoped to users
+  userId: string | null;
+  recordIds: string[];
+  // Categories the records were in before and after the change
+  categories: string[];
+}
+
+export type RecordsListener = (event: RecordsChangedEvent) => void;
+
+const recordsListeners = new Set<RecordsListener>();
+
+/**
+ * Registers a callback fired after any session creates, updates, deletes,
+ * restores or reverts records. Returns a function that removes the listener.
+ */
+export function onRecordsChanged(listener: RecordsListener): () => void {
+  recordsListeners.add(listener);
+  return () => {
+    recordsListeners.delete(listener);
+  };
+}
+
+function emit(event: RecordsChangedEvent): void {
+  if (event.recordIds.length === 0) {
+    return;
+  }
+  for (const listener of recordsListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Records change listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Wraps a store so successful writes are announced through onRecordsChanged().
+ * Finding the categories a write touched costs an extra read, so it is only
+ * done while some session is listening.
+ */
+export function createChangeNotifyingStore(store: PersonalDataStore, userId: string | null = null): PersonalDataStore {
+  async function categoriesOf(recordIds: string[]): Promise<string[]> {
+    if (recordsListeners.size === 0 || recordIds.length === 0) {
+      return [];
+    }
+    const { data: records } = await store.getPersonalData({ recordIds });
+    return (records || []).map((record) => record.category);
+  }
+
+  function changed(recordIds: string[], ...categories: (string | null | undefined)[][]): void {
+    emit({
+      userId,
+      recordIds,
+      categories: [...new Set(categories.flat().filter((c): c is string => Boolean(c)))]
+    });
+  }
+
+  return {
+    ...store,
+
+    async createPersonalData(params) {
+      const result = await store.createPersonalData(params);
+      if (result.data) {
+        changed([result.data], [params.category]);
+      }
+      return result;
+    },
+
+    async updatePersonalData(params) {
+      const before = await categoriesOf([params.recordId]);
+      const result = await store.updatePersonalData(params);
+      if (result.data) {
+        changed([params.recordId], before, [params.updates.category]);
+      }
+      return result;
+    },
+
+    async deletePersonalData(params) {
+      const before = await categoriesOf(params.recordIds);
+      const result = await store.deletePersonalData(params);
+      if (result.data?.length) {
+        changed(result.data, before);
+      }
+      return result;
+    },
+
+    async restorePersonalData(params) {
+      const result = await store.restorePersonalData(params);
+      if (result.data?.length) {
+        changed(result.data, await categoriesOf(result.data));
+      }
+      return result;
+    },
+
+    async revertPersonalData(params) {
+      const before = await categoriesOf([params.recordId]);
+      const result = await store.revertPersonalData(params);
+      if (result.data) {
+        changed([params.recordId], before, await categoriesOf([params.recordId]));
+      }
+      return result;
+    }
+  };
+}
@@ -0,0 +1,65 @@
+// Retention policy for soft-deleted records
+
+import type { PersonalDataStore } from "./store.js";
+
+export const DEFAULT_DELETED_RETENTION_DAYS = 30;
+
+// How often expired records are purged while the server runs
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Days a soft-deleted record stays restorable, from DATADAM_DELETED_RETENTION_DAYS.
+ * 0 keeps deleted records forever.
+ */
+export function getDeletedRetentionDays(): number {
+  const value = process.env.DATADAM_DELETED_RETENTION_DAYS;
+  if (value === undefined || value === '') {
+    return DEFAULT_DELETED_RETENTION_DAYS;
+  }
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid DATADAM_DELETED_RETENTION_DAYS "${value}". Expected a whole number of days (0 disables purging).`);
+  }
+  return days;
+}
+
+// Date after which a record deleted at `deletedAt` will be purged, or null when purging is disabled
+export function purgeDate(deletedAt: string, retentionDays: number): string | null {
+  if (retentionDays <= 0) {
+    return null;
+  }
+  return new Date(Date.parse(deletedAt) + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function purgeExpiredRecords(store: PersonalDataStore, retentionDays: number): Promise<number> {
+  const { data: purged, error } = await store.purgeDeletedPersonalData({ retentionDays });
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (purged) {
+    console.log(`🗑️  Purged ${purged} record(s) deleted more than ${retentionDays} day(s) ago`);
+  }
+  return purged || 0;
+}
+
+/**
+ * Purges expired records now and then periodically. Returns a function that
+ * stops the timer; does nothing when retention is disabled.
+ */
+export function startRetentionPurge(store: PersonalDataStore, retentionDays: number): () => void {
+  if (retentionDays <= 0) {
+    return () => {};
+  }
+
+  const run = () => {
+    purgeExpiredRecords(store, retentionDays).catch((error) => {
+      console.error("Failed to purge deleted records:", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
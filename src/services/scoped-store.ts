@@ -0,0 +1,50 @@
+// Per-user scoping for the personal data store
+
+import type { PersonalDataStore, StoreResult } from "./store.js";
+
+// Maintenance operations that read or rewrite records across all users by id.
+// They run on the unscoped store at startup or from the migration command, so a
+// user's session has no use for them and must not reach other users' rows through them.
+async function crossUserOperation<T>(): Promise<StoreResult<T>> {
+  return { data: null, error: { message: 'Not available in a user-scoped session: this operation spans all users' } };
+}
+
+/**
+ * Wraps a store so every record operation is restricted to one user. The
+ * session's user id always overrides whatever the caller passed, so a model
+ * cannot read or modify another user's records by supplying a different id.
+ * Audit events are attributed to the user as well.
+ *
+ * The category methods pass through unchanged: the category registry is shared
+ * by all users (only admin keys get the tools that change it), and
+ * getCategoryStats() only feeds the startup log.
+ */
+export function createUserScopedStore(store: PersonalDataStore, userId: string): PersonalDataStore {
+  return {
+    ...store,
+    searchPersonalData: (params) => store.searchPersonalData({ ...params, userId }),
+    semanticSearchPersonalData: (params) => store.semanticSearchPersonalData({ ...params, userId }),
+    extractPersonalData: (params) => store.extractPersonalData({ ...params, userId }),
+    createPersonalData: (params) => store.createPersonalData({ ...params, userId }),
+    updatePersonalData: (params) => store.updatePersonalData({ ...params, userId }),
+    deletePersonalData: (params) => store.deletePersonalData({ ...params, userId }),
+    getPersonalData: (params) => store.getPersonalData({ ...params, userId }),
+    getRecordHistory: (params) => store.getRecordHistory({ ...params, userId }),
+    revertPersonalData: (params) => store.revertPersonalData({ ...params, userId }),
+    listDeletedPersonalData: (params) => store.listDeletedPersonalData({ ...params, userId }),
+    restorePersonalData: (params) => store.restorePersonalData({ ...params, userId }),
+    purgeDeletedPersonalData: (params) => store.purgeDeletedPersonalData({ ...params, userId }),
+    exportPersonalData: (params) => store.exportPersonalData({ ...params, userId }),
+    listRecordSummaries: (params) => store.listRecordSummaries({ ...params, userId }),
+    recordAuditEvent: (event) => store.recordAuditEvent({ ...event, user_id: userId }),
+    getAuditLog: (params) => store.getAuditLog({ ...params, userId }),
+    chatGptSearch: (params) => store.chatGptSearch({ ...params, userId }),
+    chatGptFetch: (documentId) => store.chatGptFetch(documentId, userId),
+
+    // Embeddings are written by the embedding store, which sits below this one
+    saveEmbedding: () => crossUserOperation(),
+    listRecordsWithoutEmbedding: () => crossUserOperation(),
+    listStoredContent: () => crossUserOperation(),
+    rewriteStoredContent: () => crossUserOperation()
+  };
+}
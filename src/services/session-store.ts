@@ -0,0 +1,148 @@
+// Where session metadata lives: in process, or in Postgres shared by every instance
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClientFromEnv } from "./supabase.js";
+import { getStorageBackend } from "./database.js";
+
+export type SessionStoreKind = 'memory' | 'postgres';
+
+export interface SessionRecord {
+  id: string;
+  // MCP endpoint the session was opened on, e.g. '/mcp'
+  endpoint: string;
+  // Principal that opened the session; later requests must come from the same principal
+  principal: string;
+  user_id: string | null;
+  created_at: string;
+  last_activity_at: string;
+  // When the session's confidential unlock ends; null while locked
+  unlocked_until: string | null;
+}
+
+export type NewSessionRecord = Pick<SessionRecord, 'id' | 'endpoint' | 'principal' | 'user_id'>;
+
+/**
+ * Session metadata, which every instance must agree on: a session opened on
+ * one instance is looked up here when a request for it reaches another.
+ * Methods throw when the backing store fails.
+ */
+export interface SessionStore {
+  readonly kind: SessionStoreKind;
+  save(session: NewSessionRecord, at: string): Promise<void>;
+  // Marks activity and returns the session, or null when it was closed or expired
+  touch(id: string, at: string): Promise<SessionRecord | null>;
+  setUnlockedUntil(id: string, until: string | null): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Removes sessions without activity since `before` and returns their ids
+  deleteIdle(before: string): Promise<string[]>;
+  // Oldest first
+  list(): Promise<SessionRecord[]>;
+}
+
+// Sessions of this process only; the default for single-instance deployments
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, SessionRecord>();
+
+  return {
+    kind: 'memory',
+
+    async save(session, at) {
+      sessions.set(session.id, { ...session, created_at: at, last_activity_at: at, unlocked_until: null });
+    },
+
+    async touch(id, at) {
+      const session = sessions.get(id);
+      if (!session) {
+        return null;
+      }
+      if (at > session.last_activity_at) {
+        session.last_activity_at = at;
+      }
+      return { ...session };
+    },
+
+    async setUnlockedUntil(id, until) {
+      const session = sessions.get(id);
+      if (session) {
+        session.unlocked_until = until;
+      }
+    },
+
+    async delete(id) {
+      sessions.delete(id);
+    },
+
+    async deleteIdle(before) {
+      const idle = [...sessions.values()].filter((session) => session.last_activity_at < before).map((session) => session.id);
+      idle.forEach((id) => sessions.delete(id));
+      return idle;
+    },
+
+    async list() {
+      return [...sessions.values()]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((session) => ({ ...session }));
+    }
+  };
+}
+
+// Sessions in the mcp_sessions table, for running several instances behind a load balancer
+export function createPostgresSessionStore(supabase: SupabaseClient): SessionStore {
+  const call = async <T>(fn: string, args: Record<string, unknown> = {}): Promise<T> => {
+    const { data, error } = await supabase.rpc(fn, args);
+    if (error) {
+      throw new Error(`Session store error (${fn}): ${error.message}`);
+    }
+    return data as T;
+  };
+
+  return {
+    kind: 'postgres',
+
+    async save(session, at) {
+      await call('save_mcp_session', {
+        p_id: session.id,
+        p_endpoint: session.endpoint,
+        p_principal: session.principal,
+        p_user_id: session.user_id,
+        p_at: at
+      });
+    },
+
+    async touch(id, at) {
+      const rows = await call<SessionRecord[] | null>('touch_mcp_session', { p_id: id, p_at: at });
+      return rows?.[0] ?? null;
+    },
+
+    async setUnlockedUntil(id, until) {
+      await call('set_mcp_session_unlock', { p_id: id, p_unlocked_until: until });
+    },
+
+    async delete(id) {
+      await call('delete_mcp_session', { p_id: id });
+    },
+
+    async deleteIdle(before) {
+      return (await call<string[] | null>('delete_idle_mcp_sessions', { p_before: before })) || [];
+    },
+
+    async list() {
+      return (await call<SessionRecord[] | null>('list_mcp_sessions')) || [];
+    }
+  };
+}
+
+// Reads DATADAM_SESSION_STORE: 'memory' (default) or 'postgres', which needs the Supabase backend
+export function createSessionStoreFromEnv(): SessionStore {
+  const kind = (process.env.DATADAM_SESSION_STORE || 'memory').toLowerCase();
+  if (kind === 'memory') {
+    return createMemorySessionStore();
+  }
+  if (kind !== 'postgres') {
+    throw new Error(`Unknown DATADAM_SESSION_STORE "${kind}". Expected "memory" or "postgres".`);
+  }
+  if (getStorageBackend() !== 'supabase') {
+    throw new Error('DATADAM_SESSION_STORE=postgres keeps sessions in Supabase and needs DATADAM_STORAGE=supabase.');
+  }
+  return createPostgresSessionStore(createSupabaseClientFromEnv());
+}
@@ -0,0 +1,233 @@
+// Open Streamable HTTP sessions with idle expiry and a session cap
+//
+// Session metadata lives in a SessionStore, shared by every instance when it
+// is backed by Postgres. The transport and MCP server of a session live in the
+// instance serving it; an instance that receives a request for a session it
+// does not hold adopts it with a new transport (see routes/mcp.ts).
+
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AccessPolicy } from "./access-policy.js";
+import { createMemorySessionStore, type NewSessionRecord, type SessionRecord, type SessionStore } from "./session-store.js";
+
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+// How often idle sessions are looked for while the server runs
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// A session this instance holds a transport for
+export interface LocalSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  accessPolicy: AccessPolicy;
+  lastActivityAt: number;
+  // Requests still being answered; a session with any is never idle. Open SSE streams don't count,
+  // since clients keep one open for the whole session
+  openRequests: number;
+}
+
+export interface SessionSummary {
+  session_id: string;
+  endpoint: string;
+  principal: string;
+  created_at: string;
+  last_activity_at: string;
+  idle_seconds: number;
+  // Whether this instance holds the session's transport
+  local: boolean;
+}
+
+export interface SessionLimits {
+  // Sessions without a request for this long are closed; 0 keeps them until the client closes them
+  idleTimeoutMs: number;
+  // This instance refuses new sessions while it holds this many; 0 means no limit
+  maxSessions: number;
+}
+
+export interface SessionManagerOptions {
+  // Defaults to sessions of this process only
+  store?: SessionStore;
+  now?: () => number;
+}
+
+export interface SessionManager {
+  readonly limits: SessionLimits;
+  readonly store: SessionStore;
+  // Sessions this instance holds a transport for
+  readonly size: number;
+  local(id: string): LocalSession | undefined;
+  // Records a new session and holds its transport
+  open(session: NewSessionRecord, local: Pick<LocalSession, 'transport' | 'accessPolicy'>): Promise<void>;
+  // Holds the transport of a session opened elsewhere
+  adopt(id: string, local: Pick<LocalSession, 'transport' | 'accessPolicy'>): void;
+  // Marks activity and returns the session, or null when it was closed or expired
+  resume(id: string): Promise<SessionRecord | null>;
+  // Drops this instance's transport; the session stays open for other instances
+  release(id: string): void;
+  // Closes the session for good, when the client ends it
+  end(id: string): Promise<void>;
+  // Marks a request as open until `closed` emits 'close'
+  track(id: string, closed: { once(event: 'close', listener: () => void): unknown }): void;
+  // Whether another session may be opened here, after closing idle ones
+  hasCapacity(): Promise<boolean>;
+  closeIdle(): Promise<number>;
+  list(): Promise<SessionSummary[]>;
+  // Closes idle sessions periodically; returns a function that stops the timer
+  startIdleSweep(): () => void;
+}
+
+function readCount(name: string, fallback: number, unit: string): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name} "${value}". Expected a whole number of ${unit} (0 disables the limit).`);
+  }
+  return count;
+}
+
+// Reads DATADAM_SESSION_IDLE_MINUTES and DATADAM_MAX_SESSIONS
+export function getSessionLimits(): SessionLimits {
+  return {
+    idleTimeoutMs: readCount('DATADAM_SESSION_IDLE_MINUTES', DEFAULT_SESSION_IDLE_MINUTES, 'minutes') * 60 * 1000,
+    maxSessions: readCount('DATADAM_MAX_SESSIONS', DEFAULT_MAX_SESSIONS, 'sessions')
+  };
+}
+
+export function createSessionManager(limits: SessionLimits, options: SessionManagerOptions = {}): SessionManager {
+  const { store = createMemorySessionStore(), now = Date.now } = options;
+  const sessions = new Map<string, LocalSession>();
+  const timestamp = () => new Date(now()).toISOString();
+
+  const hold = (id: string, { transport, accessPolicy }: Pick<LocalSession, 'transport' | 'accessPolicy'>) => {
+    sessions.set(id, { id, transport, accessPolicy, lastActivityAt: now(), openRequests: 0 });
+  };
+
+  const close = async (session: LocalSession) => {
+    sessions.delete(session.id);
+    // Ends the session's streams; the transport's onclose handler releases the server
+    await session.transport.close().catch((error) => {
+      console.error(`Failed to close session ${session.id}:`, error);
+    });
+  };
+
+  const manager: SessionManager = {
+    limits,
+    store,
+
+    get size() {
+      return sessions.size;
+    },
+
+    local(id) {
+      return sessions.get(id);
+    },
+
+    async open(session, local) {
+      await store.save(session, timestamp());
+      hold(session.id, local);
+    },
+
+    adopt(id, local) {
+      hold(id, local);
+    },
+
+    async resume(id) {
+      const record = await store.touch(id, timestamp());
+      const session = sessions.get(id);
+      if (!record) {
+        // Expired or closed by another instance
+        if (session) {
+          await close(session);
+        }
+        return null;
+      }
+      if (session) {
+        session.lastActivityAt = now();
+        session.accessPolicy.setUnlockedUntil(record.unlocked_until ? new Date(record.unlocked_until) : null);
+      }
+      return record;
+    },
+
+    release(id) {
+      sessions.delete(id);
+    },
+
+    async end(id) {
+      sessions.delete(id);
+      await store.delete(id);
+    },
+
+    track(id, closed) {
+      const session = sessions.get(id);
+      if (!session) {
+        return;
+      }
+      session.openRequests++;
+      session.lastActivityAt = now();
+      closed.once('close', () => {
+        session.openRequests--;
+        session.lastActivityAt = now();
+      });
+    },
+
+    async hasCapacity() {
+      if (limits.maxSessions === 0 || sessions.size < limits.maxSessions) {
+        return true;
+      }
+      await manager.closeIdle();
+      return sessions.size < limits.maxSessions;
+    },
+
+    async closeIdle() {
+      if (limits.idleTimeoutMs <= 0) {
+        return 0;
+      }
+
+      const expired = new Set(await store.deleteIdle(new Date(now() - limits.idleTimeoutMs).toISOString()));
+      // A session idle here may still be in use through another instance; its transport is
+      // closed all the same and the session adopted again on its next request here
+      const idle = [...sessions.values()].filter((session) =>
+        session.openRequests === 0 &&
+        (expired.has(session.id) || now() - session.lastActivityAt >= limits.idleTimeoutMs)
+      );
+      for (const session of idle) {
+        console.log(`Session idle for ${Math.round((now() - session.lastActivityAt) / 60000)} minute(s), closing: ${session.id}`);
+        await close(session);
+      }
+      return new Set([...expired, ...idle.map((session) => session.id)]).size;
+    },
+
+    async list() {
+      const time = now();
+      return (await store.list()).map((record) => ({
+        session_id: record.id,
+        endpoint: record.endpoint,
+        principal: record.principal,
+        created_at: new Date(record.created_at).toISOString(),
+        last_activity_at: new Date(record.last_activity_at).toISOString(),
+        idle_seconds: Math.max(0, Math.floor((time - Date.parse(record.last_activity_at)) / 1000)),
+        local: sessions.has(record.id)
+      }));
+    },
+
+    startIdleSweep() {
+      if (limits.idleTimeoutMs <= 0) {
+        return () => {};
+      }
+
+      const timer = setInterval(() => {
+        manager.closeIdle().catch((error) => {
+          console.error("Failed to close idle sessions:", error);
+        });
+      }, Math.min(SWEEP_INTERVAL_MS, limits.idleTimeoutMs));
+      timer.unref();
+      return () => clearInterval(timer);
+    }
+  };
+
+  return manager;
+}
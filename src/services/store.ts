@@ -0,0 +1,296 @@
+// Storage abstraction for personal data
+//
+// Tools depend on this interface rather than on a concrete database client so
+// that DataDam can run against Supabase in production and against a local,
+// file-backed store on laptops and in CI.
+
+import type {
+  PersonalDataRecord,
+  Category,
+  CategoryStats,
+  ChatGptSearchResult,
+  ChatGptDocument,
+  DeletedPersonalDataRecord,
+  ExportedPersonalDataRecord,
+  RecordSummary,
+  StoredContent,
+  AuditEvent,
+  AuditEntry,
+  RecordVersion,
+  ScoredPersonalDataRecord,
+  ContentSchema,
+  RecordFilters
+} from "../types.js";
+
+export interface StoreError {
+  message: string;
+}
+
+// Mirrors the { data, error } shape returned by Supabase so tools can surface
+// database errors without try/catch around every call
+export interface StoreResult<T> {
+  data: T | null;
+  error: StoreError | null;
+}
+
+// Sort key of the last record on a page. Search and extract results are
+// ordered by updated_at, then id, both descending.
+export interface PageKey {
+  updated_at: string;
+  id: string;
+}
+
+export interface SearchParams {
+  searchText: string;
+  userId?: string | null;
+  categories?: string[] | null;
+  tags?: string[] | null;
+  classification?: string | null;
+  limit: number;
+  offset: number;
+  // When set, only records sorting after this key are returned
+  after?: PageKey | null;
+  // When set, only records with one of these classifications are returned
+  classifications?: string[] | null;
+}
+
+export interface SemanticSearchParams {
+  embedding: number[];
+  // Only records embedded by the same model are comparable
+  model: string;
+  userId?: string | null;
+  categories?: string[] | null;
+  tags?: string[] | null;
+  classification?: string | null;
+  limit: number;
+  // When set, only records with one of these classifications are returned
+  classifications?: string[] | null;
+}
+
+export interface SaveEmbeddingParams {
+  recordId: string;
+  embedding: number[];
+  model: string;
+  // The vector was made from the record's title alone, see embeddingText()
+  titleOnly?: boolean;
+}
+
+export interface MissingEmbeddingParams {
+  model: string;
+  limit: number;
+}
+
+export interface ExtractParams {
+  category: string;
+  tags?: string[] | null;
+  userId?: string | null;
+  filters?: RecordFilters | null;
+  limit: number;
+  offset: number;
+  // When set, only records sorting after this key are returned
+  after?: PageKey | null;
+  // When set, only records with one of these classifications are returned
+  classifications?: string[] | null;
+}
+
+export interface CreateParams {
+  category: string;
+  title: string;
+  content: Record<string, any>;
+  tags?: string[];
+  classification?: string;
+  userId?: string | null;
+}
+
+export interface UpdateParams {
+  recordId: string;
+  updates: Record<string, any>;
+  conversationContext?: string | null;
+  // When set, only records owned by this user are updated
+  userId?: string | null;
+}
+
+export interface DeleteParams {
+  recordIds: string[];
+  hardDelete: boolean;
+  // When set, only records owned by this user are deleted
+  userId?: string | null;
+}
+
+export interface GetParams {
+  recordIds: string[];
+  userId?: string | null;
+}
+
+export interface HistoryParams {
+  recordId: string;
+  userId?: string | null;
+  limit: number;
+}
+
+export interface RevertParams {
+  recordId: string;
+  version: number;
+  conversationContext?: string | null;
+  // When set, only records owned by this user are reverted
+  userId?: string | null;
+}
+
+export interface ListDeletedParams {
+  userId?: string | null;
+  categories?: string[] | null;
+  limit: number;
+  offset: number;
+  // When set, only records with one of these classifications are returned
+  classifications?: string[] | null;
+}
+
+export interface RestoreParams {
+  recordIds: string[];
+  // When set, only records owned by this user are restored
+  userId?: string | null;
+}
+
+export interface PurgeParams {
+  // Records soft-deleted longer ago than this are removed permanently
+  retentionDays: number;
+  userId?: string | null;
+}
+
+export interface ExportParams {
+  userId?: string | null;
+  includeDeleted: boolean;
+}
+
+export interface ListSummariesParams {
+  userId?: string | null;
+  limit: number;
+  offset: number;
+  // When set, only records with one of these classifications are returned
+  classifications?: string[] | null;
+}
+
+export interface ListStoredContentParams {
+  limit: number;
+  offset: number;
+}
+
+export interface RewriteContentParams {
+  recordId: string;
+  // Rewrites a saved version instead of the record itself
+  version?: number | null;
+  content: Record<string, any>;
+}
+
+export interface AuditLogParams {
+  userId?: string | null;
+  principal?: string | null;
+  tool?: string | null;
+  recordId?: string | null;
+  classification?: string | null;
+  // ISO timestamp; only entries at or after it
+  since?: string | null;
+  limit: number;
+  offset: number;
+}
+
+export interface CreateCategoryParams {
+  // snake_case identifier stored on records, e.g. "recipes"
+  name: string;
+  displayName: string;
+  description?: string | null;
+  triggerWords?: string[];
+  queryHint?: string | null;
+  exampleQueries?: string[];
+}
+
+// Registry fields a category update may change; absent keys are left as they are
+export interface CategoryUpdates {
+  display_name?: string;
+  description?: string;
+  trigger_words?: string[];
+  query_hint?: string;
+  example_queries?: string[];
+}
+
+export interface UpdateCategoryParams {
+  name: string;
+  updates: CategoryUpdates;
+  // Renames the category, moving its records and saved versions along
+  newName?: string | null;
+}
+
+export interface SetCategoryActiveParams {
+  name: string;
+  active: boolean;
+}
+
+export interface MergeCategoriesParams {
+  source: string;
+  target: string;
+}
+
+export interface ChatGptSearchParams {
+  query: string;
+  userId?: string | null;
+  limit: number;
+}
+
+export interface PersonalDataStore {
+  searchPersonalData(params: SearchParams): Promise<StoreResult<PersonalDataRecord[]>>;
+  // Most similar first
+  semanticSearchPersonalData(params: SemanticSearchParams): Promise<StoreResult<ScoredPersonalDataRecord[]>>;
+  saveEmbedding(params: SaveEmbeddingParams): Promise<StoreResult<boolean>>;
+  // Live records across all users with no embedding from the given model, or
+  // with one made from content their classification now keeps out of it
+  listRecordsWithoutEmbedding(params: MissingEmbeddingParams): Promise<StoreResult<PersonalDataRecord[]>>;
+  extractPersonalData(params: ExtractParams): Promise<StoreResult<PersonalDataRecord[]>>;
+  // Resolves to the id of the new record
+  createPersonalData(params: CreateParams): Promise<StoreResult<string>>;
+  // Resolves to false when the record does not exist or is deleted
+  updatePersonalData(params: UpdateParams): Promise<StoreResult<boolean>>;
+  // Resolves to the ids of the records deleted
+  deletePersonalData(params: DeleteParams): Promise<StoreResult<string[]>>;
+  // Live records with the given ids, in no particular order
+  getPersonalData(params: GetParams): Promise<StoreResult<PersonalDataRecord[]>>;
+  // Saved versions of a live record, newest first
+  getRecordHistory(params: HistoryParams): Promise<StoreResult<RecordVersion[]>>;
+  // Resolves to false when the record or version does not exist. The revert is
+  // itself recorded as a new version.
+  revertPersonalData(params: RevertParams): Promise<StoreResult<boolean>>;
+  // Soft-deleted records, most recently deleted first
+  listDeletedPersonalData(params: ListDeletedParams): Promise<StoreResult<DeletedPersonalDataRecord[]>>;
+  // Resolves to the ids of the records restored
+  restorePersonalData(params: RestoreParams): Promise<StoreResult<string[]>>;
+  // Resolves to the number of records permanently removed
+  purgeDeletedPersonalData(params: PurgeParams): Promise<StoreResult<number>>;
+  // Every record, ordered by category then creation time; no pagination
+  exportPersonalData(params: ExportParams): Promise<StoreResult<ExportedPersonalDataRecord[]>>;
+  // Live records without their content, in export order, a page at a time
+  listRecordSummaries(params: ListSummariesParams): Promise<StoreResult<RecordSummary[]>>;
+  // Content of every record and saved version across all users, deleted ones
+  // included, for re-encryption; ordered by record id, record before versions
+  listStoredContent(params: ListStoredContentParams): Promise<StoreResult<StoredContent[]>>;
+  // Replaces stored content as-is, without creating a new version
+  rewriteStoredContent(params: RewriteContentParams): Promise<StoreResult<boolean>>;
+  recordAuditEvent(event: AuditEvent): Promise<StoreResult<boolean>>;
+  // Newest first
+  getAuditLog(params: AuditLogParams): Promise<StoreResult<AuditEntry[]>>;
+  getActiveCategories(): Promise<StoreResult<Category[]>>;
+  getAllCategoryNames(): Promise<StoreResult<string[]>>;
+  // Content schemas keyed by category name; categories without one are omitted
+  getCategorySchemas(): Promise<StoreResult<Record<string, ContentSchema>>>;
+  getCategoryStats(): Promise<StoreResult<CategoryStats>>;
+  // Categories are shared by all users. Resolves to false when the name is taken.
+  createCategory(params: CreateCategoryParams): Promise<StoreResult<boolean>>;
+  // Resolves to false when the category does not exist
+  updateCategory(params: UpdateCategoryParams): Promise<StoreResult<boolean>>;
+  // Deactivated categories are left out of both category lists but keep their
+  // records. Resolves to false when the category does not exist.
+  setCategoryActive(params: SetCategoryActiveParams): Promise<StoreResult<boolean>>;
+  // Moves every record of source, deleted ones included, into target and
+  // removes source. Resolves to the number of records moved.
+  mergeCategories(params: MergeCategoriesParams): Promise<StoreResult<number>>;
+  chatGptSearch(params: ChatGptSearchParams): Promise<StoreResult<ChatGptSearchResult[]>>;
+  chatGptFetch(documentId: string, userId?: string | null): Promise<StoreResult<ChatGptDocument[]>>;
+}
@@ -1,73 +1,307 @@
-// Supabase client and database operations
+// Supabase implementation of the personal data store
 
 import { createClient } from "@supabase/supabase-js";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Category } from "../types.js";
-
-export let supabase: SupabaseClient;
-export let availableCategories: string[] = [];
-export let allCategories: string[] = [];
-
-export async function fetchAvailableCategories(): Promise<string[]> {
-  try {
-    const { data: categories, error } = await supabase.rpc('get_active_categories');
-    if (error) {
-      console.error("Error fetching categories:", error);
-      return [];
-    }
-    return categories?.map((cat: Category) => cat.category_name) || [];
-  } catch (error) {
-    console.error("Failed to fetch categories:", error);
-    return [];
+import type { PersonalDataStore, StoreResult } from "./store.js";
+import type { ContentSchema } from "../types.js";
+
+function toResult<T>(response: { data: any; error: { message: string } | null }): StoreResult<T> {
+  if (response.error) {
+    return { data: null, error: { message: response.error.message } };
   }
+  return { data: response.data as T, error: null };
 }
 
-export async function fetchAllCategories(): Promise<string[]> {
-  try {
-    const { data: categories, error } = await supabase
-      .from('category_registry')
-      .select('category_name')
-      .order('display_name');
+export function createSupabaseClientFromEnv(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-    if (error) {
-      console.error("Error fetching all categories:", error);
-      return [];
-    }
-    return categories?.map((cat: { category_name: string }) => cat.category_name) || [];
-  } catch (error) {
-    console.error("Failed to fetch all categories:", error);
-    return [];
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase configuration. Please check your .env file.");
   }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
 }
 
-export async function initializeDatabase(): Promise<void> {
-  try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+export function createSupabaseStore(supabase: SupabaseClient): PersonalDataStore {
+  return {
+    async searchPersonalData({ searchText, userId, categories, tags, classification, limit, offset, after, classifications }) {
+      return toResult(await supabase.rpc('search_personal_data', {
+        p_user_id: userId || null,
+        p_search_text: searchText,
+        p_categories: categories || null,
+        p_tags: tags || null,
+        p_classification: classification || null,
+        p_limit: limit,
+        p_offset: offset,
+        p_after_updated_at: after?.updated_at || null,
+        p_after_id: after?.id || null,
+        p_classifications: classifications || null
+      }));
+    },
 
-    if (!supabaseUrl || !supabaseServiceKey) {
-      throw new Error("Missing Supabase configuration. Please check your .env file.");
-    }
+    async semanticSearchPersonalData({ embedding, model, userId, categories, tags, classification, limit, classifications }) {
+      return toResult(await supabase.rpc('search_personal_data_semantic', {
+        p_embedding: JSON.stringify(embedding),
+        p_model: model,
+        p_user_id: userId || null,
+        p_categories: categories || null,
+        p_tags: tags || null,
+        p_classification: classification || null,
+        p_limit: limit,
+        p_classifications: classifications || null
+      }));
+    },
 
-    supabase = createClient(supabaseUrl, supabaseServiceKey);
+    async saveEmbedding({ recordId, embedding, model, titleOnly }) {
+      return toResult(await supabase.rpc('set_personal_data_embedding', {
+        p_record_id: recordId,
+        p_embedding: JSON.stringify(embedding),
+        p_model: model,
+        p_title_only: titleOnly ?? false
+      }));
+    },
 
-    // Fetch initial categories
-    availableCategories = await fetchAvailableCategories();
-    allCategories = await fetchAllCategories();
-    console.log("Available categories (active):", availableCategories);
-    console.log("All categories (registry):", allCategories);
+    async listRecordsWithoutEmbedding({ model, limit }) {
+      return toResult(await supabase.rpc('list_personal_data_without_embedding', {
+        p_model: model,
+        p_limit: limit
+      }));
+    },
 
-    // Test the connection by fetching category stats
-    const { data, error } = await supabase.rpc('get_category_stats');
+    async extractPersonalData({ category, tags, userId, filters, limit, offset, after, classifications }) {
+      return toResult(await supabase.rpc('extract_personal_data', {
+        p_category: category,
+        p_tags: tags || null,
+        p_user_id: userId || null,
+        p_filters: filters || null,
+        p_limit: limit,
+        p_offset: offset,
+        p_after_updated_at: after?.updated_at || null,
+        p_after_id: after?.id || null,
+        p_classifications: classifications || null
+      }));
+    },
 
-    if (error) {
-      throw error;
-    }
+    async createPersonalData({ category, title, content, tags, classification, userId }) {
+      return toResult(await supabase.rpc('create_personal_data', {
+        p_user_id: userId || null,
+        p_category: category,
+        p_title: title,
+        p_content: content,
+        p_tags: tags || [],
+        p_classification: classification || 'personal'
+      }));
+    },
 
-    console.log(`✅ Connected to Supabase successfully`);
-    console.log(`Database stats:`, data?.[0] || 'No data');
-  } catch (error) {
-    console.error("❌ Error connecting to database:", error);
-    throw error;
-  }
+    async updatePersonalData({ recordId, updates, conversationContext, userId }) {
+      return toResult(await supabase.rpc('update_personal_data', {
+        p_record_id: recordId,
+        p_updates: updates,
+        p_conversation_context: conversationContext || null,
+        p_user_id: userId || null
+      }));
+    },
+
+    async deletePersonalData({ recordIds, hardDelete, userId }) {
+      return toResult(await supabase.rpc('delete_personal_data', {
+        p_record_ids: recordIds,
+        p_hard_delete: hardDelete,
+        p_user_id: userId || null
+      }));
+    },
+
+    async getPersonalData({ recordIds, userId }) {
+      return toResult(await supabase.rpc('get_personal_data', {
+        p_record_ids: recordIds,
+        p_user_id: userId || null
+      }));
+    },
+
+    async getRecordHistory({ recordId, userId, limit }) {
+      return toResult(await supabase.rpc('get_record_history', {
+        p_record_id: recordId,
+        p_user_id: userId || null,
+        p_limit: limit
+      }));
+    },
+
+    async revertPersonalData({ recordId, version, conversationContext, userId }) {
+      return toResult(await supabase.rpc('revert_personal_data', {
+        p_record_id: recordId,
+        p_version: version,
+        p_conversation_context: conversationContext || null,
+        p_user_id: userId || null
+      }));
+    },
+
+    async listDeletedPersonalData({ userId, categories, limit, offset, classifications }) {
+      return toResult(await supabase.rpc('list_deleted_personal_data', {
+        p_user_id: userId || null,
+        p_categories: categories || null,
+        p_limit: limit,
+        p_offset: offset,
+        p_classifications: classifications || null
+      }));
+    },
+
+    async restorePersonalData({ recordIds, userId }) {
+      return toResult(await supabase.rpc('restore_personal_data', {
+        p_record_ids: recordIds,
+        p_user_id: userId || null
+      }));
+    },
+
+    async purgeDeletedPersonalData({ retentionDays, userId }) {
+      return toResult(await supabase.rpc('purge_deleted_personal_data', {
+        p_retention_days: retentionDays,
+        p_user_id: userId || null
+      }));
+    },
+
+    async exportPersonalData({ userId, includeDeleted }) {
+      return toResult(await supabase.rpc('export_personal_data', {
+        p_user_id: userId || null,
+        p_include_deleted: includeDeleted
+      }));
+    },
+
+    async listRecordSummaries({ userId, limit, offset, classifications }) {
+      return toResult(await supabase.rpc('list_personal_data_summaries', {
+        p_user_id: userId || null,
+        p_limit: limit,
+        p_offset: offset,
+        p_classifications: classifications || null
+      }));
+    },
+
+    async listStoredContent({ limit, offset }) {
+      return toResult(await supabase.rpc('list_stored_content', {
+        p_limit: limit,
+        p_offset: offset
+      }));
+    },
+
+    async rewriteStoredContent({ recordId, version, content }) {
+      return toResult(await supabase.rpc('rewrite_stored_content', {
+        p_record_id: recordId,
+        p_version: version ?? null,
+        p_content: content
+      }));
+    },
+
+    async recordAuditEvent(event) {
+      return toResult(await supabase.rpc('record_audit_event', {
+        p_session_id: event.session_id,
+        p_user_id: event.user_id,
+        p_principal: event.principal,
+        p_endpoint: event.endpoint,
+        p_tool: event.tool,
+        p_record_ids: event.record_ids,
+        p_classifications: event.classifications,
+        p_outcome: event.outcome,
+        p_error: event.error,
+        p_duration_ms: event.duration_ms
+      }));
+    },
+
+    async getAuditLog({ userId, principal, tool, recordId, classification, since, limit, offset }) {
+      return toResult(await supabase.rpc('get_audit_log', {
+        p_user_id: userId || null,
+        p_principal: principal || null,
+        p_tool: tool || null,
+        p_record_id: recordId || null,
+        p_classification: classification || null,
+        p_since: since || null,
+        p_limit: limit,
+        p_offset: offset
+      }));
+    },
+
+    async getActiveCategories() {
+      return toResult(await supabase.rpc('get_active_categories'));
+    },
+
+    async getAllCategoryNames() {
+      const result = toResult<{ category_name: string }[]>(await supabase
+        .from('category_registry')
+        .select('category_name')
+        .is('deactivated_at', null)
+        .order('display_name'));
+
+      if (result.error) {
+        return { data: null, error: result.error };
+      }
+      return { data: (result.data || []).map((cat) => cat.category_name), error: null };
+    },
+
+    async getCategorySchemas() {
+      const result = toResult<{ category_name: string; content_schema: ContentSchema }[]>(
+        await supabase.rpc('get_category_schemas')
+      );
+      if (result.error) {
+        return { data: null, error: result.error };
+      }
+      return {
+        data: Object.fromEntries((result.data || []).map((row) => [row.category_name, row.content_schema])),
+        error: null
+      };
+    },
+
+    async getCategoryStats() {
+      const result = toResult<any[]>(await supabase.rpc('get_category_stats'));
+      if (result.error) {
+        return { data: null, error: result.error };
+      }
+      return { data: result.data?.[0] || null, error: null };
+    },
+
+    async createCategory({ name, displayName, description, triggerWords, queryHint, exampleQueries }) {
+      return toResult(await supabase.rpc('create_category', {
+        p_category_name: name,
+        p_display_name: displayName,
+        p_description: description || null,
+        p_trigger_words: triggerWords || [],
+        p_query_hint: queryHint || null,
+        p_example_queries: exampleQueries || []
+      }));
+    },
+
+    async updateCategory({ name, updates, newName }) {
+      return toResult(await supabase.rpc('update_category', {
+        p_category_name: name,
+        p_updates: updates,
+        p_new_name: newName || null
+      }));
+    },
+
+    async setCategoryActive({ name, active }) {
+      return toResult(await supabase.rpc('set_category_active', {
+        p_category_name: name,
+        p_active: active
+      }));
+    },
+
+    async mergeCategories({ source, target }) {
+      return toResult(await supabase.rpc('merge_categories', {
+        p_source: source,
+        p_target: target
+      }));
+    },
+
+    async chatGptSearch({ query, userId, limit }) {
+      return toResult(await supabase.rpc('chatgpt_search_data', {
+        p_query: query,
+        p_user_id: userId || null,
+        p_limit: limit
+      }));
+    },
+
+    async chatGptFetch(documentId, userId) {
+      return toResult(await supabase.rpc('chatgpt_fetch_data', {
+        p_document_id: documentId,
+        p_user_id: userId || null
+      }));
+    }
+  };
 }
@@ -0,0 +1,68 @@
+// Tool registration with hooks around every tool call
+//
+// Tools register through registerTool() rather than McpServer.registerTool(),
+// so the hooks installed on their server with useToolCallHooks(), such as
+// rate limits and audit events, run around each call. Hooks run in the order
+// they were installed, each deciding whether the rest of the chain and the
+// tool run at all.
+
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { z, ZodRawShape, ZodTypeAny } from "zod";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ToolInvocation {
+  tool: string;
+  // Validated against the tool's input schema
+  args: Record<string, unknown>;
+  extra: ToolExtra;
+}
+
+// Calls next() to go on with the call, or returns a result of its own instead
+export type ToolCallHook = (call: ToolInvocation, next: () => Promise<CallToolResult>) => Promise<CallToolResult>;
+
+// The config parameter of McpServer.registerTool(); every DataDam tool declares its input
+export interface ToolConfig<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape> {
+  title?: string;
+  description?: string;
+  inputSchema: InputArgs;
+  outputSchema?: OutputArgs;
+  annotations?: ToolAnnotations;
+  _meta?: Record<string, unknown>;
+}
+
+export type ToolHandler<InputArgs extends ZodRawShape> = (
+  args: z.objectOutputType<InputArgs, ZodTypeAny>,
+  extra: ToolExtra
+) => CallToolResult | Promise<CallToolResult>;
+
+const serverHooks = new WeakMap<McpServer, ToolCallHook[]>();
+
+/**
+ * Adds hooks around every call to the server's tools, after those already
+ * installed. Hooks are looked up per call, so tools registered before this
+ * are covered too.
+ */
+export function useToolCallHooks(server: McpServer, ...hooks: ToolCallHook[]): void {
+  serverHooks.set(server, [...(serverHooks.get(server) || []), ...hooks]);
+}
+
+export function registerTool<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>(
+  server: McpServer,
+  name: string,
+  config: ToolConfig<InputArgs, OutputArgs>,
+  handler: ToolHandler<InputArgs>
+): RegisteredTool {
+  const callback: ToolHandler<InputArgs> = (args, extra) => {
+    const hooks = serverHooks.get(server) || [];
+    const call: ToolInvocation = { tool: name, args, extra };
+    const run = async (index: number): Promise<CallToolResult> => index < hooks.length
+      ? hooks[index](call, () => run(index + 1))
+      : handler(args, extra);
+    return run(0);
+  };
+  // ToolCallback is conditional on the input schema; with one it is exactly a ToolHandler
+  return server.registerTool(name, config, callback as ToolCallback<InputArgs>);
+}
@@ -0,0 +1,30 @@
+// Stdio transport for desktop clients that launch the server as a local process
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createMcpServer } from "./server.js";
+import { resolveIdentity, type SessionIdentity } from "./auth/identity.js";
+
+// Principal stdio sessions are audited under; DATADAM_CLIENT_MAX_CLASSIFICATION can lower its ceiling
+export const STDIO_PRINCIPAL = 'stdio';
+
+// stdout carries the protocol, so log lines written with console.log or console.info go to stderr
+export function redirectConsoleToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Serves the full MCP server, with the same tools, resources and prompts as
+ * /mcp, to the client on stdin/stdout. The process is the session: there is
+ * no API key, and records are scoped to DATABASE_USER_ID when it is set.
+ */
+export async function startStdioServer(): Promise<void> {
+  const identity: SessionIdentity = { ...resolveIdentity(), principal: STDIO_PRINCIPAL };
+  const server = createMcpServer({ identity });
+  const transport = new StdioServerTransport();
+  transport.onclose = () => {
+    console.log("Stdio client disconnected");
+  };
+  await server.connect(transport);
+  console.log("🚀 MCP Personal Data Server running on stdio");
+}
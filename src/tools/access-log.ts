@@ -0,0 +1,138 @@
+// Get Access Log tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import type { AuditEntry } from "../types.js";
+import { formatErrorMessage, formatTimestamp } from "../utils/formatting.js";
+import { AccessLogInputSchema, AccessLogOutputSchema } from "../schemas/index.js";
+
+export function formatAccessLogMarkdown(entries: AuditEntry[]): string {
+  let output = `# Access Log\n\nShowing ${entries.length} tool call(s), newest first\n\n`;
+
+  for (const entry of entries) {
+    output += `- **${formatTimestamp(entry.created_at)}** \`${entry.tool}\` by **${entry.principal}** (${entry.endpoint})`;
+    output += entry.outcome === 'success' ? ' ✓' : ` ✗ ${entry.error ? entry.error.split('\n')[0] : 'failed'}`;
+    if (entry.record_ids.length > 0) {
+      output += ` - ${entry.record_ids.length} record(s)`;
+    }
+    if (entry.classifications.length > 0) {
+      output += `, ${entry.classifications.join(', ')}`;
+    }
+    output += '\n';
+  }
+
+  return output;
+}
+
+export function registerAccessLogTool(server: McpServer, store: PersonalDataStore): void {
+  registerTool(
+    server,
+    "datadam_get_access_log",
+    {
+      title: "Get Data Access Log",
+      description: `Show the audit trail of tool calls against the user's personal data, along with resource reads, prompts and HTTP exports and imports: when each tool was called, by which client, which records it touched, the classification levels of the data it returned or changed, and whether it succeeded. Use to answer questions about who or what accessed the user's data.
+
+TRIGGER KEYWORDS: "who accessed my data", "when was my passport read", "access log", "audit log", "what did the assistant look at", "has anything read my confidential data"
+
+WORKFLOW:
+1. User asks about access to their data
+2. Narrow with classification (e.g. 'confidential'), recordId, tool or since
+3. Summarise the matching calls (don't show record UUIDs)
+
+Args:
+  - since (string, optional): ISO 8601 time; only entries at or after it
+  - tool (string, optional): Only calls of this tool, resource, prompt or route. Examples: 'datadam_search_personal_data', 'data-records', 'GET /export'
+  - recordId (string, optional): Only calls that touched this record
+  - classification (string, optional): 'public', 'personal', 'sensitive' or 'confidential'
+  - limit (number, optional): Max entries. Range: 1-100, Default: 20
+  - offset (number, optional): Pagination offset. Default: 0
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - Newest first
+  - For JSON format: {count, results: [{created_at, tool, principal, endpoint, session_id, record_ids, classifications, outcome, error, duration_ms}], has_more, next_offset}
+  - For Markdown format: One line per call with time, tool, client, outcome, record count and classifications
+
+Examples:
+  1. Confidential reads: { classification: "confidential" }
+  2. One record: { recordId: "<UUID>" }
+  3. Since yesterday: { since: "2025-06-01T00:00:00Z" }
+
+Error Handling:
+  - Nothing logged: Returns "No matching access log entries"
+  - Database errors: Returns error message with troubleshooting guidance`,
+      inputSchema: AccessLogInputSchema,
+      outputSchema: AccessLogOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ since, tool, recordId, classification, limit = 20, offset = 0, response_format = 'markdown' }) => {
+      try {
+        const { data: entries, error } = await store.getAuditLog({ since, tool, recordId, classification, limit, offset });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and ensure the audit log migration has been applied.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!entries || entries.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                "No matching access log entries",
+                "Widen the filters or remove 'since'.",
+                response_format
+              )
+            }],
+            structuredContent: { count: 0, results: [], has_more: false, next_offset: offset }
+          };
+        }
+
+        const page = {
+          count: entries.length,
+          results: entries,
+          has_more: entries.length === limit,
+          next_offset: offset + entries.length
+        };
+        const text = response_format === 'json'
+          ? JSON.stringify(page, null, 2)
+          : formatAccessLogMarkdown(entries);
+
+        return {
+          content: [{
+            type: "text",
+            text
+          }],
+          structuredContent: page
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error reading access log: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
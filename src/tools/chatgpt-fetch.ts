@@ -1,25 +1,26 @@
 // ChatGPT Fetch tool
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { ChatGptFetchInputSchema } from "../schemas/index.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { ChatGptFetchInputSchema, ChatGptFetchOutputSchema } from "../schemas/index.js";
 
 export function registerChatGptFetchTool(
   server: McpServer,
-  supabase: SupabaseClient
+  store: PersonalDataStore
 ): void {
-  server.registerTool(
+  registerTool(
+    server,
     "fetch",
     {
       title: "Fetch Document by ID",
       description: "Retrieve complete document content by ID including full text, metadata, and all associated information.",
-      inputSchema: ChatGptFetchInputSchema
+      inputSchema: ChatGptFetchInputSchema,
+      outputSchema: ChatGptFetchOutputSchema
     },
     async ({ id }) => {
       try {
-        const { data: results, error } = await supabase.rpc('chatgpt_fetch_data', {
-          p_document_id: id
-        });
+        const { data: results, error } = await store.chatGptFetch(id);
 
         if (error) {
           return {
@@ -28,7 +29,8 @@ export function registerChatGptFetchTool(
               text: JSON.stringify({
                 error: `Database error: ${error.message}`
               })
-            }]
+            }],
+            isError: true
           };
         }
 
@@ -39,7 +41,8 @@ export function registerChatGptFetchTool(
               text: JSON.stringify({
                 error: `Document not found: ${id}`
               })
-            }]
+            }],
+            isError: true
           };
         }
 
@@ -58,7 +61,8 @@ export function registerChatGptFetchTool(
           content: [{
             type: "text",
             text: JSON.stringify(formattedResult)
-          }]
+          }],
+          structuredContent: formattedResult
         };
       } catch (error) {
         return {
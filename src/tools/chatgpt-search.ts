@@ -1,14 +1,16 @@
 // ChatGPT Search tool
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { ChatGptSearchInputSchema } from "../schemas/index.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { ChatGptSearchInputSchema, ChatGptSearchOutputSchema } from "../schemas/index.js";
 
 export function registerChatGptSearchTool(
   server: McpServer,
-  supabase: SupabaseClient
+  store: PersonalDataStore
 ): void {
-  server.registerTool(
+  registerTool(
+    server,
     "search",
     {
       title: "Search Personal Data",
@@ -25,14 +27,14 @@ ALLOWED CATEGORY FILTERS (fixed set):
 - favorite_authors: Writers, novelists, poets, literary authors
 
 SEARCH STRATEGY: If specific items return no results, try broader category terms. Consider which category would contain the requested information type.`,
-      inputSchema: ChatGptSearchInputSchema
+      inputSchema: ChatGptSearchInputSchema,
+      outputSchema: ChatGptSearchOutputSchema
     },
     async ({ query }) => {
       try {
-        const { data: results, error } = await supabase.rpc('chatgpt_search_data', {
-          p_query: query,
-          p_user_id: null, // Search across all users for ChatGPT
-          p_limit: 10
+        const { data: results, error } = await store.chatGptSearch({
+          query,
+          limit: 10
         });
 
         if (error) {
@@ -42,7 +44,8 @@ SEARCH STRATEGY: If specific items return no results, try broader category terms
               text: JSON.stringify({
                 error: `Database error: ${error.message}`
               })
-            }]
+            }],
+            isError: true
           };
         }
 
@@ -53,25 +56,29 @@ SEARCH STRATEGY: If specific items return no results, try broader category terms
               text: JSON.stringify({
                 results: []
               })
-            }]
+            }],
+            structuredContent: { results: [] }
           };
         }
 
         // Format results according to ChatGPT specification
-        const formattedResults = results.map((item: any) => ({
+        const formattedResults = results.map((item) => ({
           id: item.id,
           title: item.title,
           url: item.url
         }));
 
+        const response = {
+          results: formattedResults,
+          search_info: "Searched in: title, tags, and categories (not content)"
+        };
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              results: formattedResults,
-              search_info: "Searched in: title, tags, and categories (not content)"
-            })
-          }]
+            text: JSON.stringify(response)
+          }],
+          structuredContent: response
         };
       } catch (error) {
         return {
@@ -0,0 +1,131 @@
+// Create Category tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { CreateCategoryInputSchema, CreateCategoryOutputSchema } from "../schemas/index.js";
+
+export function registerCreateCategoryTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_create_category",
+    {
+      title: "Create Category",
+      description: `Add a new category that records can be stored in, when the user's information fits none of the existing categories (e.g. recipes, health, travel). The category becomes available to datadam_create_personal_data immediately and shows up in search and extract once it holds a record. Categories are shared by every user of this server.
+
+TRIGGER KEYWORDS: "add a category", "create a [X] category", "I want to track my [X]", "start keeping [X]", or information that fits no available category
+
+WORKFLOW:
+1. Check the available categories first; prefer an existing one that fits
+2. Agree the new category with the user if it's not obvious
+3. Create it with trigger words and example queries so assistants know when to use it
+4. Store the user's information with datadam_create_personal_data
+
+Args:
+  - name (string, required): Identifier stored on records, lowercase snake_case and plural. Examples: 'recipes', 'health_records'
+  - displayName (string, required): Human-readable name. Example: 'Recipes & Cooking'
+  - description (string, optional): What the category holds
+  - triggerWords (string[], optional): Words that should lead an assistant to the category. Example: ['recipe', 'cook']
+  - queryHint (string, optional): When an assistant should query it
+  - exampleQueries (string[], optional): Sample requests it answers
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "created", category, message}
+  - For Markdown format: "✓ Created category **{displayName}** ({name})"
+
+Examples:
+  1. Recipes: { name: "recipes", displayName: "Recipes & Cooking", triggerWords: ["recipe", "cook", "dinner"], exampleQueries: ["What should I cook tonight?"] }
+  2. Health: { name: "health_records", displayName: "Health", description: "Allergies, medications and appointments" }
+
+Error Handling:
+  - Name already taken: Returns error; use datadam_update_category to change an existing category, or reactivate it with datadam_deactivate_category
+  - Invalid name: Request is rejected during schema validation (lowercase snake_case only)
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: CreateCategoryInputSchema,
+      outputSchema: CreateCategoryOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async ({ name, displayName, description, triggerWords, queryHint, exampleQueries, response_format = 'markdown' }) => {
+      try {
+        const { data: created, error } = await store.createCategory({
+          name,
+          displayName,
+          description: description || null,
+          triggerWords: triggerWords || [],
+          queryHint: queryHint || null,
+          exampleQueries: exampleQueries || []
+        });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and ensure the storage backend is configured correctly.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!created) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Category "${name}" already exists`,
+                "Store records in the existing category, change it with datadam_update_category, or reactivate it with datadam_deactivate_category (action: 'reactivate').",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        // Makes the category available to the create tool right away
+        await refreshCategories();
+
+        const summary = {
+          success: true as const,
+          operation: 'created',
+          category: name,
+          message: `Created category "${displayName}" (${name})`
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : `✓ Created category **${displayName}** (\`${name}\`). Store records in it with datadam_create_personal_data.`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error creating category: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
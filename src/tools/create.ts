@@ -1,20 +1,21 @@
 // Create Personal Data tool
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { formatSuccessMessage, formatErrorMessage } from "../utils/formatting.js";
-import { CreateInputSchema } from "../schemas/index.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatSuccessMessage, formatErrorMessage, toSuccessResult } from "../utils/formatting.js";
+import { CreateInputSchema, CreateOutputSchema } from "../schemas/index.js";
+import { findDuplicateCandidates, DUPLICATE_SCAN_LIMIT, type DuplicateCandidate } from "../utils/duplicates.js";
+import { validateContent, describeContentSchema } from "../utils/content-schema.js";
+import type { ContentSchema } from "../types.js";
 
-export function registerCreateTool(
-  server: McpServer,
-  supabase: SupabaseClient,
-  allCategories: string[]
-): void {
-  server.registerTool(
-    "datadam_create_personal_data",
-    {
-      title: "Store New Personal Data",
-      description: `Capture and store personal data when user shares information about themselves. The user's AI tool settings determine whether to store automatically or ask for consent first.
+// Lists every registry category, active or not, and the fields of those with a content schema
+export function createToolDescription(allCategories: string[], categorySchemas: Record<string, ContentSchema>): string {
+  const schemaLines = Object.entries(categorySchemas)
+    .map(([category, schema]) => `- ${category}: ${describeContentSchema(schema)}`)
+    .join('\n');
+
+  return `Capture and store personal data when user shares information about themselves. The user's AI tool settings determine whether to store automatically or ask for consent first.
 
 CORE PRINCIPLE: If the user mentions anything about themselves, their preferences, their life, their contacts, or their experiences - this tool should be used to store it.
 
@@ -38,20 +39,26 @@ CATEGORY SELECTION:
 - File/document/paper → documents
 
 AVAILABLE CATEGORIES (All from registry, including inactive): ${allCategories.length > 0 ? allCategories.join(', ') : 'Categories will be available once added to category_registry'}
-
+${schemaLines ? `
+CONTENT FIELDS (use these exact keys; content is validated against the category's schema):
+${schemaLines}
+` : ''}
 Args:
   - category (string, required): Valid category name from category_registry table. Can use any category (active or inactive). Available: ${allCategories.length > 0 ? allCategories.join(', ') : 'none yet'}
   - title (string, required): Descriptive title for the record. Examples: 'John Smith - Work Contact', 'Current Location'
   - content (object, required): Structured attributes as JSON key-value pairs. Keep concise - attributes only, NOT explanations
   - tags (string[], optional): Tags in singular form. Examples: ['family'], ['work'], ['favorite']
   - classification (string, optional): Sensitivity level - 'personal' (default), 'sensitive', or 'confidential'
-  - userId (string, optional): User UUID for multi-user systems
+  - allowDuplicate (boolean, optional): Create even when a similar record already exists. Default: false
   - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
 
 Returns:
   - Success message confirming record creation with title and category
   - For JSON format: {success: true, operation: "created", title, category, message}
   - For Markdown format: "✓ Successfully created record: **{title}** in category **{category}**"
+  - Possible duplicate: Nothing is created when a record in the same category has the same title or shares an email, phone, URL or similar identifier.
+    JSON: {success: false, possible_duplicate: true, candidates: [{id, title, reasons}], message}
+    Then: update the existing record with datadam_update_personal_data, merge records with datadam_merge_personal_data, or retry with allowDuplicate: true if it is genuinely a different entity
 
 Examples:
   1. Store contact: { category: "contacts", title: "John Smith - Work", content: { email: "john@work.com", phone: "555-1234" }, tags: ["work"] }
@@ -62,8 +69,26 @@ Examples:
 Error Handling:
   - Database errors: Returns error with connection troubleshooting guidance
   - Invalid category: Returns error with list of allowed categories
-  - Missing required fields: Returns error indicating which fields are required (category, title, content)`,
+  - Content not matching the category schema: Returns the problems (e.g. "use 'email' instead of 'Email'") and the expected fields; nothing is created
+  - Missing required fields: Returns error indicating which fields are required (category, title, content)`;
+}
+
+export function registerCreateTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  allCategories: string[],
+  availableCategories: string[],
+  categorySchemas: Record<string, ContentSchema>,
+  refreshCategories: () => Promise<boolean>
+): RegisteredTool {
+  return registerTool(
+    server,
+    "datadam_create_personal_data",
+    {
+      title: "Store New Personal Data",
+      description: createToolDescription(allCategories, categorySchemas),
       inputSchema: CreateInputSchema,
+      outputSchema: CreateOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -71,16 +96,43 @@ Error Handling:
         openWorldHint: false
       }
     },
-    async ({ category, title, content, tags, classification = 'personal', userId, response_format = 'markdown' }) => {
+    async ({ category, title, content, tags, classification = 'personal', allowDuplicate = false, response_format = 'markdown' }) => {
       try {
+        const schema = categorySchemas[category];
+        const problems = schema ? validateContent(content, schema) : [];
+        if (schema && problems.length > 0) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Content does not match the ${category} schema: ${problems.join('; ')}`,
+                `Expected fields for ${category}: ${describeContentSchema(schema)}`,
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
 
-        const { data: result, error } = await supabase.rpc('create_personal_data', {
-          p_user_id: userId || null,
-          p_category: category,
-          p_title: title,
-          p_content: content,
-          p_tags: tags || [],
-          p_classification: classification
+        if (!allowDuplicate) {
+          const candidates = await findDuplicates(store, category, title, content);
+          if (candidates.length > 0) {
+            return {
+              content: [{
+                type: "text",
+                text: formatPossibleDuplicate(title, category, candidates, response_format)
+              }],
+              structuredContent: possibleDuplicateResult(title, category, candidates)
+            };
+          }
+        }
+
+        const { data: result, error } = await store.createPersonalData({
+          category,
+          title,
+          content,
+          tags: tags || [],
+          classification
         });
 
         if (error) {
@@ -89,7 +141,7 @@ Error Handling:
               type: "text",
               text: formatErrorMessage(
                 `Database error: ${error.message}`,
-                "Check your database connection and ensure the Supabase credentials are correct.",
+                "Check your database connection and ensure the storage credentials are correct.",
                 response_format
               )
             }],
@@ -97,11 +149,17 @@ Error Handling:
           };
         }
 
+        // The first record in a category activates it; refresh so search/extract accept it
+        if (!availableCategories.includes(category)) {
+          await refreshCategories();
+        }
+
         return {
           content: [{
             type: "text",
             text: formatSuccessMessage('created', title, category, response_format)
-          }]
+          }],
+          structuredContent: toSuccessResult('created', title, category)
         };
       } catch (error) {
         return {
@@ -119,3 +177,51 @@ Error Handling:
     }
   );
 }
+
+// Best effort: a failed lookup should not stop the record from being saved
+async function findDuplicates(
+  store: PersonalDataStore,
+  category: string,
+  title: string,
+  content: Record<string, any>
+): Promise<DuplicateCandidate[]> {
+  const { data: existing, error } = await store.extractPersonalData({
+    category,
+    limit: DUPLICATE_SCAN_LIMIT,
+    offset: 0
+  });
+  if (error) {
+    console.error('Duplicate check failed:', error.message);
+    return [];
+  }
+  return findDuplicateCandidates({ title, content }, existing || []);
+}
+
+function possibleDuplicateResult(title: string, category: string, candidates: DuplicateCandidate[]) {
+  return {
+    success: false,
+    possible_duplicate: true,
+    candidates,
+    message: `Did not create "${title}": ${candidates.length} similar record(s) already exist in ${category}.`
+  };
+}
+
+function formatPossibleDuplicate(
+  title: string,
+  category: string,
+  candidates: DuplicateCandidate[],
+  format: 'json' | 'markdown'
+): string {
+  const result = possibleDuplicateResult(title, category, candidates);
+
+  if (format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const lines = [`⚠️ **Possible duplicate** - ${result.message}`, ''];
+  for (const candidate of candidates) {
+    lines.push(`- **${candidate.title}** (${candidate.reasons.join(', ')}) - ID: ${candidate.id}`);
+  }
+  lines.push('', '💡 **Suggestion:** Update the existing record with datadam_update_personal_data, combine records with datadam_merge_personal_data, or retry with allowDuplicate: true if this is a different entity.');
+  return lines.join('\n');
+}
@@ -0,0 +1,119 @@
+// Deactivate Category tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { DeactivateCategoryInputSchema, DeactivateCategoryOutputSchema } from "../schemas/index.js";
+
+export function registerDeactivateCategoryTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_deactivate_category",
+    {
+      title: "Deactivate or Reactivate Category",
+      description: `Retire a category the user no longer wants, or bring one back. A deactivated category disappears from the category lists, datadam_extract_personal_data and datadam_create_personal_data; its records are kept (and still match keyword search) and return with it on reactivation. To move the records into another category instead, use datadam_merge_categories. Categories are shared by every user of this server.
+
+TRIGGER KEYWORDS: "I don't need the [X] category", "stop tracking [X]", "hide [X]", "bring back [X]", "reactivate [X]"
+
+Args:
+  - category (string, required): Name of the category
+  - action (string, optional): 'deactivate' (default) or 'reactivate'
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "deactivated" | "reactivated", category, active, message}
+  - For Markdown format: "✓ Deactivated category **{category}**"
+
+Examples:
+  1. Retire a category: { category: "digital_products" }
+  2. Bring it back: { category: "digital_products", action: "reactivate" }
+
+Error Handling:
+  - Unknown category: Returns "Category not found: {category}"
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: DeactivateCategoryInputSchema,
+      outputSchema: DeactivateCategoryOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ category, action = 'deactivate', response_format = 'markdown' }) => {
+      try {
+        const active = action === 'reactivate';
+        const { data: found, error } = await store.setCategoryActive({ name: category, active });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and verify the category name.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!found) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Category not found: ${category}`,
+                "Check the category name.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        await refreshCategories();
+
+        const operation = active ? 'reactivated' : 'deactivated';
+        const summary = {
+          success: true as const,
+          operation,
+          category,
+          active,
+          message: active
+            ? `Reactivated category "${category}"`
+            : `Deactivated category "${category}"; its records are kept`
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : active
+                ? `✓ Reactivated category **${category}**`
+                : `✓ Deactivated category **${category}**. Its records are kept and come back if it is reactivated.`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error changing category: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -1,15 +1,22 @@
 // Delete Personal Data tool
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
 import { formatErrorMessage } from "../utils/formatting.js";
-import { DeleteInputSchema } from "../schemas/index.js";
+import { DeleteInputSchema, DeleteOutputSchema } from "../schemas/index.js";
 
 export function registerDeleteTool(
   server: McpServer,
-  supabase: SupabaseClient
+  store: PersonalDataStore,
+  retentionDays: number
 ): void {
-  server.registerTool(
+  const softDeleteNote = retentionDays > 0
+    ? `recoverable with datadam_restore_personal_data for ${retentionDays} day(s), then purged`
+    : 'recoverable with datadam_restore_personal_data';
+
+  registerTool(
+    server,
     "datadam_delete_personal_data",
     {
       title: "Delete Personal Data Records",
@@ -18,7 +25,7 @@ export function registerDeleteTool(
 TRIGGER KEYWORDS: "delete [X]", "remove [X]", "erase [X]", "forget [X]", "get rid of [X]", "clear [X]", "I don't want [X] anymore"
 
 DELETION TYPES:
-- Soft Delete (default): Marks as deleted, recoverable. Use for most cases.
+- Soft Delete (default): Marks as deleted, ${softDeleteNote}. Use for most cases.
 - Hard Delete: Permanent removal. Use ONLY for GDPR "right to be forgotten" requests.
 
 WORKFLOW:
@@ -51,8 +58,10 @@ Error Handling:
   - No records deleted: Returns "No records were {deleted/permanently deleted}. Records may not exist or were already deleted"
   - Partial deletion: Returns "Partially successful: {deleted} {count} of {requested} requested record(s)"
   - Database errors: Returns error with troubleshooting guidance
-  - Invalid UUIDs: Returns error indicating UUID format required`,
+  - Invalid UUIDs: Returns error indicating UUID format required
+  - Rate limited: Permanent deletes are limited per API key; the error says how many seconds to wait before retrying`,
       inputSchema: DeleteInputSchema,
+      outputSchema: DeleteOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: true,
@@ -62,9 +71,9 @@ Error Handling:
     },
     async ({ recordIds, hardDelete = false, response_format = 'markdown' }) => {
       try {
-        const { data: result, error } = await supabase.rpc('delete_personal_data', {
-          p_record_ids: recordIds,
-          p_hard_delete: hardDelete
+        const { data: result, error } = await store.deletePersonalData({
+          recordIds,
+          hardDelete
         });
 
         if (error) {
@@ -81,7 +90,7 @@ Error Handling:
           };
         }
 
-        const deletedCount = result || 0;
+        const deletedCount = result?.length ?? 0;
         const requestedCount = recordIds.length;
         const deleteType = hardDelete ? 'permanently deleted' : 'soft deleted';
         const operation = hardDelete ? 'deleted' : 'deleted';
@@ -100,49 +109,26 @@ Error Handling:
           };
         }
 
-        if (deletedCount < requestedCount) {
-          const message = `Partially successful: ${deleteType} ${deletedCount} of ${requestedCount} requested record(s). Some records may not exist or were already deleted.`;
-          if (response_format === 'json') {
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  operation: deleteType,
-                  count: deletedCount,
-                  requested_count: requestedCount,
-                  message: message
-                }, null, 2)
-              }]
-            };
-          }
-          return {
-            content: [{
-              type: "text",
-              text: `⚠️ ${message}`
-            }]
-          };
-        }
+        const partial = deletedCount < requestedCount;
+        const message = partial
+          ? `Partially successful: ${deleteType} ${deletedCount} of ${requestedCount} requested record(s). Some records may not exist or were already deleted.`
+          : `Successfully ${deleteType} ${deletedCount} personal data record(s)`;
+        const summary = {
+          success: true as const,
+          operation: deleteType,
+          count: deletedCount,
+          ...(partial && { requested_count: requestedCount }),
+          message
+        };
 
-        const message = `Successfully ${deleteType} ${deletedCount} personal data record(s)`;
-        if (response_format === 'json') {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                operation: deleteType,
-                count: deletedCount,
-                message: message
-              }, null, 2)
-            }]
-          };
-        }
         return {
           content: [{
             type: "text",
-            text: `✓ ${message}`
-          }]
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : `${partial ? '⚠️' : '✓'} ${message}`
+          }],
+          structuredContent: summary
         };
       } catch (error) {
         return {
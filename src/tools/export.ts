@@ -0,0 +1,181 @@
+// Export Personal Data tool and the resource serving finished exports
+
+import { randomUUID } from "node:crypto";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import { registerResourceTemplate } from "../resources/pagination.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { exportPersonalData, type ExportFile } from "../services/exporter.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { ExportInputSchema, ExportOutputSchema } from "../schemas/index.js";
+
+// How long a finished export can be read through its resource link
+export const EXPORT_TTL_MS = 15 * 60 * 1000;
+
+const EXPORT_URI_PREFIX = "data://exports/";
+
+interface StoredExport {
+  file: ExportFile;
+  expiresAt: number;
+}
+
+/**
+ * Registers the export tool and the data://exports/{exportId} resource it
+ * links to. Exports are kept in memory for EXPORT_TTL_MS and only by this
+ * server instance, so a link can only be read from the session that made it.
+ */
+export function registerExportTool(
+  server: McpServer,
+  store: PersonalDataStore
+): void {
+  const exports = new Map<string, StoredExport>();
+
+  const pruneExpired = () => {
+    const now = Date.now();
+    for (const [id, stored] of exports) {
+      if (stored.expiresAt <= now) exports.delete(id);
+    }
+  };
+
+  registerResourceTemplate(
+    server,
+    "data-exports",
+    new ResourceTemplate(`${EXPORT_URI_PREFIX}{exportId}`, {
+      list: async () => {
+        pruneExpired();
+        return {
+          resources: [...exports].map(([id, stored]) => ({
+            uri: `${EXPORT_URI_PREFIX}${id}`,
+            name: stored.file.filename,
+            mimeType: stored.file.mimeType
+          }))
+        };
+      }
+    }),
+    {
+      title: "Data Exports",
+      description: "Complete exports created by datadam_export_personal_data in this session. Each is available for 15 minutes."
+    },
+    async (uri, { exportId }) => {
+      pruneExpired();
+      const stored = exports.get(String(exportId));
+      if (!stored) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: "Export not found or expired. Run datadam_export_personal_data again.",
+            mimeType: "text/plain"
+          }]
+        };
+      }
+
+      const { file } = stored;
+      return {
+        contents: [file.mimeType === 'application/json'
+          ? { uri: uri.href, text: file.data.toString('utf8'), mimeType: file.mimeType }
+          : { uri: uri.href, blob: file.data.toString('base64'), mimeType: file.mimeType }]
+      };
+    }
+  );
+
+  registerTool(
+    server,
+    "datadam_export_personal_data",
+    {
+      title: "Export All Personal Data",
+      description: `Create a complete export of all the user's records, across every category, for backup or data portability (GDPR "right to data portability"). Returns a resource link to the export file instead of the records themselves, so it is not limited by result size or pagination.
+
+TRIGGER KEYWORDS: "export my data", "download everything", "give me a copy of my data", "backup my data", "data portability request", "what data do you have on me"
+
+WORKFLOW:
+1. Ask which format the user wants if unclear (JSON is the default)
+2. Export
+3. Give the user the link; read the resource (resources/read) only if the user wants to see the content here
+
+Formats:
+  - json: One JSON file {exported_at, include_deleted, record_count, categories, records}
+  - csv: ZIP archive with one CSV per category; columns id, title, category, tags, classification, created_at, updated_at, then one column per content key
+  - markdown: ZIP archive with a README.md index and one Markdown file per record, in a folder per category
+
+Args:
+  - format (string, optional): 'json' (default), 'csv' or 'markdown'
+  - includeDeleted (boolean, optional): Include soft-deleted records not yet purged. Default: false
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - A resource link (data://exports/{id}) to the file, readable for 15 minutes in this session
+  - For JSON format: {success: true, operation: "exported", format, record_count, categories, uri, filename, mime_type, expires_at, message}
+  - For Markdown format: "✓ Exported {count} record(s) as {filename}" with per-category counts
+
+Examples:
+  1. Full JSON export: {}
+  2. Spreadsheet-friendly export including deleted records: { format: "csv", includeDeleted: true }
+
+Error Handling:
+  - Database errors: Returns error with troubleshooting guidance
+  - Large exports: The same file can be downloaded from the GET /export HTTP route`,
+      inputSchema: ExportInputSchema,
+      outputSchema: ExportOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ format = 'json', includeDeleted = false, response_format = 'markdown' }) => {
+      try {
+        const file = await exportPersonalData(store, { format, includeDeleted });
+
+        pruneExpired();
+        const id = randomUUID();
+        const expiresAt = Date.now() + EXPORT_TTL_MS;
+        exports.set(id, { file, expiresAt });
+        const uri = `${EXPORT_URI_PREFIX}${id}`;
+
+        const counts = Object.entries(file.categories).map(([category, count]) => `${category}: ${count}`).join(', ');
+        const summary = {
+          success: true as const,
+          operation: 'exported',
+          format,
+          record_count: file.recordCount,
+          categories: file.categories,
+          uri,
+          filename: file.filename,
+          mime_type: file.mimeType,
+          expires_at: new Date(expiresAt).toISOString(),
+          message: `Exported ${file.recordCount} record(s) as ${file.filename}`
+        };
+        const text = response_format === 'json'
+          ? JSON.stringify(summary, null, 2)
+          : `✓ Exported ${file.recordCount} record(s) as **${file.filename}**${counts ? ` (${counts})` : ''}\n\nRead ${uri} to download it. The link expires in 15 minutes.`;
+
+        return {
+          content: [
+            { type: "text", text },
+            {
+              type: "resource_link",
+              uri,
+              name: file.filename,
+              mimeType: file.mimeType,
+              description: `DataDam export of ${file.recordCount} record(s)${includeDeleted ? ', including deleted records' : ''}`
+            }
+          ],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error exporting personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Check your database connection and try again.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -1,22 +1,16 @@
 // Extract Personal Data tool
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { formatErrorMessage, checkAndTruncateResponse } from "../utils/formatting.js";
-import { ExtractInputSchema } from "../schemas/index.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage, checkAndTruncateResponse, toRecordList } from "../utils/formatting.js";
+import { ExtractInputSchema, ExtractOutputSchema } from "../schemas/index.js";
 import { CHARACTER_LIMIT } from "../constants.js";
+import { queryFingerprint, decodeCursor, cursorAfter, type PageCursor } from "../utils/cursor.js";
+import { isDefaultSort } from "../utils/record-filters.js";
 
-export function registerExtractTool(
-  server: McpServer,
-  supabase: SupabaseClient,
-  availableCategories: string[],
-  fetchAvailableCategories: () => Promise<string[]>
-): void {
-  server.registerTool(
-    "datadam_extract_personal_data",
-    {
-      title: "List Items by Category/Tags",
-      description: `Retrieve items by CATEGORY or TAGS when browsing/listing without specific search terms. Use for "show me all my X" requests or tag-based filtering. Returns complete records.
+export function extractToolDescription(availableCategories: string[]): string {
+  return `Retrieve items by CATEGORY or TAGS when browsing/listing without specific search terms. Use for "show me all my X" requests or tag-based filtering. Returns complete records.
 
 WHEN TO USE:
 - Listing entire category: "all my contacts", "my books"
@@ -39,26 +33,52 @@ Args:
   - tags (string[], optional): Filter within category by tags. Singular forms only. Examples: ['family'], ['work'], ['sci-fi']
   - limit (number, optional): Results per page. Range: 1-100, Default: 50
   - offset (number, optional): Pagination offset for browsing large result sets. Default: 0
-  - userId (string, optional): User UUID for multi-user systems
-  - filters (object, optional): Additional field-level filters
+  - cursor (string, optional): next_cursor from the previous page. Prefer it over offset: pages neither skip nor repeat records when data changes in between. Must be used with the same category, tags and filters
+  - filters (object, optional): Narrow and order the results. All given filters must hold:
+    - content: conditions per content field (dots for nested fields). Conditions: eq (case-insensitive for text; list fields match any element), contains (case-insensitive substring), gt/gte/lt/lte (numbers with numbers, dates as 'YYYY-MM-DD' strings), exists (true/false)
+    - created / updated: { from, to } ISO 8601 window; from inclusive, to exclusive
+    - tags: { any, all, none } tag lists
+    - sort: { field: 'updated_at' | 'created_at' | 'title', direction: 'asc' | 'desc' }. Default: updated_at desc
   - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
 
 Returns:
-  - For JSON format: Structured data with schema: {total, count, results[], has_more, next_offset}
-  - For Markdown format: Human-readable numbered list with complete record details
+  - For JSON format: Structured data with schema: {total, count, results[], has_more, next_offset, next_cursor}
+  - For Markdown format: Human-readable numbered list with complete record details, ending with the cursor for the next page when there is one
+  - next_cursor is null on the last page
   - Each result includes: id, title, category, tags, full content, classification, created_at, updated_at
 
 Examples:
   1. List all contacts: { category: "contacts", limit: 20 }
   2. Family contacts only: { category: "contacts", tags: ["family"] }
-  3. Browse books with pagination: { category: "books", limit: 10, offset: 10 }
+  3. Browse books with pagination: { category: "books", limit: 10 }, then { category: "books", limit: 10, cursor: "<next_cursor>" }
   4. JSON output: { category: "interests", response_format: "json" }
+  5. Highly rated books since 2020: { category: "books", filters: { content: { rating: { gte: 4 }, year: { gte: 2020 } } } }
+  6. Contacts in Boston without an email: { category: "contacts", filters: { content: { "address.city": { eq: "boston" }, email: { exists: false } } } }
+  7. Work items added this year that are not archived: { category: "documents", filters: { created: { from: "2025-01-01" }, tags: { all: ["work"], none: ["archived"] } } }
+  8. Alphabetical: { category: "books", filters: { sort: { field: "title", direction: "asc" } } }
 
 Error Handling:
   - No records found: Returns "No personal data found in category: {category}" with optional tag info
   - Invalid category: Returns error with list of available categories
-  - Database errors: Returns error message with troubleshooting guidance`,
+  - Invalid filters (unknown keys, empty conditions, unparseable dates): Request is rejected during schema validation
+  - Invalid cursor, or a cursor from a different category or filters: Returns error; start again without cursor
+  - Database errors: Returns error message with troubleshooting guidance`;
+}
+
+export function registerExtractTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  availableCategories: string[],
+  refreshCategories: () => Promise<boolean>
+): RegisteredTool {
+  return registerTool(
+    server,
+    "datadam_extract_personal_data",
+    {
+      title: "List Items by Category/Tags",
+      description: extractToolDescription(availableCategories),
       inputSchema: ExtractInputSchema,
+      outputSchema: ExtractOutputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -66,14 +86,10 @@ Error Handling:
         openWorldHint: false
       }
     },
-    async ({ category, tags, userId, filters, limit = 50, offset = 0, response_format = 'markdown' }) => {
+    async ({ category, tags, filters, limit = 50, offset = 0, cursor, response_format = 'markdown' }) => {
       try {
-        // Refresh categories before processing
-        const latestCategories = await fetchAvailableCategories();
-        if (latestCategories.length > 0) {
-          availableCategories.length = 0;
-          availableCategories.push(...latestCategories);
-        }
+        // Refresh categories before processing (updates availableCategories in place)
+        await refreshCategories();
 
         // Validate category against latest list
         if (availableCategories.length > 0 && !availableCategories.includes(category)) {
@@ -85,13 +101,40 @@ Error Handling:
             isError: true
           };
         }
-        const { data: results, error } = await supabase.rpc('extract_personal_data', {
-          p_category: category,
-          p_tags: (tags && tags.length > 0) ? tags : null,
-          p_user_id: userId || null,
-          p_filters: filters || null,
-          p_limit: limit,
-          p_offset: offset
+
+        const tagFilter = (tags && tags.length > 0) ? tags : null;
+        const fingerprint = queryFingerprint({ tool: 'extract', category, tags: tagFilter, filters: filters || null });
+        let page: PageCursor | null = null;
+        if (cursor) {
+          try {
+            page = decodeCursor(cursor, fingerprint);
+          } catch (cursorError) {
+            return {
+              content: [{
+                type: "text",
+                text: formatErrorMessage(
+                  (cursorError as Error).message,
+                  "Start again without cursor, or pass the same category, tags and filters as the request that returned it",
+                  response_format
+                )
+              }],
+              isError: true
+            };
+          }
+        }
+        // A cursor resumes after the last record it saw rather than at a
+        // position, unless a custom sort order makes that key meaningless
+        const position = page ? page.position : offset;
+        const keyset = isDefaultSort(filters);
+        const after = keyset ? page?.after || null : null;
+
+        const { data: results, error } = await store.extractPersonalData({
+          category,
+          tags: tagFilter,
+          filters: filters || null,
+          limit,
+          offset: after ? 0 : position,
+          after
         });
 
         if (error) {
@@ -120,7 +163,8 @@ Error Handling:
                 "Try removing tag filters or using a different category",
                 response_format
               )
-            }]
+            }],
+            structuredContent: toRecordList({ results: [], nextOffset: position, nextCursor: null })
           };
         }
 
@@ -129,11 +173,12 @@ Error Handling:
           results,
           CHARACTER_LIMIT,
           response_format,
-          offset,
+          position,
           results.length,
           results.length === limit,
-          offset + results.length,
-          { showIds: true }
+          position + results.length,
+          { showIds: true },
+          (included) => cursorAfter(included, position, fingerprint, keyset)
         );
 
         // Add extract context to markdown format
@@ -149,7 +194,8 @@ Error Handling:
           content: [{
             type: "text",
             text: finalText
-          }]
+          }],
+          structuredContent: truncationResult.structured
         };
       } catch (error) {
         return {
@@ -0,0 +1,197 @@
+// Record History tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import type { PersonalDataRecord, RecordVersion } from "../types.js";
+import { formatErrorMessage, formatTimestamp } from "../utils/formatting.js";
+import { diffRecords, formatChangesMarkdown, type FieldChange } from "../utils/diff.js";
+import { HistoryInputSchema, HistoryOutputSchema } from "../schemas/index.js";
+
+interface HistoryEntry {
+  version: number;
+  replaced_at: string;
+  conversation_context: string | null;
+  snapshot: Omit<RecordVersion, 'record_id' | 'version' | 'conversation_context' | 'created_at'>;
+  // What the update that replaced this version changed; empty when either side is hidden
+  changes: FieldChange[];
+  // Above the session's classification in hide mode; the snapshot is withheld
+  hidden?: boolean;
+}
+
+function snapshotOf(state: PersonalDataRecord | RecordVersion) {
+  return {
+    title: state.title,
+    content: state.content,
+    tags: state.tags || [],
+    category: state.category,
+    classification: state.classification
+  };
+}
+
+// Pairs each version with the state that replaced it: the next version, or the current record
+function buildEntries(current: PersonalDataRecord, versions: RecordVersion[]): HistoryEntry[] {
+  return versions.map((version, index) => {
+    const replacement = index === 0 ? current : versions[index - 1];
+    return {
+      version: version.version,
+      replaced_at: version.created_at,
+      conversation_context: version.conversation_context,
+      snapshot: snapshotOf(version),
+      changes: version.hidden || versions[index - 1]?.hidden ? [] : diffRecords(snapshotOf(version), snapshotOf(replacement)),
+      ...(version.hidden && { hidden: true })
+    };
+  });
+}
+
+export function registerHistoryTool(
+  server: McpServer,
+  store: PersonalDataStore
+): void {
+  registerTool(
+    server,
+    "datadam_get_record_history",
+    {
+      title: "Get Record Version History",
+      description: `Show how a personal data record changed over time. Every update saves the previous state as a numbered version together with the conversation context that explained the change. Returns each version with a field-level diff (content keys, tags, classification, title, category) of what the following update changed.
+
+TRIGGER KEYWORDS: "what did you change", "history of [X]", "what was [X] before", "when did [X] change", "undo that change"
+
+WORKFLOW:
+1. Find the record's UUID with search/extract
+2. Get its history
+3. To undo a change, call datadam_revert_personal_data with the version listed before that change
+
+Args:
+  - recordId (string, required): UUID of the record
+  - limit (number, optional): Max versions, newest first. Range: 1-50, Default: 10
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {record_id, title, current_version, updated_at, versions: [{version, replaced_at, conversation_context, snapshot, changes[]}]}
+  - For Markdown format: One section per version with its timestamp, context and changes
+  - Each change: {field, change: "added" | "removed" | "changed", before?, after?}
+
+Examples:
+  1. Full history: { recordId: "<UUID>" }
+  2. Last change only: { recordId: "<UUID>", limit: 1, response_format: "json" }
+
+Error Handling:
+  - Record not found: Returns "Record not found: {recordId}" with isError flag
+  - Never updated: Returns the current version with no history
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: HistoryInputSchema,
+      outputSchema: HistoryOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ recordId, limit = 10, response_format = 'markdown' }) => {
+      try {
+        const [recordResult, historyResult] = await Promise.all([
+          store.getPersonalData({ recordIds: [recordId] }),
+          store.getRecordHistory({ recordId, limit })
+        ]);
+
+        const error = recordResult.error || historyResult.error;
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and verify the record ID is correct.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const current = recordResult.data?.[0];
+        if (!current) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Record not found: ${recordId}`,
+                "Verify the record ID using datadam_search_personal_data or datadam_extract_personal_data. Deleted records have no history.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const versions = historyResult.data || [];
+        const entries = buildEntries(current, versions);
+        const currentVersion = (versions[0]?.version ?? 0) + 1;
+
+        const history = {
+          record_id: current.id,
+          title: current.title,
+          current_version: currentVersion,
+          updated_at: current.updated_at,
+          versions: entries
+        };
+
+        if (response_format === 'json') {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(history, null, 2)
+            }],
+            structuredContent: history
+          };
+        }
+
+        let output = `# History: ${current.title}\n\n`;
+        output += `Current version: ${currentVersion} (updated ${formatTimestamp(current.updated_at)})\n\n`;
+
+        if (entries.length === 0) {
+          output += "This record has not been changed since it was created.\n";
+        }
+
+        for (const [index, entry] of entries.entries()) {
+          output += `## Version ${entry.version} → ${entry.version + 1} (${formatTimestamp(entry.replaced_at)})\n\n`;
+          if (entry.hidden) {
+            output += `Hidden: this version is above the session's classification.\n\n---\n\n`;
+            continue;
+          }
+          if (entries[index - 1]?.hidden) {
+            output += `Changes not shown: the version that replaced it is hidden.\n\nRevert with version: ${entry.version}\n\n---\n\n`;
+            continue;
+          }
+          if (entry.conversation_context) {
+            output += `**Context**: ${entry.conversation_context}\n\n`;
+          }
+          output += formatChangesMarkdown(entry.changes);
+          output += `\nRevert with version: ${entry.version}\n\n---\n\n`;
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }],
+          structuredContent: history
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error fetching record history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
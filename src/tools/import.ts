@@ -0,0 +1,144 @@
+// Import Personal Data tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { importPersonalData, MAX_IMPORT_ROWS, type ImportReport } from "../services/importer.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { ImportInputSchema, ImportOutputSchema } from "../schemas/index.js";
+import type { ContentSchema } from "../types.js";
+
+/**
+ * Formats an import report as Markdown: a summary line, then one line per row
+ */
+export function formatImportReportMarkdown(report: ImportReport): string {
+  const heading = report.dry_run ? '# Import Preview (dry run)' : '# Import Results';
+  const skipped = report.skipped > 0 ? ` ${report.skipped} ${report.dry_run ? 'would be' : 'were'} skipped as possible duplicates.` : '';
+  const summary = report.dry_run
+    ? `${report.valid} of ${report.total} record(s) would be created, ${report.failed} failed validation.${skipped} Nothing was saved.`
+    : `Created ${report.created} of ${report.total} record(s), ${report.failed} failed.${skipped}`;
+
+  let output = `${heading}\n\n${summary}\n\n`;
+  for (const result of report.results) {
+    if (result.status === 'failed') {
+      output += `- ✗ Row ${result.row}${result.title ? ` **${result.title}**` : ''}: ${(result.errors || []).join('; ')}\n`;
+    } else if (result.status === 'skipped') {
+      const matches = (result.duplicates || []).map((duplicate) =>
+        `**${duplicate.title}**${duplicate.row !== undefined ? ` (row ${duplicate.row})` : ''}: ${duplicate.reasons.join(', ')}`
+      );
+      output += `- ⚠️ Row ${result.row} **${result.title}** skipped, possible duplicate of ${matches.join('; ')}\n`;
+    } else {
+      const tags = result.tags && result.tags.length > 0 ? ` [${result.tags.join(', ')}]` : '';
+      const content = result.content ? ` ${JSON.stringify(result.content)}` : '';
+      output += `- ✓ Row ${result.row} **${result.title}** → ${result.category}${tags}${content}\n`;
+    }
+  }
+  return output;
+}
+
+export function registerImportTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  allCategories: string[],
+  availableCategories: string[],
+  categorySchemas: Record<string, ContentSchema>,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_import_personal_data",
+    {
+      title: "Bulk Import Personal Data",
+      description: `Create many records at once from a CSV, JSON or vCard file the user shares, e.g. an exported contact list or reading log. Each row becomes one record.
+
+TRIGGER KEYWORDS: "import these", "import my contacts", "load this CSV", "add all of these", "here's my reading list", pasted .csv/.json/.vcf content
+
+WORKFLOW:
+1. Run with dryRun: true and show the user the preview (titles, categories and any failing rows)
+2. Fix mapping problems by setting category or titleField, or ask the user to correct the file
+3. Run again with dryRun: false to create the records
+4. Report how many were created, which rows failed and which were skipped as possible duplicates (don't show UUIDs)
+
+Column Mapping:
+  - title: the 'title' column, else 'name', or the column given in titleField
+  - category: the 'category' column, else the category argument (vCard: contacts)
+  - tags: the 'tags' column (separated by ',' or ';') plus the tags argument
+  - classification: the 'classification' column, else the classification argument
+  - content: a 'content' object in JSON rows, else every other non-empty column
+  - vCard: FN/N → name (title), EMAIL → email, TEL → phone, ORG → company, TITLE → job_title, BDAY → birthday, ADR → address, URL → url, NOTE → note, CATEGORIES → tags
+
+Rows are validated against the registry categories and each category's content schema. Invalid rows are reported and skipped; the rest are still imported. Rows that look like an existing record in their category, or like an earlier row (same title, same title but for a qualifier, or a shared email, phone, URL or similar identifier), are skipped too unless allowDuplicates is set. At most ${MAX_IMPORT_ROWS} records per call.
+
+Args:
+  - format (string, required): 'csv', 'json' or 'vcard'
+  - data (string, required): Full file content
+  - category (string, optional): Default category for rows without one
+  - titleField (string, optional): Column to use as the title
+  - tags (string[], optional): Tags added to every record
+  - classification (string, optional): Default classification - 'personal' (default), 'sensitive', or 'confidential'
+  - dryRun (boolean, optional): Preview without creating anything. Default: false
+  - allowDuplicates (boolean, optional): Import rows that look like existing records instead of skipping them. Default: false
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {dry_run, format, total, created, valid, skipped, failed, categories, results: [{row, status: "created"|"valid"|"skipped"|"failed", title, category, id?, content?, tags?, duplicates?: [{id?, row?, title, reasons}], errors?}]}
+  - For Markdown format: Summary line plus one ✓/⚠️/✗ line per row
+
+Examples:
+  1. Preview a CSV of books: { format: "csv", data: "title,author\\nDune,Frank Herbert", category: "books", dryRun: true }
+  2. Import contacts from a .vcf: { format: "vcard", data: "BEGIN:VCARD\\nFN:Jane Doe\\nEMAIL:jane@example.com\\nEND:VCARD" }
+  3. JSON with categories per row: { format: "json", data: "[{\\"title\\": \\"Docker\\", \\"category\\": \\"interests\\", \\"content\\": {\\"level\\": \\"beginner\\"}}]" }
+
+Error Handling:
+  - Unreadable file or too many rows: Returns error with isError flag; nothing is created
+  - Invalid rows: Listed with their errors; other rows are unaffected
+  - Possible duplicates: Listed with the records they match; update or merge those records, or import again with allowDuplicates: true if they are different entities
+  - All rows failed: Returns the report with isError flag`,
+      inputSchema: ImportInputSchema,
+      outputSchema: ImportOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async ({ format, data, category, titleField, tags, classification, dryRun = false, allowDuplicates = false, response_format = 'markdown' }) => {
+      try {
+        const report = await importPersonalData(
+          store,
+          { format, data, category, titleField, tags, classification, dryRun, allowDuplicates },
+          { allCategories, categorySchemas }
+        );
+
+        // Imported records can activate empty categories
+        if (report.categories.some((name) => !availableCategories.includes(name))) {
+          await refreshCategories();
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(report, null, 2)
+              : formatImportReportMarkdown(report)
+          }],
+          structuredContent: { ...report },
+          ...(report.total > 0 && report.failed === report.total && { isError: true })
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error importing personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Check that the format matches the file content and that CSV files have a header row.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,135 @@
+// List Deleted Personal Data tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { purgeDate } from "../services/retention.js";
+import { formatErrorMessage, formatDeletedRecordsMarkdown, toRecordList } from "../utils/formatting.js";
+import { ListDeletedInputSchema, ListDeletedOutputSchema } from "../schemas/index.js";
+
+export function registerListDeletedTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  retentionDays: number
+): void {
+  const retentionNote = retentionDays > 0
+    ? `Deleted records are permanently removed ${retentionDays} day(s) after deletion.`
+    : 'Deleted records are kept until hard deleted.';
+
+  registerTool(
+    server,
+    "datadam_list_deleted_personal_data",
+    {
+      title: "List Deleted Personal Data",
+      description: `List soft-deleted personal data records that can still be restored. Use when the user wants to undo a deletion or asks what they deleted recently. ${retentionNote}
+
+TRIGGER KEYWORDS: "undo that deletion", "what did I delete", "recover [X]", "bring back [X]", "I deleted [X] by mistake", "restore [X]"
+
+WORKFLOW:
+1. User asks to undo or recover a deletion
+2. List deleted records (optionally narrowed by category)
+3. Identify the record(s) the user means
+4. Restore them with datadam_restore_personal_data
+
+Args:
+  - categories (string[], optional): Only list deleted records from these categories. Examples: ['contacts'], ['books']
+  - limit (number, optional): Max results. Range: 1-100, Default: 20
+  - offset (number, optional): Pagination offset. Default: 0
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - Most recently deleted first
+  - For JSON format: {total, count, results[], has_more, next_offset}; each result includes deleted_at and purge_after
+  - For Markdown format: Numbered list with category, tags, ID, deletion time and purge time
+
+Examples:
+  1. Recent deletions: {}
+  2. Deleted contacts: { categories: ["contacts"] }
+  3. JSON output: { response_format: "json" }
+
+Error Handling:
+  - Nothing deleted: Returns "No deleted records found"
+  - Database errors: Returns error message with troubleshooting guidance`,
+      inputSchema: ListDeletedInputSchema,
+      outputSchema: ListDeletedOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ categories, limit = 20, offset = 0, response_format = 'markdown' }) => {
+      try {
+        const { data: records, error } = await store.listDeletedPersonalData({
+          categories: (categories && categories.length > 0) ? categories : null,
+          limit,
+          offset
+        });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and ensure the storage backend is configured correctly",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!records || records.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `No deleted records found${categories && categories.length > 0 ? ` in: ${categories.join(', ')}` : ''}`,
+                "Records may have been hard deleted or already purged by the retention policy.",
+                response_format
+              )
+            }],
+            structuredContent: toRecordList({ results: [], nextOffset: offset })
+          };
+        }
+
+        const results = records.map((record) => ({
+          ...record,
+          purge_after: purgeDate(record.deleted_at, retentionDays)
+        }));
+
+        const list = toRecordList({
+          results,
+          count: results.length,
+          hasMore: results.length === limit,
+          nextOffset: offset + results.length
+        });
+        const text = response_format === 'json'
+          ? JSON.stringify(list, null, 2)
+          : `${formatDeletedRecordsMarkdown(results)}Use datadam_restore_personal_data with the IDs above to restore.`;
+
+        return {
+          content: [{
+            type: "text",
+            text
+          }],
+          structuredContent: list
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error listing deleted personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,123 @@
+// Merge Categories tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { MergeCategoriesInputSchema, MergeCategoriesOutputSchema } from "../schemas/index.js";
+
+export function registerMergeCategoriesTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_merge_categories",
+    {
+      title: "Merge Categories",
+      description: `Combine two categories that hold the same kind of information. Every record of the source category, including deleted ones and saved versions, moves to the target category, and the source category is removed. Record content is not changed, so moved records are not checked against the target's content schema. Categories are shared by every user of this server, so all users' records move.
+
+TRIGGER KEYWORDS: "merge [X] into [Y]", "[X] and [Y] are the same", "put my [X] under [Y]", "combine the [X] and [Y] categories"
+
+WORKFLOW:
+1. Confirm with the user which category stays (target) and which goes (source)
+2. Merge
+3. Report how many records moved
+
+Args:
+  - source (string, required): Category to merge away
+  - target (string, required): Category that receives the records and remains
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "merged", source, target, moved_count, message}
+  - For Markdown format: "✓ Merged category **{source}** into **{target}** ({n} record(s) moved)"
+
+Examples:
+  1. Fold a duplicate category: { source: "cooking", target: "recipes" }
+
+Error Handling:
+  - Same category twice: Returns "source and target must be different categories"
+  - Unknown category: Returns "Category not found: {name}"; nothing is moved
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: MergeCategoriesInputSchema,
+      outputSchema: MergeCategoriesOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async ({ source, target, response_format = 'markdown' }) => {
+      try {
+        if (source === target) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                "source and target must be different categories",
+                "Pass the category to merge away as source and the one to keep as target.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const { data: movedCount, error } = await store.mergeCategories({ source, target });
+
+        if (error) {
+          const notFound = error.message.startsWith('Category not found');
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                notFound ? error.message : `Database error: ${error.message}`,
+                notFound
+                  ? "Check the category names; nothing was moved."
+                  : "Check your database connection and ensure the storage backend is configured correctly.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        await refreshCategories();
+
+        const moved = movedCount || 0;
+        const summary = {
+          success: true as const,
+          operation: 'merged',
+          source,
+          target,
+          moved_count: moved,
+          message: `Merged category "${source}" into "${target}" (${moved} record(s) moved)`
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : `✓ Merged category **${source}** into **${target}** (${moved} record(s) moved)`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error merging categories: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,204 @@
+// Merge Personal Data tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { MergeInputSchema, MergeOutputSchema } from "../schemas/index.js";
+import { mergeRecords } from "../utils/duplicates.js";
+
+export function registerMergeTool(
+  server: McpServer,
+  store: PersonalDataStore
+): void {
+  registerTool(
+    server,
+    "datadam_merge_personal_data",
+    {
+      title: "Merge Duplicate Personal Data",
+      description: `Merge two records that describe the same thing into one. The duplicate's content and tags are combined into the kept record, which keeps its title and category, and the duplicate is soft-deleted. The change is saved in the kept record's history, so it can be reverted, and the duplicate can be restored with datadam_restore_personal_data.
+
+TRIGGER KEYWORDS: "merge these", "those are the same person", "combine [X] and [Y]", "remove the duplicate", or a possible duplicate reported by datadam_create_personal_data
+
+WORKFLOW:
+1. Find both record UUIDs (from the create tool's duplicate candidates, search or extract)
+2. Keep the older or more complete record; merge the other into it
+3. Mention any conflicting values that were dropped
+4. Confirm (don't show UUIDs)
+
+Merge Rules:
+  - Content keys only in the duplicate are added; nested objects are merged key by key; lists are combined
+  - Conflicting values keep the kept record's value unless preferMerged is true
+  - Tags are combined; the stricter classification wins
+
+Args:
+  - keepId (string, required): UUID of the record to keep
+  - mergeId (string, required): UUID of the duplicate to merge in and soft-delete
+  - preferMerged (boolean, optional): Take the duplicate's value on conflicts. Default: false
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "merged", keepId, mergeId, title, conflicts: [{field, kept, discarded}], message}
+  - For Markdown format: "✓ Successfully merged **{duplicate title}** into **{title}**" plus any discarded conflicting values
+
+Examples:
+  1. Merge a duplicate contact: { keepId: "<UUID>", mergeId: "<UUID>" }
+  2. Newer details win: { keepId: "<UUID>", mergeId: "<UUID>", preferMerged: true }
+
+Error Handling:
+  - Same record twice: Returns "keepId and mergeId must be different records"
+  - Unknown or deleted record: Returns "Record not found: {id}" with isError flag
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: MergeInputSchema,
+      outputSchema: MergeOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async ({ keepId, mergeId, preferMerged = false, response_format = 'markdown' }) => {
+      try {
+        if (keepId === mergeId) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                "keepId and mergeId must be different records",
+                "Pass the UUID of the record to keep and the UUID of its duplicate.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const { data: records, error: fetchError } = await store.getPersonalData({ recordIds: [keepId, mergeId] });
+
+        if (fetchError) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${fetchError.message}`,
+                "Check your database connection and verify the record IDs are correct.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const keep = records?.find((record) => record.id === keepId);
+        const duplicate = records?.find((record) => record.id === mergeId);
+        const missingId = !keep ? keepId : !duplicate ? mergeId : null;
+
+        if (!keep || !duplicate) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Record not found: ${missingId}`,
+                "Use datadam_search_personal_data or datadam_extract_personal_data to find valid record IDs.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const merged = mergeRecords(keep, duplicate, preferMerged);
+
+        const { data: updated, error: updateError } = await store.updatePersonalData({
+          recordId: keepId,
+          updates: {
+            content: merged.content,
+            tags: merged.tags,
+            classification: merged.classification
+          },
+          conversationContext: `Merged duplicate "${duplicate.title}" (${mergeId})`
+        });
+
+        if (updateError || !updated) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                updateError ? `Database error: ${updateError.message}` : `Record not found: ${keepId}`,
+                "Nothing was merged. Verify the record IDs and try again.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const { error: deleteError } = await store.deletePersonalData({
+          recordIds: [mergeId],
+          hardDelete: false
+        });
+
+        if (deleteError) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Merged the content but could not delete the duplicate: ${deleteError.message}`,
+                "Delete the duplicate with datadam_delete_personal_data.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const summary = {
+          success: true as const,
+          operation: 'merged',
+          keepId,
+          mergeId,
+          title: keep.title,
+          conflicts: merged.conflicts,
+          message: `Successfully merged "${duplicate.title}" into "${keep.title}"`
+        };
+        if (response_format === 'json') {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(summary, null, 2)
+            }],
+            structuredContent: summary
+          };
+        }
+
+        const lines = [`✓ Successfully merged **${duplicate.title}** into **${keep.title}**`];
+        if (merged.conflicts.length > 0) {
+          lines.push('', 'Conflicting values (not kept):');
+          for (const conflict of merged.conflicts) {
+            lines.push(`- ${conflict.field}: kept ${JSON.stringify(conflict.kept)}, discarded ${JSON.stringify(conflict.discarded)}`);
+          }
+        }
+        return {
+          content: [{
+            type: "text",
+            text: lines.join('\n')
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error merging personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
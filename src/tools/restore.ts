@@ -0,0 +1,128 @@
+// Restore Personal Data tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { RestoreInputSchema, RestoreOutputSchema } from "../schemas/index.js";
+
+export function registerRestoreTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_restore_personal_data",
+    {
+      title: "Restore Deleted Personal Data",
+      description: `Restore soft-deleted personal data records so they show up in search and extract again. Requires record UUID(s) from datadam_list_deleted_personal_data. Hard-deleted records cannot be restored.
+
+TRIGGER KEYWORDS: "undo that deletion", "restore [X]", "recover [X]", "bring back [X]", "I didn't mean to delete [X]"
+
+WORKFLOW:
+1. User asks to undo a deletion
+2. If UUID unknown: use datadam_list_deleted_personal_data to find the record(s)
+3. Restore
+4. Confirm (don't show UUIDs)
+
+Args:
+  - recordIds (string[], required): Array of soft-deleted record UUIDs. Examples: ['uuid1'], ['uuid1', 'uuid2']
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "restored", count, requested_count?, message}
+  - For Markdown format: "✓ Successfully restored {count} personal data record(s)"
+  - Partial success: Indicates if some records couldn't be restored
+
+Examples:
+  1. Restore one: { recordIds: ["uuid1"] }
+  2. Restore several: { recordIds: ["uuid1", "uuid2"] }
+
+Error Handling:
+  - Nothing restored: Returns "No records were restored. Records may not exist, are not deleted, or were permanently removed"
+  - Partial restore: Returns "Partially successful: restored {count} of {requested} requested record(s)"
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: RestoreInputSchema,
+      outputSchema: RestoreOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ recordIds, response_format = 'markdown' }) => {
+      try {
+        const { data: result, error } = await store.restorePersonalData({ recordIds });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and verify the record IDs are correct.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const restoredCount = result?.length ?? 0;
+        const requestedCount = recordIds.length;
+
+        if (restoredCount === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                "No records were restored. Records may not exist, are not deleted, or were permanently removed.",
+                "Check the record IDs using datadam_list_deleted_personal_data.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        // A restored record can reactivate an empty category
+        await refreshCategories();
+
+        const message = restoredCount < requestedCount
+          ? `Partially successful: restored ${restoredCount} of ${requestedCount} requested record(s). Some records may not exist, are not deleted, or were permanently removed.`
+          : `Successfully restored ${restoredCount} personal data record(s)`;
+
+        const summary = {
+          success: true as const,
+          operation: 'restored',
+          count: restoredCount,
+          ...(restoredCount < requestedCount && { requested_count: requestedCount }),
+          message
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : restoredCount < requestedCount ? `⚠️ ${message}` : `✓ ${message}`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error restoring personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,120 @@
+// Revert Personal Data tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { RevertInputSchema, RevertOutputSchema } from "../schemas/index.js";
+
+export function registerRevertTool(
+  server: McpServer,
+  store: PersonalDataStore
+): void {
+  registerTool(
+    server,
+    "datadam_revert_personal_data",
+    {
+      title: "Revert Personal Data to a Version",
+      description: `Restore a record's title, content, tags, category and classification to an earlier version from datadam_get_record_history. The revert is saved as a new version, so it can be undone too.
+
+TRIGGER KEYWORDS: "undo that change", "change it back", "revert [X]", "restore the old [X]", "that update was wrong"
+
+WORKFLOW:
+1. Get the record's history with datadam_get_record_history
+2. Pick the version from before the unwanted change
+3. Revert
+4. Confirm (don't show UUIDs)
+
+Args:
+  - recordId (string, required): UUID of the record
+  - version (number, required): Version number to restore
+  - conversationContext (string, optional): Why the record is being reverted. Default: "Reverted to version {version}"
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "reverted", recordId, version, message}
+  - For Markdown format: "✓ Successfully reverted record to version {version}"
+
+Examples:
+  1. Undo the last change: { recordId: "<UUID>", version: 3 }
+  2. With context: { recordId: "<UUID>", version: 1, conversationContext: "User said the original email was correct" }
+
+Error Handling:
+  - Unknown record or version: Returns "Record or version not found" with isError flag
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: RevertInputSchema,
+      outputSchema: RevertOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async ({ recordId, version, conversationContext, response_format = 'markdown' }) => {
+      try {
+        const { data: result, error } = await store.revertPersonalData({
+          recordId,
+          version,
+          conversationContext: conversationContext || null
+        });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                "Check your database connection and verify the record ID is correct.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!result) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Record or version not found: ${recordId} version ${version}`,
+                "List the available versions with datadam_get_record_history.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const message = `Successfully reverted record to version ${version}`;
+        const summary = {
+          success: true as const,
+          operation: 'reverted',
+          recordId,
+          version,
+          message
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json' ? JSON.stringify(summary, null, 2) : `✓ ${message}`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error reverting personal data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
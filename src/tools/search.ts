@@ -1,22 +1,85 @@
 // Search Personal Data tool
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore, StoreResult, PageKey } from "../services/store.js";
+import type { EmbeddingProvider } from "../services/embeddings.js";
+import type { PersonalDataRecord } from "../types.js";
+import { blendResults, rankBySimilarity, type SearchMode } from "../utils/ranking.js";
 import { z } from "zod";
-import { formatErrorMessage, checkAndTruncateResponse } from "../utils/formatting.js";
-import { SearchInputSchema } from "../schemas/index.js";
+import { formatErrorMessage, checkAndTruncateResponse, toRecordList } from "../utils/formatting.js";
+import { SearchInputSchema, SearchOutputSchema } from "../schemas/index.js";
 import { CHARACTER_LIMIT } from "../constants.js";
+import { queryFingerprint, decodeCursor, cursorAfter, type PageCursor } from "../utils/cursor.js";
 
-export function registerSearchTool(
-  server: McpServer,
-  supabase: SupabaseClient,
-  availableCategories: string[]
-): void {
-  server.registerTool(
-    "datadam_search_personal_data",
-    {
-      title: "Search Personal Data by Keyword",
-      description: `Search for SPECIFIC datapoints, names, or details across all personal data using keyword matching. Use when looking for a specific person, thing, or piece of information (e.g., "find John's email", "my passport number", "Docker info"). Returns ranked results with context snippets.
+interface SearchRequest {
+  query: string;
+  categories: string[] | null;
+  tags: string[] | null;
+  classification: string | null;
+  limit: number;
+  offset: number;
+  // Last record of the previous page, when continuing from a cursor
+  after: PageKey | null;
+}
+
+// Runs the search for the requested mode. Semantic rankings are computed over
+// the first offset + limit candidates, then paginated. Keyword results resume
+// strictly after the cursor's sort key; ranked results resume after the
+// cursor's record, or at offset if it no longer ranks.
+async function runSearch(
+  store: PersonalDataStore,
+  embeddings: EmbeddingProvider | null,
+  mode: SearchMode,
+  request: SearchRequest
+): Promise<StoreResult<PersonalDataRecord[]>> {
+  const { query, categories, tags, classification, limit, offset, after } = request;
+
+  const keywordSearch = (searchLimit: number, searchOffset: number, searchAfter: PageKey | null = null) => store.searchPersonalData({
+    searchText: query,
+    categories,
+    tags,
+    classification,
+    limit: searchLimit,
+    offset: searchOffset,
+    after: searchAfter
+  });
+
+  if (mode === 'keyword' || !embeddings) {
+    return after ? keywordSearch(limit, 0, after) : keywordSearch(limit, offset);
+  }
+
+  const [queryEmbedding] = await embeddings.embed([query]);
+  // With a cursor, leave room for records that now rank above its record
+  const candidateCount = offset + limit * (after ? 2 : 1);
+  const [semantic, keyword] = await Promise.all([
+    store.semanticSearchPersonalData({
+      embedding: queryEmbedding,
+      model: embeddings.model,
+      categories,
+      tags,
+      classification,
+      limit: candidateCount
+    }),
+    mode === 'hybrid' ? keywordSearch(candidateCount, 0) : Promise.resolve({ data: [], error: null })
+  ]);
+
+  const error = semantic.error || keyword.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const ranked = mode === 'hybrid'
+    ? blendResults(query, keyword.data || [], semantic.data || [])
+    : rankBySimilarity(semantic.data || []);
+  const resumeAt = after ? ranked.findIndex((record) => record.id === after.id) + 1 : 0;
+  const start = resumeAt > 0 ? resumeAt : offset;
+  return { data: ranked.slice(start, start + limit), error: null };
+}
+
+// Embeds the active categories, so it is rebuilt when they change
+export function searchToolDescription(availableCategories: string[]): string {
+  return `Search for SPECIFIC datapoints, names, or details across all personal data using keyword, semantic or hybrid matching. Use when looking for a specific person, thing, or piece of information (e.g., "find John's email", "my passport number", "Docker info"). Returns ranked results with context snippets.
 
 WHEN TO USE:
 - Searching for specific person: "find John", "who is Sarah"
@@ -38,26 +101,48 @@ Args:
   - categories (string[], optional): Narrow search to specific active categories. Examples: ['contacts'], ['books', 'documents']
   - tags (string[], optional): Filter by tags. Use singular form. Examples: ['family'], ['work', 'urgent']
   - classification (enum, optional): Filter by sensitivity - 'public', 'personal', 'sensitive', or 'confidential'
+  - mode (enum, optional): 'keyword' (default) matches the exact terms in title and content. 'semantic' finds records with similar meaning even when the words differ ("what do I drive" → a record titled "Car"). 'hybrid' blends both rankings - use it when unsure
   - limit (number, optional): Max results. Range: 1-100, Default: 20
-  - userId (string, optional): User UUID for multi-user systems
+  - offset (number, optional): Pagination offset. Default: 0
+  - cursor (string, optional): next_cursor from the previous page. Prefer it over offset: pages neither skip nor repeat records when data changes in between. Must be used with the same query and filters
   - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
 
 Returns:
-  - For JSON format: Structured data with schema: {total, count, results[], has_more, next_offset}
-  - For Markdown format: Human-readable numbered list with categories, tags, content previews
+  - For JSON format: Structured data with schema: {total, count, results[], has_more, next_offset, next_cursor}
+  - For Markdown format: Human-readable numbered list with categories, tags, content previews, ending with the cursor for the next page when there is one
+  - next_cursor is null on the last page
   - Each result includes: id, title, category, tags, content, classification, created_at, updated_at
+  - Semantic and hybrid results also include a relevance score (0-1) and are ordered by it
 
 Examples:
   1. Find contact: { query: "John email", categories: ["contacts"], limit: 10 }
   2. Find book: { query: "Matt Ridley", categories: ["books", "favorite_authors"] }
   3. Cross-category: { query: "Docker", tags: ["learning"] }
   4. JSON output: { query: "address", response_format: "json" }
+  5. Meaning-based: { query: "where do I work", mode: "hybrid" }
+  6. Next page: { query: "Docker", cursor: "<next_cursor from the previous page>" }
 
 Error Handling:
   - No results: Returns "No results found matching '<query>'" with suggestions (try broader terms, check spelling, use datadam_extract_personal_data)
   - Database errors: Returns error message with connection troubleshooting guidance
-  - Invalid category: Request will be rejected during schema validation with error showing valid active categories`,
+  - Invalid cursor, or a cursor from a different query or filters: Returns error; start again without cursor
+  - Invalid category: Request will be rejected during schema validation with error showing valid active categories`;
+}
+
+export function registerSearchTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  availableCategories: string[],
+  embeddings: EmbeddingProvider | null
+): RegisteredTool {
+  return registerTool(
+    server,
+    "datadam_search_personal_data",
+    {
+      title: "Search Personal Data by Keyword",
+      description: searchToolDescription(availableCategories),
       inputSchema: SearchInputSchema,
+      outputSchema: SearchOutputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -65,7 +150,7 @@ Error Handling:
         openWorldHint: false
       }
     },
-    async ({ query, categories, tags, classification, limit = 20, offset = 0, userId, response_format = 'markdown' }) => {
+    async ({ query, categories, tags, classification, mode = 'keyword', limit = 20, offset = 0, cursor, response_format = 'markdown' }) => {
       try {
         // Remove surrounding quotes if present
         const cleanQuery = query.replace(/^["']|["']$/g, '').trim();
@@ -85,14 +170,52 @@ Error Handling:
           }
         }
 
-        const { data: results, error } = await supabase.rpc('search_personal_data', {
-          p_user_id: userId || null,
-          p_search_text: cleanQuery,
-          p_categories: (categories && categories.length > 0) ? categories : null,
-          p_tags: (tags && tags.length > 0) ? tags : null,
-          p_classification: classification || null,
-          p_limit: limit,
-          p_offset: offset
+        if (mode !== 'keyword' && !embeddings) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Semantic search is not enabled on this server (mode: ${mode})`,
+                "Use mode 'keyword', or set DATADAM_EMBEDDING_PROVIDER to enable semantic search",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const filters = {
+          query: cleanQuery,
+          categories: (categories && categories.length > 0) ? categories : null,
+          tags: (tags && tags.length > 0) ? tags : null,
+          classification: classification || null
+        };
+        const fingerprint = queryFingerprint({ tool: 'search', mode, ...filters });
+        let page: PageCursor | null = null;
+        if (cursor) {
+          try {
+            page = decodeCursor(cursor, fingerprint);
+          } catch (cursorError) {
+            return {
+              content: [{
+                type: "text",
+                text: formatErrorMessage(
+                  (cursorError as Error).message,
+                  "Start again without cursor, or pass the same query, filters and mode as the request that returned it",
+                  response_format
+                )
+              }],
+              isError: true
+            };
+          }
+        }
+        const position = page ? page.position : offset;
+
+        const { data: results, error } = await runSearch(store, embeddings, mode, {
+          ...filters,
+          limit,
+          offset: position,
+          after: page?.after || null
         });
 
         if (error) {
@@ -101,7 +224,7 @@ Error Handling:
               type: "text",
               text: formatErrorMessage(
                 `Database error: ${error.message}`,
-                "Check your database connection and ensure Supabase is configured correctly",
+                "Check your database connection and ensure the storage backend is configured correctly",
                 response_format
               )
             }],
@@ -119,7 +242,8 @@ Error Handling:
                 suggestion,
                 response_format
               )
-            }]
+            }],
+            structuredContent: toRecordList({ results: [], nextOffset: position, nextCursor: null })
           };
         }
 
@@ -128,17 +252,18 @@ Error Handling:
           results,
           CHARACTER_LIMIT,
           response_format,
-          offset,
+          position,
           results.length,
           results.length === limit,
-          offset + results.length,
-          { showIds: true }
+          position + results.length,
+          { showIds: true },
+          (included) => cursorAfter(included, position, fingerprint)
         );
 
         // Add search context to markdown format
         let finalText = truncationResult.text;
         if (response_format === 'markdown' && !truncationResult.wasTruncated) {
-          finalText = `Found ${results.length} items matching "${query}":\n\n${truncationResult.text}`;
+          finalText = `Found ${results.length} items matching "${query}"${mode === 'keyword' ? '' : ` (${mode} search)`}:\n\n${truncationResult.text}`;
         } else if (response_format === 'markdown' && truncationResult.wasTruncated) {
           // Truncation message already included in truncationResult.text
           finalText = `Found ${truncationResult.originalCount} items matching "${query}" (showing ${truncationResult.truncatedCount}):\n\n${truncationResult.text}`;
@@ -148,7 +273,8 @@ Error Handling:
           content: [{
             type: "text",
             text: finalText
-          }]
+          }],
+          structuredContent: truncationResult.structured
         };
       } catch (error) {
         return {
@@ -0,0 +1,117 @@
+// Unlock Confidential tool
+
+import { timingSafeEqual } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { AccessPolicy } from "../services/access-policy.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { UnlockInputSchema, UnlockOutputSchema } from "../schemas/index.js";
+
+function passphraseMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function registerUnlockTool(server: McpServer, policy: AccessPolicy): void {
+  registerTool(
+    server,
+    "datadam_unlock_confidential",
+    {
+      title: "Unlock Confidential Data",
+      description: `Reveal confidential records in this session for a limited time, or lock them again. Until unlocked, confidential records are ${policy.mode === 'hide' ? 'left out of results' : 'returned with their content masked (e.g. "••••1234") and marked redacted'}.
+
+TRIGGER KEYWORDS: "show my passport number", "unlock", "reveal the confidential data", "I need the full [X]", "lock my data again"
+
+WORKFLOW:
+1. A result is redacted (or the user asks for confidential data)
+2. Ask the user to confirm they want it revealed${process.env.DATADAM_UNLOCK_PASSPHRASE ? ' and for the unlock passphrase' : ''}
+3. Unlock, then repeat the search, extract or fetch
+4. Lock again once the user is done
+
+Args:
+  - action (string, optional): 'unlock' (default) or 'lock'
+  - passphrase (string, optional): Required when the server has an unlock passphrase configured${process.env.DATADAM_UNLOCK_PASSPHRASE ? ' (it has)' : ''}
+  - confirm (boolean, optional): Must be true when no passphrase is configured, after the user agreed
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "unlocked" | "locked", unlocked_until, message}
+  - For Markdown format: "✓ Confidential records are unlocked until {time}"
+
+Examples:
+  1. Unlock after the user agreed: { confirm: true }
+  2. Unlock with passphrase: { passphrase: "..." }
+  3. Lock again: { action: "lock" }
+
+Error Handling:
+  - Client not allowed confidential data: Returns error naming the client's maximum classification
+  - Missing or wrong passphrase / no confirmation: Returns error; nothing is unlocked
+  - Redacted content can't be written back: update the record only after unlocking and reading it again`,
+      inputSchema: UnlockInputSchema,
+      outputSchema: UnlockOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ action = 'unlock', passphrase, confirm = false, response_format = 'markdown' }) => {
+      if (action === 'lock') {
+        policy.lock();
+        const message = 'Confidential records are locked again.';
+        const summary = { success: true as const, operation: 'locked', unlocked_until: null, message };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json' ? JSON.stringify(summary, null, 2) : `✓ ${message}`
+          }],
+          structuredContent: summary
+        };
+      }
+
+      const expected = process.env.DATADAM_UNLOCK_PASSPHRASE;
+      if (expected ? !passphraseMatches(passphrase || '', expected) : !confirm) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              expected ? 'Incorrect or missing unlock passphrase.' : 'Unlocking confidential records needs the user\'s confirmation.',
+              expected ? 'Ask the user for the DataDam unlock passphrase.' : 'Ask the user whether to reveal confidential data, then call again with confirm: true.',
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+
+      try {
+        const until = policy.unlock();
+        const message = `Confidential records are unlocked until ${until.toISOString()}.`;
+        const summary = { success: true as const, operation: 'unlocked', unlocked_until: until.toISOString(), message };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : `✓ ${message} Repeat the search or extract to see them.`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              error instanceof Error ? error.message : 'Unlock failed',
+              "An administrator can raise this client's ceiling with DATADAM_MAX_CLASSIFICATION or DATADAM_CLIENT_MAX_CLASSIFICATION.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,158 @@
+// Update Category tool
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore, CategoryUpdates } from "../services/store.js";
+import { formatErrorMessage } from "../utils/formatting.js";
+import { UpdateCategoryInputSchema, UpdateCategoryOutputSchema } from "../schemas/index.js";
+
+export function registerUpdateCategoryTool(
+  server: McpServer,
+  store: PersonalDataStore,
+  refreshCategories: () => Promise<boolean>
+): void {
+  registerTool(
+    server,
+    "datadam_update_category",
+    {
+      title: "Update or Rename Category",
+      description: `Change a category's display name, description, trigger words, query hint or example queries, or rename it. Renaming moves every record of the category, including deleted ones and saved versions, to the new name. Categories are shared by every user of this server.
+
+TRIGGER KEYWORDS: "rename the [X] category", "call it [Y] instead", "change the description of [X]", "also use [X] for [Y]"
+
+WORKFLOW:
+1. Identify the category (see the available categories in datadam_extract_personal_data)
+2. Pass only the fields that change; lists replace the current list
+3. Confirm the change to the user
+
+Args:
+  - category (string, required): Current name of the category
+  - newName (string, optional): New name, lowercase snake_case
+  - displayName (string, optional): New human-readable name
+  - description (string, optional): New description
+  - triggerWords (string[], optional): Replaces the trigger words
+  - queryHint (string, optional): New query hint
+  - exampleQueries (string[], optional): Replaces the example queries
+  - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
+
+Returns:
+  - For JSON format: {success: true, operation: "updated", category, renamed_from?, message}
+  - For Markdown format: "✓ Updated category **{category}**"
+
+Examples:
+  1. Rename: { category: "cooking", newName: "recipes", displayName: "Recipes & Cooking" }
+  2. More trigger words: { category: "recipes", triggerWords: ["recipe", "cook", "bake", "dinner"] }
+
+Error Handling:
+  - Unknown category: Returns "Category not found: {category}"
+  - New name already taken: Returns error; merge the categories with datadam_merge_categories instead
+  - Nothing to change: Returns error listing the fields that can be updated
+  - Database errors: Returns error with troubleshooting guidance`,
+      inputSchema: UpdateCategoryInputSchema,
+      outputSchema: UpdateCategoryOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ category, newName, displayName, description, triggerWords, queryHint, exampleQueries, response_format = 'markdown' }) => {
+      try {
+        const updates: CategoryUpdates = {
+          ...(displayName !== undefined && { display_name: displayName }),
+          ...(description !== undefined && { description }),
+          ...(triggerWords !== undefined && { trigger_words: triggerWords }),
+          ...(queryHint !== undefined && { query_hint: queryHint }),
+          ...(exampleQueries !== undefined && { example_queries: exampleQueries })
+        };
+        const renaming = newName !== undefined && newName !== category;
+
+        if (Object.keys(updates).length === 0 && !renaming) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                "No changes given",
+                "Pass at least one of: newName, displayName, description, triggerWords, queryHint, exampleQueries.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        const { data: updated, error } = await store.updateCategory({
+          name: category,
+          updates,
+          newName: renaming ? newName : null
+        });
+
+        if (error) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Database error: ${error.message}`,
+                renaming
+                  ? `To combine "${category}" with an existing category, use datadam_merge_categories.`
+                  : "Check your database connection and verify the category name.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        if (!updated) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Category not found: ${category}`,
+                "Check the category name; use datadam_create_category to add a new one.",
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
+
+        // Renames and new descriptions change the category lists and tool descriptions
+        await refreshCategories();
+
+        const name = renaming ? newName : category;
+        const summary = {
+          success: true as const,
+          operation: 'updated',
+          category: name,
+          ...(renaming && { renamed_from: category }),
+          message: renaming ? `Renamed category "${category}" to "${name}"` : `Updated category "${name}"`
+        };
+        return {
+          content: [{
+            type: "text",
+            text: response_format === 'json'
+              ? JSON.stringify(summary, null, 2)
+              : renaming
+                ? `✓ Renamed category **${category}** to **${name}**; its records moved with it`
+                : `✓ Updated category **${name}**`
+          }],
+          structuredContent: summary
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: formatErrorMessage(
+              `Error updating category: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              "Please try again or contact support if the issue persists.",
+              response_format
+            )
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+}
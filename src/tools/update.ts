@@ -1,19 +1,24 @@
 // Update Personal Data tool
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { formatSuccessMessage, formatErrorMessage } from "../utils/formatting.js";
-import { UpdateInputSchema } from "../schemas/index.js";
+import { registerTool } from "../services/tool-calls.js";
+import type { PersonalDataStore } from "../services/store.js";
+import { formatSuccessMessage, formatErrorMessage, toSuccessResult } from "../utils/formatting.js";
+import { UpdateInputSchema, UpdateOutputSchema } from "../schemas/index.js";
+import { validateContent, describeContentSchema } from "../utils/content-schema.js";
+import type { ContentSchema } from "../types.js";
 
 export function registerUpdateTool(
   server: McpServer,
-  supabase: SupabaseClient
+  store: PersonalDataStore,
+  categorySchemas: Record<string, ContentSchema>
 ): void {
-  server.registerTool(
+  registerTool(
+    server,
     "datadam_update_personal_data",
     {
       title: "Update Existing Personal Data",
-      description: `Modify existing personal data records. Requires record UUID from previous search/extract. Use when user shares information that contradicts, corrects, or updates previously stored data.
+      description: `Modify existing personal data records. Requires record UUID from previous search/extract. Use when user shares information that contradicts, corrects, or updates previously stored data. The previous values are saved as a version; see datadam_get_record_history and datadam_revert_personal_data.
 
 TRIGGERS (indicating data should be updated):
 - Explicit update requests: "update [X]", "change [X]", "modify [X]", "edit [X]", "correct [X]", "fix [X]", "revise [X]"
@@ -38,8 +43,8 @@ EXAMPLES:
 
 Args:
   - recordId (string, required): UUID of record to update. Obtain from datadam_search_personal_data or datadam_extract_personal_data first
-  - updates (object, required): Fields to update. Only include changed fields. Can include: title, content, tags, category, classification
-  - conversationContext (string, optional): Conversation context for extracting updates
+  - updates (object, required): Fields to update. Only include changed fields. Can include: title, content, tags, category, classification. New content replaces the old content and must match the category's content schema (see datadam_create_personal_data or data://categories)
+  - conversationContext (string, optional): Why the record is changing (e.g. what the user said). Stored with the saved version and shown in the record history
   - response_format (string, optional): 'markdown' (default, human-readable) or 'json' (machine-readable)
 
 Returns:
@@ -55,10 +60,12 @@ Examples:
 
 Error Handling:
   - Record not found: Returns "Record not found or no changes made: {recordId}" with isError flag
+  - Content not matching the category schema: Returns the problems and the expected fields; nothing is changed
   - Database errors: Returns error with troubleshooting guidance
   - Invalid recordId format: Returns error indicating UUID format required
   - No changes: Returns error if updates object is empty or no fields changed`,
       inputSchema: UpdateInputSchema,
+      outputSchema: UpdateOutputSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -68,17 +75,25 @@ Error Handling:
     },
     async ({ recordId, updates, conversationContext, response_format = 'markdown' }) => {
       try {
-        // Debug logging
-        console.log('Update parameters:', {
-          recordId,
-          updates: JSON.stringify(updates, null, 2),
-          conversationContext
-        });
+        const invalid = await checkContentSchema(store, categorySchemas, recordId, updates);
+        if (invalid) {
+          return {
+            content: [{
+              type: "text",
+              text: formatErrorMessage(
+                `Content does not match the ${invalid.category} schema: ${invalid.problems.join('; ')}`,
+                `Expected fields for ${invalid.category}: ${describeContentSchema(invalid.schema)}`,
+                response_format
+              )
+            }],
+            isError: true
+          };
+        }
 
-        const { data: result, error } = await supabase.rpc('update_personal_data', {
-          p_record_id: recordId,
-          p_updates: updates,
-          p_conversation_context: conversationContext || null
+        const { data: result, error } = await store.updatePersonalData({
+          recordId,
+          updates,
+          conversationContext: conversationContext || null
         });
 
         console.log('Update result:', { result, error });
@@ -114,8 +129,9 @@ Error Handling:
         return {
           content: [{
             type: "text",
-            text: formatSuccessMessage('updated', result.title || recordId, result.category, response_format)
-          }]
+            text: formatSuccessMessage('updated', recordId, undefined, response_format)
+          }],
+          structuredContent: toSuccessResult('updated', recordId)
         };
       } catch (error) {
         return {
@@ -133,3 +149,39 @@ Error Handling:
     }
   );
 }
+
+// Validates the content the record will have after the update, when the
+// update touches content or category and that category has a schema
+async function checkContentSchema(
+  store: PersonalDataStore,
+  categorySchemas: Record<string, ContentSchema>,
+  recordId: string,
+  updates: Record<string, any>
+): Promise<{ category: string; schema: ContentSchema; problems: string[] } | null> {
+  if (!('content' in updates) && !('category' in updates)) {
+    return null;
+  }
+  if (Object.keys(categorySchemas).length === 0) {
+    return null;
+  }
+
+  let category: string | undefined = updates.category;
+  let content: Record<string, any> | undefined = updates.content;
+  if (category === undefined || content === undefined) {
+    const { data: records } = await store.getPersonalData({ recordIds: [recordId] });
+    const current = records?.[0];
+    // Missing records are reported by the update itself
+    if (!current) {
+      return null;
+    }
+    category ??= current.category;
+    content ??= current.content;
+  }
+
+  const schema = categorySchemas[category as string];
+  if (!schema) {
+    return null;
+  }
+  const problems = validateContent(content || {}, schema);
+  return problems.length > 0 ? { category: category as string, schema, problems } : null;
+}
@@ -2,7 +2,7 @@
 
 export interface PersonalDataRecord {
   id: string;
-  user_id: string;
+  user_id: string | null;
   title: string;
   content: any;
   tags: string[];
@@ -10,6 +10,80 @@ export interface PersonalDataRecord {
   classification: string;
   created_at: string;
   updated_at: string;
+  // Set when the content was masked because the session may not see this classification
+  redacted?: boolean;
+}
+
+// A record ranked by semantic search; similarity is cosine similarity in [-1, 1]
+export interface ScoredPersonalDataRecord extends PersonalDataRecord {
+  similarity: number;
+}
+
+// A soft-deleted record, as returned when listing the trash
+export interface DeletedPersonalDataRecord extends PersonalDataRecord {
+  deleted_at: string;
+}
+
+// A live record without its content or tags, as listed by resources/list
+export interface RecordSummary {
+  id: string;
+  title: string;
+  category: string;
+  classification: string;
+}
+
+// A record in a full export; deleted_at is set for soft-deleted records
+export interface ExportedPersonalDataRecord extends PersonalDataRecord {
+  deleted_at: string | null;
+}
+
+// Content as stored, of a record (version null) or of one of its saved versions
+export interface StoredContent {
+  record_id: string;
+  version: number | null;
+  classification: string;
+  content: Record<string, any>;
+}
+
+// One tool invocation, as written to the audit log
+export interface AuditEvent {
+  session_id: string | null;
+  user_id: string | null;
+  // API key name (directly or via OAuth) the session was opened with
+  principal: string;
+  endpoint: 'mcp' | 'chatgpt';
+  // Tool, resource or prompt name, or the method and path of an HTTP route
+  tool: string;
+  record_ids: string[];
+  // Classifications of the records whose content the call returned or wrote
+  classifications: string[];
+  outcome: 'success' | 'error';
+  error: string | null;
+  duration_ms: number;
+}
+
+export interface AuditEntry extends AuditEvent {
+  id: string;
+  created_at: string;
+}
+
+// State of a record before one of its updates
+export interface RecordVersion {
+  record_id: string;
+  // 1 for the original record, incremented on every update
+  version: number;
+  title: string;
+  content: any;
+  tags: string[];
+  category: string;
+  classification: string;
+  // Conversation context passed with the update that replaced this version
+  conversation_context: string | null;
+  // When this version was replaced
+  created_at: string;
+  redacted?: boolean;
+  // Set on placeholders for versions above a hide-mode session's classification
+  hidden?: boolean;
 }
 
 export interface Category {
@@ -22,3 +96,83 @@ export interface Category {
   example_queries: string[];
   last_modified: string;
 }
+
+// JSON Schema subset describing one content field
+export interface ContentFieldSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: (string | number)[];
+  format?: 'email' | 'uri' | 'date';
+  // Schema for each element when type is 'array'
+  items?: ContentFieldSchema;
+}
+
+// JSON Schema subset for a category's record content, stored in
+// category_registry.content_schema
+export interface ContentSchema {
+  type?: 'object';
+  properties: Record<string, ContentFieldSchema>;
+  required?: string[];
+  // Defaults to true, as in JSON Schema
+  additionalProperties?: boolean;
+}
+
+// Conditions on one content field, all of which must hold. Strings compare
+// case-insensitively for eq and contains; ranges compare numbers with numbers
+// and strings (such as ISO dates) with strings.
+export interface ContentFieldFilter {
+  eq?: string | number | boolean;
+  contains?: string;
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+  exists?: boolean;
+}
+
+// ISO 8601 bounds; from is inclusive, to exclusive
+export interface TimeWindow {
+  from?: string;
+  to?: string;
+}
+
+export type RecordSortField = 'updated_at' | 'created_at' | 'title';
+
+// Filters of datadam_extract_personal_data, applied by every store
+export interface RecordFilters {
+  // Keyed by content field; nested fields use dots, e.g. "address.city"
+  content?: Record<string, ContentFieldFilter>;
+  created?: TimeWindow;
+  updated?: TimeWindow;
+  tags?: {
+    any?: string[];
+    all?: string[];
+    none?: string[];
+  };
+  // Defaults to updated_at descending
+  sort?: {
+    field: RecordSortField;
+    direction: 'asc' | 'desc';
+  };
+}
+
+export interface CategoryStats {
+  total_categories: number;
+  active_categories: number;
+  total_items: number;
+  categories_json?: any;
+}
+
+export interface ChatGptSearchResult {
+  id: string;
+  title: string;
+  url: string;
+}
+
+export interface ChatGptDocument {
+  id: string;
+  title: string;
+  text: string;
+  url: string;
+  metadata: Record<string, any>;
+}
@@ -1,4 +1,4 @@
-import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PersonalDataStore } from "./services/store.js";
 
 interface Category {
   category_name: string;
@@ -11,9 +11,9 @@ interface Category {
   last_modified: string;
 }
 
-export async function generateUsageGuideHtml(supabase: SupabaseClient): Promise<string> {
+export async function generateUsageGuideHtml(store: PersonalDataStore): Promise<string> {
   // Fetch active categories dynamically
-  const { data: categories, error } = await supabase.rpc('get_active_categories');
+  const { data: categories, error } = await store.getActiveCategories();
   const categoriesHtml = categories && categories.length > 0
     ? categories.map((cat: Category) => `
         <div class="category-card">
@@ -292,7 +292,7 @@ Protocol: MCP over HTTP</code></pre>
             <li><code>limit</code> (optional): Results per page (default: 50)</li>
             <li><code>offset</code> (optional): Pagination offset</li>
             <li><code>userId</code> (optional): User UUID</li>
-            <li><code>filters</code> (optional): Additional filters</li>
+            <li><code>filters</code> (optional): Content field conditions (<code>eq</code>, <code>contains</code>, <code>gt</code>/<code>gte</code>/<code>lt</code>/<code>lte</code>, <code>exists</code>), <code>created</code>/<code>updated</code> windows, <code>tags</code> any/all/none and <code>sort</code></li>
           </ul>
           <p><strong>Example:</strong> Extract category "contacts" with tags ["family"]</p>
         </div>
@@ -0,0 +1,113 @@
+// Validation of record content against per-category content schemas
+
+import type { ContentSchema, ContentFieldSchema } from "../types.js";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "E-mail", "Email" and "email" all reduce to "email"
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: ContentFieldSchema['type']): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function validateField(path: string, value: unknown, field: ContentFieldSchema, errors: string[]): void {
+  if (field.type && !matchesType(value, field.type)) {
+    errors.push(`'${path}' must be ${field.type === 'integer' || field.type === 'array' || field.type === 'object' ? 'an' : 'a'} ${field.type}, got ${typeOf(value)}`);
+    return;
+  }
+
+  if (field.enum && !field.enum.includes(value as string | number)) {
+    errors.push(`'${path}' must be one of: ${field.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (field.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      errors.push(`'${path}' must be an email address`);
+    } else if (field.format === 'date' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      errors.push(`'${path}' must be a date in YYYY-MM-DD format`);
+    } else if (field.format === 'uri' && !URL.canParse(value)) {
+      errors.push(`'${path}' must be a URL`);
+    }
+  }
+
+  if (Array.isArray(value) && field.items) {
+    value.forEach((item, i) => validateField(`${path}[${i}]`, item, field.items!, errors));
+  }
+}
+
+/**
+ * Checks content against a category's schema. Returns one message per
+ * problem; an empty list means the content is valid. Besides the usual JSON
+ * Schema checks, keys that only differ from a declared field in case or
+ * punctuation ("Email", "e-mail") are rejected so each field has one spelling.
+ */
+export function validateContent(content: Record<string, any>, schema: ContentSchema): string[] {
+  const errors: string[] = [];
+  const properties = schema.properties || {};
+  const declared = new Map(Object.keys(properties).map((key) => [normalizeKey(key), key]));
+
+  for (const key of schema.required || []) {
+    if (content[key] === undefined || content[key] === null || content[key] === '') {
+      errors.push(`'${key}' is required`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(content)) {
+    const field = properties[key];
+    if (field) {
+      if (value !== null && value !== undefined) {
+        validateField(key, value, field, errors);
+      }
+      continue;
+    }
+
+    const canonical = declared.get(normalizeKey(key));
+    if (canonical) {
+      errors.push(`use '${canonical}' instead of '${key}'`);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`'${key}' is not an allowed field`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * One-line summary of a schema's fields for tool descriptions and resources,
+ * e.g. "name (required), email (email), status (one of: reading, read)"
+ */
+export function describeContentSchema(schema: ContentSchema): string {
+  const required = new Set(schema.required || []);
+  const fields = Object.entries(schema.properties || {}).map(([key, field]) => {
+    const notes: string[] = [];
+    if (required.has(key)) notes.push('required');
+    if (field.enum) {
+      notes.push(`one of: ${field.enum.join(', ')}`);
+    } else if (field.format) {
+      notes.push(field.format);
+    } else if (field.type && field.type !== 'string') {
+      notes.push(field.type === 'array' && field.items?.type ? `${field.items.type}[]` : field.type);
+    }
+    return notes.length > 0 ? `${key} (${notes.join(', ')})` : key;
+  });
+
+  if (schema.additionalProperties === false) {
+    fields.push('no other fields');
+  }
+  return fields.join(', ');
+}
@@ -0,0 +1,82 @@
+// Opaque pagination cursors for search and extract
+
+import { createHash } from "node:crypto";
+import type { PageKey } from "../services/store.js";
+
+/**
+ * What a cursor encodes. Clients only see it base64url-encoded and must pass
+ * it back unchanged.
+ */
+export interface PageCursor {
+  // Hash of the query and filters the cursor was issued for
+  fingerprint: string;
+  // Sort key of the last record returned. Keyword search and extract resume
+  // strictly after it; ranked search resumes after the record with its id.
+  after?: PageKey;
+  // Records returned so far, the fallback when the last record is gone
+  position: number;
+}
+
+// Object keys are sorted so the same query always hashes the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function queryFingerprint(query: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(query)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor and checks it was issued for the same query. Throws when
+ * the cursor is malformed or belongs to a different query.
+ */
+export function decodeCursor(token: string, fingerprint: string): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  const validKey = cursor?.after === undefined ||
+    (typeof cursor.after?.updated_at === 'string' && typeof cursor.after?.id === 'string');
+  if (typeof cursor?.fingerprint !== 'string' || !Number.isInteger(cursor.position) || cursor.position < 0 || !validKey) {
+    throw new Error('Invalid cursor');
+  }
+  if (cursor.fingerprint !== fingerprint) {
+    throw new Error('Cursor was issued for a different query or filters');
+  }
+  return cursor;
+}
+
+/**
+ * Cursor that resumes after the last of the given records, which follow
+ * `position` records already returned. Without keyset, as for results not in
+ * updated_at order, it resumes by position only.
+ */
+export function cursorAfter(
+  records: { id: string; updated_at?: string }[],
+  position: number,
+  fingerprint: string,
+  keyset = true
+): string {
+  const last = records[records.length - 1];
+  return encodeCursor({
+    fingerprint,
+    ...(keyset && last?.updated_at && { after: { updated_at: last.updated_at, id: last.id } }),
+    position: position + records.length
+  });
+}
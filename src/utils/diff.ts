@@ -0,0 +1,94 @@
+// Field-level diffs between two states of a record
+
+export interface RecordSnapshot {
+  title: string;
+  content: any;
+  tags: string[];
+  category: string;
+  classification: string;
+}
+
+export interface FieldChange {
+  // Dotted path, e.g. 'content.address.city', 'tags' or 'classification'
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Recurses into nested objects; arrays and scalars are compared as a whole
+function diffValues(path: string, before: unknown, after: unknown, changes: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      const childPath = `${path}.${key}`;
+      if (!(key in before)) {
+        changes.push({ field: childPath, change: 'added', after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ field: childPath, change: 'removed', before: before[key] });
+      } else {
+        diffValues(childPath, before[key], after[key], changes);
+      }
+    }
+    return;
+  }
+
+  if (!sameValue(before, after)) {
+    changes.push({ field: path, change: 'changed', before, after });
+  }
+}
+
+/**
+ * Lists what changed between two states of a record. Content is diffed key by
+ * key, tags as individual additions and removals.
+ */
+export function diffRecords(before: RecordSnapshot, after: RecordSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of ['title', 'category', 'classification'] as const) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, change: 'changed', before: before[field], after: after[field] });
+    }
+  }
+
+  diffValues('content', before.content ?? {}, after.content ?? {}, changes);
+
+  const beforeTags = before.tags || [];
+  const afterTags = after.tags || [];
+  for (const tag of afterTags.filter((t) => !beforeTags.includes(t))) {
+    changes.push({ field: 'tags', change: 'added', after: tag });
+  }
+  for (const tag of beforeTags.filter((t) => !afterTags.includes(t))) {
+    changes.push({ field: 'tags', change: 'removed', before: tag });
+  }
+
+  return changes;
+}
+
+/**
+ * Formats changes as a Markdown bullet list
+ */
+export function formatChangesMarkdown(changes: FieldChange[]): string {
+  if (changes.length === 0) {
+    return "- No field changes\n";
+  }
+
+  return changes.map((c) => {
+    switch (c.change) {
+      case 'added':
+        return `- \`${c.field}\` added: ${JSON.stringify(c.after)}\n`;
+      case 'removed':
+        return `- \`${c.field}\` removed: ${JSON.stringify(c.before)}\n`;
+      default:
+        return `- \`${c.field}\`: ${JSON.stringify(c.before)} → ${JSON.stringify(c.after)}\n`;
+    }
+  }).join('');
+}
@@ -0,0 +1,187 @@
+// Duplicate detection and merging of personal data records
+
+import type { PersonalDataRecord } from "../types.js";
+import { CLASSIFICATION_LEVELS } from "../constants.js";
+
+// Records per category compared against when checking a new record for duplicates
+export const DUPLICATE_SCAN_LIMIT = 200;
+
+// Content keys whose values identify an entity on their own
+const IDENTIFYING_KEYS = ['email', 'phone', 'mobile', 'url', 'website', 'isbn', 'username', 'handle', 'linkedin', 'github'];
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  // Human-readable reasons, e.g. 'same title', 'same email'
+  reasons: string[];
+}
+
+export interface MergeResult {
+  title: string;
+  content: Record<string, any>;
+  tags: string[];
+  classification: string;
+  // Content keys present in both records with different values
+  conflicts: { field: string; kept: unknown; discarded: unknown }[];
+}
+
+/**
+ * Lowercases, strips punctuation and collapses whitespace, so "John Smith -
+ * Work Contact" and "john smith – work contact" compare equal
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// The part before a " - " qualifier, e.g. "john smith" for "John Smith - Work Contact"
+function titleSubject(title: string): { subject: string; qualified: boolean } {
+  const [subject, ...qualifier] = title.split(/\s[-–—]\s/);
+  return { subject: normalizeTitle(subject), qualified: qualifier.length > 0 };
+}
+
+/**
+ * The subject two titles share when one is the other without its qualifier,
+ * as "John Smith" and "John Smith - Work Contact". When both are qualified the
+ * qualifier is what tells them apart ("Team Meeting - 2025-01-03"), and labels
+ * before a colon ("Book: Dune") are never split off. One-word subjects such as
+ * "Meeting" are too generic to count.
+ */
+function sharedSubject(a: string, b: string): string | null {
+  const first = titleSubject(a);
+  const second = titleSubject(b);
+  if (first.qualified === second.qualified || first.subject !== second.subject) {
+    return null;
+  }
+  return first.subject.split(' ').length >= 2 ? first.subject : null;
+}
+
+function normalizeValue(key: string, value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const text = String(value).trim().toLowerCase();
+  if (key.includes('phone') || key === 'mobile') {
+    const digits = text.replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : null;
+  }
+  if (key === 'url' || key === 'website' || key === 'linkedin' || key === 'github') {
+    return text.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+  }
+  return text || null;
+}
+
+function identifyingValues(content: Record<string, any> | null | undefined): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const [key, value] of Object.entries(content || {})) {
+    const lowered = key.toLowerCase();
+    if (!IDENTIFYING_KEYS.some((id) => lowered === id || lowered.endsWith(`_${id}`))) {
+      continue;
+    }
+    const normalized = normalizeValue(lowered, value);
+    if (normalized) {
+      values.set(lowered, normalized);
+    }
+  }
+  return values;
+}
+
+/**
+ * Finds existing records that likely describe the same entity as a new one:
+ * same normalized title, the same title but for a qualifier, or a shared identifying value
+ * such as an email address or phone number.
+ */
+export function findDuplicateCandidates(
+  candidate: { title: string; content: Record<string, any> },
+  existing: PersonalDataRecord[]
+): DuplicateCandidate[] {
+  const title = normalizeTitle(candidate.title);
+  const identifiers = identifyingValues(candidate.content);
+
+  const matches: DuplicateCandidate[] = [];
+  for (const record of existing) {
+    const reasons: string[] = [];
+
+    const subject = sharedSubject(candidate.title, record.title);
+    if (normalizeTitle(record.title) === title) {
+      reasons.push('same title');
+    } else if (subject) {
+      reasons.push(`same subject "${subject}"`);
+    }
+
+    for (const [key, value] of identifyingValues(record.content)) {
+      if (identifiers.get(key) === value) {
+        reasons.push(`same ${key}`);
+      }
+    }
+
+    if (reasons.length > 0) {
+      matches.push({ id: record.id, title: record.title, reasons });
+    }
+  }
+
+  // Strongest evidence first
+  return matches.sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeContent(
+  kept: Record<string, any>,
+  other: Record<string, any>,
+  path: string,
+  conflicts: MergeResult['conflicts']
+): Record<string, any> {
+  const merged: Record<string, any> = { ...kept };
+
+  for (const [key, value] of Object.entries(other)) {
+    const field = path ? `${path}.${key}` : key;
+    if (!(key in merged)) {
+      merged[key] = value;
+    } else if (isPlainObject(merged[key]) && isPlainObject(value)) {
+      merged[key] = mergeContent(merged[key], value, field, conflicts);
+    } else if (Array.isArray(merged[key]) && Array.isArray(value)) {
+      const seen = new Set(merged[key].map((item: unknown) => JSON.stringify(item)));
+      merged[key] = [...merged[key], ...value.filter((item) => !seen.has(JSON.stringify(item)))];
+    } else if (JSON.stringify(merged[key]) !== JSON.stringify(value)) {
+      conflicts.push({ field, kept: merged[key], discarded: value });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merges the duplicate into the record being kept. Content is merged key by
+ * key (nested objects recursively, arrays as a union); on conflicting values
+ * the kept record wins unless preferDuplicate is set. Tags are combined and
+ * the stricter classification is used.
+ */
+export function mergeRecords(
+  keep: PersonalDataRecord,
+  duplicate: PersonalDataRecord,
+  preferDuplicate: boolean = false
+): MergeResult {
+  const conflicts: MergeResult['conflicts'] = [];
+  const [winner, loser] = preferDuplicate ? [duplicate, keep] : [keep, duplicate];
+  const content = mergeContent(winner.content || {}, loser.content || {}, '', conflicts);
+
+  const rank = (classification: string) => CLASSIFICATION_LEVELS.indexOf(classification as typeof CLASSIFICATION_LEVELS[number]);
+  const classification = rank(duplicate.classification) > rank(keep.classification)
+    ? duplicate.classification
+    : keep.classification;
+
+  return {
+    title: keep.title,
+    content,
+    tags: [...new Set([...(keep.tags || []), ...(duplicate.tags || [])])],
+    classification,
+    conflicts
+  };
+}
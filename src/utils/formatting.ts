@@ -2,7 +2,7 @@
 
 export interface PersonalDataRecord {
   id: string;
-  user_id?: string;
+  user_id?: string | null;
   title: string;
   content: any;
   tags?: string[];
@@ -10,6 +10,16 @@ export interface PersonalDataRecord {
   classification: string;
   created_at: string;
   updated_at?: string;
+  // Relevance from semantic or hybrid search, 0-1
+  score?: number;
+  // Content values are masked; the session has not unlocked this classification
+  redacted?: boolean;
+}
+
+export interface DeletedRecord extends PersonalDataRecord {
+  deleted_at: string;
+  // When the retention policy will permanently remove the record; null if never
+  purge_after?: string | null;
 }
 
 export interface FormattingOptions {
@@ -48,6 +58,14 @@ export function formatAsMarkdown(
       output += `- **ID**: \`${record.id}\`\n`;
     }
 
+    if (record.score !== undefined) {
+      output += `- **Relevance**: ${record.score}\n`;
+    }
+
+    if (record.redacted) {
+      output += `- **Redacted**: ${record.classification} content is hidden in this session${record.classification === 'confidential' ? ' (unlock with datadam_unlock_confidential)' : ''}\n`;
+    }
+
     // Format content
     const contentStr = JSON.stringify(record.content, null, 2);
     if (contentStr.length > maxContentLength) {
@@ -66,29 +84,77 @@ export function formatAsMarkdown(
   return output;
 }
 
-/**
- * Formats data as structured JSON for machine readability
- */
-export function formatAsJSON(data: {
+export interface RecordListOptions {
   results: PersonalDataRecord[];
   total?: number;
   count?: number;
   hasMore?: boolean;
   nextOffset?: number;
+  nextCursor?: string | null;
   truncated?: boolean;
   truncationMessage?: string;
-}): string {
-  return JSON.stringify({
+}
+
+// A page of records as returned in JSON responses and structuredContent. A
+// type alias rather than an interface, so it fits structuredContent's index signature
+export type RecordList = {
+  total: number;
+  count: number;
+  results: PersonalDataRecord[];
+  has_more: boolean;
+  next_offset: number;
+  next_cursor?: string | null;
+  truncated?: boolean;
+  truncation_message?: string;
+};
+
+/**
+ * Builds the structured form of a page of records
+ */
+export function toRecordList(data: RecordListOptions): RecordList {
+  return {
     total: data.total || data.results.length,
     count: data.count || data.results.length,
     results: data.results,
     has_more: data.hasMore || false,
     next_offset: data.nextOffset || 0,
+    ...(data.nextCursor !== undefined && { next_cursor: data.nextCursor }),
     ...(data.truncated && {
       truncated: true,
       truncation_message: data.truncationMessage
     })
-  }, null, 2);
+  };
+}
+
+/**
+ * Formats soft-deleted records as Markdown, including when each was deleted
+ * and when it will be purged
+ */
+export function formatDeletedRecordsMarkdown(records: DeletedRecord[]): string {
+  if (!records || records.length === 0) {
+    return "No deleted records found.";
+  }
+
+  let output = `# Deleted Records\n\nFound ${records.length} deleted record(s)\n\n`;
+
+  records.forEach((record, index) => {
+    output += `## ${index + 1}. ${record.title}\n\n`;
+    output += `- **Category**: ${record.category}\n`;
+
+    if (record.tags && record.tags.length > 0) {
+      output += `- **Tags**: ${record.tags.join(', ')}\n`;
+    }
+
+    output += `- **ID**: \`${record.id}\`\n`;
+    output += `- **Deleted**: ${formatTimestamp(record.deleted_at)}\n`;
+    output += record.purge_after
+      ? `- **Permanently removed after**: ${formatTimestamp(record.purge_after)}\n`
+      : `- **Permanently removed after**: never (retention disabled)\n`;
+
+    output += `\n---\n\n`;
+  });
+
+  return output;
 }
 
 /**
@@ -131,6 +197,23 @@ export function formatTimestamp(timestamp: string): string {
   });
 }
 
+/**
+ * Builds the JSON form of a success message, also used as structuredContent
+ */
+export function toSuccessResult(
+  operation: 'created' | 'updated' | 'deleted',
+  title: string,
+  category?: string
+) {
+  return {
+    success: true as const,
+    operation,
+    title,
+    ...(category && { category }),
+    message: `Successfully ${operation} record: "${title}"${category ? ` in category "${category}"` : ''}`
+  };
+}
+
 /**
  * Formats a success message for create/update/delete operations
  */
@@ -141,13 +224,7 @@ export function formatSuccessMessage(
   responseFormat: 'json' | 'markdown' = 'markdown'
 ): string {
   if (responseFormat === 'json') {
-    return JSON.stringify({
-      success: true,
-      operation,
-      title,
-      ...(category && { category }),
-      message: `Successfully ${operation} record: "${title}"${category ? ` in category "${category}"` : ''}`
-    }, null, 2);
+    return JSON.stringify(toSuccessResult(operation, title, category), null, 2);
   }
 
   return `✓ Successfully ${operation} record: **${title}**${category ? ` in category **${category}**` : ''}`;
@@ -178,16 +255,30 @@ export function formatErrorMessage(
 
 export interface TruncationResult {
   text: string;
+  // The records that fit, for structuredContent, whatever the response format
+  structured: RecordList;
   wasTruncated: boolean;
   originalCount: number;
   truncatedCount: number;
   totalCount?: number;
   hasMore?: boolean;
   nextOffset?: number;
+  nextCursor?: string | null;
+}
+
+// Builds the cursor that resumes after the last of the records included in a
+// response
+export type NextCursorBuilder = (included: PersonalDataRecord[]) => string;
+
+// Tells the reader how to get the next page, by cursor when the tool issues one
+function continuationHint(offset: number, cursor: string | null | undefined): string {
+  return cursor ? `cursor: "${cursor}"` : `offset=${offset}`;
 }
 
 /**
- * Checks if response exceeds character limit and truncates if necessary
+ * Checks if response exceeds character limit and truncates if necessary. When
+ * nextCursor is given, the response carries a next_cursor that resumes right
+ * after the last record that fit.
  */
 export function checkAndTruncateResponse(
   results: PersonalDataRecord[],
@@ -197,34 +288,45 @@ export function checkAndTruncateResponse(
   total?: number,
   hasMore?: boolean,
   nextOffset?: number,
-  formatOptions?: FormattingOptions
+  formatOptions?: FormattingOptions,
+  nextCursor?: NextCursorBuilder
 ): TruncationResult {
   const originalCount = results.length;
+  const cursorAfter = (included: PersonalDataRecord[], more: boolean) =>
+    nextCursor ? (more ? nextCursor(included) : null) : undefined;
 
   // First try with all results
+  let cursor = cursorAfter(results, hasMore || false);
+  let structured = toRecordList({
+    results: results,
+    total: total || results.length,
+    count: results.length,
+    hasMore: hasMore || false,
+    nextOffset: nextOffset || 0,
+    nextCursor: cursor
+  });
   let responseText: string;
   if (responseFormat === 'json') {
-    responseText = formatAsJSON({
-      results: results,
-      total: total || results.length,
-      count: results.length,
-      hasMore: hasMore || false,
-      nextOffset: nextOffset || 0
-    });
+    responseText = JSON.stringify(structured, null, 2);
   } else {
     responseText = formatAsMarkdown(results, formatOptions);
+    if (cursor) {
+      responseText += `\n\n💡 **More results**: call again with ${continuationHint(nextOffset || 0, cursor)}`;
+    }
   }
 
   // If within limit, return as-is
   if (responseText.length <= characterLimit) {
     return {
       text: responseText,
+      structured,
       wasTruncated: false,
       originalCount,
       truncatedCount: originalCount,
       totalCount: total,
       hasMore,
-      nextOffset
+      nextOffset,
+      nextCursor: cursor
     };
   }
 
@@ -236,30 +338,35 @@ export function checkAndTruncateResponse(
   while (truncatedCount > 1 && responseText.length > characterLimit) {
     truncatedCount = Math.max(1, Math.floor(truncatedCount / 2));
     truncatedResults = results.slice(0, truncatedCount);
+    cursor = cursorAfter(truncatedResults, true);
+    structured = toRecordList({
+      results: truncatedResults,
+      total: total || results.length,
+      count: truncatedCount,
+      hasMore: true,
+      nextOffset: offset + truncatedCount,
+      nextCursor: cursor,
+      truncated: true,
+      truncationMessage: `Response truncated from ${originalCount} to ${truncatedCount} records due to ${characterLimit} character limit. ${cursor ? 'Pass next_cursor as \'cursor\'' : `Use 'offset=${offset + truncatedCount}'`}, add filters, or narrow categories to see more.`
+    });
 
     if (responseFormat === 'json') {
-      responseText = formatAsJSON({
-        results: truncatedResults,
-        total: total || results.length,
-        count: truncatedCount,
-        hasMore: true,
-        nextOffset: offset + truncatedCount,
-        truncated: true,
-        truncationMessage: `Response truncated from ${originalCount} to ${truncatedCount} records due to ${characterLimit} character limit. Use 'offset=${offset + truncatedCount}', add filters, or narrow categories to see more.`
-      });
+      responseText = JSON.stringify(structured, null, 2);
     } else {
       const markdownResults = formatAsMarkdown(truncatedResults, formatOptions);
-      responseText = `${markdownResults}\n\n⚠️ **Response Truncated**: Showing ${truncatedCount}/${originalCount} records (reduced due to ${characterLimit} char limit). Use offset=${offset + truncatedCount}, add filters, or narrow your search to see more.`;
+      responseText = `${markdownResults}\n\n⚠️ **Response Truncated**: Showing ${truncatedCount}/${originalCount} records (reduced due to ${characterLimit} char limit). Continue with ${continuationHint(offset + truncatedCount, cursor)}, add filters, or narrow your search to see more.`;
     }
   }
 
   return {
     text: responseText,
+    structured,
     wasTruncated: true,
     originalCount,
     truncatedCount,
     totalCount: total,
     hasMore: true,
-    nextOffset: offset + truncatedCount
+    nextOffset: offset + truncatedCount,
+    nextCursor: cursor
   };
 }
@@ -0,0 +1,208 @@
+// Parsers for bulk import files: CSV, JSON arrays and vCard
+
+export type ImportFormat = 'csv' | 'json' | 'vcard';
+
+// One parsed row before it is mapped to a record
+export type ImportRow = Record<string, any>;
+
+/**
+ * Parses RFC 4180 CSV with a header row. Quoted fields may contain commas,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): ImportRow[] {
+  const lines: string[][] = [];
+  let field = '';
+  let line: string[] = [];
+  let quoted = false;
+
+  const input = text.replace(/^﻿/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      line.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line.push(field);
+      lines.push(line);
+      field = '';
+      line = [];
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || line.length > 0) {
+    line.push(field);
+    lines.push(line);
+  }
+
+  const nonEmpty = lines.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const header = nonEmpty[0].map((name) => name.trim());
+  return nonEmpty.slice(1).map((cells) => {
+    const row: ImportRow = {};
+    header.forEach((name, i) => {
+      if (name) row[name] = (cells[i] ?? '').trim();
+    });
+    return row;
+  });
+}
+
+// Accepts a JSON array of objects, or an object wrapping one in "records"
+export function parseJsonRecords(text: string): ImportRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : (parsed && typeof parsed === 'object' && Array.isArray((parsed as any).records) ? (parsed as any).records : null);
+  if (!rows) {
+    throw new Error('Expected a JSON array of records, or an object with a "records" array');
+  }
+  return rows.map((row: unknown) => (row && typeof row === 'object' && !Array.isArray(row) ? row as ImportRow : { value: row }));
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([,;\\nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Splits on separators that are not escaped with a backslash, then unescapes each part
+function splitVCard(value: string, separator: ';' | ','): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map(unescapeVCard);
+}
+
+// 19900214 or 1990-02-14 (optionally with a time) to 1990-02-14
+function vCardDate(value: string): string {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
+
+function addValue(row: ImportRow, key: string, value: string): void {
+  if (!value) return;
+  if (row[key] === undefined) {
+    row[key] = value;
+  } else {
+    // Extra emails and phones go to a plural list, keeping the first as the main one
+    const plural = `${key}s`;
+    row[plural] = [...(row[plural] || [row[key]]), value];
+  }
+}
+
+/**
+ * Parses vCard 2.1-4.0 contacts into rows with contact content keys: name,
+ * email, phone, company, job_title, birthday, address, url and note.
+ * CATEGORIES become tags.
+ */
+export function parseVCard(text: string): ImportRow[] {
+  // Folded lines continue with a leading space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const rows: ImportRow[] = [];
+  let current: ImportRow | null = null;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      current = {};
+      continue;
+    }
+    if (upper === 'END:VCARD') {
+      if (current) rows.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // Drop parameters (TYPE=work) and group prefixes (item1.EMAIL)
+    const property = line.slice(0, colon).split(';')[0].split('.').pop()!.toUpperCase();
+    const value = line.slice(colon + 1);
+
+    switch (property) {
+      case 'FN':
+        current.name = unescapeVCard(value);
+        break;
+      case 'N':
+        if (!current.name) {
+          const [family, given] = splitVCard(value, ';');
+          current.name = [given, family].filter(Boolean).join(' ');
+        }
+        break;
+      case 'EMAIL':
+        addValue(current, 'email', unescapeVCard(value));
+        break;
+      case 'TEL':
+        addValue(current, 'phone', unescapeVCard(value.replace(/^tel:/i, '')));
+        break;
+      case 'ORG':
+        current.company = splitVCard(value, ';').filter(Boolean).join(', ');
+        break;
+      case 'TITLE':
+        current.job_title = unescapeVCard(value);
+        break;
+      case 'BDAY':
+        current.birthday = vCardDate(value);
+        break;
+      case 'ADR':
+        addValue(current, 'address', splitVCard(value, ';').filter(Boolean).join(', '));
+        break;
+      case 'URL':
+        addValue(current, 'url', unescapeVCard(value));
+        break;
+      case 'NOTE':
+        current.note = unescapeVCard(value);
+        break;
+      case 'CATEGORIES':
+        current.tags = splitVCard(value, ',').map((tag) => tag.trim()).filter(Boolean);
+        break;
+    }
+  }
+
+  return rows;
+}
+
+export function parseImportFile(format: ImportFormat, text: string): ImportRow[] {
+  switch (format) {
+    case 'csv':
+      return parseCsv(text);
+    case 'json':
+      return parseJsonRecords(text);
+    case 'vcard':
+      return parseVCard(text);
+  }
+}
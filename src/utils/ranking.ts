@@ -0,0 +1,73 @@
+// Relevance scoring for keyword, semantic and hybrid search
+
+import type { PersonalDataRecord, ScoredPersonalDataRecord } from "../types.js";
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+// Weight of vector similarity in hybrid scores; the keyword score gets the rest
+export const DEFAULT_SEMANTIC_WEIGHT = 0.6;
+
+export interface RankedRecord extends PersonalDataRecord {
+  score: number;
+}
+
+function terms(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])];
+}
+
+/**
+ * Fraction of query terms found in the record, in [0, 1]. A term in the title
+ * counts fully, one only in the content or tags counts half, mirroring how the
+ * keyword search matches title and content with ILIKE.
+ */
+export function keywordScore(query: string, record: PersonalDataRecord): number {
+  const queryTerms = terms(query);
+  if (queryTerms.length === 0) {
+    return 0;
+  }
+
+  const title = record.title.toLowerCase();
+  const body = `${JSON.stringify(record.content ?? {})} ${(record.tags || []).join(' ')}`.toLowerCase();
+
+  const total = queryTerms.reduce((sum, term) => {
+    if (title.includes(term)) return sum + 1;
+    if (body.includes(term)) return sum + 0.5;
+    return sum;
+  }, 0);
+  return total / queryTerms.length;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Merges keyword and semantic candidates into one list ranked by
+ * semanticWeight * similarity + (1 - semanticWeight) * keywordScore.
+ * Candidates the vector search did not return count as similarity 0.
+ */
+export function blendResults(
+  query: string,
+  keywordResults: PersonalDataRecord[],
+  semanticResults: ScoredPersonalDataRecord[],
+  semanticWeight: number = DEFAULT_SEMANTIC_WEIGHT
+): RankedRecord[] {
+  const candidates = new Map<string, { record: PersonalDataRecord; similarity: number }>();
+
+  for (const record of keywordResults) {
+    candidates.set(record.id, { record, similarity: 0 });
+  }
+  for (const { similarity, ...record } of semanticResults) {
+    candidates.set(record.id, { record, similarity: Math.max(0, similarity) });
+  }
+
+  return [...candidates.values()]
+    .map(({ record, similarity }) => ({
+      ...record,
+      score: round(semanticWeight * similarity + (1 - semanticWeight) * keywordScore(query, record))
+    }))
+    .sort((a, b) => b.score - a.score || b.updated_at.localeCompare(a.updated_at));
+}
+
+// Semantic-only results, scored by similarity
+export function rankBySimilarity(results: ScoredPersonalDataRecord[]): RankedRecord[] {
+  return results.map(({ similarity, ...record }) => ({ ...record, score: round(similarity) }));
+}
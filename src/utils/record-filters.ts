@@ -0,0 +1,131 @@
+// Evaluation of extract filters for the stores that filter in memory
+//
+// Mirrors personal_data_matches_filters() and the ORDER BY of
+// extract_personal_data() in schema.sql, so the local store and Supabase
+// return the same records in the same order.
+
+import type { ContentFieldFilter, PersonalDataRecord, RecordFilters, TimeWindow } from "../types.js";
+
+type Bound = string | number;
+
+// Reads a dotted path such as "address.city" or "phones.0" from record content, as #> does
+function fieldValue(content: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (Array.isArray(value)) {
+      return /^\d+$/.test(key) ? value[Number(key)] : undefined;
+    }
+    return value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }, content);
+}
+
+function equals(value: unknown, expected: string | number | boolean): boolean {
+  if (typeof value === 'string' && typeof expected === 'string') {
+    return value.toLowerCase() === expected.toLowerCase();
+  }
+  return value === expected;
+}
+
+// Ranges only compare like with like: numbers with numbers, strings with
+// strings, in UTF-8 byte order as COLLATE "C" does
+function compare(value: unknown, bound: Bound): number | null {
+  if (typeof value !== typeof bound) {
+    return null;
+  }
+  if (typeof bound === 'string') {
+    return Buffer.compare(Buffer.from(value as string), Buffer.from(bound));
+  }
+  const a = value as number;
+  return a < bound ? -1 : a > bound ? 1 : 0;
+}
+
+function inRange(value: unknown, filter: ContentFieldFilter): boolean {
+  const checks: [Bound | undefined, (order: number) => boolean][] = [
+    [filter.gt, (order) => order > 0],
+    [filter.gte, (order) => order >= 0],
+    [filter.lt, (order) => order < 0],
+    [filter.lte, (order) => order <= 0]
+  ];
+  return checks.every(([bound, holds]) => {
+    if (bound === undefined) {
+      return true;
+    }
+    const order = compare(value, bound);
+    return order !== null && holds(order);
+  });
+}
+
+// Array fields match when any element does
+function matchesField(value: unknown, filter: ContentFieldFilter): boolean {
+  const present = value !== undefined && value !== null;
+  if (filter.exists !== undefined && filter.exists !== present) {
+    return false;
+  }
+
+  const elements = Array.isArray(value) ? value : [value];
+  if (filter.eq !== undefined && !elements.some((element) => equals(element, filter.eq!))) {
+    return false;
+  }
+  if (filter.contains !== undefined) {
+    const needle = filter.contains.toLowerCase();
+    if (!elements.some((element) => typeof element === 'string' && element.toLowerCase().includes(needle))) {
+      return false;
+    }
+  }
+  return inRange(value, filter);
+}
+
+function inWindow(timestamp: string, window: TimeWindow | undefined): boolean {
+  if (!window) {
+    return true;
+  }
+  const time = Date.parse(timestamp);
+  return (!window.from || time >= Date.parse(window.from)) && (!window.to || time < Date.parse(window.to));
+}
+
+export function matchesFilters(record: PersonalDataRecord, filters: RecordFilters | null | undefined): boolean {
+  if (!filters) {
+    return true;
+  }
+
+  const { any, all, none } = filters.tags || {};
+  if (any && any.length > 0 && !record.tags.some((tag) => any.includes(tag))) {
+    return false;
+  }
+  if (all && !all.every((tag) => record.tags.includes(tag))) {
+    return false;
+  }
+  if (none && record.tags.some((tag) => none.includes(tag))) {
+    return false;
+  }
+
+  if (!inWindow(record.created_at, filters.created) || !inWindow(record.updated_at, filters.updated)) {
+    return false;
+  }
+
+  return Object.entries(filters.content || {}).every(([path, filter]) => matchesField(fieldValue(record.content, path), filter));
+}
+
+// The default order, which cursors resume from
+export function isDefaultSort(filters: RecordFilters | null | undefined): boolean {
+  const sort = filters?.sort;
+  return !sort || (sort.field === 'updated_at' && sort.direction === 'desc');
+}
+
+/**
+ * Comparator for the requested sort. Ties, and records when no sort is given,
+ * are ordered by updated_at then id, newest first.
+ */
+export function compareRecords(filters: RecordFilters | null | undefined) {
+  const sort = filters?.sort;
+  return (a: PersonalDataRecord, b: PersonalDataRecord): number => {
+    if (sort && !isDefaultSort(filters)) {
+      const order = sort.field === 'title'
+        ? a.title.localeCompare(b.title)
+        : Date.parse(a[sort.field]) - Date.parse(b[sort.field]);
+      if (order !== 0) {
+        return sort.direction === 'asc' ? order : -order;
+      }
+    }
+    return b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id);
+  };
+}
@@ -0,0 +1,35 @@
+// Masking of record content the current session may not see
+
+export const REDACTION_MASK = '••••';
+
+// Values at least this long keep their last 4 characters, e.g. ••••1234
+const REVEAL_MIN_LENGTH = 8;
+
+/**
+ * Masks every leaf value while keeping the keys and structure, so the model
+ * can tell which fields exist without seeing them
+ */
+export function redactValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, redactValue(inner)]));
+  }
+  const text = String(value);
+  return text.length >= REVEAL_MIN_LENGTH ? `${REDACTION_MASK}${text.slice(-4)}` : REDACTION_MASK;
+}
+
+// True when a value (or anything nested in it) still carries a redaction mask
+export function containsRedactedValue(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.startsWith(REDACTION_MASK);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(containsRedactedValue);
+  }
+  return false;
+}
@@ -0,0 +1,224 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createAccessPolicy, accessPolicyFromEnv, parseClientCeilings } from "../src/services/access-policy.js";
+import { redactValue, containsRedactedValue } from "../src/utils/redaction.js";
+import { initializeDatabase } from "../src/services/database.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import { createMcpServer, createChatGptMcpServer } from "../src/server.js";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fakeSupabase.js";
+import { connect, textOf, quietConsole } from "./helpers/harness.js";
+
+describe("redactValue", () => {
+  it("masks leaves and keeps the last 4 characters of long values", () => {
+    assert.deepEqual(
+      redactValue({ passport_number: 'X12341234', country: 'UK', visas: ['US-2030'], issued: 2020 }),
+      { passport_number: '••••1234', country: '••••', visas: ['••••'], issued: '••••' }
+    );
+  });
+
+  it("detects masked values anywhere in an update", () => {
+    assert.equal(containsRedactedValue({ a: { b: ['x', '••••1234'] } }), true);
+    assert.equal(containsRedactedValue({ a: 'plain' }), false);
+  });
+});
+
+describe("access policy", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("keeps confidential locked until unlocked and expires the unlock", () => {
+    const policy = createAccessPolicy({ maxClassification: 'confidential', unlockTtlMs: -1 });
+    assert.equal(policy.canSee('sensitive'), true);
+    assert.equal(policy.canSee('confidential'), false);
+    policy.unlock();
+    assert.equal(policy.canSee('confidential'), false);
+  });
+
+  it("reports unlocks and adopts ones made elsewhere", () => {
+    const changes: (Date | null)[] = [];
+    const policy = createAccessPolicy({ maxClassification: 'confidential', onUnlockChange: (until) => changes.push(until) });
+    const until = policy.unlock();
+    policy.lock();
+    assert.deepEqual(changes, [until, null]);
+
+    policy.setUnlockedUntil(new Date(Date.now() + 60_000));
+    assert.equal(policy.canSee('confidential'), true);
+    assert.equal(changes.length, 2);
+  });
+
+  it("refuses to unlock below a confidential ceiling", () => {
+    const policy = createAccessPolicy({ maxClassification: 'personal' });
+    assert.equal(policy.canSee('sensitive'), false);
+    assert.throws(() => policy.unlock(), /maximum classification: personal/);
+  });
+
+  it("takes the lower of the endpoint and client ceilings", () => {
+    process.env.DATADAM_CLIENT_MAX_CLASSIFICATION = 'laptop:sensitive, bot:public';
+    assert.equal(accessPolicyFromEnv('mcp', 'laptop').maxClassification, 'sensitive');
+    assert.equal(accessPolicyFromEnv('chatgpt', 'laptop').maxClassification, 'personal');
+    assert.equal(accessPolicyFromEnv('mcp', 'bot').maxClassification, 'public');
+    assert.equal(accessPolicyFromEnv('mcp', 'other').maxClassification, 'confidential');
+  });
+
+  it("rejects invalid configuration", () => {
+    assert.throws(() => parseClientCeilings('laptop'), /Expected "name:level"/);
+    process.env.DATADAM_MAX_CLASSIFICATION = 'secret';
+    assert.throws(() => accessPolicyFromEnv('mcp'), /Invalid DATADAM_MAX_CLASSIFICATION/);
+  });
+});
+
+describe("classified store", () => {
+  let fake: FakeSupabase;
+  let client: Client;
+  let hidden: Client;
+  let chatgpt: Client;
+  let passportId: string;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    fake = createFakeSupabase();
+    passportId = fake.seed({
+      category: 'basic_information',
+      title: 'Passport',
+      content: { passport_number: 'X12341234' },
+      classification: 'confidential'
+    }).id;
+    fake.seed({ category: 'basic_information', title: 'Home Address', content: { city: 'Boston' }, classification: 'sensitive' });
+    fake.seed({ category: 'basic_information', title: 'Passport Photo', content: { taken: '2024' } });
+
+    const store = createSupabaseStore(fake.client);
+    await initializeDatabase(store);
+    client = await connect(createMcpServer({
+      store,
+      embeddings: null,
+      accessPolicy: createAccessPolicy({ maxClassification: 'confidential' })
+    }));
+    hidden = await connect(createMcpServer({
+      store,
+      embeddings: null,
+      accessPolicy: createAccessPolicy({ maxClassification: 'confidential', mode: 'hide' })
+    }));
+    chatgpt = await connect(createChatGptMcpServer({
+      store,
+      embeddings: null,
+      accessPolicy: createAccessPolicy({ maxClassification: 'personal' })
+    }));
+  });
+
+  after(async () => {
+    await Promise.all([client.close(), hidden.close(), chatgpt.close()]);
+    delete process.env.DATADAM_UNLOCK_PASSPHRASE;
+    restoreConsole();
+  });
+
+  const extract = async (c: Client) => JSON.parse(textOf(await c.callTool({
+    name: 'datadam_extract_personal_data',
+    arguments: { category: 'basic_information', response_format: 'json' }
+  }))).results;
+
+  it("redacts confidential content until the session unlocks it", async () => {
+    let passport = (await extract(client)).find((r: any) => r.id === passportId);
+    assert.deepEqual(passport.content, { passport_number: '••••1234' });
+    assert.equal(passport.redacted, true);
+
+    const refused = await client.callTool({ name: 'datadam_unlock_confidential', arguments: {} });
+    assert.equal(refused.isError, true);
+
+    const unlocked = await client.callTool({ name: 'datadam_unlock_confidential', arguments: { confirm: true } });
+    assert.match(textOf(unlocked), /unlocked until/);
+    passport = (await extract(client)).find((r: any) => r.id === passportId);
+    assert.deepEqual(passport.content, { passport_number: 'X12341234' });
+    assert.equal(passport.redacted, undefined);
+
+    await client.callTool({ name: 'datadam_unlock_confidential', arguments: { action: 'lock' } });
+    passport = (await extract(client)).find((r: any) => r.id === passportId);
+    assert.equal(passport.redacted, true);
+  });
+
+  it("requires the configured passphrase", async () => {
+    process.env.DATADAM_UNLOCK_PASSPHRASE = 'open sesame';
+    const wrong = await client.callTool({ name: 'datadam_unlock_confidential', arguments: { confirm: true, passphrase: 'nope' } });
+    assert.equal(wrong.isError, true);
+    const right = await client.callTool({ name: 'datadam_unlock_confidential', arguments: { passphrase: 'open sesame' } });
+    assert.equal(right.isError, undefined);
+    await client.callTool({ name: 'datadam_unlock_confidential', arguments: { action: 'lock' } });
+    delete process.env.DATADAM_UNLOCK_PASSPHRASE;
+  });
+
+  it("refuses to write redacted values back", async () => {
+    const result = await client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: passportId, updates: { content: { passport_number: '••••1234' } } }
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /redacted values/);
+    assert.equal(fake.records.find((r) => r.id === passportId)!.content.passport_number, 'X12341234');
+  });
+
+  it("hides records instead in hide mode", async () => {
+    const titles = (await extract(hidden)).map((r: any) => r.title).sort();
+    assert.deepEqual(titles, ['Home Address', 'Passport Photo']);
+  });
+
+  it("shows hidden versions as placeholders rather than diffing across them", async () => {
+    const { id } = fake.seed({ category: 'basic_information', title: 'Visa', content: { status: 'applied' } });
+    for (const updates of [
+      { content: { status: 'granted', number: 'V98769876' }, classification: 'confidential' },
+      { content: { status: 'expired' }, classification: 'personal' }
+    ]) {
+      await client.callTool({ name: 'datadam_update_personal_data', arguments: { recordId: id, updates } });
+    }
+
+    const result = await hidden.callTool({ name: 'datadam_get_record_history', arguments: { recordId: id, response_format: 'json' } });
+    const history = JSON.parse(textOf(result));
+    assert.equal(history.current_version, 3);
+    assert.deepEqual(history.versions.map((v: any) => [v.version, v.hidden ?? false, v.changes.length]), [[2, true, 0], [1, false, 0]]);
+    assert.doesNotMatch(textOf(result), /V98769876/);
+
+    const markdown = textOf(await hidden.callTool({ name: 'datadam_get_record_history', arguments: { recordId: id } }));
+    assert.match(markdown, /## Version 2 → 3[^#]*Hidden/);
+    assert.match(markdown, /## Version 1 → 2[^#]*Changes not shown/);
+  });
+
+  it("pages over hidden records by the records it shows", async () => {
+    for (const [n, classification] of ['personal', 'confidential', 'confidential', 'personal', 'confidential', 'public'].entries()) {
+      fake.seed({ category: 'basic_information', title: `Saga ${n + 1}`, tags: ['saga'], classification });
+    }
+
+    for (const [name, args] of [
+      ['datadam_extract_personal_data', { category: 'basic_information', tags: ['saga'] }],
+      ['datadam_search_personal_data', { query: 'Saga' }]
+    ] as const) {
+      const page = async (extra: Record<string, unknown>) => JSON.parse(textOf(await hidden.callTool({
+        name,
+        arguments: { ...args, limit: 2, response_format: 'json', ...extra }
+      })));
+
+      const first = await page({});
+      assert.deepEqual(first.results.map((r: any) => r.title), ['Saga 6', 'Saga 4'], name);
+      assert.equal(first.has_more, true);
+      assert.equal(first.next_offset, 2);
+
+      const second = await page({ cursor: first.next_cursor });
+      assert.deepEqual(second.results.map((r: any) => r.title), ['Saga 1'], name);
+      assert.equal(second.has_more, false);
+      assert.equal(second.next_cursor, null);
+
+      const byOffset = await page({ offset: first.next_offset });
+      assert.deepEqual(byOffset.results.map((r: any) => r.title), ['Saga 1'], name);
+    }
+  });
+
+  it("applies the ChatGPT endpoint's lower ceiling to search and fetch", async () => {
+    const search = JSON.parse(textOf(await chatgpt.callTool({ name: 'search', arguments: { query: 'passport' } })));
+    assert.equal(search.results.length, 2);
+
+    const fetched = JSON.parse(textOf(await chatgpt.callTool({ name: 'fetch', arguments: { id: passportId } })));
+    assert.equal(fetched.text, JSON.stringify({ passport_number: '••••1234' }));
+    assert.equal(fetched.metadata.redacted, true);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { registerAccessLogRoute, ACCESS_LOG_PATH } from "../src/routes/access-log.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("audit log", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let passportId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      identity: { principal: 'laptop', userId: null },
+      seed: (fake) => {
+        passportId = fake.seed({ category: 'basic_information', title: 'Passport', content: { number: 'X12341234' }, classification: 'confidential' }).id;
+        fake.seed({ category: 'basic_information', title: 'Current Location', content: { city: 'Boston' } });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const extract = () => h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'basic_information' } });
+
+  it("records the tool, client, records and outcome of each call", async () => {
+    await extract();
+    const [entry] = h.fake.auditLog.slice(-1);
+    assert.equal(entry.tool, 'datadam_extract_personal_data');
+    assert.equal(entry.principal, 'laptop');
+    assert.equal(entry.endpoint, 'mcp');
+    assert.equal(entry.outcome, 'success');
+    assert.equal(entry.record_ids.length, 2);
+    // The passport came back redacted, so nothing confidential was revealed
+    assert.deepEqual(entry.classifications, ['personal']);
+  });
+
+  it("records confidential reads after an unlock", async () => {
+    await h.client.callTool({ name: 'datadam_unlock_confidential', arguments: { confirm: true } });
+    await extract();
+    assert.deepEqual(h.fake.auditLog.at(-1)!.classifications, ['confidential', 'personal']);
+
+    const result = await h.client.callTool({
+      name: 'datadam_get_access_log',
+      arguments: { classification: 'confidential', response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+    assert.equal(body.count, 1);
+    assert.equal(body.results[0].tool, 'datadam_extract_personal_data');
+    assert.ok(body.results[0].record_ids.includes(passportId));
+
+    const markdown = textOf(await h.client.callTool({ name: 'datadam_get_access_log', arguments: { recordId: passportId } }));
+    assert.match(markdown, /`datadam_extract_personal_data` by \*\*laptop\*\* \(mcp\) ✓ - 2 record\(s\), confidential, personal/);
+  });
+
+  it("leaves out records the tool only read for itself", async () => {
+    await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'basic_information', title: 'Shoe Size', content: { eu: 44 } }
+    });
+    const entry = h.fake.auditLog.at(-1)!;
+    const created = h.fake.records.find((r) => r.title === 'Shoe Size')!;
+    // The duplicate check scanned the category, but only the new record was returned or changed
+    assert.deepEqual(entry.record_ids, [created.id]);
+    assert.deepEqual(entry.classifications, ['personal']);
+  });
+
+  it("records resource reads and prompts", async () => {
+    const location = h.fake.records.find((r) => r.title === 'Current Location')!;
+    await h.client.readResource({ uri: `data://records/${location.id}` });
+    let entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.tool, 'data-records');
+    assert.equal(entry.outcome, 'success');
+    assert.deepEqual(entry.record_ids, [location.id]);
+    assert.deepEqual(entry.classifications, ['personal']);
+
+    await h.client.getPrompt({ name: 'datadam_profile_summary' });
+    entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.tool, 'datadam_profile_summary');
+    assert.ok(entry.record_ids.includes(location.id));
+  });
+
+  it("records only the records a delete or restore changed", async () => {
+    const shoeSize = h.fake.records.find((r) => r.title === 'Shoe Size')!;
+    const unknown = '00000000-0000-4000-8000-000000000000';
+    await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [shoeSize.id, unknown] } });
+    assert.deepEqual(h.fake.auditLog.at(-1)!.record_ids, [shoeSize.id]);
+
+    // Restoring it twice changes nothing the second time
+    await h.client.callTool({ name: 'datadam_restore_personal_data', arguments: { recordIds: [shoeSize.id] } });
+    assert.deepEqual(h.fake.auditLog.at(-1)!.record_ids, [shoeSize.id]);
+    await h.client.callTool({ name: 'datadam_restore_personal_data', arguments: { recordIds: [shoeSize.id] } });
+    assert.deepEqual(h.fake.auditLog.at(-1)!.record_ids, []);
+
+    h.fake.failWith('delete_personal_data', 'connection refused');
+    await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [shoeSize.id] } });
+    assert.deepEqual(h.fake.auditLog.at(-1)!.record_ids, []);
+  });
+
+  it("records failed calls with their error", async () => {
+    h.fake.failWith('search_personal_data', 'connection refused');
+    await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'passport' } });
+    const entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.outcome, 'error');
+    assert.match(entry.error!, /connection refused/);
+  });
+
+  it("records ChatGPT fetches", async () => {
+    await h.chatgpt.callTool({ name: 'fetch', arguments: { id: passportId } });
+    const entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.endpoint, 'chatgpt');
+    assert.deepEqual(entry.record_ids, [passportId]);
+    assert.deepEqual(entry.classifications, []);
+  });
+});
+
+describe("GET /admin/access-log", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    process.env.DATADAM_ADMIN_PRINCIPALS = 'ops';
+    h = await startHarness({ seed: (fake) => { fake.seed({ category: 'books', title: 'Dune' }); } });
+    await h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'books' } });
+
+    const app = express();
+    // Stands in for setupAuth(): the principal comes from the X-Principal header
+    registerAccessLogRoute(app, (req, _res, next) => {
+      req.auth = { token: '', clientId: '', scopes: [], extra: { principal: req.headers['x-principal'] } };
+      next();
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await h.close();
+    delete process.env.DATADAM_ADMIN_PRINCIPALS;
+    restoreConsole();
+  });
+
+  it("is forbidden to keys that are not admins", async () => {
+    const response = await fetch(`${baseUrl}${ACCESS_LOG_PATH}`, { headers: { 'X-Principal': 'laptop' } });
+    assert.equal(response.status, 403);
+  });
+
+  it("returns filtered entries to admins", async () => {
+    const response = await fetch(`${baseUrl}${ACCESS_LOG_PATH}?tool=datadam_extract_personal_data&since=2000-01-01`, {
+      headers: { 'X-Principal': 'ops' }
+    });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.count, 1);
+    assert.equal(body.results[0].principal, 'anonymous');
+
+    const invalid = await fetch(`${baseUrl}${ACCESS_LOG_PATH}?limit=0`, { headers: { 'X-Principal': 'ops' } });
+    assert.equal(invalid.status, 400);
+  });
+});
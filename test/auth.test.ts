@@ -0,0 +1,266 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { parseApiKeys, findApiKey, hashApiKey, type ApiKeyEntry } from "../src/auth/apiKeys.js";
+import { createAuthMiddleware, UNAUTHORIZED_ERROR_CODE } from "../src/auth/middleware.js";
+import { createOAuthProvider, type DataDamOAuthProvider, type OAuthProviderOptions } from "../src/auth/oauth.js";
+
+const USER = '11111111-1111-4111-8111-111111111111';
+const laptopHash = hashApiKey('laptop-key');
+
+describe("parseApiKeys", () => {
+  it("parses name:hash entries with an optional user", () => {
+    assert.deepEqual(parseApiKeys(` laptop:${laptopHash.toUpperCase()} , ci:${hashApiKey('ci-key')}:${USER}`), [
+      { name: 'laptop', hash: laptopHash },
+      { name: 'ci', hash: hashApiKey('ci-key'), userId: USER }
+    ]);
+    assert.deepEqual(parseApiKeys(undefined), []);
+    assert.deepEqual(parseApiKeys('  '), []);
+  });
+
+  it("rejects malformed entries", () => {
+    for (const value of [
+      'laptop',
+      `:${laptopHash}`,
+      'laptop:not-a-hash',
+      `laptop:${laptopHash.slice(1)}`,
+      `laptop:${laptopHash}:not-a-uuid`,
+      `laptop:${laptopHash}:${USER}:extra`
+    ]) {
+      assert.throws(() => parseApiKeys(value), /Invalid DATADAM_API_KEYS entry/, value);
+    }
+  });
+
+  it("finds the entry for a presented key", () => {
+    const entries = parseApiKeys(`laptop:${laptopHash},ci:${hashApiKey('ci-key')}`);
+    assert.equal(findApiKey(entries, 'ci-key')?.name, 'ci');
+    assert.equal(findApiKey(entries, 'wrong'), undefined);
+  });
+});
+
+interface FakeResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  location: string;
+}
+
+// Just enough of express.Response for authorize() and handleApproval()
+function fakeResponse(): FakeResponse & express.Response {
+  const res = { statusCode: 200, headers: {} as Record<string, string>, body: '', location: '' } as FakeResponse & Record<string, unknown>;
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; return res; };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.send = (body: string) => { res.body = body; return res; };
+  res.redirect = (code: number, url: string) => { res.statusCode = code; res.location = url; };
+  return res as unknown as FakeResponse & express.Response;
+}
+
+function client(id: string): OAuthClientInformationFull {
+  return { client_id: id, client_name: `Client ${id}`, redirect_uris: ['https://client.example/callback'] };
+}
+
+const params: AuthorizationParams = {
+  codeChallenge: 'challenge',
+  redirectUri: 'https://client.example/callback',
+  state: 'xyz'
+};
+
+async function startAuthorization(provider: DataDamOAuthProvider, oauthClient: OAuthClientInformationFull): Promise<string> {
+  const res = fakeResponse();
+  await provider.authorize(oauthClient, params, res);
+  return /name="request_id" value="([^"]+)"/.exec(res.body)![1];
+}
+
+function approve(provider: DataDamOAuthProvider, requestId: string, apiKey: string): FakeResponse {
+  const res = fakeResponse();
+  provider.handleApproval({ body: { request_id: requestId, api_key: apiKey } } as express.Request, res);
+  return res;
+}
+
+// Runs authorize and approval and returns the authorization code
+async function authorizationCode(provider: DataDamOAuthProvider, oauthClient: OAuthClientInformationFull): Promise<string> {
+  const res = approve(provider, await startAuthorization(provider, oauthClient), 'laptop-key');
+  assert.equal(res.statusCode, 302);
+  const redirect = new URL(res.location);
+  assert.equal(redirect.searchParams.get('state'), 'xyz');
+  return redirect.searchParams.get('code')!;
+}
+
+describe("OAuth provider", () => {
+  let clock: number;
+  const keys: ApiKeyEntry[] = [{ name: 'laptop', hash: laptopHash, userId: USER }];
+  const create = (options: OAuthProviderOptions = {}) =>
+    createOAuthProvider((apiKey) => findApiKey(keys, apiKey) ?? null, { now: () => clock, ...options });
+
+  it("issues tokens for an approved code and rotates refresh tokens", async () => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+    const provider = create();
+    const connector = await provider.clientsStore.registerClient!(client('a'));
+
+    const code = await authorizationCode(provider, connector);
+    assert.equal(await provider.challengeForAuthorizationCode(connector, code), 'challenge');
+    const tokens = await provider.exchangeAuthorizationCode(connector, code, undefined, params.redirectUri);
+    assert.equal(tokens.token_type, 'bearer');
+
+    const auth = await provider.verifyAccessToken(tokens.access_token);
+    assert.deepEqual(auth.extra, { principal: 'laptop', userId: USER, authMethod: 'oauth' });
+    assert.deepEqual(auth.scopes, ['datadam']);
+
+    const refreshed = await provider.exchangeRefreshToken(connector, tokens.refresh_token!);
+    await provider.verifyAccessToken(refreshed.access_token);
+    await assert.rejects(provider.exchangeRefreshToken(connector, tokens.refresh_token!), /Invalid or expired refresh token/);
+    await assert.rejects(provider.exchangeRefreshToken(connector, refreshed.refresh_token!, ['admin']), /exceed the original grant/);
+
+    clock += 61 * 60 * 1000;
+    await assert.rejects(provider.verifyAccessToken(refreshed.access_token), /Invalid or expired access token/);
+    const again = await provider.exchangeRefreshToken(connector, refreshed.refresh_token!);
+    await provider.verifyAccessToken(again.access_token);
+  });
+
+  it("refuses reused, foreign, mismatched and expired codes", async () => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+    const provider = create();
+    const connector = await provider.clientsStore.registerClient!(client('a'));
+    const other = await provider.clientsStore.registerClient!(client('b'));
+
+    const code = await authorizationCode(provider, connector);
+    await provider.exchangeAuthorizationCode(connector, code);
+    await assert.rejects(provider.exchangeAuthorizationCode(connector, code), /Invalid or expired authorization code/);
+
+    const foreign = await authorizationCode(provider, connector);
+    await assert.rejects(provider.challengeForAuthorizationCode(other, foreign), /Invalid authorization code/);
+    await assert.rejects(provider.exchangeAuthorizationCode(other, foreign), /Invalid or expired/);
+
+    const mismatched = await authorizationCode(provider, connector);
+    await assert.rejects(provider.exchangeAuthorizationCode(connector, mismatched, undefined, 'https://evil.example/'), /redirect_uri does not match/);
+
+    const expired = await authorizationCode(provider, connector);
+    clock += 11 * 60 * 1000;
+    await assert.rejects(provider.exchangeAuthorizationCode(connector, expired), /Invalid or expired authorization code/);
+  });
+
+  it("requires a valid API key and an open authorization request", async () => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+    const provider = create();
+    const connector = await provider.clientsStore.registerClient!(client('a'));
+    const requestId = await startAuthorization(provider, connector);
+
+    const wrongKey = approve(provider, requestId, 'wrong');
+    assert.equal(wrongKey.statusCode, 401);
+    assert.match(wrongKey.body, /Invalid API key/);
+
+    clock += 11 * 60 * 1000;
+    assert.equal(approve(provider, requestId, 'laptop-key').statusCode, 400);
+    assert.equal(approve(provider, 'unknown', 'laptop-key').statusCode, 400);
+  });
+
+  it("caps authorization requests and tokens, dropping the oldest", async () => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+    const provider = create({ limits: { maxPending: 2, maxTokens: 1 } });
+    const connector = await provider.clientsStore.registerClient!(client('a'));
+
+    const first = await startAuthorization(provider, connector);
+    await startAuthorization(provider, connector);
+    const third = await startAuthorization(provider, connector);
+    assert.equal(approve(provider, first, 'laptop-key').statusCode, 400);
+    assert.equal(approve(provider, third, 'laptop-key').statusCode, 302);
+
+    const older = await provider.exchangeAuthorizationCode(connector, await authorizationCode(provider, connector));
+    const newer = await provider.exchangeAuthorizationCode(connector, await authorizationCode(provider, connector));
+    await assert.rejects(provider.verifyAccessToken(older.access_token), /Invalid or expired/);
+    await provider.verifyAccessToken(newer.access_token);
+  });
+
+  it("forgets unused clients and refuses registrations when every client is in use", async () => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+    const provider = create({ limits: { maxClients: 2 } });
+    const store = provider.clientsStore;
+    await store.registerClient!(client('a'));
+    await store.registerClient!(client('b'));
+
+    // At the cap the oldest unused client makes room
+    await store.registerClient!(client('c'));
+    assert.equal(await store.getClient('a'), undefined);
+
+    await startAuthorization(provider, (await store.getClient('b'))!);
+    await provider.exchangeAuthorizationCode(client('c'), await authorizationCode(provider, client('c')));
+    await assert.rejects(Promise.resolve().then(() => store.registerClient!(client('d'))), /Too many registered clients/);
+
+    // A day later, clients whose requests and tokens have all expired are forgotten
+    clock += 31 * 24 * 60 * 60 * 1000;
+    await store.registerClient!(client('d'));
+    assert.equal(await store.getClient('b'), undefined);
+    assert.equal(await store.getClient('c'), undefined);
+    assert.ok(await store.getClient('d'));
+  });
+});
+
+describe("auth middleware", () => {
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+  let provider: DataDamOAuthProvider;
+
+  before(async () => {
+    const keys = parseApiKeys(`laptop:${laptopHash}:${USER}`);
+    provider = createOAuthProvider((apiKey) => findApiKey(keys, apiKey) ?? null);
+
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', createAuthMiddleware({
+      apiKeys: keys,
+      oauthVerifier: provider,
+      resourceMetadataUrl: 'https://datadam.example/.well-known/oauth-protected-resource'
+    }), (req, res) => {
+      res.json(req.auth?.extra);
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (headers: Record<string, string>) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'tools/list' })
+  });
+
+  it("answers missing and wrong credentials with 401 and a challenge", async () => {
+    for (const [headers, description] of [
+      [{}, /Missing credentials/],
+      [{ 'X-API-Key': 'wrong' }, /Invalid or expired credentials/],
+      [{ Authorization: 'Bearer wrong' }, /Invalid or expired credentials/],
+      [{ Authorization: 'Basic bGFwdG9wLWtleQ==' }, /Missing credentials/]
+    ] as const) {
+      const response = await post(headers);
+      assert.equal(response.status, 401);
+      const challenge = response.headers.get('www-authenticate') ?? '';
+      assert.match(challenge, /^Bearer error="invalid_token"/);
+      assert.match(challenge, /resource_metadata="https:\/\/datadam\.example\/\.well-known\/oauth-protected-resource"/);
+      const body = await response.json();
+      assert.equal(body.id, 7);
+      assert.equal(body.error.code, UNAUTHORIZED_ERROR_CODE);
+      assert.match(body.error.message, description);
+    }
+  });
+
+  it("accepts API keys in either header and OAuth access tokens", async () => {
+    const byHeader = await post({ 'X-API-Key': 'laptop-key' });
+    assert.deepEqual(await byHeader.json(), { principal: 'laptop', userId: USER, authMethod: 'api_key' });
+
+    const byBearer = await post({ Authorization: 'Bearer laptop-key' });
+    assert.equal(byBearer.status, 200);
+
+    const connector = await provider.clientsStore.registerClient!(client('a'));
+    const tokens = await provider.exchangeAuthorizationCode(connector, await authorizationCode(provider, connector));
+    const byToken = await post({ Authorization: `Bearer ${tokens.access_token}` });
+    assert.deepEqual(await byToken.json(), { principal: 'laptop', userId: USER, authMethod: 'oauth' });
+  });
+});
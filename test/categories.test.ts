@@ -0,0 +1,73 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { availableCategories, allCategories, refreshCategories } from "../src/services/database.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("live category refresh", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let toolListChanges = 0;
+  let resourceListChanges = 0;
+
+  // Notifications arrive asynchronously over the in-memory transport
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({ seed: (fake) => { fake.seed({ category: 'contacts', title: 'Jane' }); } });
+    h.client.setNotificationHandler(ToolListChangedNotificationSchema, () => { toolListChanges++; });
+    h.client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { resourceListChanges++; });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("reports no change when the registry is unchanged", async () => {
+    assert.equal(await refreshCategories(), false);
+    await settle();
+    assert.equal(toolListChanges, 0);
+  });
+
+  it("activates a category after the first record is created in it", async () => {
+    await assert.rejects(h.client.callTool({
+      name: 'datadam_extract_personal_data',
+      arguments: { category: 'interests' }
+    }), /Invalid enum value/);
+
+    await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'interests', title: 'Chess', content: {} }
+    });
+    await settle();
+
+    assert.ok(availableCategories.includes('interests'));
+    assert.ok(toolListChanges > 0);
+    assert.equal(resourceListChanges, 1);
+
+    const result = await h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'interests' } });
+    assert.match(textOf(result), /Chess/);
+  });
+
+  it("publishes new registry categories in schemas and descriptions", async () => {
+    h.fake.categories.push({ ...h.fake.categories[0], category_name: 'recipes', display_name: 'Recipes' });
+    assert.equal(await refreshCategories(), true);
+    assert.ok(allCategories.includes('recipes'));
+
+    const { tools } = await h.client.listTools();
+    const create = tools.find((t) => t.name === 'datadam_create_personal_data')!;
+    assert.match(create.description!, /recipes/);
+    assert.ok(JSON.stringify(create.inputSchema).includes('recipes'));
+  });
+
+  it("keeps the current lists when the refresh fails", async () => {
+    h.fake.failWith('get_active_categories', 'connection reset');
+    assert.equal(await refreshCategories(), false);
+    assert.ok(availableCategories.includes('contacts'));
+  });
+});
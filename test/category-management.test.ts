@@ -0,0 +1,174 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { allCategories, availableCategories } from "../src/services/database.js";
+import { createLocalStore } from "../src/services/local-store.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("category management tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    process.env.DATADAM_ADMIN_PRINCIPALS = 'ops';
+    h = await startHarness({
+      identity: { principal: 'ops', userId: null },
+      seed: (fake) => {
+        fake.seed({ category: 'books', title: 'Dune' });
+        fake.seed({ category: 'interests', title: 'Chess' });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    delete process.env.DATADAM_ADMIN_PRINCIPALS;
+    restoreConsole();
+  });
+
+  const call = (name: string, args: Record<string, unknown>) =>
+    h.client.callTool({ name, arguments: { response_format: 'json', ...args } });
+
+  const titlesIn = (category: string) =>
+    h.fake.records.filter((r) => r.category === category).map((r) => r.title).sort();
+
+  it("creates a category that records can be stored in", async () => {
+    const result = await call('datadam_create_category', {
+      name: 'recipes',
+      displayName: 'Recipes',
+      triggerWords: ['recipe', 'cook'],
+      exampleQueries: ['What should I cook tonight?']
+    });
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(result.structuredContent, {
+      success: true,
+      operation: 'created',
+      category: 'recipes',
+      message: 'Created category "Recipes" (recipes)'
+    });
+    assert.ok(allCategories.includes('recipes'));
+
+    const created = await call('datadam_create_personal_data', { category: 'recipes', title: 'Pancakes', content: {} });
+    assert.equal(created.isError, undefined, textOf(created));
+    assert.ok(availableCategories.includes('recipes'));
+  });
+
+  it("refuses a name that is taken or malformed", async () => {
+    const taken = await call('datadam_create_category', { name: 'books', displayName: 'Books' });
+    assert.equal(taken.isError, true);
+    assert.match(textOf(taken), /already exists/);
+
+    await assert.rejects(call('datadam_create_category', { name: 'My Recipes', displayName: 'x' }), /Invalid arguments/);
+  });
+
+  it("updates metadata and renames categories with their records", async () => {
+    const updated = await call('datadam_update_category', { category: 'recipes', description: 'Things I cook' });
+    assert.equal(updated.isError, undefined);
+    assert.equal(h.fake.categories.find((c) => c.category_name === 'recipes')?.description, 'Things I cook');
+
+    const renamed = await call('datadam_update_category', { category: 'recipes', newName: 'cooking' });
+    assert.equal((renamed.structuredContent as { renamed_from?: string }).renamed_from, 'recipes');
+    assert.deepEqual(titlesIn('cooking'), ['Pancakes']);
+    assert.ok(allCategories.includes('cooking'));
+    assert.ok(!allCategories.includes('recipes'));
+  });
+
+  it("reports update errors", async () => {
+    const missing = await call('datadam_update_category', { category: 'nope', description: 'x' });
+    assert.match(textOf(missing), /Category not found: nope/);
+
+    const empty = await call('datadam_update_category', { category: 'books' });
+    assert.match(textOf(empty), /No changes given/);
+
+    const clash = await call('datadam_update_category', { category: 'cooking', newName: 'books' });
+    assert.equal(clash.isError, true);
+    assert.deepEqual(titlesIn('cooking'), ['Pancakes']);
+  });
+
+  it("deactivates categories without losing their records, and reactivates them", async () => {
+    const deactivated = await call('datadam_deactivate_category', { category: 'interests' });
+    assert.equal((deactivated.structuredContent as { operation: string }).operation, 'deactivated');
+    assert.ok(!availableCategories.includes('interests'));
+    assert.ok(!allCategories.includes('interests'));
+
+    await assert.rejects(call('datadam_extract_personal_data', { category: 'interests' }), /Invalid arguments/);
+    assert.deepEqual(titlesIn('interests'), ['Chess']);
+
+    const reactivated = await call('datadam_deactivate_category', { category: 'interests', action: 'reactivate' });
+    assert.equal((reactivated.structuredContent as { active: boolean }).active, true);
+    assert.ok(availableCategories.includes('interests'));
+
+    const missing = await call('datadam_deactivate_category', { category: 'nope' });
+    assert.match(textOf(missing), /Category not found/);
+  });
+
+  it("merges one category into another", async () => {
+    const result = await call('datadam_merge_categories', { source: 'cooking', target: 'interests' });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal((result.structuredContent as { moved_count: number }).moved_count, 1);
+    assert.deepEqual(titlesIn('interests'), ['Chess', 'Pancakes']);
+    assert.ok(!h.fake.categories.some((c) => c.category_name === 'cooking'));
+    assert.ok(!allCategories.includes('cooking'));
+
+    const self = await call('datadam_merge_categories', { source: 'books', target: 'books' });
+    assert.match(textOf(self), /must be different/);
+
+    const missing = await call('datadam_merge_categories', { source: 'nope', target: 'books' });
+    assert.match(textOf(missing), /Category not found: nope/);
+  });
+});
+
+describe("category management for other keys", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    process.env.DATADAM_ADMIN_PRINCIPALS = 'ops';
+    h = await startHarness({
+      identity: { principal: 'laptop', userId: null },
+      seed: (fake) => { fake.seed({ category: 'books', title: 'Dune' }); }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    delete process.env.DATADAM_ADMIN_PRINCIPALS;
+    restoreConsole();
+  });
+
+  it("neither lists nor runs the category tools", async () => {
+    const { tools } = await h.client.listTools();
+    assert.ok(!tools.some((tool) => tool.name.endsWith('_category') || tool.name === 'datadam_merge_categories'));
+
+    for (const name of ['datadam_create_category', 'datadam_update_category', 'datadam_deactivate_category', 'datadam_merge_categories']) {
+      await assert.rejects(
+        h.client.callTool({ name, arguments: { name: 'x', displayName: 'x', category: 'books', source: 'books', target: 'x' } }),
+        /not found/
+      );
+    }
+    assert.equal(h.fake.categories.filter((c) => c.category_name === 'books').length, 1);
+    assert.equal(h.fake.records[0].category, 'books');
+  });
+});
+
+describe("local store category management", () => {
+  it("creates, renames, deactivates and merges categories", async () => {
+    const store = await createLocalStore();
+    assert.equal((await store.createCategory({ name: 'recipes', displayName: 'Recipes' })).data, true);
+    assert.equal((await store.createCategory({ name: 'recipes', displayName: 'Recipes' })).data, false);
+    await store.createPersonalData({ category: 'recipes', title: 'Pancakes', content: {} });
+
+    await store.updateCategory({ name: 'recipes', updates: {}, newName: 'cooking' });
+    const { data: names } = await store.getAllCategoryNames();
+    assert.ok(names!.includes('cooking') && !names!.includes('recipes'));
+
+    await store.setCategoryActive({ name: 'cooking', active: false });
+    assert.ok(!(await store.getAllCategoryNames()).data!.includes('cooking'));
+    await store.setCategoryActive({ name: 'cooking', active: true });
+
+    assert.equal((await store.mergeCategories({ source: 'cooking', target: 'books' })).data, 1);
+    const { data: books } = await store.extractPersonalData({ category: 'books', limit: 10, offset: 0 });
+    assert.deepEqual(books!.map((record) => record.title), ['Pancakes']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("ChatGPT endpoint tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let bookId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        bookId = fake.seed({ category: 'books', title: 'Genome', content: { author: 'Matt Ridley' }, tags: ['science'] }).id;
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("exposes only search and fetch", async () => {
+    const { tools } = await h.chatgpt.listTools();
+    assert.deepEqual(tools.map((t) => t.name).sort(), ['fetch', 'search']);
+  });
+
+  it("search returns citation-friendly results", async () => {
+    const result = await h.chatgpt.callTool({ name: 'search', arguments: { query: 'science' } });
+    const body = JSON.parse(textOf(result));
+    assert.deepEqual(body.results, [{ id: bookId, title: 'Genome', url: `https://datadam.example.com/item/${bookId}` }]);
+  });
+
+  it("search returns an empty list when nothing matches", async () => {
+    const result = await h.chatgpt.callTool({ name: 'search', arguments: { query: 'cooking' } });
+    assert.deepEqual(JSON.parse(textOf(result)), { results: [] });
+  });
+
+  it("fetch returns the full document", async () => {
+    const result = await h.chatgpt.callTool({ name: 'fetch', arguments: { id: bookId } });
+    const doc = JSON.parse(textOf(result));
+    assert.equal(doc.id, bookId);
+    assert.deepEqual(JSON.parse(doc.text), { author: 'Matt Ridley' });
+    assert.equal(doc.metadata.category, 'books');
+  });
+
+  it("fetch reports unknown documents", async () => {
+    const result = await h.chatgpt.callTool({ name: 'fetch', arguments: { id: 'missing' } });
+    assert.deepEqual(JSON.parse(textOf(result)), { error: 'Document not found: missing' });
+  });
+
+  it("surfaces database errors", async () => {
+    h.fake.failWith('chatgpt_search_data', 'timeout');
+    h.fake.failWith('chatgpt_fetch_data', 'timeout');
+    const search = await h.chatgpt.callTool({ name: 'search', arguments: { query: 'science' } });
+    const fetch = await h.chatgpt.callTool({ name: 'fetch', arguments: { id: bookId } });
+    assert.deepEqual(JSON.parse(textOf(search)), { error: 'Database error: timeout' });
+    assert.deepEqual(JSON.parse(textOf(fetch)), { error: 'Database error: timeout' });
+  });
+});
+
+describe("user scoping", () => {
+  const alice = '11111111-1111-4111-8111-111111111111';
+  const bob = '22222222-2222-4222-8222-222222222222';
+  let h: Harness;
+  let restoreConsole: () => void;
+  let bobsId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      identity: { principal: 'alice', userId: alice },
+      seed: (fake) => {
+        fake.seed({ category: 'contacts', title: 'Alice friend', user_id: alice });
+        bobsId = fake.seed({ category: 'contacts', title: 'Bob friend', user_id: bob }).id;
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("only returns the session user's records", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_search_personal_data',
+      arguments: { query: 'friend', response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+    assert.deepEqual(body.results.map((r: { title: string }) => r.title), ['Alice friend']);
+  });
+
+  it("cannot modify another user's records", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_delete_personal_data',
+      arguments: { recordIds: [bobsId] }
+    });
+    assert.equal(result.isError, true);
+    assert.equal(h.fake.records.find((r) => r.id === bobsId)!.deleted_at, null);
+  });
+
+  it("ChatGPT fetch is scoped too", async () => {
+    const result = await h.chatgpt.callTool({ name: 'fetch', arguments: { id: bobsId } });
+    assert.deepEqual(JSON.parse(textOf(result)), { error: `Document not found: ${bobsId}` });
+  });
+
+  it("new records are owned by the session user", async () => {
+    await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'contacts', title: 'Carol', content: {} }
+    });
+    assert.equal(h.fake.records.find((r) => r.title === 'Carol')!.user_id, alice);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { validateContent, describeContentSchema } from "../src/utils/content-schema.js";
+import { createLocalStore } from "../src/services/local-store.js";
+import type { ContentSchema } from "../src/types.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+const contactsSchema: ContentSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    phone: { type: 'string' },
+    birthday: { type: 'string', format: 'date' }
+  },
+  required: ['name']
+};
+
+describe("content schema validation", () => {
+  it("accepts content matching the schema, including extra fields", () => {
+    assert.deepEqual(validateContent({ name: 'Jane', email: 'jane@example.com', nickname: 'JJ' }, contactsSchema), []);
+  });
+
+  it("rejects alternative spellings of declared fields", () => {
+    assert.deepEqual(validateContent({ name: 'Jane', Email: 'a@b.co', 'e-mail': 'c@d.co' }, contactsSchema), [
+      "use 'email' instead of 'Email'",
+      "use 'email' instead of 'e-mail'"
+    ]);
+  });
+
+  it("checks required fields, types, formats and enums", () => {
+    const schema: ContentSchema = {
+      properties: {
+        status: { type: 'string', enum: ['reading', 'finished'] },
+        rating: { type: 'number' },
+        genres: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['status'],
+      additionalProperties: false
+    };
+    assert.deepEqual(validateContent({ rating: '5', genres: ['sci-fi', 3], isbn: 'x' }, schema), [
+      "'status' is required",
+      "'rating' must be a number, got string",
+      "'genres[1]' must be a string, got integer",
+      "'isbn' is not an allowed field"
+    ]);
+    assert.deepEqual(validateContent({ status: 'done' }, schema), ["'status' must be one of: reading, finished"]);
+    assert.deepEqual(validateContent({ name: 'Jane', email: 'nope', birthday: '01/02/1990' }, contactsSchema), [
+      "'email' must be an email address",
+      "'birthday' must be a date in YYYY-MM-DD format"
+    ]);
+  });
+
+  it("summarizes a schema's fields", () => {
+    assert.equal(describeContentSchema(contactsSchema), 'name (required), email (email), phone, birthday (date)');
+  });
+
+  it("ships default schemas for contacts and books in the local store", async () => {
+    const store = await createLocalStore();
+    const { data } = await store.getCategorySchemas();
+    assert.deepEqual(Object.keys(data!).sort(), ['books', 'contacts']);
+  });
+});
+
+describe("content schemas in the tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let janeId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        fake.schemas.contacts = contactsSchema;
+        janeId = fake.seed({ category: 'contacts', title: 'Jane', content: { name: 'Jane' } }).id;
+        fake.seed({ category: 'books', title: 'Dune', content: { author: 'Frank Herbert' } });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("lists the content fields in the create tool description", async () => {
+    const { tools } = await h.client.listTools();
+    const create = tools.find((t) => t.name === 'datadam_create_personal_data')!;
+    assert.match(create.description!, /- contacts: name \(required\), email \(email\), phone, birthday \(date\)/);
+  });
+
+  it("rejects content that does not match on create", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'contacts', title: 'Bob', content: { name: 'Bob', Email: 'bob@example.com' } }
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Content does not match the contacts schema: use 'email' instead of 'Email'/);
+    assert.match(textOf(result), /Expected fields for contacts: name \(required\)/);
+    assert.equal(h.fake.records.length, 2);
+  });
+
+  it("creates records in categories without a schema unchecked", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'books', title: 'Neuromancer', content: { Author: 'William Gibson' } }
+    });
+    assert.match(textOf(result), /Successfully created record/);
+  });
+
+  it("validates the resulting content on update", async () => {
+    const bad = await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: janeId, updates: { content: { phone: '555-1234' } } }
+    });
+    assert.equal(bad.isError, true);
+    assert.match(textOf(bad), /'name' is required/);
+
+    const good = await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: janeId, updates: { content: { name: 'Jane', phone: '555-1234' } } }
+    });
+    assert.notEqual(good.isError, true);
+  });
+
+  it("validates existing content when a record moves into a category with a schema", async () => {
+    const dune = h.fake.records.find((r) => r.title === 'Dune')!;
+    const result = await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: dune.id, updates: { category: 'contacts' } }
+    });
+    assert.equal(result.isError, true);
+    assert.equal(dune.category, 'books');
+  });
+
+  it("shows the content fields in the categories resource", async () => {
+    const resource = await h.client.readResource({ uri: 'data://categories' });
+    const text = resource.contents[0].text as string;
+    assert.match(text, /Content fields: name \(required\), email \(email\), phone, birthday \(date\)/);
+    assert.match(text, /Content schema: \{"type":"object"/);
+  });
+});
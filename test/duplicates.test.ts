@@ -0,0 +1,198 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTitle, findDuplicateCandidates, mergeRecords } from "../src/utils/duplicates.js";
+import type { PersonalDataRecord } from "../src/types.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+function record(overrides: Partial<PersonalDataRecord>): PersonalDataRecord {
+  return {
+    id: 'r1',
+    user_id: null,
+    category: 'contacts',
+    title: 'Untitled',
+    content: {},
+    tags: [],
+    classification: 'personal',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  } as PersonalDataRecord;
+}
+
+describe("duplicate detection", () => {
+  it("normalizes case, punctuation and whitespace in titles", () => {
+    assert.equal(normalizeTitle('  John Smith – Work Contact! '), 'john smith work contact');
+    assert.equal(normalizeTitle('Café'), 'cafe');
+  });
+
+  it("matches on title, title subject and identifying values", () => {
+    const existing = [
+      record({ id: 'a', title: 'Current Location' }),
+      record({ id: 'b', title: 'John Smith - Work Contact' }),
+      record({ id: 'c', title: 'Mum', content: { phone: '(555) 123-4567' } }),
+      record({ id: 'd', title: 'Jane Doe', content: { email: 'jane@example.com' } })
+    ];
+
+    assert.deepEqual(
+      findDuplicateCandidates({ title: 'current location', content: {} }, existing).map((c) => c.id),
+      ['a']
+    );
+    assert.deepEqual(
+      findDuplicateCandidates({ title: 'John Smith', content: {} }, existing)[0].reasons,
+      ['same subject "john smith"']
+    );
+    assert.deepEqual(
+      findDuplicateCandidates({ title: 'Mother', content: { phone: '555.123.4567' } }, existing)[0],
+      { id: 'c', title: 'Mum', reasons: ['same phone'] }
+    );
+    assert.deepEqual(
+      findDuplicateCandidates({ title: 'Jane Doe', content: { email: 'JANE@example.com ' } }, existing)[0].reasons,
+      ['same title', 'same email']
+    );
+    assert.deepEqual(findDuplicateCandidates({ title: 'Jane Smith', content: { email: 'js@example.com' } }, existing), []);
+  });
+
+  it("does not match titles that differ only after a label or qualifier", () => {
+    const existing = [
+      record({ id: 'a', title: 'Book: Dune' }),
+      record({ id: 'b', title: 'Meeting - 2025-01-03' }),
+      record({ id: 'c', title: 'Team Meeting - 2025-01-03' }),
+      record({ id: 'd', title: 'Meeting' })
+    ];
+
+    for (const title of ['Book: Foundation', 'Book', 'Meeting - 2025-02-07', 'Team Meeting - 2025-02-07', 'Meeting - Weekly Sync']) {
+      assert.deepEqual(findDuplicateCandidates({ title, content: {} }, existing), [], title);
+    }
+    assert.deepEqual(
+      findDuplicateCandidates({ title: 'Team Meeting', content: {} }, existing).map((c) => c.id),
+      ['c']
+    );
+  });
+
+  it("merges content, tags and classification", () => {
+    const keep = record({
+      id: 'a',
+      title: 'John',
+      content: { email: 'john@work.com', address: { city: 'Boston' }, languages: ['en'] },
+      tags: ['work']
+    });
+    const duplicate = record({
+      id: 'b',
+      title: 'John Smith',
+      content: { email: 'john@home.com', phone: '555-1234', address: { zip: '02101' }, languages: ['en', 'fr'] },
+      tags: ['family'],
+      classification: 'sensitive'
+    });
+
+    const merged = mergeRecords(keep, duplicate);
+    assert.equal(merged.title, 'John');
+    assert.deepEqual(merged.content, {
+      email: 'john@work.com',
+      phone: '555-1234',
+      address: { city: 'Boston', zip: '02101' },
+      languages: ['en', 'fr']
+    });
+    assert.deepEqual(merged.tags, ['work', 'family']);
+    assert.equal(merged.classification, 'sensitive');
+    assert.deepEqual(merged.conflicts, [{ field: 'email', kept: 'john@work.com', discarded: 'john@home.com' }]);
+
+    assert.equal(mergeRecords(keep, duplicate, true).content.email, 'john@home.com');
+  });
+});
+
+describe("create and merge tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let johnId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        johnId = fake.seed({
+          category: 'contacts',
+          title: 'John Smith - Work Contact',
+          content: { email: 'john@work.com' },
+          tags: ['work']
+        }).id;
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("reports a possible duplicate instead of creating it", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'contacts', title: 'John', content: { email: 'John@Work.com' }, response_format: 'json' }
+    });
+    assert.notEqual(result.isError, true);
+    const body = JSON.parse(textOf(result));
+    assert.equal(body.possible_duplicate, true);
+    assert.deepEqual(body.candidates, [{ id: johnId, title: 'John Smith - Work Contact', reasons: ['same email'] }]);
+    assert.equal(h.fake.records.length, 1);
+
+    const markdown = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'contacts', title: 'John Smith', content: {} }
+    });
+    assert.match(textOf(markdown), /Possible duplicate/);
+    assert.match(textOf(markdown), new RegExp(johnId));
+  });
+
+  it("creates anyway when allowDuplicate is set", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: {
+        category: 'contacts',
+        title: 'John Smith',
+        content: { phone: '555-1234' },
+        tags: ['family'],
+        allowDuplicate: true
+      }
+    });
+    assert.match(textOf(result), /Successfully created record/);
+    assert.equal(h.fake.records.length, 2);
+  });
+
+  it("merges the duplicate into the kept record and soft-deletes it", async () => {
+    const duplicate = h.fake.records.find((r) => r.title === 'John Smith')!;
+    const result = await h.client.callTool({
+      name: 'datadam_merge_personal_data',
+      arguments: { keepId: johnId, mergeId: duplicate.id, response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+    assert.equal(body.operation, 'merged');
+    assert.deepEqual(body.conflicts, []);
+
+    const kept = h.fake.records.find((r) => r.id === johnId)!;
+    assert.deepEqual(kept.content, { email: 'john@work.com', phone: '555-1234' });
+    assert.deepEqual(kept.tags, ['work', 'family']);
+    assert.ok(duplicate.deleted_at);
+
+    const history = await h.client.callTool({
+      name: 'datadam_get_record_history',
+      arguments: { recordId: johnId, response_format: 'json' }
+    });
+    assert.match(JSON.parse(textOf(history)).versions[0].conversation_context, /Merged duplicate "John Smith"/);
+  });
+
+  it("rejects merging a record into itself or a missing record", async () => {
+    const same = await h.client.callTool({
+      name: 'datadam_merge_personal_data',
+      arguments: { keepId: johnId, mergeId: johnId }
+    });
+    assert.equal(same.isError, true);
+    assert.match(textOf(same), /must be different records/);
+
+    const missing = await h.client.callTool({
+      name: 'datadam_merge_personal_data',
+      arguments: { keepId: johnId, mergeId: 'missing' }
+    });
+    assert.equal(missing.isError, true);
+    assert.match(textOf(missing), /Record not found: missing/);
+  });
+});
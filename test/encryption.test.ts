@@ -0,0 +1,153 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  encryptContent,
+  decryptContent,
+  isEncryptedContent,
+  parseKeyring,
+  generateMasterKey,
+  ENVELOPE_KEY
+} from "../src/services/encryption.js";
+import { createEncryptedStore, encryptStoredContent } from "../src/services/encrypted-store.js";
+import { createAccessPolicy } from "../src/services/access-policy.js";
+import { initializeDatabase } from "../src/services/database.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import { createMcpServer } from "../src/server.js";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fakeSupabase.js";
+import { connect, textOf, quietConsole } from "./helpers/harness.js";
+
+const k1 = generateMasterKey();
+const k2 = generateMasterKey();
+
+describe("envelope encryption", () => {
+  const keyring = parseKeyring(`k1:${k1}`);
+
+  it("round-trips content and hides it in the envelope", () => {
+    const content = { passport_number: 'X1234', issued: { year: 2020 } };
+    const stored = encryptContent(content, keyring);
+    assert.equal(isEncryptedContent(stored), true);
+    assert.equal(JSON.stringify(stored).includes('X1234'), false);
+    assert.deepEqual(decryptContent(stored, keyring), content);
+  });
+
+  it("rejects tampered content and unknown keys", () => {
+    const stored = encryptContent({ a: 1 }, keyring);
+    const tampered = { [ENVELOPE_KEY]: { ...stored[ENVELOPE_KEY], data: Buffer.from('nope').toString('base64') } };
+    assert.throws(() => decryptContent(tampered, keyring));
+    assert.throws(() => decryptContent(stored, parseKeyring(`k2:${k2}`)), /"k1", which is not in the keyring/);
+  });
+
+  it("validates the key list", () => {
+    assert.throws(() => parseKeyring('k1:c2hvcnQ='), /must be 32 bytes/);
+    assert.throws(() => parseKeyring(`k1:${k1},k1:${k2}`), /Duplicate encryption key id "k1"/);
+    assert.equal(parseKeyring(`k2:${k2}, k1:${k1}`).primaryKeyId, 'k2');
+  });
+});
+
+describe("encrypted store", () => {
+  const keyring = parseKeyring(`k1:${k1}`);
+  let fake: FakeSupabase;
+  let client: Client;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    fake = createFakeSupabase();
+    fake.seed({ category: 'basic_information', title: 'Current Location', content: { city: 'Boston' } });
+    const store = createEncryptedStore(createSupabaseStore(fake.client), keyring);
+    await initializeDatabase(store);
+    client = await connect(createMcpServer({
+      store,
+      embeddings: null,
+      accessPolicy: createAccessPolicy({ maxClassification: 'confidential', unlocked: true })
+    }));
+  });
+
+  after(async () => {
+    await client.close();
+    restoreConsole();
+  });
+
+  const extract = async () => JSON.parse(textOf(await client.callTool({
+    name: 'datadam_extract_personal_data',
+    arguments: { category: 'basic_information', response_format: 'json' }
+  }))).results;
+
+  it("stores confidential content encrypted and returns it decrypted", async () => {
+    await client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'basic_information', title: 'Passport', content: { passport_number: 'X1234' }, classification: 'confidential' }
+    });
+
+    const stored = fake.records.find((r) => r.title === 'Passport')!;
+    assert.equal(isEncryptedContent(stored.content), true);
+    assert.equal(isEncryptedContent(fake.records.find((r) => r.title === 'Current Location')!.content), false);
+
+    const passport = (await extract()).find((r: any) => r.title === 'Passport');
+    assert.deepEqual(passport.content, { passport_number: 'X1234' });
+  });
+
+  it("follows classification changes and keeps history encrypted", async () => {
+    const record = fake.records.find((r) => r.title === 'Current Location')!;
+    await client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: record.id, updates: { classification: 'sensitive' } }
+    });
+    assert.equal(isEncryptedContent(record.content), true);
+
+    await client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: record.id, updates: { content: { city: 'Denver' } } }
+    });
+    assert.equal(isEncryptedContent(record.content), true);
+    assert.equal(isEncryptedContent(fake.versions.at(-1)!.content), true);
+
+    const history = JSON.parse(textOf(await client.callTool({
+      name: 'datadam_get_record_history',
+      arguments: { recordId: record.id, response_format: 'json' }
+    })));
+    assert.deepEqual(history.versions.map((v: any) => v.snapshot.content.city), ['Boston', 'Boston']);
+
+    await client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: record.id, updates: { classification: 'personal' } }
+    });
+    assert.deepEqual(record.content, { city: 'Denver' });
+  });
+});
+
+describe("encryption migration", () => {
+  it("encrypts existing rows, then re-wraps them after a rotation", async () => {
+    const fake = createFakeSupabase();
+    const store = createSupabaseStore(fake.client);
+    const secret = fake.seed({ category: 'basic_information', title: 'Passport', content: { number: 'X1' }, classification: 'confidential' });
+    fake.seed({ category: 'basic_information', title: 'City', content: { city: 'Boston' } });
+    fake.versions.push({
+      record_id: secret.id,
+      version: 1,
+      title: 'Passport',
+      content: { number: 'X0' },
+      tags: [],
+      category: 'basic_information',
+      classification: 'confidential',
+      conversation_context: null,
+      created_at: secret.created_at
+    });
+
+    const first = parseKeyring(`k1:${k1}`);
+    assert.deepEqual(await encryptStoredContent(store, first, { dryRun: true }), { scanned: 3, encrypted: 2, rewrapped: 0, decrypted: 0 });
+    assert.deepEqual(secret.content, { number: 'X1' });
+
+    assert.deepEqual(await encryptStoredContent(store, first, { batchSize: 2 }), { scanned: 3, encrypted: 2, rewrapped: 0, decrypted: 0 });
+    assert.equal(isEncryptedContent(secret.content), true);
+    assert.equal(isEncryptedContent(fake.versions[0].content), true);
+    assert.deepEqual(await encryptStoredContent(store, first), { scanned: 3, encrypted: 0, rewrapped: 0, decrypted: 0 });
+
+    const rotated = parseKeyring(`k2:${k2},k1:${k1}`);
+    assert.deepEqual(await encryptStoredContent(store, rotated), { scanned: 3, encrypted: 0, rewrapped: 2, decrypted: 0 });
+    const onlyNew = parseKeyring(`k2:${k2}`);
+    assert.deepEqual(decryptContent(secret.content, onlyNew), { number: 'X1' });
+    assert.deepEqual(decryptContent(fake.versions[0].content, onlyNew), { number: 'X0' });
+  });
+});
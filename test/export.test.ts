@@ -0,0 +1,210 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { inflateRawSync } from "node:zlib";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { createZip } from "../src/utils/zip.js";
+import { registerExportRoute, EXPORT_PATH } from "../src/routes/export.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+// Reads entries back by walking the local file headers
+function readZip(zip: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength + extraLength;
+    files[name] = inflateRawSync(zip.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+  assert.equal(zip.readUInt32LE(zip.length - 22), 0x06054b50);
+  return files;
+}
+
+describe("zip archives", () => {
+  it("round-trips entries with UTF-8 names", () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'café/b.md', data: Buffer.from('# Title\n') }
+    ]);
+    assert.deepEqual(readZip(zip), { 'a.txt': 'hello', 'café/b.md': '# Title\n' });
+    assert.equal(zip.readUInt16LE(zip.length - 12), 2);
+  });
+});
+
+describe("datadam_export_personal_data", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        fake.seed({ category: 'contacts', title: 'Jane, "JJ" Doe', content: { email: 'jane@example.com', title: 'CTO' }, tags: ['work', 'friend'] });
+        fake.seed({ category: 'books', title: 'Dune', content: { author: 'Frank Herbert', genres: ['sci-fi', 'classic'] } });
+        fake.seed({ category: 'books', title: 'Old Book', content: { author: 'Anon' }, deleted_at: '2025-01-01T00:00:00.000Z' });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  async function exportAndRead(args: Record<string, unknown>) {
+    const result = await h.client.callTool({ name: 'datadam_export_personal_data', arguments: args });
+    const link = (result.content as any[]).find((c) => c.type === 'resource_link');
+    const resource = await h.client.readResource({ uri: link.uri });
+    return { result, link, contents: resource.contents[0] as { text?: string; blob?: string; mimeType?: string } };
+  }
+
+  it("links to a JSON export of all live records", async () => {
+    const { result, link, contents } = await exportAndRead({});
+    assert.match(textOf(result), /✓ Exported 2 record\(s\) as \*\*datadam-export-\d{4}-\d{2}-\d{2}\.json\*\* \(books: 1, contacts: 1\)/);
+    assert.match(link.uri, /^data:\/\/exports\//);
+    assert.equal(contents.mimeType, 'application/json');
+
+    const body = JSON.parse(contents.text!);
+    assert.equal(body.record_count, 2);
+    assert.deepEqual(body.records.map((r: any) => r.title), ['Dune', 'Jane, "JJ" Doe']);
+  });
+
+  it("includes soft-deleted records on request", async () => {
+    const { contents } = await exportAndRead({ includeDeleted: true });
+    const body = JSON.parse(contents.text!);
+    assert.equal(body.record_count, 3);
+    assert.equal(body.records.find((r: any) => r.title === 'Old Book').deleted_at, '2025-01-01T00:00:00.000Z');
+  });
+
+  it("writes one CSV per category", async () => {
+    const { contents } = await exportAndRead({ format: 'csv' });
+    assert.equal(contents.mimeType, 'application/zip');
+    const files = readZip(Buffer.from(contents.blob!, 'base64'));
+    assert.deepEqual(Object.keys(files).sort(), ['books.csv', 'contacts.csv']);
+
+    const contacts = files['contacts.csv'].split('\r\n');
+    assert.equal(contacts[0], 'id,title,category,tags,classification,created_at,updated_at,email,content.title');
+    assert.match(contacts[1], /^[^,]+,"Jane, ""JJ"" Doe",contacts,work;friend,personal,[^,]+,[^,]+,jane@example\.com,CTO$/);
+    assert.match(files['books.csv'], /Frank Herbert,sci-fi; classic/);
+  });
+
+  it("writes a Markdown file per record with an index", async () => {
+    const { contents } = await exportAndRead({ format: 'markdown', includeDeleted: true });
+    const files = readZip(Buffer.from(contents.blob!, 'base64'));
+    const names = Object.keys(files);
+    assert.equal(names[0], 'README.md');
+    const dune = names.find((name) => name.startsWith('books/dune-'))!;
+    assert.match(files[dune], /^# Dune/);
+    assert.match(files['README.md'], /\[Old Book\]\(books\/old-book-[0-9a-f]{8}\.md\) \(deleted\)/);
+    assert.ok(names.some((name) => /^contacts\/jane-jj-doe-[0-9a-f]{8}\.md$/.test(name)));
+  });
+
+  it("lists exports as resources and reports unknown ones", async () => {
+    const { resources } = await h.client.listResources();
+    assert.ok(resources.some((r) => r.uri.startsWith('data://exports/')));
+
+    const missing = await h.client.readResource({ uri: 'data://exports/unknown' });
+    assert.match(missing.contents[0].text as string, /Export not found or expired/);
+  });
+});
+
+describe("GET /export", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({ seed: (fake) => { fake.seed({ category: 'books', title: 'Dune', content: { author: 'Frank Herbert' } }); } });
+    const app = express();
+    registerExportRoute(app, (_req, _res, next) => next());
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await h.close();
+    restoreConsole();
+  });
+
+  it("downloads the export as an attachment", async () => {
+    const response = await fetch(`${baseUrl}${EXPORT_PATH}?format=markdown`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'application/zip');
+    assert.match(response.headers.get('content-disposition')!, /attachment; filename="datadam-export-.*-markdown\.zip"/);
+    assert.equal(response.headers.get('x-record-count'), '1');
+    const files = readZip(Buffer.from(await response.arrayBuffer()));
+    assert.equal(Object.keys(files).length, 2);
+
+    const entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.tool, 'GET /export');
+    assert.deepEqual(entry.record_ids, [h.fake.records[0].id]);
+  });
+
+  it("rejects unknown formats", async () => {
+    const response = await fetch(`${baseUrl}${EXPORT_PATH}?format=xml`);
+    assert.equal(response.status, 400);
+  });
+});
+
+describe("GET /export of confidential records", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    process.env.DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS = 'ops';
+    h = await startHarness({
+      seed: (fake) => {
+        fake.seed({ category: 'basic_information', title: 'Passport', content: { number: 'X12341234' }, classification: 'confidential' });
+      }
+    });
+    const app = express();
+    // Stands in for setupAuth(): the principal comes from the X-Principal header
+    registerExportRoute(app, (req, _res, next) => {
+      req.auth = { token: '', clientId: '', scopes: [], extra: { principal: req.headers['x-principal'] } };
+      next();
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await h.close();
+    delete process.env.DATADAM_EXPORT_CONFIDENTIAL_PRINCIPALS;
+    restoreConsole();
+  });
+
+  const download = async (principal: string, query = '') => fetch(`${baseUrl}${EXPORT_PATH}?format=json${query}`, {
+    headers: { 'X-Principal': principal }
+  });
+
+  it("masks confidential content for a default key", async () => {
+    const response = await download('laptop');
+    assert.equal(response.status, 200);
+    const text = await response.text();
+    assert.ok(!text.includes('X12341234'));
+    assert.match(text, /••••1234/);
+  });
+
+  it("reveals it only to keys allowed to ask for it", async () => {
+    assert.equal((await download('laptop', '&includeConfidential=true')).status, 403);
+
+    const allowed = await download('ops', '&includeConfidential=true');
+    assert.equal(allowed.status, 200);
+    assert.match(await allowed.text(), /X12341234/);
+
+    assert.doesNotMatch(await (await download('ops')).text(), /X12341234/);
+  });
+});
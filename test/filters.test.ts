@@ -0,0 +1,195 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { matchesFilters, compareRecords } from "../src/utils/record-filters.js";
+import { createLocalStore } from "../src/services/local-store.js";
+import type { PersonalDataRecord } from "../src/types.js";
+import { sqlMatchesFilters, sqlCompareRecords } from "./helpers/sqlFilters.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("matchesFilters", () => {
+  const record = (overrides: Partial<PersonalDataRecord>): PersonalDataRecord => ({
+    id: '1', user_id: null, title: 'Dune', tags: ['novel', 'sci-fi'], category: 'books', classification: 'personal',
+    content: { author: 'Frank Herbert', rating: 5, read_on: '2024-03-10', genres: ['Science Fiction', 'Classic'], address: { city: 'Boston' } },
+    created_at: '2024-03-01T10:00:00.000Z', updated_at: '2025-01-05T10:00:00.000Z',
+    ...overrides
+  });
+  const matches = (filters: object) => matchesFilters(record({}), filters);
+
+  it("compares text case-insensitively and list fields by element", () => {
+    assert.ok(matches({ content: { author: { eq: 'frank herbert' } } }));
+    assert.ok(matches({ content: { author: { contains: 'HERB' } } }));
+    assert.ok(matches({ content: { genres: { eq: 'classic' } } }));
+    assert.ok(matches({ content: { genres: { contains: 'fiction' } } }));
+    assert.ok(!matches({ content: { author: { eq: 'Herbert' } } }));
+    assert.ok(matches({ content: { 'address.city': { eq: 'BOSTON' } } }));
+  });
+
+  it("compares ranges like with like", () => {
+    assert.ok(matches({ content: { rating: { gte: 4, lte: 5 } } }));
+    assert.ok(!matches({ content: { rating: { gt: 5 } } }));
+    assert.ok(matches({ content: { read_on: { gte: '2024-01-01', lt: '2025-01-01' } } }));
+    // A string bound never matches a number, nor a number bound a string
+    assert.ok(!matches({ content: { rating: { gte: '4' } } }));
+    assert.ok(!matches({ content: { read_on: { gt: 0 } } }));
+  });
+
+  it("checks whether fields are set", () => {
+    assert.ok(matches({ content: { rating: { exists: true }, isbn: { exists: false } } }));
+    assert.ok(!matches({ content: { isbn: { exists: true } } }));
+    assert.ok(!matches({ content: { isbn: { eq: 'x' } } }));
+  });
+
+  it("filters by tags and time windows", () => {
+    assert.ok(matches({ tags: { any: ['novel', 'poetry'], all: ['novel', 'sci-fi'], none: ['archived'] } }));
+    assert.ok(!matches({ tags: { all: ['novel', 'poetry'] } }));
+    assert.ok(!matches({ tags: { none: ['sci-fi'] } }));
+    assert.ok(matches({ created: { from: '2024-03-01', to: '2024-04-01' }, updated: { from: '2025-01-01' } }));
+    // to is exclusive
+    assert.ok(!matches({ created: { to: '2024-03-01T10:00:00Z' } }));
+  });
+
+  it("sorts by the requested field, then newest first", () => {
+    const records = [
+      record({ id: 'a', title: 'Emma', updated_at: '2025-01-01T00:00:00Z' }),
+      record({ id: 'b', title: 'Dune', updated_at: '2025-01-02T00:00:00Z' }),
+      record({ id: 'c', title: 'Dune', updated_at: '2025-01-03T00:00:00Z' })
+    ];
+    const ids = (filters: object | null) => [...records].sort(compareRecords(filters)).map((r) => r.id);
+    assert.deepEqual(ids(null), ['c', 'b', 'a']);
+    assert.deepEqual(ids({ sort: { field: 'title', direction: 'asc' } }), ['c', 'b', 'a']);
+    assert.deepEqual(ids({ sort: { field: 'title', direction: 'desc' } }), ['a', 'c', 'b']);
+    assert.deepEqual(ids({ sort: { field: 'updated_at', direction: 'asc' } }), ['a', 'b', 'c']);
+  });
+});
+
+describe("filters against the SQL semantics", () => {
+  const record = (overrides: Partial<PersonalDataRecord>): PersonalDataRecord => ({
+    id: '1', user_id: null, title: 'Dune', tags: ['novel'], category: 'books', classification: 'personal',
+    content: {
+      author: 'Frank Herbert', rating: 5, isbn: null, phones: ['555-0100', '555-0199'], edition: 'ﬀ',
+      genres: ['Classic', 7], address: { city: 'Boston', zip: '02108' }
+    },
+    created_at: '2024-03-01T10:00:00.000Z', updated_at: '2025-01-05T10:00:00.000Z',
+    ...overrides
+  });
+
+  // [filters, whether extract_personal_data() returns the record]
+  const cases: [object, boolean][] = [
+    [{ content: { isbn: { exists: false } } }, true],
+    [{ content: { isbn: { exists: true } } }, false],
+    [{ content: { isbn: { eq: 'x' } } }, false],
+    [{ content: { rating: { eq: '5' } } }, false],
+    [{ content: { rating: { eq: 5 }, genres: { eq: 7 } } }, true],
+    [{ content: { genres: { contains: '7' } } }, false],
+    [{ content: { genres: { gte: 1 } } }, false],
+    [{ content: { 'phones.0': { eq: '555-0100' } } }, true],
+    [{ content: { 'phones.5': { exists: true } } }, false],
+    [{ content: { 'address.zip': { gt: '02000', lt: '03000' } } }, true],
+    [{ content: { 'address.city.name': { exists: true } } }, false],
+    [{ content: { 'author.0': { exists: true } } }, false],
+    // Byte order puts characters outside the Basic Multilingual Plane last
+    [{ content: { edition: { lt: '😀' } } }, true],
+    [{ tags: { any: [] } }, true],
+    [{ tags: { all: [] } }, true],
+    [{ tags: { none: ['novel'] } }, false],
+    [{ created: { from: '2024-03-01T10:00:00Z' } }, true],
+    [{ updated: { to: '2025-01-05T10:00:00Z' } }, false]
+  ];
+
+  for (const [filters, expected] of cases) {
+    it(`${expected ? 'matches' : 'excludes'} ${JSON.stringify(filters)}`, () => {
+      assert.equal(sqlMatchesFilters(record({}), filters), expected, 'schema.sql');
+      assert.equal(matchesFilters(record({}), filters), expected, 'record-filters.ts');
+    });
+  }
+
+  it("sorts in the order of extract_personal_data()", () => {
+    const records = [
+      record({ id: 'a', title: 'emma', created_at: '2024-01-03T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' }),
+      record({ id: 'b', title: 'Dune', created_at: '2024-01-01T00:00:00Z', updated_at: '2025-01-02T00:00:00Z' }),
+      record({ id: 'c', title: 'Dune', created_at: '2024-01-02T00:00:00Z', updated_at: '2025-01-02T00:00:00Z' })
+    ];
+    for (const filters of [null, ...(['title', 'created_at', 'updated_at'] as const).flatMap((field) =>
+      (['asc', 'desc'] as const).map((direction) => ({ sort: { field, direction } })))]) {
+      const ids = (compare: (a: PersonalDataRecord, b: PersonalDataRecord) => number) => [...records].sort(compare).map((r) => r.id);
+      assert.deepEqual(ids(compareRecords(filters)), ids(sqlCompareRecords(filters)), JSON.stringify(filters));
+    }
+  });
+});
+
+describe("extract filters", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        fake.seed({ category: 'books', title: 'Dune', tags: ['novel'], content: { author: 'Frank Herbert', rating: 5, year: 1965 } });
+        fake.seed({ category: 'books', title: 'Emma', tags: ['novel', 'classic'], content: { author: 'Jane Austen', rating: 4, year: 1815 } });
+        fake.seed({ category: 'books', title: 'Atlas', tags: ['reference'], content: { rating: 3 } });
+        fake.seed({ category: 'books', title: 'Brick', tags: ['novel', 'archived'], content: { author: 'Unknown', rating: 2 } });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const extract = async (args: Record<string, unknown>) => {
+    const result = await h.client.callTool({
+      name: 'datadam_extract_personal_data',
+      arguments: { category: 'books', response_format: 'json', ...args }
+    });
+    return { result, titles: JSON.parse(textOf(result)).results.map((r: { title: string }) => r.title) };
+  };
+
+  it("applies content, tag and sort filters", async () => {
+    const { titles } = await extract({
+      filters: {
+        content: { rating: { gte: 3 }, author: { exists: true } },
+        tags: { all: ['novel'], none: ['archived'] },
+        sort: { field: 'title', direction: 'asc' }
+      }
+    });
+    assert.deepEqual(titles, ['Dune', 'Emma']);
+  });
+
+  it("pages custom sort orders by position", async () => {
+    const filters = { sort: { field: 'title', direction: 'asc' } };
+    const first = await h.client.callTool({
+      name: 'datadam_extract_personal_data',
+      arguments: { category: 'books', limit: 2, filters, response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(first));
+    assert.deepEqual(body.results.map((r: { title: string }) => r.title), ['Atlas', 'Brick']);
+
+    const { titles } = await extract({ limit: 2, filters, cursor: body.next_cursor });
+    assert.deepEqual(titles, ['Dune', 'Emma']);
+  });
+
+  it("rejects malformed filters", async () => {
+    for (const filters of [{ rating: 5 }, { content: { rating: {} } }, { content: { rating: { between: [1, 2] } } }, { created: { from: 'last week' } }]) {
+      await assert.rejects(extract({ filters }), /Invalid arguments/, JSON.stringify(filters));
+    }
+  });
+});
+
+describe("local store extract filters", () => {
+  it("filters and sorts like the database", async () => {
+    const store = await createLocalStore();
+    for (const [title, rating] of [['Dune', 5], ['Emma', 4], ['Atlas', 3]] as const) {
+      await store.createPersonalData({ category: 'books', title, content: { rating } });
+    }
+
+    const { data } = await store.extractPersonalData({
+      category: 'books',
+      filters: { content: { rating: { gte: 4 } }, sort: { field: 'title', direction: 'desc' } },
+      limit: 10,
+      offset: 0
+    });
+    assert.deepEqual(data!.map((record) => record.title), ['Emma', 'Dune']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkAndTruncateResponse, formatErrorMessage, formatSuccessMessage, type PersonalDataRecord } from "../src/utils/formatting.js";
+
+function records(count: number, contentSize = 10): PersonalDataRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `id-${i}`,
+    title: `Record ${i}`,
+    content: { note: 'x'.repeat(contentSize) },
+    category: 'documents',
+    classification: 'personal',
+    created_at: '2025-01-01T00:00:00Z'
+  }));
+}
+
+describe("checkAndTruncateResponse", () => {
+  it("returns everything when within the limit", () => {
+    const result = checkAndTruncateResponse(records(3), 25000, 'json', 0, 3, false, 3);
+    assert.equal(result.wasTruncated, false);
+    assert.equal(JSON.parse(result.text).count, 3);
+  });
+
+  it("halves JSON results until they fit", () => {
+    const result = checkAndTruncateResponse(records(20, 500), 3000, 'json', 10, 20, false, 30);
+    const body = JSON.parse(result.text);
+    assert.equal(result.wasTruncated, true);
+    assert.ok(result.text.length <= 3000);
+    assert.equal(body.count, result.truncatedCount);
+    assert.equal(body.next_offset, 10 + result.truncatedCount);
+    assert.equal(body.has_more, true);
+    assert.match(body.truncation_message, /Response truncated from 20/);
+  });
+
+  it("appends a notice to truncated markdown", () => {
+    const result = checkAndTruncateResponse(records(20, 150), 2000, 'markdown', 0);
+    assert.equal(result.wasTruncated, true);
+    assert.equal(result.nextOffset, result.truncatedCount);
+    assert.match(result.text, /Response Truncated.*Showing \d+\/20 records/);
+  });
+
+  it("keeps at least one record even when it exceeds the limit", () => {
+    const result = checkAndTruncateResponse(records(4, 5000), 1000, 'json', 0);
+    assert.equal(result.truncatedCount, 1);
+  });
+});
+
+describe("message helpers", () => {
+  it("formats errors for both response formats", () => {
+    assert.equal(formatErrorMessage('Boom', 'Retry', 'markdown'), '❌ **Error**: Boom\n\n💡 **Suggestion**: Retry');
+    assert.deepEqual(JSON.parse(formatErrorMessage('Boom', undefined, 'json')), { error: true, message: 'Boom' });
+  });
+
+  it("formats success messages with the category when given", () => {
+    assert.equal(formatSuccessMessage('created', 'Pancakes', 'recipes'), '✓ Successfully created record: **Pancakes** in category **recipes**');
+  });
+});
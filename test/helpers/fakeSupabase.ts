@@ -0,0 +1,501 @@
+// In-memory stand-in for the Supabase client
+//
+// Implements just the RPC functions (and the category_registry query) that the
+// DataDam tools call, with the same filtering semantics as schema.sql. Any RPC
+// can be forced to fail to exercise the tools' error paths.
+
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PersonalDataRecord, RecordVersion, Category, ContentSchema, AuditEntry } from "../../src/types.js";
+import { sqlMatchesFilters, sqlCompareRecords } from "./sqlFilters.js";
+import type { SessionRecord } from "../../src/services/session-store.js";
+
+type RpcResponse = { data: any; error: { message: string } | null };
+
+export interface FakeRecord extends PersonalDataRecord {
+  deleted_at: string | null;
+  // Text form of the vector, as pgvector receives it
+  embedding?: string;
+  embedding_model?: string;
+  embedding_title_only?: boolean;
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  records: FakeRecord[];
+  versions: RecordVersion[];
+  categories: Category[];
+  // Names of deactivated categories (category_registry.deactivated_at set)
+  deactivated: Set<string>;
+  auditLog: AuditEntry[];
+  // mcp_sessions rows by session id
+  mcpSessions: Map<string, SessionRecord>;
+  // category_registry.content_schema by category name; empty unless a test sets one
+  schemas: Record<string, ContentSchema>;
+  // Every rpc call made, in order, for asserting on parameters
+  calls: { fn: string; params: Record<string, any> }[];
+  // Makes every subsequent call to `fn` return a database error
+  failWith(fn: string, message: string): void;
+  seed(record: Partial<FakeRecord> & Pick<PersonalDataRecord, 'title' | 'category'>): FakeRecord;
+}
+
+function category(name: string, display: string): Category {
+  return {
+    category_name: name,
+    display_name: display,
+    description: `${display} stored by the user`,
+    item_count: 0,
+    trigger_words: [name],
+    query_hint: `Query when the user mentions ${name}`,
+    example_queries: [`Show my ${name}`],
+    last_modified: new Date(0).toISOString()
+  };
+}
+
+let clock = Date.parse('2025-01-01T00:00:00Z');
+function tick(): string {
+  clock += 1000;
+  return new Date(clock).toISOString();
+}
+
+export function createFakeSupabase(): FakeSupabase {
+  const records: FakeRecord[] = [];
+  const versions: RecordVersion[] = [];
+  const categories: Category[] = [
+    category('basic_information', 'Basic Information'),
+    category('books', 'Books & Reading'),
+    category('contacts', 'Contacts & Relationships'),
+    category('interests', 'Interests & Hobbies')
+  ];
+  const schemas: Record<string, ContentSchema> = {};
+  const deactivated = new Set<string>();
+  const auditLog: AuditEntry[] = [];
+  const mcpSessions = new Map<string, SessionRecord>();
+  const failures = new Map<string, string>();
+  const calls: FakeSupabase['calls'] = [];
+
+  const live = (userId?: string | null) => records.filter((r) =>
+    r.deleted_at === null && (!userId || r.user_id === userId)
+  );
+  const byUpdatedDesc = (a: FakeRecord, b: FakeRecord) => b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id);
+  // Keyset condition of search_personal_data and extract_personal_data
+  const sortsAfter = (r: FakeRecord, p: any) => !p.p_after_id ||
+    r.updated_at < p.p_after_updated_at || (r.updated_at === p.p_after_updated_at && r.id < p.p_after_id);
+  // p_classifications: the classifications a hide-mode session may see
+  const visible = (r: FakeRecord, p: any) => !p.p_classifications || p.p_classifications.includes(r.classification ?? 'personal');
+  const strip = ({ deleted_at, embedding, embedding_model, embedding_title_only, ...rest }: FakeRecord): PersonalDataRecord => rest;
+  const cosine = (a: number[], b: number[]) => {
+    const dot = a.reduce((sum, v, i) => sum + v * b[i], 0);
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    return dot / (norm(a) * norm(b) || 1);
+  };
+  const counted = () => categories.map((cat) => ({
+    ...cat,
+    item_count: live().filter((r) => r.category === cat.category_name).length
+  }));
+
+  const findCategory = (name: string) => categories.find((cat) => cat.category_name === name);
+  // move_category_records(): records (deleted ones too) and versions follow the category
+  const moveCategoryRecords = (source: string, target: string) => {
+    const moved = records.filter((r) => r.category === source);
+    const now = tick();
+    moved.forEach((r) => { r.category = target; r.updated_at = now; });
+    versions.filter((v) => v.category === source).forEach((v) => { v.category = target; });
+    return moved.length;
+  };
+
+  function seed(record: Partial<FakeRecord> & Pick<PersonalDataRecord, 'title' | 'category'>): FakeRecord {
+    const now = tick();
+    const full: FakeRecord = {
+      id: randomUUID(),
+      user_id: null,
+      content: {},
+      tags: [],
+      classification: 'personal',
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      ...record
+    };
+    records.push(full);
+    return full;
+  }
+
+  const rpcs: Record<string, (p: Record<string, any>) => any> = {
+    search_personal_data: (p) => live(p.p_user_id)
+      .filter((r) => r.title.toLowerCase().includes(p.p_search_text.toLowerCase()) ||
+        JSON.stringify(r.content).toLowerCase().includes(p.p_search_text.toLowerCase()))
+      .filter((r) => !p.p_categories || p.p_categories.includes(r.category))
+      .filter((r) => !p.p_tags || r.tags.some((t) => p.p_tags.includes(t)))
+      .filter((r) => !p.p_classification || r.classification === p.p_classification)
+      .filter((r) => visible(r, p))
+      .filter((r) => sortsAfter(r, p))
+      .sort(byUpdatedDesc)
+      .slice(p.p_offset, p.p_offset + p.p_limit)
+      .map(strip),
+
+    search_personal_data_semantic: (p) => live(p.p_user_id)
+      .filter((r) => r.embedding && r.embedding_model === p.p_model)
+      .filter((r) => !p.p_categories || p.p_categories.includes(r.category))
+      .filter((r) => !p.p_tags || r.tags.some((t) => p.p_tags.includes(t)))
+      .filter((r) => !p.p_classification || r.classification === p.p_classification)
+      .filter((r) => visible(r, p))
+      .map((r) => ({ ...strip(r), similarity: cosine(JSON.parse(r.embedding!), JSON.parse(p.p_embedding)) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, p.p_limit),
+
+    set_personal_data_embedding: (p) => {
+      const record = records.find((r) => r.id === p.p_record_id);
+      if (!record) return false;
+      record.embedding = p.p_embedding;
+      record.embedding_model = p.p_model;
+      record.embedding_title_only = p.p_title_only ?? false;
+      return true;
+    },
+
+    list_personal_data_without_embedding: (p) => live()
+      .filter((r) => r.embedding_model !== p.p_model ||
+        (r.embedding_title_only ?? false) !== ['sensitive', 'confidential'].includes(r.classification ?? 'personal'))
+      .slice(0, p.p_limit)
+      .map(strip),
+
+    extract_personal_data: (p) => live(p.p_user_id)
+      .filter((r) => r.category === p.p_category)
+      .filter((r) => !p.p_tags || r.tags.some((t) => p.p_tags.includes(t)))
+      .filter((r) => sqlMatchesFilters(r, p.p_filters))
+      .filter((r) => visible(r, p))
+      .filter((r) => sortsAfter(r, p))
+      .sort(sqlCompareRecords(p.p_filters))
+      .slice(p.p_offset, p.p_offset + p.p_limit)
+      .map(strip),
+
+    create_personal_data: (p) => seed({
+      user_id: p.p_user_id,
+      category: p.p_category,
+      title: p.p_title,
+      content: p.p_content,
+      tags: p.p_tags,
+      classification: p.p_classification
+    }).id,
+
+    update_personal_data: (p) => {
+      const record = live(p.p_user_id).find((r) => r.id === p.p_record_id);
+      if (!record) return false;
+      versions.push({
+        record_id: record.id,
+        version: versions.filter((v) => v.record_id === record.id).length + 1,
+        title: record.title,
+        content: structuredClone(record.content),
+        tags: [...record.tags],
+        category: record.category,
+        classification: record.classification,
+        conversation_context: p.p_conversation_context,
+        created_at: tick()
+      });
+      Object.assign(record, structuredClone(p.p_updates), { updated_at: tick() });
+      return true;
+    },
+
+    get_personal_data: (p) => live(p.p_user_id)
+      .filter((r) => p.p_record_ids.includes(r.id))
+      .map(strip),
+
+    get_record_history: (p) => live(p.p_user_id).some((r) => r.id === p.p_record_id)
+      ? versions
+        .filter((v) => v.record_id === p.p_record_id)
+        .sort((a, b) => b.version - a.version)
+        .slice(0, p.p_limit)
+      : [],
+
+    revert_personal_data: (p) => {
+      const target = versions.find((v) => v.record_id === p.p_record_id && v.version === p.p_version);
+      if (!target) return false;
+      const { title, content, tags, category, classification } = target;
+      return rpcs.update_personal_data({
+        p_record_id: p.p_record_id,
+        p_updates: { title, content, tags, category, classification },
+        p_conversation_context: p.p_conversation_context ?? `Reverted to version ${p.p_version}`,
+        p_user_id: p.p_user_id
+      });
+    },
+
+    delete_personal_data: (p) => {
+      const affected: string[] = [];
+      for (const id of p.p_record_ids) {
+        const index = records.findIndex((r) => r.id === id &&
+          (p.p_hard_delete || r.deleted_at === null) &&
+          (!p.p_user_id || r.user_id === p.p_user_id));
+        if (index === -1) continue;
+        if (p.p_hard_delete) records.splice(index, 1);
+        else records[index].deleted_at = tick();
+        affected.push(id);
+      }
+      return affected;
+    },
+
+    list_deleted_personal_data: (p) => records
+      .filter((r) => r.deleted_at !== null && (!p.p_user_id || r.user_id === p.p_user_id))
+      .filter((r) => !p.p_categories || p.p_categories.includes(r.category))
+      .filter((r) => visible(r, p))
+      .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+      .slice(p.p_offset, p.p_offset + p.p_limit),
+
+    export_personal_data: (p) => records
+      .filter((r) => (!p.p_user_id || r.user_id === p.p_user_id) && (p.p_include_deleted || r.deleted_at === null))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.created_at.localeCompare(b.created_at))
+      .map(({ embedding, embedding_model, embedding_title_only, ...rest }) => rest),
+
+    list_personal_data_summaries: (p) => live(p.p_user_id)
+      .filter((r) => visible(r, p))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+      .slice(p.p_offset, p.p_offset + p.p_limit)
+      .map(({ id, title, category, classification }) => ({ id, title, category, classification })),
+
+    restore_personal_data: (p) => {
+      const affected: string[] = [];
+      for (const record of records) {
+        if (p.p_record_ids.includes(record.id) && record.deleted_at !== null &&
+          (!p.p_user_id || record.user_id === p.p_user_id)) {
+          record.deleted_at = null;
+          record.updated_at = tick();
+          affected.push(record.id);
+        }
+      }
+      return affected;
+    },
+
+    purge_deleted_personal_data: (p) => {
+      const cutoff = new Date(Date.now() - p.p_retention_days * 24 * 60 * 60 * 1000).toISOString();
+      const expired = records.filter((r) => r.deleted_at !== null && r.deleted_at < cutoff &&
+        (!p.p_user_id || r.user_id === p.p_user_id));
+      for (const record of expired) {
+        records.splice(records.indexOf(record), 1);
+      }
+      return expired.length;
+    },
+
+    list_stored_content: (p) => [...records]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .flatMap((r) => [
+        { record_id: r.id, version: null, classification: r.classification, content: r.content },
+        ...versions
+          .filter((v) => v.record_id === r.id)
+          .sort((a, b) => a.version - b.version)
+          .map((v) => ({ record_id: v.record_id, version: v.version, classification: v.classification, content: v.content }))
+      ])
+      .slice(p.p_offset, p.p_offset + p.p_limit),
+
+    rewrite_stored_content: (p) => {
+      const target = p.p_version === null
+        ? records.find((r) => r.id === p.p_record_id)
+        : versions.find((v) => v.record_id === p.p_record_id && v.version === p.p_version);
+      if (!target) return false;
+      target.content = structuredClone(p.p_content);
+      return true;
+    },
+
+    record_audit_event: (p) => {
+      auditLog.push({
+        id: randomUUID(),
+        created_at: tick(),
+        session_id: p.p_session_id,
+        user_id: p.p_user_id,
+        principal: p.p_principal,
+        endpoint: p.p_endpoint,
+        tool: p.p_tool,
+        record_ids: p.p_record_ids,
+        classifications: p.p_classifications,
+        outcome: p.p_outcome,
+        error: p.p_error,
+        duration_ms: p.p_duration_ms
+      });
+      return true;
+    },
+
+    get_audit_log: (p) => auditLog
+      .filter((e) => !p.p_user_id || e.user_id === p.p_user_id)
+      .filter((e) => !p.p_principal || e.principal === p.p_principal)
+      .filter((e) => !p.p_tool || e.tool === p.p_tool)
+      .filter((e) => !p.p_record_id || e.record_ids.includes(p.p_record_id))
+      .filter((e) => !p.p_classification || e.classifications.includes(p.p_classification))
+      .filter((e) => !p.p_since || e.created_at >= p.p_since)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(p.p_offset, p.p_offset + p.p_limit),
+
+    save_mcp_session: (p) => {
+      const existing = mcpSessions.get(p.p_id);
+      mcpSessions.set(p.p_id, existing ? { ...existing, last_activity_at: p.p_at } : {
+        id: p.p_id,
+        endpoint: p.p_endpoint,
+        principal: p.p_principal,
+        user_id: p.p_user_id,
+        created_at: p.p_at,
+        last_activity_at: p.p_at,
+        unlocked_until: null
+      });
+      return true;
+    },
+    touch_mcp_session: (p) => {
+      const session = mcpSessions.get(p.p_id);
+      if (!session) {
+        return [];
+      }
+      if (p.p_at > session.last_activity_at) {
+        session.last_activity_at = p.p_at;
+      }
+      return [session];
+    },
+    set_mcp_session_unlock: (p) => {
+      const session = mcpSessions.get(p.p_id);
+      if (session) {
+        session.unlocked_until = p.p_unlocked_until;
+      }
+      return Boolean(session);
+    },
+    delete_mcp_session: (p) => mcpSessions.delete(p.p_id),
+    delete_idle_mcp_sessions: (p) => [...mcpSessions.values()]
+      .filter((session) => session.last_activity_at < p.p_before)
+      .map((session) => {
+        mcpSessions.delete(session.id);
+        return session.id;
+      }),
+    list_mcp_sessions: () => [...mcpSessions.values()].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+
+    get_category_schemas: () => Object.entries(schemas)
+      .map(([category_name, content_schema]) => ({ category_name, content_schema })),
+    get_active_categories: () => counted()
+      .filter((cat) => cat.item_count > 0 && !deactivated.has(cat.category_name))
+      .sort((a, b) => b.item_count - a.item_count || a.display_name.localeCompare(b.display_name)),
+
+    get_category_stats: () => [{
+      total_categories: categories.length,
+      active_categories: counted().filter((cat) => cat.item_count > 0).length,
+      total_items: live().length
+    }],
+
+    create_category: (p) => {
+      if (findCategory(p.p_category_name)) {
+        return false;
+      }
+      categories.push({
+        ...category(p.p_category_name, p.p_display_name),
+        description: p.p_description,
+        trigger_words: p.p_trigger_words,
+        query_hint: p.p_query_hint,
+        example_queries: p.p_example_queries
+      });
+      return true;
+    },
+    update_category: (p) => {
+      const cat = findCategory(p.p_category_name);
+      if (!cat) {
+        return false;
+      }
+      Object.assign(cat, p.p_updates);
+      if (p.p_new_name && p.p_new_name !== cat.category_name) {
+        if (findCategory(p.p_new_name)) {
+          throw new Error(`Category "${p.p_new_name}" already exists`);
+        }
+        moveCategoryRecords(cat.category_name, p.p_new_name);
+        if (deactivated.delete(cat.category_name)) {
+          deactivated.add(p.p_new_name);
+        }
+        cat.category_name = p.p_new_name;
+      }
+      return true;
+    },
+    set_category_active: (p) => {
+      if (!findCategory(p.p_category_name)) {
+        return false;
+      }
+      if (p.p_active) {
+        deactivated.delete(p.p_category_name);
+      } else {
+        deactivated.add(p.p_category_name);
+      }
+      return true;
+    },
+    merge_categories: (p) => {
+      if (p.p_source === p.p_target) {
+        throw new Error(`Cannot merge category "${p.p_source}" into itself`);
+      }
+      const missing = [p.p_source, p.p_target].find((name) => !findCategory(name));
+      if (missing) {
+        throw new Error(`Category not found: ${missing}`);
+      }
+      const moved = moveCategoryRecords(p.p_source, p.p_target);
+      categories.splice(categories.indexOf(findCategory(p.p_source)!), 1);
+      deactivated.delete(p.p_source);
+      return moved;
+    },
+
+    chatgpt_search_data: (p) => live(p.p_user_id)
+      .filter((r) => r.title.toLowerCase().includes(p.p_query.toLowerCase()) ||
+        r.category.includes(p.p_query.toLowerCase()) ||
+        r.tags.some((t) => t.includes(p.p_query.toLowerCase())))
+      .sort(byUpdatedDesc)
+      .slice(0, p.p_limit)
+      .map((r) => ({ id: r.id, title: r.title, url: `https://datadam.example.com/item/${r.id}` })),
+
+    chatgpt_fetch_data: (p) => live(p.p_user_id)
+      .filter((r) => r.id === p.p_document_id)
+      .map((r) => ({
+        id: r.id,
+        title: r.title,
+        text: JSON.stringify(r.content),
+        url: `https://datadam.example.com/item/${r.id}`,
+        metadata: { category: r.category, classification: r.classification, tags: r.tags }
+      }))
+  };
+
+  async function rpc(fn: string, params: Record<string, any> = {}): Promise<RpcResponse> {
+    calls.push({ fn, params });
+    if (failures.has(fn)) {
+      return { data: null, error: { message: failures.get(fn)! } };
+    }
+    const handler = rpcs[fn];
+    if (!handler) {
+      return { data: null, error: { message: `Could not find the function public.${fn}` } };
+    }
+    // Handlers throw where the SQL function raises an exception
+    try {
+      return { data: structuredClone(handler(params)), error: null };
+    } catch (error) {
+      return { data: null, error: { message: (error as Error).message } };
+    }
+  }
+
+  // Only the query fetchAllCategories() issues is supported
+  function from(table: string) {
+    return {
+      select: () => ({
+        is: () => ({
+          order: async (): Promise<RpcResponse> => {
+            if (table !== 'category_registry') {
+              return { data: null, error: { message: `relation "${table}" does not exist` } };
+            }
+            const names = categories
+              .filter((cat) => !deactivated.has(cat.category_name))
+              .sort((a, b) => a.display_name.localeCompare(b.display_name))
+              .map((cat) => ({ category_name: cat.category_name }));
+            return { data: names, error: null };
+          }
+        })
+      })
+    };
+  }
+
+  return {
+    client: { rpc, from } as unknown as SupabaseClient,
+    records,
+    versions,
+    categories,
+    deactivated,
+    auditLog,
+    mcpSessions,
+    schemas,
+    calls,
+    failWith: (fn, message) => { failures.set(fn, message); },
+    seed
+  };
+}
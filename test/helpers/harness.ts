@@ -0,0 +1,71 @@
+// Connects MCP clients to DataDam servers backed by the fake Supabase client
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { initializeDatabase } from "../../src/services/database.js";
+import { createSupabaseStore } from "../../src/services/supabase.js";
+import { createMcpServer, createChatGptMcpServer, type ServerOptions } from "../../src/server.js";
+import { createFakeSupabase, type FakeSupabase } from "./fakeSupabase.js";
+
+export interface Harness {
+  fake: FakeSupabase;
+  client: Client;
+  chatgpt: Client;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  // Runs before the database is initialised, so seeded categories become active
+  seed?: (fake: FakeSupabase) => void;
+  identity?: ServerOptions['identity'];
+  embeddings?: ServerOptions['embeddings'];
+}
+
+export async function connect(server: McpServer): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "datadam-test", version: "1.0.0" });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+  return client;
+}
+
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const fake = createFakeSupabase();
+  options.seed?.(fake);
+
+  const store = createSupabaseStore(fake.client);
+  await initializeDatabase(store);
+
+  const serverOptions: ServerOptions = { store, identity: options.identity, embeddings: options.embeddings };
+  const client = await connect(createMcpServer(serverOptions));
+  const chatgpt = await connect(createChatGptMcpServer(serverOptions));
+
+  return {
+    fake,
+    client,
+    chatgpt,
+    async close() {
+      await Promise.all([client.close(), chatgpt.close()]);
+    }
+  };
+}
+
+// Text of the first content block of a tool result
+export function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as { type: string; text?: string }[];
+  return content[0]?.text ?? '';
+}
+
+// Silences the startup logging from initializeDatabase()
+export function quietConsole(): () => void {
+  const { log, error } = console;
+  console.log = () => {};
+  console.error = () => {};
+  return () => {
+    console.log = log;
+    console.error = error;
+  };
+}
@@ -0,0 +1,154 @@
+// The extract filters of schema.sql, for the fake Supabase client
+//
+// A line-by-line reading of personal_data_matches_filters(),
+// personal_data_field_matches() and the ORDER BY of extract_personal_data(),
+// kept apart from src/utils/record-filters.ts so that tests running the tools
+// against the fake check the TypeScript filters against the SQL ones rather
+// than against themselves. Values are treated as jsonb: a missing path is SQL
+// NULL, which differs from a JSON null.
+
+import type { PersonalDataRecord } from "../../src/types.js";
+
+type Jsonb = unknown;
+
+const SQL_NULL = undefined;
+
+function jsonbTypeof(value: Jsonb): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+// p_content #> string_to_array(field, '.'): object keys, and array indexes
+function extractPath(content: Jsonb, field: string): Jsonb {
+  let value = content;
+  for (const key of field.split('.')) {
+    if (Array.isArray(value) && /^\d+$/.test(key)) {
+      value = value[Number(key)];
+    } else if (jsonbTypeof(value) === 'object') {
+      value = Object.prototype.hasOwnProperty.call(value, key) ? (value as Record<string, Jsonb>)[key] : SQL_NULL;
+    } else {
+      return SQL_NULL;
+    }
+    if (value === SQL_NULL) return SQL_NULL;
+  }
+  return value;
+}
+
+// jsonb equality: same type and same value, objects regardless of key order
+function jsonbEquals(a: Jsonb, b: Jsonb): boolean {
+  if (jsonbTypeof(a) !== jsonbTypeof(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as Jsonb[];
+    return a.length === other.length && a.every((element, i) => jsonbEquals(element, other[i]));
+  }
+  if (jsonbTypeof(a) === 'object') {
+    const x = a as Record<string, Jsonb>;
+    const y = b as Record<string, Jsonb>;
+    return Object.keys(x).length === Object.keys(y).length && Object.keys(x).every((key) => key in y && jsonbEquals(x[key], y[key]));
+  }
+  return a === b;
+}
+
+function fieldMatches(value: Jsonb, condition: Record<string, Jsonb>): boolean {
+  if ('exists' in condition && condition.exists !== (value !== SQL_NULL && value !== null)) {
+    return false;
+  }
+
+  const elements = jsonbTypeof(value) === 'array' ? value as Jsonb[] : [value === SQL_NULL ? null : value];
+
+  if ('eq' in condition && !elements.some((e) =>
+    jsonbTypeof(e) === 'string' && jsonbTypeof(condition.eq) === 'string'
+      ? (e as string).toLowerCase() === (condition.eq as string).toLowerCase()
+      : jsonbEquals(e, condition.eq)
+  )) {
+    return false;
+  }
+
+  if ('contains' in condition && !elements.some((e) =>
+    jsonbTypeof(e) === 'string' && (e as string).toLowerCase().includes(String(condition.contains).toLowerCase())
+  )) {
+    return false;
+  }
+
+  for (const op of ['gt', 'gte', 'lt', 'lte']) {
+    if (!(op in condition)) continue;
+    const bound = condition[op];
+    if (value === SQL_NULL || jsonbTypeof(value) !== jsonbTypeof(bound)) {
+      return false;
+    }
+
+    let order: number;
+    if (jsonbTypeof(bound) === 'number') {
+      order = Math.sign((value as number) - (bound as number));
+    } else if (jsonbTypeof(bound) === 'string') {
+      // COLLATE "C": byte order of the UTF-8 text
+      order = Buffer.compare(Buffer.from(value as string), Buffer.from(bound as string));
+    } else {
+      return false;
+    }
+
+    if ((op === 'gt' && order <= 0) || (op === 'gte' && order < 0) || (op === 'lt' && order >= 0) || (op === 'lte' && order > 0)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// ARRAY(SELECT jsonb_array_elements_text(...)), or NULL when the key is missing
+function textArray(filters: any, ...path: string[]): string[] | null {
+  const value = extractPath(filters, path.join('.'));
+  return value === SQL_NULL ? null : (value as Jsonb[]).map(String);
+}
+
+// ::TIMESTAMPTZ, with the database in UTC
+function timestamp(value: string): number {
+  return Date.parse(value);
+}
+
+export function sqlMatchesFilters(record: PersonalDataRecord, filters: any): boolean {
+  if (filters === null || filters === undefined) {
+    return true;
+  }
+
+  const tags = record.tags ?? [];
+  const any = textArray(filters, 'tags', 'any') ?? [];
+  if (any.length > 0 && !tags.some((tag) => any.includes(tag))) {
+    return false;
+  }
+  const all = textArray(filters, 'tags', 'all');
+  if (all !== null && !all.every((tag) => tags.includes(tag))) {
+    return false;
+  }
+  const none = textArray(filters, 'tags', 'none');
+  if (none !== null && tags.some((tag) => none.includes(tag))) {
+    return false;
+  }
+
+  const outside = (at: string, window: string) => {
+    const from = extractPath(filters, `${window}.from`) as string | undefined;
+    const to = extractPath(filters, `${window}.to`) as string | undefined;
+    return (from != null && timestamp(at) < timestamp(from)) || (to != null && timestamp(at) >= timestamp(to));
+  };
+  if (outside(record.created_at, 'created') || outside(record.updated_at, 'updated')) {
+    return false;
+  }
+
+  return Object.entries(filters.content ?? {}).every(([field, condition]) =>
+    fieldMatches(extractPath(record.content, field), condition as Record<string, Jsonb>)
+  );
+}
+
+// ORDER BY of extract_personal_data(): the requested sort, then updated_at DESC, id DESC
+export function sqlCompareRecords(filters: any) {
+  const sort = `${filters?.sort?.field ?? 'updated_at'} ${filters?.sort?.direction ?? 'desc'}`;
+  return (a: PersonalDataRecord, b: PersonalDataRecord): number => {
+    let order = 0;
+    if (sort === 'title asc') order = a.title.localeCompare(b.title);
+    else if (sort === 'title desc') order = b.title.localeCompare(a.title);
+    else if (sort === 'created_at asc') order = timestamp(a.created_at) - timestamp(b.created_at);
+    else if (sort === 'created_at desc') order = timestamp(b.created_at) - timestamp(a.created_at);
+    else if (sort === 'updated_at asc') order = timestamp(a.updated_at) - timestamp(b.updated_at);
+    return order || timestamp(b.updated_at) - timestamp(a.updated_at) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+  };
+}
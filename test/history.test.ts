@@ -0,0 +1,130 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createLocalStore } from "../src/services/local-store.js";
+import { diffRecords } from "../src/utils/diff.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("diffRecords", () => {
+  const base = {
+    title: 'John',
+    content: { email: 'a@example.com', address: { city: 'Boston', zip: '02110' } },
+    tags: ['work'],
+    category: 'contacts',
+    classification: 'personal'
+  };
+
+  it("reports nested content, tag and classification changes", () => {
+    const changes = diffRecords(base, {
+      ...base,
+      content: { address: { city: 'Denver', zip: '02110' }, phone: '555' },
+      tags: ['family'],
+      classification: 'sensitive'
+    });
+
+    assert.deepEqual(changes, [
+      { field: 'classification', change: 'changed', before: 'personal', after: 'sensitive' },
+      { field: 'content.address.city', change: 'changed', before: 'Boston', after: 'Denver' },
+      { field: 'content.email', change: 'removed', before: 'a@example.com' },
+      { field: 'content.phone', change: 'added', after: '555' },
+      { field: 'tags', change: 'added', after: 'family' },
+      { field: 'tags', change: 'removed', before: 'work' }
+    ]);
+  });
+
+  it("returns nothing for identical states", () => {
+    assert.deepEqual(diffRecords(base, structuredClone(base)), []);
+  });
+});
+
+describe("record history tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let recordId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        recordId = fake.seed({ category: 'contacts', title: 'John', content: { email: 'old@example.com' }, tags: ['work'] }).id;
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("shows an unchanged record with no history", async () => {
+    const result = await h.client.callTool({ name: 'datadam_get_record_history', arguments: { recordId } });
+    assert.match(textOf(result), /Current version: 1/);
+    assert.match(textOf(result), /has not been changed/);
+  });
+
+  it("records each update with its context and diff", async () => {
+    await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId, updates: { content: { email: 'new@example.com' } }, conversationContext: 'User changed jobs' }
+    });
+    await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId, updates: { tags: ['work', 'vip'] } }
+    });
+
+    const result = await h.client.callTool({
+      name: 'datadam_get_record_history',
+      arguments: { recordId, response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+
+    assert.equal(body.current_version, 3);
+    assert.deepEqual(body.versions.map((v: { version: number }) => v.version), [2, 1]);
+    assert.deepEqual(body.versions[0].changes, [{ field: 'tags', change: 'added', after: 'vip' }]);
+    assert.deepEqual(body.versions[1].changes, [
+      { field: 'content.email', change: 'changed', before: 'old@example.com', after: 'new@example.com' }
+    ]);
+    assert.equal(body.versions[1].conversation_context, 'User changed jobs');
+  });
+
+  it("reverts to an earlier version as a new version", async () => {
+    const result = await h.client.callTool({ name: 'datadam_revert_personal_data', arguments: { recordId, version: 1 } });
+    assert.equal(textOf(result), '✓ Successfully reverted record to version 1');
+
+    const record = h.fake.records.find((r) => r.id === recordId)!;
+    assert.deepEqual(record.content, { email: 'old@example.com' });
+    assert.deepEqual(record.tags, ['work']);
+
+    const history = await h.client.callTool({ name: 'datadam_get_record_history', arguments: { recordId, limit: 1 } });
+    assert.match(textOf(history), /Context\*\*: Reverted to version 1/);
+    assert.match(textOf(history), /Current version: 4/);
+  });
+
+  it("errors for unknown versions and records", async () => {
+    const version = await h.client.callTool({ name: 'datadam_revert_personal_data', arguments: { recordId, version: 99 } });
+    assert.equal(version.isError, true);
+
+    const missing = await h.client.callTool({ name: 'datadam_get_record_history', arguments: { recordId: 'missing' } });
+    assert.equal(missing.isError, true);
+    assert.match(textOf(missing), /Record not found: missing/);
+  });
+});
+
+describe("local store history", () => {
+  it("snapshots updates, reverts and drops versions on hard delete", async () => {
+    const store = await createLocalStore();
+    const { data: id } = await store.createPersonalData({ category: 'books', title: 'Dune', content: { rating: 4 } });
+
+    await store.updatePersonalData({ recordId: id!, updates: { content: { rating: 5 } }, conversationContext: 'Re-read it' });
+    const { data: history } = await store.getRecordHistory({ recordId: id!, limit: 10 });
+    assert.equal(history!.length, 1);
+    assert.deepEqual(history![0].content, { rating: 4 });
+    assert.equal(history![0].conversation_context, 'Re-read it');
+
+    assert.equal((await store.revertPersonalData({ recordId: id!, version: 1 })).data, true);
+    const { data: [record] } = await store.getPersonalData({ recordIds: [id!] }) as { data: any[] };
+    assert.deepEqual(record.content, { rating: 4 });
+
+    await store.deletePersonalData({ recordIds: [id!], hardDelete: true });
+    assert.deepEqual((await store.getRecordHistory({ recordId: id!, limit: 10 })).data, []);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { parseCsv, parseJsonRecords, parseVCard } from "../src/utils/import-formats.js";
+import { registerImportRoute, IMPORT_PATH } from "../src/routes/import.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+const VCARD = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'FN:Jane Doe',
+  'N:Doe;Jane;;;',
+  'EMAIL;TYPE=work:jane@work.com',
+  'item1.EMAIL:jane@home.com',
+  'TEL;TYPE=cell:+1 555 123 4567',
+  'ORG:Acme Corp;Research',
+  'BDAY:19900214',
+  'NOTE:Met at the conference\\, 2024. Likes ',
+  ' climbing.',
+  'CATEGORIES:work,friend',
+  'END:VCARD',
+  'BEGIN:VCARD',
+  'N:Smith;John;;;',
+  'END:VCARD'
+].join('\r\n');
+
+describe("import file parsing", () => {
+  it("parses quoted CSV fields with commas, quotes and line breaks", () => {
+    const rows = parseCsv('title,author,notes\r\nDune,Frank Herbert,"Spice, sand"\n"The ""Best"" Book",Anon,"two\nlines"\n\n');
+    assert.deepEqual(rows, [
+      { title: 'Dune', author: 'Frank Herbert', notes: 'Spice, sand' },
+      { title: 'The "Best" Book', author: 'Anon', notes: 'two\nlines' }
+    ]);
+    assert.throws(() => parseCsv('title\n"open'), /Unterminated quoted field/);
+  });
+
+  it("accepts JSON arrays or a records wrapper", () => {
+    assert.deepEqual(parseJsonRecords('[{"title":"a"}]'), [{ title: 'a' }]);
+    assert.deepEqual(parseJsonRecords('{"records":[{"title":"b"}]}'), [{ title: 'b' }]);
+    assert.throws(() => parseJsonRecords('{"title":"c"}'), /Expected a JSON array/);
+    assert.throws(() => parseJsonRecords('[oops'), /Invalid JSON/);
+  });
+
+  it("maps vCard properties to contact fields", () => {
+    assert.deepEqual(parseVCard(VCARD), [
+      {
+        name: 'Jane Doe',
+        email: 'jane@work.com',
+        emails: ['jane@work.com', 'jane@home.com'],
+        phone: '+1 555 123 4567',
+        company: 'Acme Corp, Research',
+        birthday: '1990-02-14',
+        note: 'Met at the conference, 2024. Likes climbing.',
+        tags: ['work', 'friend']
+      },
+      { name: 'John Smith' }
+    ]);
+  });
+
+  it("keeps escaped separators inside vCard values", () => {
+    const [row] = parseVCard([
+      'BEGIN:VCARD',
+      'N:O\\;Brien;Pat;;;',
+      'ORG:Smith\\, Jones & Co;Legal\\; Tax',
+      'ADR;TYPE=home:;;1 Main St\\, Apt 2;Springfield;;;USA',
+      'CATEGORIES:work,rock\\, paper\\, scissors club',
+      'END:VCARD'
+    ].join('\r\n'));
+    assert.deepEqual(row, {
+      name: 'Pat O;Brien',
+      company: 'Smith, Jones & Co, Legal; Tax',
+      address: '1 Main St, Apt 2, Springfield, USA',
+      tags: ['work', 'rock, paper, scissors club']
+    });
+  });
+});
+
+describe("datadam_import_personal_data", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        fake.schemas.books = { properties: { rating: { type: 'number' } } };
+        fake.seed({ category: 'contacts', title: 'Existing' });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("previews a dry run without creating anything", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_import_personal_data',
+      arguments: {
+        format: 'csv',
+        data: 'title,author,rating,tags\nDune,Frank Herbert,5,sci-fi;favorite\n,Nobody,3,\nHyperion,Dan Simmons,great,',
+        category: 'books',
+        dryRun: true,
+        response_format: 'json'
+      }
+    });
+    const report = JSON.parse(textOf(result));
+    assert.equal(report.dry_run, true);
+    assert.deepEqual([report.total, report.valid, report.failed, report.created], [3, 1, 2, 0]);
+    assert.deepEqual(report.results[0], {
+      row: 1,
+      status: 'valid',
+      title: 'Dune',
+      category: 'books',
+      content: { author: 'Frank Herbert', rating: 5 },
+      tags: ['sci-fi', 'favorite']
+    });
+    assert.match(report.results[1].errors[0], /Missing title/);
+    assert.deepEqual(report.results[2].errors, ["'rating' must be a number, got string"]);
+    assert.equal(h.fake.records.length, 1);
+  });
+
+  it("creates the valid rows and reports the rest", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_import_personal_data',
+      arguments: {
+        format: 'json',
+        data: JSON.stringify([
+          { title: 'Docker', category: 'interests', content: { level: 'beginner' }, tags: ['learning'] },
+          { title: 'Chess', category: 'hobbies', level: 'club' },
+          { title: 'Passport', category: 'basic_information', number: 'X1', classification: 'confidential' }
+        ])
+      }
+    });
+    const text = textOf(result);
+    assert.match(text, /Created 2 of 3 record\(s\), 1 failed/);
+    assert.match(text, /✗ Row 2: Unknown category "hobbies"/);
+
+    const docker = h.fake.records.find((r) => r.title === 'Docker')!;
+    assert.deepEqual(docker.content, { level: 'beginner' });
+    assert.deepEqual(docker.tags, ['learning']);
+    assert.equal(h.fake.records.find((r) => r.title === 'Passport')!.classification, 'confidential');
+  });
+
+  it("imports vCard contacts into contacts by default", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_import_personal_data',
+      arguments: { format: 'vcard', data: VCARD, tags: ['imported'], response_format: 'json' }
+    });
+    const report = JSON.parse(textOf(result));
+    assert.equal(report.created, 2);
+    const jane = h.fake.records.find((r) => r.title === 'Jane Doe')!;
+    assert.equal(jane.category, 'contacts');
+    assert.equal(jane.content.email, 'jane@work.com');
+    assert.deepEqual(jane.tags, ['work', 'friend', 'imported']);
+  });
+
+  it("fails the whole import for an unreadable file", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_import_personal_data',
+      arguments: { format: 'json', data: 'not json' }
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Error importing personal data: Invalid JSON/);
+  });
+
+  it("skips rows that look like existing records or earlier rows", async () => {
+    const data = JSON.stringify([
+      { name: 'existing', email: 'x@example.com' },
+      { name: 'Jane Roe', email: 'jane@roe.com' },
+      { name: 'J. Roe', email: 'JANE@roe.com' }
+    ]);
+    const existing = h.fake.records.find((r) => r.title === 'Existing')!;
+    const run = async (args: Record<string, unknown>) => h.client.callTool({
+      name: 'datadam_import_personal_data',
+      arguments: { format: 'json', data, category: 'contacts', ...args }
+    });
+
+    const preview = JSON.parse(textOf(await run({ dryRun: true, response_format: 'json' })));
+    assert.deepEqual([preview.valid, preview.skipped], [1, 2]);
+    assert.deepEqual(preview.results[0].duplicates, [{ id: existing.id, title: 'Existing', reasons: ['same title'] }]);
+    assert.deepEqual(preview.results[2].duplicates, [{ row: 2, title: 'Jane Roe', reasons: ['same email'] }]);
+
+    const text = textOf(await run({}));
+    assert.match(text, /Created 1 of 3 record\(s\), 0 failed\. 2 were skipped as possible duplicates\./);
+    assert.match(text, /⚠️ Row 3 \*\*J\. Roe\*\* skipped, possible duplicate of \*\*Jane Roe\*\* \(row 2\): same email/);
+    assert.equal(h.fake.records.filter((r) => r.title === 'J. Roe').length, 0);
+
+    const allowed = JSON.parse(textOf(await run({ allowDuplicates: true, response_format: 'json' })));
+    assert.deepEqual([allowed.created, allowed.skipped], [3, 0]);
+  });
+});
+
+describe("POST /import", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness();
+    const app = express();
+    registerImportRoute(app, (_req, _res, next) => next());
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await h.close();
+    restoreConsole();
+  });
+
+  it("takes the format from the content type", async () => {
+    const response = await fetch(`${baseUrl}${IMPORT_PATH}?dryRun=true`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/vcard' },
+      body: VCARD
+    });
+    assert.equal(response.status, 200);
+    const report = await response.json();
+    assert.equal(report.valid, 2);
+    assert.equal(h.fake.records.length, 0);
+  });
+
+  it("imports a JSON body with query options", async () => {
+    const response = await fetch(`${baseUrl}${IMPORT_PATH}?category=books&tags=a,b`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ title: 'Dune', author: 'Frank Herbert' }])
+    });
+    const report = await response.json();
+    assert.equal(report.created, 1);
+    assert.deepEqual(h.fake.records[0].tags, ['a', 'b']);
+
+    const entry = h.fake.auditLog.at(-1)!;
+    assert.equal(entry.tool, 'POST /import');
+    assert.deepEqual(entry.record_ids, [h.fake.records[0].id]);
+  });
+
+  it("rejects unknown formats and unreadable files", async () => {
+    const unknown = await fetch(`${baseUrl}${IMPORT_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello'
+    });
+    assert.equal(unknown.status, 400);
+    assert.match((await unknown.json()).error, /Unknown import format/);
+
+    const invalid = await fetch(`${baseUrl}${IMPORT_PATH}?format=json`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: '{"title": 1}'
+    });
+    assert.equal(invalid.status, 400);
+    assert.match((await invalid.json()).error, /Expected a JSON array/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, writeFile, appendFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLocalStore, auditLogPath } from "../src/services/local-store.js";
+import type { AuditEvent } from "../src/types.js";
+
+const event = (tool: string): AuditEvent => ({
+  session_id: null, user_id: null, principal: 'laptop', endpoint: 'mcp', tool,
+  record_ids: [], classifications: [], outcome: 'success', error: null, duration_ms: 1
+});
+
+describe("local store persistence", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'datadam-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps records and audit events across restarts", async () => {
+    const file = join(dir, 'restart.json');
+    const store = await createLocalStore(file);
+    await Promise.all(['Dune', 'Emma', 'Ulysses'].map((title) =>
+      store.createPersonalData({ category: 'books', title, content: {} })
+    ));
+    await store.recordAuditEvent(event('datadam_create_personal_data'));
+
+    const reopened = await createLocalStore(file);
+    const { data } = await reopened.extractPersonalData({ category: 'books', limit: 10, offset: 0 });
+    assert.deepEqual(data!.map((r) => r.title).sort(), ['Dune', 'Emma', 'Ulysses']);
+    assert.equal((await reopened.getAuditLog({ limit: 10, offset: 0 })).data!.length, 1);
+    // Only the data file and its audit log are left behind
+    assert.deepEqual((await readdir(dir)).sort(), ['restart.audit.jsonl', 'restart.json']);
+  });
+
+  it("appends audit events without rewriting the data file", async () => {
+    const file = join(dir, 'audit.json');
+    const store = await createLocalStore(file);
+    await store.createPersonalData({ category: 'books', title: 'Dune', content: {} });
+    const saved = await readFile(file, 'utf8');
+
+    await store.recordAuditEvent(event('first'));
+    await store.recordAuditEvent(event('second'));
+    assert.equal(await readFile(file, 'utf8'), saved);
+    const lines = (await readFile(auditLogPath(file), 'utf8')).trim().split('\n');
+    assert.deepEqual(lines.map((line) => JSON.parse(line).tool), ['first', 'second']);
+  });
+
+  it("skips an audit line cut short and carries on after it", async () => {
+    const file = join(dir, 'torn.json');
+    await (await createLocalStore(file)).recordAuditEvent(event('whole'));
+    await appendFile(auditLogPath(file), '{"tool":"cut', 'utf8');
+
+    const store = await createLocalStore(file);
+    await store.recordAuditEvent(event('after'));
+    const reopened = await createLocalStore(file);
+    const { data } = await reopened.getAuditLog({ limit: 10, offset: 0 });
+    assert.deepEqual(data!.map((entry) => entry.tool).sort(), ['after', 'whole']);
+  });
+
+  it("moves the audit log out of older data files", async () => {
+    const file = join(dir, 'legacy.json');
+    const store = await createLocalStore(file);
+    await store.createPersonalData({ category: 'books', title: 'Dune', content: {} });
+    const state = JSON.parse(await readFile(file, 'utf8'));
+    state.audit_log = [{ ...event('legacy'), id: 'a1', created_at: '2024-01-01T00:00:00.000Z' }];
+    await writeFile(file, JSON.stringify(state), 'utf8');
+
+    const reopened = await createLocalStore(file);
+    assert.equal(JSON.parse(await readFile(file, 'utf8')).audit_log, undefined);
+    assert.deepEqual((await reopened.getAuditLog({ limit: 10, offset: 0 })).data!.map((entry) => entry.tool), ['legacy']);
+    assert.equal((await reopened.extractPersonalData({ category: 'books', limit: 10, offset: 0 })).data!.length, 1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { encodeCursor } from "../src/utils/cursor.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("cursor pagination", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        for (let i = 1; i <= 5; i++) {
+          fake.seed({ category: 'books', title: `Book ${i}`, tags: ['novel'] });
+        }
+        // Large enough that two of them overflow the response size limit
+        for (let i = 1; i <= 3; i++) {
+          fake.seed({ category: 'interests', title: `Essay ${i}`, content: { notes: 'x'.repeat(15000) } });
+        }
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result = await h.client.callTool({ name, arguments: { response_format: 'json', ...args } });
+    return { result, body: JSON.parse(textOf(result)) };
+  };
+  const titles = (body: { results: { title: string }[] }) => body.results.map((record) => record.title);
+
+  it("continues extract where the previous page ended, even after new records are added", async () => {
+    const first = await call('datadam_extract_personal_data', { category: 'books', limit: 2 });
+    assert.deepEqual(titles(first.body), ['Book 5', 'Book 4']);
+    assert.equal(first.body.has_more, true);
+    assert.equal(typeof first.body.next_cursor, 'string');
+    assert.deepEqual(first.result.structuredContent, first.body);
+
+    // Newer records sort first, so an offset would now repeat Book 4
+    h.fake.seed({ category: 'books', title: 'Book 6', tags: ['novel'] });
+
+    const second = await call('datadam_extract_personal_data', { category: 'books', limit: 2, cursor: first.body.next_cursor });
+    assert.deepEqual(titles(second.body), ['Book 3', 'Book 2']);
+    assert.equal(second.body.next_offset, 4);
+
+    const last = await call('datadam_extract_personal_data', { category: 'books', limit: 2, cursor: second.body.next_cursor });
+    assert.deepEqual(titles(last.body), ['Book 1']);
+    assert.equal(last.body.has_more, false);
+    assert.equal(last.body.next_cursor, null);
+  });
+
+  it("pages keyword search by cursor", async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const { body } = await call('datadam_search_personal_data', { query: 'Book', limit: 4, ...(cursor && { cursor }) });
+      seen.push(...titles(body));
+      cursor = body.next_cursor ?? undefined;
+    } while (cursor);
+    assert.deepEqual(seen, ['Book 6', 'Book 5', 'Book 4', 'Book 3', 'Book 2', 'Book 1']);
+  });
+
+  it("resumes after the last record that fit when a page is truncated", async () => {
+    const first = await call('datadam_extract_personal_data', { category: 'interests', limit: 3 });
+    assert.equal(first.body.truncated, true);
+    assert.deepEqual(titles(first.body), ['Essay 3']);
+    assert.match(first.body.truncation_message, /next_cursor/);
+
+    const second = await call('datadam_extract_personal_data', { category: 'interests', limit: 3, cursor: first.body.next_cursor });
+    assert.deepEqual(titles(second.body), ['Essay 2']);
+    assert.equal(second.body.truncated, true);
+  });
+
+  it("shows the cursor in markdown responses", async () => {
+    const result = await h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'books', limit: 2 } });
+    assert.match(textOf(result), /call again with cursor: "[\w-]+"/);
+  });
+
+  it("rejects cursors issued for a different query, and malformed cursors", async () => {
+    const { body } = await call('datadam_extract_personal_data', { category: 'books', limit: 2 });
+
+    const otherTags = await call('datadam_extract_personal_data', { category: 'books', tags: ['novel'], cursor: body.next_cursor });
+    assert.equal(otherTags.result.isError, true);
+    assert.match(otherTags.body.message, /different query/);
+
+    const otherTool = await call('datadam_search_personal_data', { query: 'Book', cursor: body.next_cursor });
+    assert.equal(otherTool.result.isError, true);
+
+    const garbage = await call('datadam_extract_personal_data', { category: 'books', cursor: 'not-a-cursor' });
+    assert.equal(garbage.result.isError, true);
+    assert.match(garbage.body.message, /Invalid cursor/);
+
+    const negative = encodeCursor({ fingerprint: 'x', position: -1 });
+    const invalid = await call('datadam_extract_personal_data', { category: 'books', cursor: negative });
+    assert.match(invalid.body.message, /Invalid cursor/);
+  });
+});
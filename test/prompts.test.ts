@@ -0,0 +1,95 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("prompts", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let gymId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        fake.seed({ category: 'basic_information', title: 'Current Location', content: { city: 'Boston' } });
+        fake.seed({ category: 'preferences', title: 'Coffee', content: { order: 'flat white' } });
+        fake.seed({ category: 'interests', title: 'Climbing', tags: ['sport'] });
+        fake.seed({ category: 'contacts', title: 'Jane Doe - Work Contact', content: { company: 'Acme' } });
+        fake.seed({ category: 'contacts', title: 'John Smith - Neighbour' });
+        fake.seed({ category: 'interests', title: 'Board games with Jane Doe' });
+        gymId = fake.seed({ category: 'interests', title: 'Gym membership', updated_at: '2020-01-01T00:00:00.000Z' }).id;
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const promptText = async (name: string, args?: Record<string, string>) => {
+    const result = await h.client.getPrompt({ name, arguments: args ?? {} });
+    const [message] = result.messages;
+    assert.equal(message.role, 'user');
+    assert.equal(message.content.type, 'text');
+    return message.content.type === 'text' ? message.content.text : '';
+  };
+
+  it("lists the workflow prompts on the main endpoint only", async () => {
+    const { prompts } = await h.client.listPrompts();
+    assert.deepEqual(prompts.map((p) => p.name).sort(), [
+      'datadam_about_me',
+      'datadam_meeting_prep',
+      'datadam_profile_summary',
+      'datadam_review_stale_records'
+    ]);
+    await assert.rejects(h.chatgpt.listPrompts());
+  });
+
+  it("builds the profile summary from basic information, preferences and interests", async () => {
+    const text = await promptText('datadam_profile_summary');
+    assert.match(text, /\*\*Current Location\*\* - city: Boston/);
+    assert.match(text, /\*\*Coffee\*\* - order: flat white/);
+    assert.match(text, /\*\*Climbing\*\* \[sport\]/);
+    assert.doesNotMatch(text, /Work Contact/);
+  });
+
+  it("prepares for a meeting from the contact and other mentions", async () => {
+    const text = await promptText('datadam_meeting_prep', { contact: 'Jane Doe' });
+    assert.match(text, /## Contact records\n\n- \*\*Jane Doe - Work Contact\*\* - company: Acme/);
+    assert.match(text, /## Other mentions\n\n- \*\*Board games with Jane Doe\*\*/);
+
+    const unknown = await promptText('datadam_meeting_prep', { contact: 'Nobody Known' });
+    assert.match(unknown, /has nothing stored about them/);
+  });
+
+  it("completes contact names", async () => {
+    const result = await h.client.complete({
+      ref: { type: 'ref/prompt', name: 'datadam_meeting_prep' },
+      argument: { name: 'contact', value: 'ja' }
+    });
+    assert.deepEqual(result.completion.values, ['Jane Doe']);
+  });
+
+  it("covers every active category in what it knows about me", async () => {
+    const text = await promptText('datadam_about_me');
+    for (const title of ['Current Location', 'Climbing', 'John Smith - Neighbour', 'Gym membership']) {
+      assert.ok(text.includes(`**${title}**`), title);
+    }
+    // Preferences is not an active category in the fake
+    assert.doesNotMatch(text, /Coffee/);
+  });
+
+  it("lists records not updated within the given days with their IDs", async () => {
+    // The fake stamps seeded records at 2025-01-01; only the gym membership is older than 2022
+    const days = String(Math.floor((Date.now() - Date.parse('2022-01-01')) / 86_400_000));
+    const text = await promptText('datadam_review_stale_records', { days });
+    assert.match(text, new RegExp(`\\*\\*Gym membership\\*\\* \\(id: ${gymId}\\) - interests, last updated`));
+    assert.doesNotMatch(text, /Current Location/);
+
+    const none = await promptText('datadam_review_stale_records', { days: '100000' });
+    assert.match(none, /none of my 7 stored record\(s\) are older than 100000 days/);
+
+    await assert.rejects(h.client.getPrompt({ name: 'datadam_review_stale_records', arguments: { days: 'soon' } }));
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { initializeDatabase } from "../src/services/database.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import { createMcpServer } from "../src/server.js";
+import {
+  createRateLimiter,
+  getRateLimitConfig,
+  parseRateLimit,
+  type RateLimitConfig,
+  type RateLimiter
+} from "../src/services/rate-limit.js";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fakeSupabase.js";
+import { connect, quietConsole, textOf } from "./helpers/harness.js";
+
+const noLimits: RateLimitConfig = { session: null, apiKey: null, tools: {}, hardDelete: null };
+
+describe("rate limit configuration", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("parses N/period limits", () => {
+    assert.deepEqual(parseRateLimit('60/minute', 'X'), { capacity: 60, periodMs: 60_000, label: '60/minute' });
+    assert.equal(parseRateLimit('5 / hours', 'X')?.label, '5/hour');
+    assert.equal(parseRateLimit('10/s', 'X')?.periodMs, 1000);
+    assert.equal(parseRateLimit('off', 'X'), null);
+    assert.throws(() => parseRateLimit('60', 'DATADAM_SESSION_RATE_LIMIT'), /Invalid DATADAM_SESSION_RATE_LIMIT "60"/);
+    assert.throws(() => parseRateLimit('0/minute', 'X'), /Expected "N\/period"/);
+  });
+
+  it("reads the environment on top of the defaults", () => {
+    process.env.DATADAM_SESSION_RATE_LIMIT = '0';
+    process.env.DATADAM_TOOL_RATE_LIMITS = 'datadam_search_personal_data:30/minute';
+    const config = getRateLimitConfig();
+    assert.equal(config.session, null);
+    assert.equal(config.apiKey?.label, '600/minute');
+    assert.deepEqual(Object.keys(config.tools).sort(), ['datadam_delete_personal_data', 'datadam_search_personal_data']);
+    assert.equal(config.hardDelete?.label, '20/hour');
+
+    process.env.DATADAM_TOOL_RATE_LIMITS = 'datadam_search_personal_data';
+    assert.throws(() => getRateLimitConfig(), /Expected "tool:N\/period"/);
+  });
+});
+
+describe("token buckets", () => {
+  const call = (sessionKey: string, principal = 'laptop') => ({ sessionKey, principal, tool: 'datadam_search_personal_data' });
+
+  it("allows a burst, then refills over the period", () => {
+    let clock = 0;
+    const limiter = createRateLimiter({ ...noLimits, session: parseRateLimit('2/minute', 'X') }, { now: () => clock });
+    assert.equal(limiter.take(call('a')), null);
+    assert.equal(limiter.take(call('a')), null);
+
+    const rejection = limiter.take(call('a'));
+    assert.equal(rejection?.scope, 'session');
+    assert.equal(rejection?.retryAfterMs, 30_000);
+    assert.equal(limiter.take(call('b')), null);
+
+    clock += 30_000;
+    assert.equal(limiter.take(call('a')), null);
+    assert.notEqual(limiter.take(call('a')), null);
+  });
+
+  it("takes nothing from any bucket when one of them refuses", () => {
+    const limiter = createRateLimiter({
+      ...noLimits,
+      session: parseRateLimit('1/minute', 'X'),
+      apiKey: parseRateLimit('2/minute', 'X')
+    }, { now: () => 0 });
+    assert.equal(limiter.take(call('a')), null);
+    assert.equal(limiter.take(call('a'))?.scope, 'session');
+    assert.equal(limiter.take(call('b')), null);
+    assert.equal(limiter.take(call('c'))?.scope, 'api_key');
+    assert.equal(limiter.take(call('d', 'ci')), null);
+  });
+});
+
+describe("rate limited tool calls", () => {
+  let restoreConsole: () => void;
+  let fake: FakeSupabase;
+  let limiter: RateLimiter;
+  let client: Client;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    fake = createFakeSupabase();
+    const store = createSupabaseStore(fake.client);
+    await initializeDatabase(store);
+    limiter = createRateLimiter({
+      session: parseRateLimit('100/minute', 'X'),
+      apiKey: null,
+      tools: { datadam_search_personal_data: parseRateLimit('2/minute', 'X')! },
+      hardDelete: parseRateLimit('3/hour', 'X')
+    });
+    client = await connect(createMcpServer({
+      store,
+      embeddings: null,
+      identity: { principal: 'laptop', userId: null },
+      rateLimiter: limiter
+    }));
+  });
+
+  after(async () => {
+    await client.close();
+    restoreConsole();
+  });
+
+  const search = () => client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'dune' } });
+  const hardDelete = (count: number) => client.callTool({
+    name: 'datadam_delete_personal_data',
+    arguments: { recordIds: Array.from({ length: count }, () => fake.seed({ category: 'books', title: 'Dune' }).id), hardDelete: true }
+  });
+
+  it("answers calls over a tool's limit with a tool error saying when to retry", async () => {
+    await search();
+    await search();
+    const refused = await search();
+    assert.equal(refused.isError, true);
+    assert.match(textOf(refused), /at most 2 calls to this tool per API key per minute/);
+    assert.match(textOf(refused), /Retry after \d+ seconds/);
+    assert.equal(refused._meta?.rate_limit_scope, 'tool');
+    assert.ok((refused._meta?.retry_after_seconds as number) > 0);
+    // Refused calls are not audited
+    assert.equal(fake.auditLog.filter((entry) => entry.tool === 'datadam_search_personal_data').length, 2);
+
+    const other = await client.callTool({ name: 'datadam_list_deleted_personal_data', arguments: {} });
+    assert.equal(other.isError, undefined);
+  });
+
+  it("counts permanently deleted records", async () => {
+    const tooLarge = await hardDelete(4);
+    assert.match(textOf(tooLarge), /too large to ever be allowed/);
+    assert.equal(tooLarge._meta?.retry_after_seconds, null);
+    assert.equal(fake.records.length, 4);
+
+    const deleted = await hardDelete(3);
+    assert.equal(deleted.isError, undefined);
+    const refused = await hardDelete(1);
+    assert.match(textOf(refused), /permanently deleted records per API key per hour\. Do not retry immediately\. Retry after 1200 seconds/);
+    assert.deepEqual(refused._meta, { retry_after_seconds: 1200, rate_limit_scope: 'hard_delete' });
+
+    const softDelete = await client.callTool({
+      name: 'datadam_delete_personal_data',
+      arguments: { recordIds: [fake.seed({ category: 'books', title: 'Dune' }).id] }
+    });
+    assert.equal(softDelete.isError, undefined);
+  });
+
+  it("shares one session bucket per key between servers without session IDs", async () => {
+    const store = createSupabaseStore(fake.client);
+    const shared = createRateLimiter({ ...noLimits, session: parseRateLimit('1/minute', 'X') });
+    // As in stateless mode, where each request gets a server of its own
+    const request = async (principal: string) => {
+      const requestClient = await connect(createMcpServer({ store, embeddings: null, identity: { principal, userId: null }, rateLimiter: shared }));
+      try {
+        return await requestClient.callTool({ name: 'datadam_list_deleted_personal_data', arguments: {} });
+      } finally {
+        await requestClient.close();
+      }
+    };
+
+    assert.equal((await request('laptop')).isError, undefined);
+    assert.equal((await request('laptop'))._meta?.rate_limit_scope, 'session');
+    assert.equal((await request('phone')).isError, undefined);
+  });
+});
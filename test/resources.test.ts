@@ -0,0 +1,152 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "../src/server.js";
+import { startHarness, connect, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("record resources", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let duneId: string;
+  let janeId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        duneId = fake.seed({ category: 'books', title: 'Dune', content: { author: 'Frank Herbert' }, tags: ['scifi'] }).id;
+        fake.seed({ category: 'books', title: 'Emma', content: { author: 'Jane Austen' } });
+        janeId = fake.seed({ category: 'contacts', title: 'Jane Doe', content: { email: 'jane@example.com' } }).id;
+        for (let i = 0; i < 110; i++) {
+          fake.seed({ category: 'interests', title: `Interest ${i}` });
+        }
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const read = async (uri: string) => {
+    const { contents } = await h.client.readResource({ uri });
+    return { text: contents[0].text as string, mimeType: contents[0].mimeType };
+  };
+
+  it("lists the category and record templates", async () => {
+    const { resourceTemplates } = await h.client.listResourceTemplates();
+    const templates = resourceTemplates.map((t) => t.uriTemplate);
+    assert.ok(templates.includes('data://categories/{category}'));
+    assert.ok(templates.includes('data://records/{id}'));
+  });
+
+  it("reads a category as Markdown or JSON", async () => {
+    const markdown = await read('data://categories/books');
+    assert.equal(markdown.mimeType, 'text/markdown');
+    assert.match(markdown.text, /Found 2 record\(s\)/);
+    assert.match(markdown.text, new RegExp(`\\*\\*ID\\*\\*: \`${duneId}\``));
+
+    const json = await read('data://categories/books?format=json');
+    assert.equal(json.mimeType, 'application/json');
+    const body = JSON.parse(json.text);
+    assert.equal(body.category, 'books');
+    assert.deepEqual(body.results.map((r: any) => r.title).sort(), ['Dune', 'Emma']);
+  });
+
+  it("reads a single record and reports unknown ones", async () => {
+    const markdown = await read(`data://records/${janeId}`);
+    assert.match(markdown.text, /^# Jane Doe/);
+    assert.match(markdown.text, /jane@example\.com/);
+
+    const json = JSON.parse((await read(`data://records/${janeId}?format=json`)).text);
+    assert.equal(json.id, janeId);
+
+    const missing = await read('data://records/00000000-0000-0000-0000-000000000000');
+    assert.match(missing.text, /not found/);
+  });
+
+  it("paginates resources/list with a cursor", async () => {
+    const before = h.fake.calls.length;
+    const first = await h.client.listResources();
+    assert.equal(first.resources.length, 100);
+    assert.ok(first.nextCursor);
+    assert.equal(first.resources[0].uri, 'data://categories');
+    assert.equal(first.resources[0].title, 'Data Categories');
+    assert.equal(first.resources.find((r) => r.uri === 'data://categories/contacts')?.title, 'Category Records');
+
+    const second = await h.client.listResources({ cursor: first.nextCursor });
+    assert.equal(second.nextCursor, undefined);
+    // Records are listed a page at a time, without their content
+    const listed = h.fake.calls.slice(before).filter((c) => c.fn.includes('personal_data'));
+    assert.deepEqual(listed.map((c) => [c.fn, c.params.p_offset, c.params.p_limit]), [
+      ['list_personal_data_summaries', 0, 97],
+      ['list_personal_data_summaries', 96, 101]
+    ]);
+    const uris = [...first.resources, ...second.resources].map((r) => r.uri);
+    // The static list, 3 categories and 113 records
+    assert.equal(uris.length, 117);
+    assert.equal(new Set(uris).size, uris.length);
+    assert.ok(uris.includes('data://categories/contacts'));
+    assert.ok(uris.includes(`data://records/${duneId}`));
+
+    await assert.rejects(h.client.listResources({ cursor: 'not-a-cursor' }), /Invalid cursor/);
+  });
+
+  describe("subscriptions", () => {
+    let other: Client;
+    const updated: string[] = [];
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    before(async () => {
+      h.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+      });
+      // A second session on the same database makes the changes
+      other = await connect(createMcpServer({ embeddings: null }));
+    });
+
+    after(async () => {
+      await other.close();
+    });
+
+    it("notifies subscribers when another session changes a record", async () => {
+      await h.client.subscribeResource({ uri: `data://records/${duneId}?format=json` });
+      await h.client.subscribeResource({ uri: 'data://categories/contacts' });
+
+      await other.callTool({
+        name: 'datadam_update_personal_data',
+        arguments: { recordId: duneId, updates: { tags: ['scifi', 'classic'] } }
+      });
+      await settle();
+      assert.deepEqual(updated, [`data://records/${duneId}`]);
+
+      // Moving a record notifies both the category it left and the one it joined
+      updated.length = 0;
+      await other.callTool({
+        name: 'datadam_update_personal_data',
+        arguments: { recordId: duneId, updates: { category: 'contacts' } }
+      });
+      await settle();
+      assert.deepEqual(updated.sort(), ['data://categories/contacts', `data://records/${duneId}`]);
+
+      updated.length = 0;
+      await other.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [janeId] } });
+      await settle();
+      assert.deepEqual(updated, ['data://categories/contacts']);
+    });
+
+    it("stops notifying after unsubscribing", async () => {
+      await h.client.unsubscribeResource({ uri: `data://records/${duneId}` });
+      await h.client.unsubscribeResource({ uri: 'data://categories/contacts' });
+      updated.length = 0;
+      await other.callTool({
+        name: 'datadam_update_personal_data',
+        arguments: { recordId: duneId, updates: { category: 'books' } }
+      });
+      await settle();
+      assert.deepEqual(updated, []);
+    });
+  });
+});
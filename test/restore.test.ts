@@ -0,0 +1,116 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import { purgeExpiredRecords, getDeletedRetentionDays, purgeDate } from "../src/services/retention.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("listing and restoring deleted records", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let bookId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        bookId = fake.seed({ category: 'books', title: 'Dune', tags: ['sci-fi'] }).id;
+        fake.seed({ category: 'contacts', title: 'Jane' });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("undoes a soft delete", async () => {
+    await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [bookId] } });
+
+    const listed = await h.client.callTool({
+      name: 'datadam_list_deleted_personal_data',
+      arguments: { response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(listed));
+    assert.equal(body.count, 1);
+    assert.equal(body.results[0].id, bookId);
+    assert.ok(body.results[0].deleted_at);
+    assert.equal(body.results[0].purge_after, purgeDate(body.results[0].deleted_at, 30));
+
+    const restored = await h.client.callTool({ name: 'datadam_restore_personal_data', arguments: { recordIds: [bookId] } });
+    assert.equal(textOf(restored), '✓ Successfully restored 1 personal data record(s)');
+
+    const search = await h.client.callTool({
+      name: 'datadam_search_personal_data',
+      arguments: { query: 'Dune', response_format: 'json' }
+    });
+    assert.equal(JSON.parse(textOf(search)).count, 1);
+  });
+
+  it("lists deleted records as markdown with IDs", async () => {
+    const jane = h.fake.records.find((r) => r.title === 'Jane')!;
+    await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [jane.id] } });
+
+    const listed = await h.client.callTool({ name: 'datadam_list_deleted_personal_data', arguments: { categories: ['contacts'] } });
+    assert.match(textOf(listed), /## 1\. Jane/);
+    assert.match(textOf(listed), new RegExp(jane.id));
+    assert.match(textOf(listed), /Permanently removed after/);
+  });
+
+  it("reports partial restores", async () => {
+    const jane = h.fake.records.find((r) => r.title === 'Jane')!;
+    const result = await h.client.callTool({
+      name: 'datadam_restore_personal_data',
+      arguments: { recordIds: [jane.id, bookId], response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+    assert.equal(body.count, 1);
+    assert.equal(body.requested_count, 2);
+  });
+
+  it("errors when nothing can be restored", async () => {
+    const result = await h.client.callTool({ name: 'datadam_restore_personal_data', arguments: { recordIds: [bookId] } });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /No records were restored/);
+  });
+
+  it("does not list hard-deleted records", async () => {
+    await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [bookId], hardDelete: true } });
+    const listed = await h.client.callTool({ name: 'datadam_list_deleted_personal_data', arguments: {} });
+    assert.match(textOf(listed), /No deleted records found/);
+  });
+});
+
+describe("retention policy", () => {
+  it("purges only records deleted before the cutoff", async () => {
+    const restoreConsole = quietConsole();
+    const h = await startHarness();
+    const old = h.fake.seed({ category: 'books', title: 'Old', deleted_at: '2000-01-01T00:00:00Z' });
+    const recent = h.fake.seed({ category: 'books', title: 'Recent', deleted_at: new Date().toISOString() });
+    const live = h.fake.seed({ category: 'books', title: 'Live' });
+
+    const purged = await purgeExpiredRecords(createSupabaseStore(h.fake.client), 30);
+
+    assert.equal(purged, 1);
+    assert.deepEqual(h.fake.records.map((r) => r.id).sort(), [recent.id, live.id].sort());
+    assert.ok(!h.fake.records.includes(old));
+    await h.close();
+    restoreConsole();
+  });
+
+  it("reads the retention period from the environment", () => {
+    const previous = process.env.DATADAM_DELETED_RETENTION_DAYS;
+    try {
+      delete process.env.DATADAM_DELETED_RETENTION_DAYS;
+      assert.equal(getDeletedRetentionDays(), 30);
+      process.env.DATADAM_DELETED_RETENTION_DAYS = '0';
+      assert.equal(getDeletedRetentionDays(), 0);
+      assert.equal(purgeDate('2025-01-01T00:00:00Z', 0), null);
+      process.env.DATADAM_DELETED_RETENTION_DAYS = 'soon';
+      assert.throws(() => getDeletedRetentionDays(), /Invalid DATADAM_DELETED_RETENTION_DAYS/);
+    } finally {
+      if (previous === undefined) delete process.env.DATADAM_DELETED_RETENTION_DAYS;
+      else process.env.DATADAM_DELETED_RETENTION_DAYS = previous;
+    }
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { initializeDatabase } from "../src/services/database.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import { createUserScopedStore } from "../src/services/scoped-store.js";
+import type { PersonalDataStore } from "../src/services/store.js";
+import { createMcpServer, resolveStore } from "../src/server.js";
+import { createSessionManager } from "../src/services/sessions.js";
+import { registerMcpRoute } from "../src/routes/mcp.js";
+import { resolveIdentity } from "../src/auth/identity.js";
+import { createFakeSupabase, type FakeSupabase, type FakeRecord } from "./helpers/fakeSupabase.js";
+import { quietConsole, textOf } from "./helpers/harness.js";
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+
+describe("resolveIdentity", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("takes the principal and user from the authenticated key", () => {
+    process.env.DATABASE_USER_ID = BOB;
+    const identity = resolveIdentity({ token: '', clientId: '', scopes: [], extra: { principal: 'laptop', userId: ALICE } });
+    assert.deepEqual(identity, { principal: 'laptop', userId: ALICE });
+  });
+
+  it("falls back to DATABASE_USER_ID, and to no user without it", () => {
+    process.env.DATABASE_USER_ID = BOB;
+    assert.deepEqual(resolveIdentity(), { principal: 'anonymous', userId: BOB });
+
+    process.env.DATABASE_USER_ID = 'not-a-uuid';
+    assert.equal(resolveIdentity().userId, null);
+
+    delete process.env.DATABASE_USER_ID;
+    assert.equal(resolveIdentity({ token: '', clientId: '', scopes: [], extra: { principal: 'laptop' } }).userId, null);
+  });
+});
+
+describe("user-scoped store", () => {
+  let restoreConsole: () => void;
+  let fake: FakeSupabase;
+  let store: PersonalDataStore;
+  let alice: PersonalDataStore;
+  let bobsBook: FakeRecord;
+  let bobsDeleted: FakeRecord;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    fake = createFakeSupabase();
+    fake.seed({ category: 'books', title: 'Dune', user_id: ALICE });
+    bobsBook = fake.seed({ category: 'books', title: 'Emma', user_id: BOB });
+    bobsDeleted = fake.seed({ category: 'books', title: 'Persuasion', user_id: BOB, deleted_at: '2025-01-01T00:00:00Z' });
+    store = createSupabaseStore(fake.client);
+    await initializeDatabase(store);
+    alice = createUserScopedStore(store, ALICE);
+  });
+
+  after(() => {
+    restoreConsole();
+  });
+
+  it("only reads the user's own records, whatever user id is passed", async () => {
+    const extracted = await alice.extractPersonalData({ category: 'books', userId: BOB, limit: 10, offset: 0 });
+    assert.deepEqual(extracted.data!.map((r) => r.title), ['Dune']);
+
+    const searched = await alice.searchPersonalData({ searchText: 'Emma', userId: null, limit: 10, offset: 0 });
+    assert.deepEqual(searched.data, []);
+
+    assert.deepEqual((await alice.getPersonalData({ recordIds: [bobsBook.id] })).data, []);
+    assert.deepEqual((await alice.getRecordHistory({ recordId: bobsBook.id, limit: 10 })).data, []);
+    assert.deepEqual((await alice.listDeletedPersonalData({ limit: 10, offset: 0 })).data, []);
+    assert.deepEqual((await alice.exportPersonalData({ includeDeleted: true })).data!.map((r) => r.title), ['Dune']);
+  });
+
+  it("cannot change, delete or restore another user's records", async () => {
+    assert.equal((await alice.updatePersonalData({ recordId: bobsBook.id, updates: { title: 'Mine' } })).data, false);
+    assert.deepEqual((await alice.deletePersonalData({ recordIds: [bobsBook.id], hardDelete: true })).data, []);
+    assert.deepEqual((await alice.restorePersonalData({ recordIds: [bobsDeleted.id] })).data, []);
+
+    assert.equal(bobsBook.title, 'Emma');
+    assert.ok(fake.records.includes(bobsBook));
+    assert.notEqual(bobsDeleted.deleted_at, null);
+  });
+
+  it("creates records and audit events for the user", async () => {
+    const { data: id } = await alice.createPersonalData({ category: 'books', title: 'Ulysses', content: {}, userId: BOB });
+    assert.equal(fake.records.find((r) => r.id === id)?.user_id, ALICE);
+
+    await alice.recordAuditEvent({
+      session_id: null, user_id: BOB, principal: 'laptop', endpoint: 'mcp', tool: 'x',
+      record_ids: [], classifications: [], outcome: 'success', error: null, duration_ms: 0
+    });
+    assert.equal(fake.auditLog.at(-1)?.user_id, ALICE);
+  });
+
+  it("refuses operations that span all users", async () => {
+    for (const result of [
+      await alice.listRecordsWithoutEmbedding({ model: 'm', limit: 10 }),
+      await alice.listStoredContent({ limit: 10, offset: 0 }),
+      await alice.rewriteStoredContent({ recordId: bobsBook.id, version: null, content: {} }),
+      await alice.saveEmbedding({ recordId: bobsBook.id, embedding: [1], model: 'm' })
+    ]) {
+      assert.match(result.error?.message ?? '', /Not available in a user-scoped session/);
+    }
+  });
+
+  it("shares the category registry", async () => {
+    assert.deepEqual((await alice.getAllCategoryNames()).data, (await store.getAllCategoryNames()).data);
+  });
+
+  it("leaves sessions without a user unscoped", async () => {
+    const unscoped = resolveStore({ store, embeddings: null, identity: { principal: 'laptop', userId: null } });
+    const { data } = await unscoped.extractPersonalData({ category: 'books', limit: 10, offset: 0 });
+    assert.deepEqual(data!.map((r) => r.title).sort(), ['Dune', 'Emma', 'Ulysses']);
+  });
+});
+
+describe("sessions of different users", () => {
+  let restoreConsole: () => void;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    const fake = createFakeSupabase();
+    fake.seed({ category: 'books', title: 'Dune', user_id: ALICE });
+    fake.seed({ category: 'books', title: 'Emma', user_id: BOB });
+    const store = createSupabaseStore(fake.client);
+    await initializeDatabase(store);
+
+    // Stands in for setupAuth(): the X-Principal header names a key bound to a user
+    const users: Record<string, string> = { alice: ALICE, bob: BOB };
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', (req, _res, next) => {
+      const principal = req.headers['x-principal'] as string;
+      req.auth = { token: '', clientId: '', scopes: [], extra: { principal, userId: users[principal] } };
+      next();
+    });
+    registerMcpRoute(app, {
+      path: '/mcp',
+      policyEndpoint: 'mcp',
+      createServer: (identity, accessPolicy) => createMcpServer({ store, identity, accessPolicy, embeddings: null }),
+      sessions: createSessionManager({ idleTimeoutMs: 0, maxSessions: 0 })
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    restoreConsole();
+  });
+
+  it("serves each user their own records and refuses another key's session", async () => {
+    const client = new Client({ name: "datadam-test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { 'X-Principal': 'alice' } }
+    });
+    await client.connect(transport);
+
+    const result = await client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'books', response_format: 'json' } });
+    assert.deepEqual(JSON.parse(textOf(result)).results.map((r: { title: string }) => r.title), ['Dune']);
+
+    const hijacked = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': transport.sessionId!,
+        'X-Principal': 'bob'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'datadam_extract_personal_data', arguments: { category: 'books' } } })
+    });
+    assert.equal(hijacked.status, 403);
+    assert.match((await hijacked.json()).error.message, /different client/);
+
+    await client.close();
+  });
+});
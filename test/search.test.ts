@@ -0,0 +1,176 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createLocalEmbeddingProvider, cosineSimilarity, embeddingText } from "../src/services/embeddings.js";
+import { backfillEmbeddings } from "../src/services/embedding-store.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+// embeddingProvider is a live binding, reassigned by initializeDatabase()
+import { initializeDatabase, embeddingProvider } from "../src/services/database.js";
+import { createFakeSupabase } from "./helpers/fakeSupabase.js";
+import { keywordScore, blendResults } from "../src/utils/ranking.js";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("local embedding provider", () => {
+  const provider = createLocalEmbeddingProvider();
+
+  it("is deterministic and normalised", async () => {
+    const [a, b] = await provider.embed(['Running shoes', 'Running shoes']);
+    assert.deepEqual(a, b);
+    assert.equal(a.length, provider.dimensions);
+    assert.ok(Math.abs(cosineSimilarity(a, a) - 1) < 1e-9);
+  });
+
+  it("scores related text above unrelated text", async () => {
+    const [query, related, unrelated] = await provider.embed(['marathon running', 'I run marathons every spring', 'Favourite pasta recipe']);
+    assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+  });
+
+  it("embeds content keys and values without JSON punctuation", () => {
+    assert.equal(embeddingText({ title: 'Car', content: { make: 'Volvo', service_dates: ['May'] } }), 'Car\nmake\nVolvo\nservice dates\nMay');
+  });
+
+  it("embeds sensitive and confidential records by title alone", () => {
+    assert.equal(embeddingText({ title: 'Passport', content: { number: 'X12341234' }, classification: 'confidential' }), 'Passport');
+    assert.equal(embeddingText({ title: 'Car', content: { make: 'Volvo' }, classification: 'public' }), 'Car\nmake\nVolvo');
+  });
+});
+
+describe("ranking", () => {
+  const record = (id: string, title: string, content: object, updated_at = '2025-01-01T00:00:00Z') => ({
+    id, title, content, user_id: null, tags: [], category: 'interests', classification: 'personal', created_at: updated_at, updated_at
+  });
+
+  it("weights title matches above content matches", () => {
+    assert.equal(keywordScore('rock climbing', record('1', 'Rock climbing', {})), 1);
+    assert.equal(keywordScore('rock climbing', record('1', 'Hobby', { name: 'rock climbing' })), 0.5);
+    assert.equal(keywordScore('rock climbing', record('1', 'Chess', {})), 0);
+  });
+
+  it("blends similarity with keyword score", () => {
+    const keywordOnly = record('k', 'Climbing gym', {});
+    const semanticOnly = { ...record('s', 'Bouldering', {}), similarity: 0.9 };
+    const ranked = blendResults('climbing', [keywordOnly], [semanticOnly], 0.5);
+    assert.deepEqual(ranked.map((r) => [r.id, r.score]), [['k', 0.5], ['s', 0.45]]);
+  });
+});
+
+describe("datadam_search_personal_data modes", () => {
+  const provider = createLocalEmbeddingProvider();
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      embeddings: provider,
+      seed: (fake) => {
+        fake.seed({ category: 'interests', title: 'Marathon training', content: { race: 'Boston', distance: '42km running' } });
+        fake.seed({ category: 'interests', title: 'Sourdough baking', content: { starter: 'rye' } });
+      }
+    });
+    // Seeded records predate the embedding store, as after enabling semantic search
+    await backfillEmbeddings(createSupabaseStore(h.fake.client), provider);
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("keeps keyword search as the default", async () => {
+    const before = h.fake.calls.length;
+    await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'runner' } });
+    assert.deepEqual(h.fake.calls.slice(before).map((c) => c.fn), ['search_personal_data', 'record_audit_event']);
+  });
+
+  it("finds records by similar wording in semantic mode", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_search_personal_data',
+      arguments: { query: 'marathons runner', mode: 'semantic', limit: 1, response_format: 'json' }
+    });
+    const body = JSON.parse(textOf(result));
+    assert.equal(body.results[0].title, 'Marathon training');
+    assert.ok(body.results[0].score > 0);
+  });
+
+  it("embeds new and updated records", async () => {
+    await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'interests', title: 'Chess openings', content: { favourite: 'Sicilian defence' } }
+    });
+    const created = h.fake.records.find((r) => r.title === 'Chess openings')!;
+    assert.equal(created.embedding_model, provider.model);
+
+    const before = created.embedding;
+    await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: created.id, updates: { content: { favourite: 'Queens gambit' } } }
+    });
+    assert.notEqual(created.embedding, before);
+  });
+
+  it("keeps the content of sensitive records out of their embedding", async () => {
+    await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'interests', title: 'Diving log', content: { last_dive: 'Blue Hole' }, classification: 'sensitive' }
+    });
+    const created = h.fake.records.find((r) => r.title === 'Diving log')!;
+    const [titleOnly] = await provider.embed(['Diving log']);
+    assert.deepEqual(JSON.parse(created.embedding!), titleOnly);
+
+    // Raising a record's classification replaces the vector computed from its content
+    const chess = h.fake.records.find((r) => r.title === 'Chess openings')!;
+    await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: chess.id, updates: { classification: 'confidential' } }
+    });
+    assert.deepEqual(JSON.parse(chess.embedding!), (await provider.embed(['Chess openings']))[0]);
+  });
+
+  it("re-embeds sensitive records whose vector was made from their content", async () => {
+    const diving = h.fake.records.find((r) => r.title === 'Diving log')!;
+    // As saved before sensitive records were embedded by title alone
+    diving.embedding = JSON.stringify((await provider.embed([embeddingText({ ...diving, classification: 'personal' })]))[0]);
+    diving.embedding_title_only = undefined;
+
+    assert.equal(await backfillEmbeddings(createSupabaseStore(h.fake.client), provider), 1);
+    assert.deepEqual(JSON.parse(diving.embedding!), (await provider.embed(['Diving log']))[0]);
+    assert.equal(await backfillEmbeddings(createSupabaseStore(h.fake.client), provider), 0);
+  });
+
+  it("ranks hybrid results by blended score", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_search_personal_data',
+      arguments: { query: 'sourdough', mode: 'hybrid' }
+    });
+    assert.match(textOf(result), /\(hybrid search\)/);
+    assert.match(textOf(result), /## 1\. Sourdough baking[\s\S]*Relevance/);
+  });
+});
+
+describe("semantic search disabled", () => {
+  afterEach(() => {
+    delete process.env.DATADAM_EMBEDDING_PROVIDER;
+  });
+
+  it("is turned off by default when the database lacks its schema", async () => {
+    const restoreConsole = quietConsole();
+    const fake = createFakeSupabase();
+    fake.failWith('list_personal_data_without_embedding', 'Could not find the function public.list_personal_data_without_embedding');
+    await initializeDatabase(createSupabaseStore(fake.client));
+    assert.equal(embeddingProvider, null);
+
+    process.env.DATADAM_EMBEDDING_PROVIDER = 'local';
+    await assert.rejects(initializeDatabase(createSupabaseStore(fake.client)), /needs the semantic search schema/);
+    restoreConsole();
+  });
+
+  it("rejects semantic and hybrid modes", async () => {
+    const restoreConsole = quietConsole();
+    const h = await startHarness({ embeddings: null });
+    const result = await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'x', mode: 'hybrid' } });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Semantic search is not enabled/);
+    await h.close();
+    restoreConsole();
+  });
+});
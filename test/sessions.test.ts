@@ -0,0 +1,291 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { initializeDatabase } from "../src/services/database.js";
+import { createSupabaseStore } from "../src/services/supabase.js";
+import type { PersonalDataStore } from "../src/services/store.js";
+import { createMcpServer } from "../src/server.js";
+import { createSessionManager, type SessionManager } from "../src/services/sessions.js";
+import { createPostgresSessionStore } from "../src/services/session-store.js";
+import { createSessionEventStore } from "../src/services/event-store.js";
+import { registerMcpRoute } from "../src/routes/mcp.js";
+import { registerSessionsRoute, SESSIONS_PATH } from "../src/routes/sessions.js";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fakeSupabase.js";
+import { quietConsole } from "./helpers/harness.js";
+
+interface Instance {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+// One server instance; the principal comes from the X-Principal header in place of setupAuth()
+async function startInstance(store: PersonalDataStore, sessions?: SessionManager): Promise<Instance> {
+  const app = express();
+  app.use(express.json());
+  const requireAuth: express.RequestHandler = (req, _res, next) => {
+    req.auth = { token: '', clientId: '', scopes: [], extra: { principal: req.headers['x-principal'] } };
+    next();
+  };
+  app.use('/mcp', requireAuth);
+  if (sessions) {
+    registerSessionsRoute(app, requireAuth, sessions);
+  }
+  registerMcpRoute(app, {
+    path: '/mcp',
+    policyEndpoint: 'mcp',
+    createServer: (identity, accessPolicy) => createMcpServer({ store, identity, accessPolicy, stateless: !sessions }),
+    sessions
+  });
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    async close() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  };
+}
+
+async function connectClient(baseUrl: string, principal: string) {
+  const client = new Client({ name: "datadam-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: { headers: { 'X-Principal': principal } }
+  });
+  await client.connect(transport);
+  return { client, sessionId: transport.sessionId! };
+}
+
+// Sends one JSON-RPC request outside the SDK client, so it can go to any instance
+async function postRpc(baseUrl: string, sessionId: string, principal: string, method: string, params: object = {}) {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId, 'X-Principal': principal },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+  const text = await response.text();
+  const data = text.split('\n').find((line) => line.startsWith('data: '));
+  return { status: response.status, body: JSON.parse(data ? data.slice('data: '.length) : text) };
+}
+
+describe("MCP sessions over HTTP", () => {
+  let restoreConsole: () => void;
+  let instance: Instance;
+  let sessions: SessionManager;
+  let clock = Date.parse('2025-01-01T00:00:00Z');
+  const clients: Client[] = [];
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    process.env.DATADAM_ADMIN_PRINCIPALS = 'ops';
+    const store = createSupabaseStore(createFakeSupabase().client);
+    await initializeDatabase(store);
+
+    sessions = createSessionManager({ idleTimeoutMs: 30 * 60 * 1000, maxSessions: 2 }, { now: () => clock });
+    instance = await startInstance(store, sessions);
+  });
+
+  after(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await instance.close();
+    delete process.env.DATADAM_ADMIN_PRINCIPALS;
+    restoreConsole();
+  });
+
+  const connect = async (principal: string) => {
+    const connected = await connectClient(instance.baseUrl, principal);
+    clients.push(connected.client);
+    return connected;
+  };
+
+  const listSessions = (principal: string) =>
+    fetch(`${instance.baseUrl}${SESSIONS_PATH}`, { headers: { 'X-Principal': principal } });
+
+  it("lists open sessions to admins only", async () => {
+    const { client, sessionId } = await connect('laptop');
+    await client.listTools();
+
+    assert.equal((await listSessions('laptop')).status, 403);
+    const response = await listSessions('ops');
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.count, 1);
+    assert.equal(body.session_store, 'memory');
+    assert.equal(body.max_sessions, 2);
+    assert.equal(body.idle_timeout_minutes, 30);
+    assert.equal(body.results[0].session_id, sessionId);
+    assert.equal(body.results[0].endpoint, '/mcp');
+    assert.equal(body.results[0].principal, 'laptop');
+    assert.equal(body.results[0].local, true);
+  });
+
+  it("rejects requests for another principal's session", async () => {
+    const [{ session_id: sessionId }] = await sessions.list();
+    const { status } = await postRpc(instance.baseUrl, sessionId, 'intruder', 'tools/list');
+    assert.equal(status, 403);
+  });
+
+  it("refuses new sessions past the cap, after closing idle ones", async () => {
+    await connect('laptop');
+    await assert.rejects(connect('laptop'), /Too many active sessions/);
+
+    clock += 31 * 60 * 1000;
+    const { client } = await connect('laptop');
+    await client.listTools();
+    assert.equal(sessions.size, 1);
+  });
+
+  it("closes idle sessions and answers their requests with 404", async () => {
+    const [{ session_id: sessionId }] = await sessions.list();
+    clock += 31 * 60 * 1000;
+    assert.equal(await sessions.closeIdle(), 1);
+    assert.equal(sessions.size, 0);
+
+    const { status, body } = await postRpc(instance.baseUrl, sessionId, 'laptop', 'tools/list');
+    assert.equal(status, 404);
+    assert.match(body.error.message, /Session not found/);
+  });
+});
+
+describe("sessions shared between instances", () => {
+  let restoreConsole: () => void;
+  let fake: FakeSupabase;
+  let first: Instance;
+  let second: Instance;
+  let firstSessions: SessionManager;
+  let client: Client;
+  let sessionId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    fake = createFakeSupabase();
+    const store = createSupabaseStore(fake.client);
+    await initializeDatabase(store);
+
+    const limits = { idleTimeoutMs: 30 * 60 * 1000, maxSessions: 10 };
+    firstSessions = createSessionManager(limits, { store: createPostgresSessionStore(fake.client) });
+    first = await startInstance(store, firstSessions);
+    second = await startInstance(store, createSessionManager(limits, { store: createPostgresSessionStore(fake.client) }));
+    ({ client, sessionId } = await connectClient(first.baseUrl, 'laptop'));
+  });
+
+  after(async () => {
+    await client.close();
+    await Promise.all([first.close(), second.close()]);
+    restoreConsole();
+  });
+
+  // Also guards restoreSession() in routes/mcp.ts, which relies on SDK internals
+  it("serves a session opened on another instance", async () => {
+    assert.equal(fake.mcpSessions.get(sessionId)?.principal, 'laptop');
+
+    const { status, body } = await postRpc(second.baseUrl, sessionId, 'laptop', 'tools/list');
+    assert.equal(status, 200);
+    assert.ok(body.result.tools.some((tool: { name: string }) => tool.name === 'datadam_search_personal_data'));
+
+    assert.equal((await postRpc(second.baseUrl, sessionId, 'intruder', 'tools/list')).status, 403);
+  });
+
+  it("shares confidential unlocks", async () => {
+    const { status } = await postRpc(second.baseUrl, sessionId, 'laptop', 'tools/call', {
+      name: 'datadam_unlock_confidential',
+      arguments: { confirm: true }
+    });
+    assert.equal(status, 200);
+    assert.ok(fake.mcpSessions.get(sessionId)?.unlocked_until);
+
+    await client.listTools();
+    assert.ok(firstSessions.local(sessionId)?.accessPolicy.unlockedUntil());
+  });
+
+  it("ends the session everywhere when the client closes it", async () => {
+    const response = await fetch(`${second.baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId, 'X-Principal': 'laptop' }
+    });
+    assert.equal(response.status, 200);
+    assert.equal(fake.mcpSessions.size, 0);
+
+    assert.equal((await postRpc(first.baseUrl, sessionId, 'laptop', 'tools/list')).status, 404);
+    assert.equal(firstSessions.local(sessionId), undefined);
+  });
+});
+
+describe("stateless mode", () => {
+  let restoreConsole: () => void;
+  let instance: Instance;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    const store = createSupabaseStore(createFakeSupabase().client);
+    await initializeDatabase(store);
+    instance = await startInstance(store);
+  });
+
+  after(async () => {
+    await instance.close();
+    restoreConsole();
+  });
+
+  it("answers every request without a session", async () => {
+    const { client, sessionId } = await connectClient(instance.baseUrl, 'laptop');
+    assert.equal(sessionId, undefined);
+    const { tools } = await client.listTools();
+    assert.ok(tools.length > 0);
+    // An unlock would end with the request that made it
+    assert.ok(!tools.some((tool) => tool.name === 'datadam_unlock_confidential'));
+    await client.close();
+
+    const response = await fetch(`${instance.baseUrl}/mcp`, { headers: { 'X-Principal': 'laptop' } });
+    assert.equal(response.status, 405);
+  });
+
+  it("answers a request it cannot serve with a JSON-RPC error", async () => {
+    const app = express();
+    app.use(express.json());
+    registerMcpRoute(app, {
+      path: '/mcp',
+      policyEndpoint: 'mcp',
+      createServer: () => { throw new Error('connection refused'); }
+    });
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    try {
+      const { status, body } = await postRpc(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, '', 'laptop', 'tools/list');
+      assert.equal(status, 500);
+      assert.equal(body.error.code, -32603);
+      assert.equal(body.id, null);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("session event store", () => {
+  const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+  it("replays later events of the same stream", async () => {
+    const events = createSessionEventStore();
+    const first = await events.storeEvent('a', message(1));
+    await events.storeEvent('b', message(2));
+    const third = await events.storeEvent('a', message(3));
+
+    const replayed: string[] = [];
+    const streamId = await events.replayEventsAfter(first, { send: async (eventId) => { replayed.push(eventId); } });
+    assert.equal(streamId, 'a');
+    assert.deepEqual(replayed, [third]);
+  });
+
+  it("forgets the oldest events", async () => {
+    const events = createSessionEventStore(2);
+    const first = await events.storeEvent('a', message(1));
+    await events.storeEvent('a', message(2));
+    await events.storeEvent('a', message(3));
+    await assert.rejects(events.replayEventsAfter(first, { send: async () => {} }), /no longer available/);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { textOf } from "./helpers/harness.js";
+
+describe("stdio mode", () => {
+  let client: Client;
+
+  before(async () => {
+    client = new Client({ name: "datadam-test", version: "1.0.0" });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', 'src/index.ts', '--stdio'],
+      env: {
+        ...process.env as Record<string, string>,
+        DATADAM_STORAGE: 'local',
+        DATADAM_LOCAL_DATA_FILE: ':memory:',
+        DATADAM_EMBEDDING_PROVIDER: 'none'
+      },
+      // Startup logs go to stderr; anything on stdout would break the protocol
+      stderr: 'ignore'
+    }));
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("serves the same tools as the HTTP endpoint", async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of ['datadam_search_personal_data', 'datadam_create_personal_data', 'datadam_unlock_confidential', 'datadam_get_access_log']) {
+      assert.ok(names.includes(name), name);
+    }
+    const { prompts } = await client.listPrompts();
+    assert.ok(prompts.length > 0);
+  });
+
+  it("stores and reads records", async () => {
+    const created = await client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'books', title: 'Dune', content: { author: 'Frank Herbert' } }
+    });
+    assert.equal(created.isError, undefined, textOf(created));
+
+    const extracted = await client.callTool({
+      name: 'datadam_extract_personal_data',
+      arguments: { category: 'books', response_format: 'json' }
+    });
+    assert.deepEqual(JSON.parse(textOf(extracted)).results.map((r: { title: string }) => r.title), ['Dune']);
+  });
+});
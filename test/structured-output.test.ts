@@ -0,0 +1,99 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("structured tool output", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let johnId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        johnId = fake.seed({ category: 'contacts', title: 'John Smith', content: { email: 'john@example.com' } }).id;
+        fake.seed({ category: 'books', title: 'Dune', content: { author: 'Frank Herbert' } });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("declares an output schema on every tool", async () => {
+    for (const client of [h.client, h.chatgpt]) {
+      const { tools } = await client.listTools();
+      for (const tool of tools) {
+        assert.equal(tool.outputSchema?.type, 'object', tool.name);
+      }
+    }
+  });
+
+  it("returns the JSON response as structuredContent in either format", async () => {
+    const json = await h.client.callTool({
+      name: 'datadam_extract_personal_data',
+      arguments: { category: 'contacts', response_format: 'json' }
+    });
+    assert.deepEqual(json.structuredContent, JSON.parse(textOf(json)));
+
+    const markdown = await h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'contacts' } });
+    assert.match(textOf(markdown), /^Found 1 items/);
+    assert.deepEqual(markdown.structuredContent, json.structuredContent);
+    const list = markdown.structuredContent as any;
+    assert.equal(list.results[0].id, johnId);
+    assert.equal(list.has_more, false);
+    assert.equal(list.next_offset, 1);
+  });
+
+  it("returns an empty page when nothing matches", async () => {
+    const result = await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'nothing like this', offset: 5 } });
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(result.structuredContent, { total: 0, count: 0, results: [], has_more: false, next_offset: 5, next_cursor: null });
+  });
+
+  it("describes writes and possible duplicates", async () => {
+    const created = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'books', title: 'Emma', content: { author: 'Jane Austen' } }
+    });
+    assert.deepEqual(created.structuredContent, {
+      success: true,
+      operation: 'created',
+      title: 'Emma',
+      category: 'books',
+      message: 'Successfully created record: "Emma" in category "books"'
+    });
+
+    const duplicate = await h.client.callTool({
+      name: 'datadam_create_personal_data',
+      arguments: { category: 'books', title: 'Dune', content: { author: 'Frank Herbert' } }
+    });
+    const body = duplicate.structuredContent as any;
+    assert.equal(body.success, false);
+    assert.equal(body.possible_duplicate, true);
+    assert.equal(body.candidates[0].title, 'Dune');
+
+    const deleted = await h.client.callTool({ name: 'datadam_delete_personal_data', arguments: { recordIds: [johnId] } });
+    assert.deepEqual(deleted.structuredContent, {
+      success: true,
+      operation: 'soft deleted',
+      count: 1,
+      message: 'Successfully soft deleted 1 personal data record(s)'
+    });
+  });
+
+  it("leaves structuredContent out of errors", async () => {
+    const result = await h.client.callTool({
+      name: 'datadam_update_personal_data',
+      arguments: { recordId: '00000000-0000-0000-0000-000000000000', updates: { title: 'x' } }
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent, undefined);
+
+    const missing = await h.chatgpt.callTool({ name: 'fetch', arguments: { id: 'missing' } });
+    assert.equal(missing.isError, true);
+    assert.equal(missing.structuredContent, undefined);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, textOf, quietConsole, type Harness } from "./helpers/harness.js";
+
+describe("personal data tools", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+  let johnId: string;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({
+      seed: (fake) => {
+        johnId = fake.seed({
+          category: 'contacts',
+          title: 'John Smith',
+          content: { email: 'john@example.com' },
+          tags: ['work']
+        }).id;
+        fake.seed({ category: 'books', title: 'The Rational Optimist', content: { author: 'Matt Ridley' }, tags: ['favorite'] });
+      }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  it("lists every tool on the main endpoint", async () => {
+    const { tools } = await h.client.listTools();
+    assert.deepEqual(tools.map((t) => t.name).sort(), [
+      'datadam_create_personal_data',
+      'datadam_delete_personal_data',
+      'datadam_export_personal_data',
+      'datadam_extract_personal_data',
+      'datadam_get_access_log',
+      'datadam_get_record_history',
+      'datadam_import_personal_data',
+      'datadam_list_deleted_personal_data',
+      'datadam_merge_personal_data',
+      'datadam_restore_personal_data',
+      'datadam_revert_personal_data',
+      'datadam_search_personal_data',
+      'datadam_unlock_confidential',
+      'datadam_update_personal_data'
+    ]);
+  });
+
+  describe("datadam_search_personal_data", () => {
+    it("returns matching records as JSON", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_search_personal_data',
+        arguments: { query: 'john', response_format: 'json' }
+      });
+      const body = JSON.parse(textOf(result));
+      assert.equal(body.count, 1);
+      assert.equal(body.results[0].id, johnId);
+      assert.equal(body.has_more, false);
+    });
+
+    it("passes filters through to the RPC", async () => {
+      await h.client.callTool({
+        name: 'datadam_search_personal_data',
+        arguments: { query: '"Ridley"', categories: ['books'], tags: ['favorite'], limit: 5 }
+      });
+      const call = h.fake.calls.filter((c) => c.fn === 'search_personal_data').at(-1)!;
+      assert.equal(call.params.p_search_text, 'Ridley');
+      assert.deepEqual(call.params.p_categories, ['books']);
+      assert.deepEqual(call.params.p_tags, ['favorite']);
+      assert.equal(call.params.p_limit, 5);
+    });
+
+    it("auto-detects the category from 'my <category>'", async () => {
+      await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'my books' } });
+      const call = h.fake.calls.filter((c) => c.fn === 'search_personal_data').at(-1)!;
+      assert.deepEqual(call.params.p_categories, ['books']);
+    });
+
+    it("reports when nothing matches", async () => {
+      const result = await h.client.callTool({ name: 'datadam_search_personal_data', arguments: { query: 'nonexistent' } });
+      assert.match(textOf(result), /No results found matching query: "nonexistent"/);
+      assert.ok(!result.isError);
+    });
+
+    it("rejects inactive categories during validation", async () => {
+      await assert.rejects(h.client.callTool({
+        name: 'datadam_search_personal_data',
+        arguments: { query: 'john', categories: ['interests'] }
+      }), /Invalid enum value. Expected 'books' \| 'contacts'/);
+    });
+  });
+
+  describe("datadam_extract_personal_data", () => {
+    it("returns records in the category as markdown", async () => {
+      const result = await h.client.callTool({ name: 'datadam_extract_personal_data', arguments: { category: 'contacts' } });
+      assert.match(textOf(result), /John Smith/);
+      assert.match(textOf(result), new RegExp(johnId));
+    });
+
+    it("reports an empty category filter", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_extract_personal_data',
+        arguments: { category: 'contacts', tags: ['family'] }
+      });
+      assert.match(textOf(result), /No personal data found in category: contacts with tags: family/);
+    });
+  });
+
+  describe("create, update and delete", () => {
+    it("creates a record in any registry category", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_create_personal_data',
+        arguments: { category: 'interests', title: 'Rock climbing', content: { level: 'beginner' }, response_format: 'json' }
+      });
+      const body = JSON.parse(textOf(result));
+      assert.equal(body.success, true);
+      assert.equal(body.category, 'interests');
+      const created = h.fake.records.find((r) => r.title === 'Rock climbing')!;
+      assert.equal(created.classification, 'personal');
+      assert.deepEqual(created.tags, []);
+    });
+
+    it("rejects categories missing from the registry", async () => {
+      await assert.rejects(h.client.callTool({
+        name: 'datadam_create_personal_data',
+        arguments: { category: 'recipes', title: 'Pancakes', content: {} }
+      }), /Invalid arguments for tool datadam_create_personal_data/);
+    });
+
+    it("updates an existing record", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_update_personal_data',
+        arguments: { recordId: johnId, updates: { content: { email: 'john@new.example.com' } } }
+      });
+      assert.match(textOf(result), /Successfully updated record/);
+      assert.equal(h.fake.records.find((r) => r.id === johnId)!.content.email, 'john@new.example.com');
+    });
+
+    it("reports updates to unknown records", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_update_personal_data',
+        arguments: { recordId: '00000000-0000-0000-0000-000000000000', updates: { title: 'x' } }
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Record not found or no changes made/);
+    });
+
+    it("soft deletes and reports partial success", async () => {
+      const target = h.fake.seed({ category: 'contacts', title: 'Temporary' });
+      const result = await h.client.callTool({
+        name: 'datadam_delete_personal_data',
+        arguments: { recordIds: [target.id, '00000000-0000-0000-0000-000000000000'], response_format: 'json' }
+      });
+      const body = JSON.parse(textOf(result));
+      assert.equal(body.count, 1);
+      assert.equal(body.requested_count, 2);
+      assert.ok(h.fake.records.find((r) => r.id === target.id)!.deleted_at);
+    });
+
+    it("hard deletes permanently", async () => {
+      const target = h.fake.seed({ category: 'contacts', title: 'Forget me' });
+      const result = await h.client.callTool({
+        name: 'datadam_delete_personal_data',
+        arguments: { recordIds: [target.id], hardDelete: true }
+      });
+      assert.match(textOf(result), /Successfully permanently deleted 1/);
+      assert.equal(h.fake.records.some((r) => r.id === target.id), false);
+    });
+
+    it("errors when nothing was deleted", async () => {
+      const result = await h.client.callTool({
+        name: 'datadam_delete_personal_data',
+        arguments: { recordIds: ['00000000-0000-0000-0000-000000000000'] }
+      });
+      assert.equal(result.isError, true);
+    });
+  });
+
+  describe("data://categories resource", () => {
+    it("lists active categories with counts", async () => {
+      const { contents } = await h.client.readResource({ uri: 'data://categories' });
+      const text = String(contents[0].text);
+      assert.match(text, /Contacts & Relationships \(\d+ items\)/);
+      assert.match(text, /Books & Reading \(1 items\)/);
+    });
+  });
+});
+
+describe("database errors", () => {
+  let h: Harness;
+  let restoreConsole: () => void;
+
+  before(async () => {
+    restoreConsole = quietConsole();
+    h = await startHarness({ seed: (fake) => { fake.seed({ category: 'contacts', title: 'Jane' }); } });
+    for (const fn of ['search_personal_data', 'extract_personal_data', 'create_personal_data',
+      'update_personal_data', 'delete_personal_data', 'get_active_categories']) {
+      h.fake.failWith(fn, 'connection refused');
+    }
+  });
+
+  after(async () => {
+    await h.close();
+    restoreConsole();
+  });
+
+  const calls: [string, Record<string, unknown>][] = [
+    ['datadam_search_personal_data', { query: 'jane' }],
+    ['datadam_extract_personal_data', { category: 'contacts' }],
+    ['datadam_create_personal_data', { category: 'contacts', title: 'Jim', content: {} }],
+    ['datadam_update_personal_data', { recordId: 'abc', updates: { title: 'x' } }],
+    ['datadam_delete_personal_data', { recordIds: ['abc'] }]
+  ];
+
+  for (const [name, args] of calls) {
+    it(`${name} surfaces the database error`, async () => {
+      const result = await h.client.callTool({ name, arguments: { ...args, response_format: 'json' } });
+      assert.equal(result.isError, true);
+      const body = JSON.parse(textOf(result));
+      assert.equal(body.error, true);
+      assert.equal(body.message, 'Database error: connection refused');
+    });
+  }
+
+  it("the categories resource reports the error", async () => {
+    const { contents } = await h.client.readResource({ uri: 'data://categories' });
+    assert.equal(contents[0].text, 'Error fetching categories: connection refused');
+  });
+});